@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { meteredFetch, meterRequest } from '@/lib/usage-meter'
 
 interface AnalysisRenderRequest {
   base_analysis: string
@@ -39,6 +40,7 @@ const ANALYSIS_STYLES: Record<string, AnalysisStyle> = {
 }
 
 export async function POST(request: NextRequest) {
+  await meterRequest(request)
   try {
     console.log('[v0] Analysis render API called')
     
@@ -134,7 +136,7 @@ async function callPerplexity(analysis: string, stylePrompt: string, apiKey: str
   const timeoutId = setTimeout(() => controller.abort(), 30000) // 30 second timeout for Perplexity
 
   try {
-    const response = await fetch('https://api.perplexity.ai/chat/completions', {
+    const response = await meteredFetch('perplexity', 'https://api.perplexity.ai/chat/completions', {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${apiKey}`,
@@ -182,7 +184,7 @@ async function callOpenAI(analysis: string, stylePrompt: string, apiKey: string)
   const timeoutId = setTimeout(() => controller.abort(), 25000) // 25 second timeout
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    const response = await meteredFetch('openai', 'https://api.openai.com/v1/chat/completions', {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${apiKey}`,
@@ -230,7 +232,7 @@ async function callAnthropic(analysis: string, stylePrompt: string, apiKey: stri
   const timeoutId = setTimeout(() => controller.abort(), 25000) // 25 second timeout
 
   try {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
+    const response = await meteredFetch('anthropic', 'https://api.anthropic.com/v1/messages', {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${apiKey}`,
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server"
 import { rateLimiter, RATE_LIMIT_TIERS } from "@/lib/rate-limiter"
 import { redis } from "@/lib/db"
 import { cache } from "@/lib/cache"
+import { authManager, requireAuth } from "@/lib/auth"
+import { usageMeter, type UsageTier } from "@/lib/usage-meter"
 
 // Analytics endpoint for usage statistics and monitoring
 export async function GET(request: NextRequest) {
@@ -34,9 +36,25 @@ export async function GET(request: NextRequest) {
       case 'overview':
         analyticsData = await getSystemOverview(timeRange)
         break
-      case 'usage':
-        analyticsData = await getUserUsage(identifier, timeRange)
+      case 'usage': {
+        // Usage and spend are private: callers see their own, admins may look anyone up
+        const { authorized, user, session } = await requireAuth(request)
+        if (!authorized || !user || !session) {
+          return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+        }
+        if (!authManager.hasScope(session, "analytics:read")) {
+          return NextResponse.json({ error: "Insufficient scope", requiredScope: "analytics:read" }, { status: 403 })
+        }
+
+        const ownIdentifier = `user:${user.id}`
+        const usageIdentifier = searchParams.get('id') || ownIdentifier
+        if (usageIdentifier !== ownIdentifier && user.role !== 'admin') {
+          return NextResponse.json({ error: "Forbidden", message: "You can only view your own usage" }, { status: 403 })
+        }
+
+        analyticsData = await getUserUsage(usageIdentifier, timeRange)
         break
+      }
       case 'performance':
         analyticsData = await getPerformanceMetrics(timeRange)
         break
@@ -140,6 +158,8 @@ async function getSystemOverview(timeRangeHours: number) {
 
 // Individual user usage analytics
 async function getUserUsage(identifier: string, timeRangeHours: number) {
+  const spend = await getUserSpend(identifier)
+
   // Try each tier to find user's data
   for (const tierConfig of Object.values(RATE_LIMIT_TIERS)) {
     try {
@@ -154,7 +174,8 @@ async function getUserUsage(identifier: string, timeRangeHours: number) {
             hourlyLimit: tierConfig.maxRequests,
             windowSize: `${tierConfig.windowSizeMs / (60 * 1000)} minutes`,
             burstAllowance: tierConfig.burstAllowance || 0
-          }
+          },
+          spend
         }
       }
     } catch (error) {
@@ -166,7 +187,39 @@ async function getUserUsage(identifier: string, timeRangeHours: number) {
     identifier,
     tier: 'none',
     stats: rateLimiter['getEmptyStats'](),
-    rateLimits: null
+    rateLimits: null,
+    spend
+  }
+}
+
+// Metered provider spend for the month against the caller's tier budget
+async function getUserSpend(identifier: string) {
+  try {
+    let tier: UsageTier = 'anonymous'
+    if (identifier.startsWith('user:')) {
+      const user = await authManager.getUserById(identifier.slice('user:'.length))
+      tier = user?.tier || 'free'
+    }
+
+    const [monthly, budget, recentRequests] = await Promise.all([
+      usageMeter.getMonthlyUsage(identifier),
+      usageMeter.checkBudget(identifier, tier),
+      usageMeter.getRecentRequests(identifier, 20)
+    ])
+
+    return {
+      month: monthly.month,
+      costUnits: monthly.cost,
+      budget: budget.budget,
+      remaining: budget.remaining,
+      resetAt: budget.resetAt,
+      budgetExceeded: !budget.allowed,
+      providers: monthly.providers,
+      recentRequests
+    }
+  } catch (error) {
+    console.error(`Error getting spend for ${identifier}:`, error)
+    return null
   }
 }
 
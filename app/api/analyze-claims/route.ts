@@ -1,4 +1,5 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { meteredFetch, meterRequest } from "@/lib/usage-meter"
 
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY
 const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY
@@ -18,6 +19,7 @@ interface ClaimExtractionResult {
 }
 
 export async function POST(request: NextRequest) {
+  await meterRequest(request)
   try {
     const body = await request.json()
     const { input, sessionId } = body
@@ -116,7 +118,7 @@ async function callOpenAI(systemPrompt: string, userPrompt: string) {
   const timeoutId = setTimeout(() => controller.abort(), 25000) // 25 second timeout
   
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    const response = await meteredFetch('openai', 'https://api.openai.com/v1/chat/completions', {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${OPENAI_API_KEY}`,
@@ -155,7 +157,7 @@ async function callOpenAI(systemPrompt: string, userPrompt: string) {
 }
 
 async function callAnthropic(systemPrompt: string, userPrompt: string) {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
+  const response = await meteredFetch('anthropic', 'https://api.anthropic.com/v1/messages', {
     method: 'POST',
     headers: {
       'Authorization': `Bearer ${ANTHROPIC_API_KEY}`,
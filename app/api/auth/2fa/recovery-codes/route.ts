@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, authManager } from '@/lib/auth'
+import { applyRateLimit } from '@/lib/rate-limiter'
+
+// POST /api/auth/2fa/recovery-codes - Replace all recovery codes; needs a current authenticator code
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const { allowed, headers } = await applyRateLimit(request, {
+      windowSizeMs: 15 * 60 * 1000, // 15 minutes
+      maxRequests: 5, // 5 attempts per 15 minutes
+      keyPrefix: 'rate_limit:auth_2fa_recovery'
+    })
+
+    if (!allowed) {
+      return NextResponse.json({
+        success: false,
+        error: "Too many attempts",
+        message: "Please wait before trying again."
+      }, {
+        status: 429,
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json'
+        }
+      })
+    }
+
+    const { authorized, user } = await requireAuth(request)
+
+    if (!authorized || !user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized',
+        message: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (!body.code) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing code',
+        message: 'Enter the code from your authenticator app'
+      }, { status: 400 })
+    }
+
+    const { recoveryCodes, error } = await authManager.regenerateRecoveryCodes(user.id, String(body.code))
+
+    if (error || !recoveryCodes) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unable to regenerate recovery codes',
+        message: error
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      recoveryCodes,
+      message: 'Previous recovery codes no longer work. Store these somewhere safe; they will not be shown again.'
+    })
+  } catch (error) {
+    console.error('Recovery codes API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
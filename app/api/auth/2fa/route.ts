@@ -0,0 +1,208 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, requireRole, authManager } from '@/lib/auth'
+import { applyRateLimit } from '@/lib/rate-limiter'
+
+// Guessing codes is the attack here, so every 2FA call shares one tight budget
+async function limitTwoFactorAttempts(request: NextRequest) {
+  const { allowed, headers } = await applyRateLimit(request, {
+    windowSizeMs: 15 * 60 * 1000, // 15 minutes
+    maxRequests: 10, // 10 attempts per 15 minutes
+    keyPrefix: 'rate_limit:auth_2fa'
+  })
+
+  if (allowed) return null
+
+  return NextResponse.json({
+    success: false,
+    error: "Too many attempts",
+    message: "Please wait before trying again."
+  }, {
+    status: 429,
+    headers: {
+      ...headers,
+      'Content-Type': 'application/json'
+    }
+  })
+}
+
+function unauthorized() {
+  return NextResponse.json({
+    success: false,
+    error: 'Unauthorized',
+    message: 'Authentication required'
+  }, { status: 401 })
+}
+
+// GET /api/auth/2fa - Two-factor status for the signed-in user
+export async function GET(request: NextRequest) {
+  try {
+    const { authorized, user } = await requireAuth(request)
+    if (!authorized || !user) return unauthorized()
+
+    const status = await authManager.getTwoFactorStatus(user.id)
+
+    return NextResponse.json({
+      success: true,
+      twoFactor: status
+    })
+  } catch (error) {
+    console.error('2FA GET error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
+
+// POST /api/auth/2fa - Start enrollment: returns a secret and otpauth:// URI for the authenticator app
+export async function POST(request: NextRequest) {
+  try {
+    const limited = await limitTwoFactorAttempts(request)
+    if (limited) return limited
+
+    const { authorized, user } = await requireAuth(request)
+    if (!authorized || !user) return unauthorized()
+
+    const body = await request.json()
+    if (!body.password || !await authManager.verifyUserPassword(user.id, body.password)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid password',
+        message: 'Confirm your password to set up two-factor authentication'
+      }, { status: 401 })
+    }
+
+    const { secret, otpauthUri, error } = await authManager.beginTwoFactorEnrollment(user.id)
+
+    if (error || !secret) {
+      return NextResponse.json({
+        success: false,
+        error: 'Enrollment failed',
+        message: error
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      secret,
+      otpauthUri,
+      message: 'Add this account to your authenticator app, then confirm with a code'
+    })
+  } catch (error) {
+    console.error('2FA POST error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
+
+// PUT /api/auth/2fa - Confirm enrollment with a code; returns one-time recovery codes
+export async function PUT(request: NextRequest) {
+  try {
+    const limited = await limitTwoFactorAttempts(request)
+    if (limited) return limited
+
+    const { authorized, user } = await requireAuth(request)
+    if (!authorized || !user) return unauthorized()
+
+    const body = await request.json()
+    if (!body.code) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing code',
+        message: 'Enter the code from your authenticator app'
+      }, { status: 400 })
+    }
+
+    const { recoveryCodes, error } = await authManager.confirmTwoFactorEnrollment(user.id, String(body.code))
+
+    if (error || !recoveryCodes) {
+      return NextResponse.json({
+        success: false,
+        error: 'Enrollment failed',
+        message: error
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      recoveryCodes,
+      message: 'Two-factor authentication enabled. Store these recovery codes somewhere safe; they will not be shown again.'
+    })
+  } catch (error) {
+    console.error('2FA PUT error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
+
+// DELETE /api/auth/2fa - Disable 2FA with a code; DELETE /api/auth/2fa?userId= - Reset a user's 2FA (admin only)
+export async function DELETE(request: NextRequest) {
+  try {
+    const limited = await limitTwoFactorAttempts(request)
+    if (limited) return limited
+
+    const { searchParams } = new URL(request.url)
+    const targetUserId = searchParams.get('userId')
+
+    if (targetUserId) {
+      const { authorized, user: admin } = await requireRole(request, 'admin')
+      if (!authorized || !admin) {
+        return NextResponse.json({
+          success: false,
+          error: 'Forbidden',
+          message: 'Admin access required'
+        }, { status: 403 })
+      }
+
+      const reset = await authManager.resetTwoFactor(targetUserId, admin.id)
+      if (!reset) {
+        return NextResponse.json({
+          success: false,
+          error: 'User not found'
+        }, { status: 404 })
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Two-factor authentication reset; the user has been signed out everywhere'
+      })
+    }
+
+    const { authorized, user } = await requireAuth(request)
+    if (!authorized || !user) return unauthorized()
+
+    const body = await request.json().catch(() => ({}))
+    if (!body.code) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing code',
+        message: 'Enter a code from your authenticator app or a recovery code'
+      }, { status: 400 })
+    }
+
+    const { success, error } = await authManager.disableTwoFactor(user.id, String(body.code))
+
+    if (!success) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unable to disable two-factor authentication',
+        message: error
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    })
+  } catch (error) {
+    console.error('2FA DELETE error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
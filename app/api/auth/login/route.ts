@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { authManager, type LoginCredentials } from '@/lib/auth'
+import { authManager, type LoginCredentials, type LoginResult } from '@/lib/auth'
 import { applyRateLimit } from '@/lib/rate-limiter'
 
-// POST /api/auth/login - Authenticate user
+// POST /api/auth/login - Authenticate user; 2FA accounts send { twoFactorToken, code } as a second step
 export async function POST(request: NextRequest) {
   try {
     // Apply rate limiting for login attempts
@@ -27,32 +27,85 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { email, password, rememberMe = false }: LoginCredentials = body
+    const { email, password, twoFactorCode }: LoginCredentials = body
+    const { twoFactorToken, code } = body
 
-    // Validate required fields
-    if (!email || !password) {
+    let result: LoginResult
+
+    if (twoFactorToken) {
+      if (!code) {
+        return NextResponse.json({
+          success: false,
+          error: 'Missing code',
+          message: 'Enter the code from your authenticator app or a recovery code'
+        }, { status: 400 })
+      }
+
+      result = await authManager.completeTwoFactorLogin(twoFactorToken, String(code))
+    } else {
+      // Validate required fields
+      if (!email || !password) {
+        return NextResponse.json({
+          success: false,
+          error: 'Missing credentials',
+          message: 'Email and password are required'
+        }, { status: 400 })
+      }
+
+      // Validate email format
+      if (!authManager.validateEmail(email)) {
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid email format',
+          message: 'Please provide a valid email address'
+        }, { status: 400 })
+      }
+
+      // Attempt login
+      result = await authManager.loginUser({
+        email: email.trim(),
+        password,
+        rememberMe: !!body.rememberMe,
+        twoFactorCode
+      })
+    }
+
+    const { user, token, error, rememberMe = false } = result
+
+    // Password was right; the client asks for a code and retries with this token
+    if (result.twoFactorRequired) {
       return NextResponse.json({
         success: false,
-        error: 'Missing credentials',
-        message: 'Email and password are required'
-      }, { status: 400 })
+        twoFactorRequired: true,
+        twoFactorToken: result.twoFactorToken,
+        message: 'Enter the code from your authenticator app or a recovery code'
+      }, { headers })
     }
 
-    // Validate email format
-    if (!authManager.validateEmail(email)) {
+    // Only reachable with the right password, so this doesn't leak which addresses exist
+    if (error === 'Email not verified') {
       return NextResponse.json({
         success: false,
-        error: 'Invalid email format',
-        message: 'Please provide a valid email address'
-      }, { status: 400 })
+        error: 'Email not verified',
+        message: 'Please verify your email address before signing in'
+      }, { status: 403 })
     }
 
-    // Attempt login
-    const { user, token, error } = await authManager.loginUser({
-      email: email.trim(),
-      password,
-      rememberMe
-    })
+    if (error === 'Too many two-factor attempts') {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication failed',
+        message: 'Too many invalid two-factor codes. Try again in 15 minutes'
+      }, { status: 429, headers })
+    }
+
+    if (error === 'Invalid two-factor code' || error === 'Two-factor challenge expired') {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication failed',
+        message: error
+      }, { status: 401 })
+    }
 
     if (error || !user || !token) {
       // Generic error message for security
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authManager } from '@/lib/auth'
+import { applyRateLimit } from '@/lib/rate-limiter'
+import { sendPasswordResetEmail } from '@/lib/account-emails'
+import { waitUntil } from '@vercel/functions'
+
+// POST /api/auth/password-reset - Email a reset link; the response never reveals whether the address has an account
+export async function POST(request: NextRequest) {
+  try {
+    // Apply strict rate limiting for reset requests
+    const { allowed, headers } = await applyRateLimit(request, {
+      windowSizeMs: 60 * 60 * 1000, // 1 hour
+      maxRequests: 5, // 5 reset requests per hour
+      keyPrefix: 'rate_limit:auth_password_reset'
+    })
+
+    if (!allowed) {
+      return NextResponse.json({
+        success: false,
+        error: "Too many reset requests",
+        message: "Please wait before requesting another reset."
+      }, {
+        status: 429,
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json'
+        }
+      })
+    }
+
+    const body = await request.json()
+    const { email } = body
+
+    if (!email || typeof email !== 'string' || !authManager.validateEmail(email.trim())) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid email format',
+        message: 'Please provide a valid email address'
+      }, { status: 400 })
+    }
+
+    const user = await authManager.getUserByEmail(email.trim())
+    if (user) {
+      // Not awaited: a response that waits on the mail server would reveal that the account exists
+      waitUntil(
+        sendPasswordResetEmail(user)
+          .catch(error => console.error('[Auth] Password reset email failed:', error))
+      )
+    } else {
+      console.log(`[Auth] Password reset requested for unknown address ${email.trim()}`)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'If an account exists for that address, a reset link is on its way'
+    })
+  } catch (error) {
+    console.error('Password reset request API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
+
+// PUT /api/auth/password-reset - Set a new password with the token from a reset link
+export async function PUT(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const { allowed, headers } = await applyRateLimit(request, {
+      windowSizeMs: 60 * 60 * 1000, // 1 hour
+      maxRequests: 10, // 10 reset attempts per hour
+      keyPrefix: 'rate_limit:auth_password_reset_confirm'
+    })
+
+    if (!allowed) {
+      return NextResponse.json({
+        success: false,
+        error: "Rate limit exceeded"
+      }, {
+        status: 429,
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json'
+        }
+      })
+    }
+
+    const body = await request.json()
+    const { token, password } = body
+
+    if (!token || !password) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing required fields',
+        message: 'Token and new password are required'
+      }, { status: 400 })
+    }
+
+    const { user, error } = await authManager.resetPassword(token, password)
+
+    if (error || !user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Password reset failed',
+        message: error || 'Unable to reset password'
+      }, { status: 400 })
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      message: 'Password reset successfully. Please sign in with your new password.'
+    })
+
+    // Every session was signed out, including this browser's
+    response.cookies.set({
+      name: 'auth-token',
+      value: '',
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      maxAge: 0,
+      path: '/'
+    })
+
+    return response
+  } catch (error) {
+    console.error('Password reset API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { requireAuth, authManager } from '@/lib/auth'
-import { applyRateLimit } from '@/lib/rate-limiter'
+import { requireAuth, authManager, API_KEY_SCOPES, type ApiKeyScope } from '@/lib/auth'
+import { applyRateLimit, getTierRateLimit } from '@/lib/rate-limiter'
 
 // PUT /api/auth/profile - Update user profile
 export async function PUT(request: NextRequest) {
@@ -206,6 +206,8 @@ export async function GET(request: NextRequest) {
       }, { status: 401 })
     }
 
+    const apiKeys = await authManager.listApiKeys(user.id)
+
     // Create response with full profile details
     const response = NextResponse.json({
       success: true,
@@ -235,7 +237,8 @@ export async function GET(request: NextRequest) {
         dailyQueryLimit: user.tier === 'free' ? 50 : user.tier === 'premium' ? 1000 : 10000,
         canAccessAnalytics: user.role === 'admin' || user.tier !== 'free',
         canExportData: user.tier !== 'free'
-      }
+      },
+      apiKeys
     })
 
     // Add rate limit headers
@@ -251,4 +254,156 @@ export async function GET(request: NextRequest) {
       error: 'Internal server error'
     }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+// POST /api/auth/profile - Create an API key; the key itself is only ever shown in this response
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const { allowed, headers } = await applyRateLimit(request, {
+      windowSizeMs: 60 * 60 * 1000, // 1 hour
+      maxRequests: 10, // 10 new keys per hour
+      keyPrefix: 'rate_limit:auth_api_keys'
+    })
+
+    if (!allowed) {
+      return NextResponse.json({
+        success: false,
+        error: 'Rate limit exceeded'
+      }, {
+        status: 429,
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json'
+        }
+      })
+    }
+
+    // API keys can't mint or revoke keys; requireAuth rejects them without a scope
+    const { authorized, user } = await requireAuth(request)
+
+    if (!authorized || !user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized',
+        message: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!authManager.canUseFeature(user, 'api_keys')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Email not verified',
+        message: 'Verify your email address before creating API keys'
+      }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { name, scopes, rateLimitPerHour, expiresInDays } = body
+
+    if (typeof name !== 'string' || name.trim().length < 1 || name.trim().length > 100) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid name',
+        message: 'API key name must be between 1 and 100 characters'
+      }, { status: 400 })
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every((scope: any) => API_KEY_SCOPES.includes(scope))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid scopes',
+        message: `Scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}`
+      }, { status: 400 })
+    }
+
+    if (rateLimitPerHour !== undefined && (!Number.isInteger(rateLimitPerHour) || rateLimitPerHour < 1)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid rate limit',
+        message: 'rateLimitPerHour must be a positive integer'
+      }, { status: 400 })
+    }
+
+    if (expiresInDays !== undefined && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > 3650)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid expiry',
+        message: 'expiresInDays must be between 1 and 3650'
+      }, { status: 400 })
+    }
+
+    const { apiKey, key, error } = await authManager.createApiKey(user.id, {
+      name: name.trim(),
+      scopes: Array.from(new Set(scopes as ApiKeyScope[])),
+      // Never more than the owner's plan allows, which is what getApiKeyRateLimit enforces anyway
+      rateLimitPerHour: rateLimitPerHour === undefined ? undefined : Math.min(rateLimitPerHour, getTierRateLimit(user.tier).maxRequests),
+      expiresInDays
+    })
+
+    if (error || !apiKey || !key) {
+      return NextResponse.json({
+        success: false,
+        error: 'API key creation failed',
+        message: error
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      apiKey,
+      key,
+      message: 'Store this key now; it cannot be shown again'
+    }, { status: 201 })
+  } catch (error) {
+    console.error('API key POST error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
+
+// DELETE /api/auth/profile?keyId= - Revoke an API key
+export async function DELETE(request: NextRequest) {
+  try {
+    const { authorized, user } = await requireAuth(request)
+
+    if (!authorized || !user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized',
+        message: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const keyId = searchParams.get('keyId')
+
+    if (!keyId) {
+      return NextResponse.json({
+        success: false,
+        error: 'API key ID is required'
+      }, { status: 400 })
+    }
+
+    const revoked = await authManager.revokeApiKey(user.id, keyId)
+
+    if (!revoked) {
+      return NextResponse.json({
+        success: false,
+        error: 'API key not found'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'API key revoked successfully'
+    })
+  } catch (error) {
+    console.error('API key DELETE error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
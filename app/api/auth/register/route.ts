@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { authManager, type RegisterData } from '@/lib/auth'
 import { applyRateLimit } from '@/lib/rate-limiter'
+import { sendVerificationEmail } from '@/lib/account-emails'
 
 // POST /api/auth/register - Register new user
 export async function POST(request: NextRequest) {
@@ -92,6 +93,8 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    const verificationEmailSent = await sendVerificationEmail(user)
+
     // Generate authentication token
     const token = await authManager.generateToken(user, false)
 
@@ -111,7 +114,8 @@ export async function POST(request: NextRequest) {
         settings: user.settings
       },
       token,
-      requiresEmailVerification: !user.emailVerified
+      requiresEmailVerification: !user.emailVerified,
+      verificationEmailSent
     })
 
     // Add rate limit headers
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth'
+import { applyRateLimit } from '@/lib/rate-limiter'
+import { sendVerificationEmail } from '@/lib/account-emails'
+
+// POST /api/auth/verify-email/resend - Send the signed-in user a new verification link
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const { allowed, headers } = await applyRateLimit(request, {
+      windowSizeMs: 60 * 60 * 1000, // 1 hour
+      maxRequests: 3, // 3 verification emails per hour
+      keyPrefix: 'rate_limit:auth_verify_resend'
+    })
+
+    if (!allowed) {
+      return NextResponse.json({
+        success: false,
+        error: "Rate limit exceeded"
+      }, {
+        status: 429,
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json'
+        }
+      })
+    }
+
+    // Check authentication
+    const { authorized, user } = await requireAuth(request)
+
+    if (!authorized || !user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized',
+        message: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (user.emailVerified) {
+      return NextResponse.json({
+        success: false,
+        error: 'Already verified',
+        message: 'This email address is already verified'
+      }, { status: 400 })
+    }
+
+    const sent = await sendVerificationEmail(user)
+
+    if (!sent) {
+      return NextResponse.json({
+        success: false,
+        error: 'Email delivery failed',
+        message: 'Unable to send the verification email right now'
+      }, { status: 502 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Verification email sent to ${user.email}`
+    })
+  } catch (error) {
+    console.error('Verification resend API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authManager } from '@/lib/auth'
+import { applyRateLimit } from '@/lib/rate-limiter'
+
+async function verify(request: NextRequest, token: string | null) {
+  // Apply rate limiting
+  const { allowed, headers } = await applyRateLimit(request, {
+    windowSizeMs: 60 * 60 * 1000, // 1 hour
+    maxRequests: 20, // 20 verification attempts per hour
+    keyPrefix: 'rate_limit:auth_verify_email'
+  })
+
+  if (!allowed) {
+    return NextResponse.json({
+      success: false,
+      error: "Rate limit exceeded"
+    }, {
+      status: 429,
+      headers: {
+        ...headers,
+        'Content-Type': 'application/json'
+      }
+    })
+  }
+
+  if (!token) {
+    return NextResponse.json({
+      success: false,
+      error: 'Missing token',
+      message: 'A verification token is required'
+    }, { status: 400 })
+  }
+
+  const user = await authManager.verifyEmail(token)
+
+  if (!user) {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid token',
+      message: 'This verification link is invalid or has expired'
+    }, { status: 400 })
+  }
+
+  return NextResponse.json({
+    success: true,
+    message: 'Email verified successfully',
+    user: {
+      id: user.id,
+      email: user.email,
+      emailVerified: user.emailVerified
+    }
+  })
+}
+
+// GET /api/auth/verify-email?token= - Verification link target; browsers are sent back to the app
+export async function GET(request: NextRequest) {
+  try {
+    const token = new URL(request.url).searchParams.get('token')
+    const response = await verify(request, token)
+
+    if ((request.headers.get('accept') || '').includes('text/html')) {
+      const redirectUrl = new URL('/', request.url)
+      redirectUrl.searchParams.set('email_verified', response.ok ? 'true' : 'false')
+      return NextResponse.redirect(redirectUrl)
+    }
+
+    return response
+  } catch (error) {
+    console.error('Email verification GET error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
+
+// POST /api/auth/verify-email - Verify an email address from a token in the body
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    return await verify(request, typeof body.token === 'string' ? body.token : null)
+  } catch (error) {
+    console.error('Email verification POST error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth'
+import { enhancedFactCheckCache, DOMAIN_CACHE_TTLS, type InvalidationCriteria } from '@/lib/enhanced-cache'
+
+// GET /api/cache - Cache metrics and TTL policy (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const { authorized } = await requireRole(request, 'admin')
+
+    if (!authorized) {
+      return NextResponse.json({
+        success: false,
+        error: 'Forbidden',
+        message: 'Admin access required'
+      }, { status: 403 })
+    }
+
+    const metrics = await enhancedFactCheckCache.getMetrics()
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        metrics,
+        ttlPolicy: DOMAIN_CACHE_TTLS
+      },
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('Cache GET error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
+
+// DELETE /api/cache - Invalidate cached verdicts by query, slug, domain or source URL (admin only)
+export async function DELETE(request: NextRequest) {
+  try {
+    const { authorized, user } = await requireRole(request, 'admin')
+
+    if (!authorized || !user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Forbidden',
+        message: 'Admin access required'
+      }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const criteria: InvalidationCriteria = {
+      query: searchParams.get('query') || undefined,
+      slug: searchParams.get('slug') || undefined,
+      domain: searchParams.get('domain') || undefined,
+      sourceUrl: searchParams.get('sourceUrl') || undefined,
+      all: searchParams.get('all') === 'true'
+    }
+
+    if (!criteria.query && !criteria.slug && !criteria.domain && !criteria.sourceUrl && !criteria.all) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing criteria',
+        message: 'Provide query, slug, domain, sourceUrl or all=true'
+      }, { status: 400 })
+    }
+
+    console.log(`[Cache] Invalidation requested by ${user.username}`)
+    const result = await enhancedFactCheckCache.invalidate(criteria)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        criteria,
+        invalidatedEntries: result.entries,
+        invalidatedRedisKeys: result.redisKeys
+      },
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('Cache DELETE error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
@@ -1,8 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { collaborationManager } from '@/lib/websocket-server'
+import {
+  collaborationManager,
+  getCollaborationWebSocketUrl,
+  getCollaborationSession,
+  canJoinCollaborationSession,
+  type CollaborationSessionRecord
+} from '@/lib/websocket-server'
 import { applyRateLimit, RATE_LIMIT_TIERS } from '@/lib/rate-limiter'
+import { authManager, requireAuth } from '@/lib/auth'
 import { redis } from '@/lib/db'
 
+const SESSION_TTL = 24 * 60 * 60 // 24 hours
+
+function unauthorized() {
+  return NextResponse.json({
+    success: false,
+    error: 'Unauthorized',
+    message: 'Authentication required'
+  }, { status: 401 })
+}
+
+function forbidden(message: string) {
+  return NextResponse.json({
+    success: false,
+    error: 'Forbidden',
+    message
+  }, { status: 403 })
+}
+
+function parseUserIds(value: unknown): string[] | null {
+  if (value === undefined) return []
+  if (!Array.isArray(value) || value.some(id => typeof id !== 'string')) return null
+  return [...new Set(value as string[])]
+}
+
 // GET /api/collaboration - Get collaboration statistics and active sessions
 export async function GET(request: NextRequest) {
   try {
@@ -37,8 +68,16 @@ export async function GET(request: NextRequest) {
       // Get overall collaboration statistics
       responseData = await collaborationManager.getConversationStats()
     } else if (conversationId) {
-      // Get specific conversation data
-      const participants = collaborationManager.getConversationParticipants(conversationId)
+      // Presence and messages are visible to the session's members only
+      const { authorized, user } = await requireAuth(request)
+      if (!authorized || !user) return unauthorized()
+
+      const session = await getCollaborationSession(conversationId)
+      if (!session || !canJoinCollaborationSession(session, user.id)) {
+        return forbidden('You are not a member of this collaboration session')
+      }
+
+      const participants = await collaborationManager.getConversationParticipants(conversationId)
       
       // Get recent messages from Redis
       let recentMessages: any[] = []
@@ -57,13 +96,24 @@ export async function GET(request: NextRequest) {
         isActive: participants.length > 0
       }
     } else {
-      // Get all active conversations
-      const activeConversations = collaborationManager.getActiveConversations()
+      // Active conversations the caller is a member of
+      const { authorized, user } = await requireAuth(request)
+      if (!authorized || !user) return unauthorized()
+
+      const activeConversations: string[] = []
+      for (const id of await collaborationManager.getActiveConversations()) {
+        const session = await getCollaborationSession(id)
+        if (session && canJoinCollaborationSession(session, user.id)) activeConversations.push(id)
+      }
+
       responseData = {
-        activeConversations: activeConversations.map(id => ({
-          conversationId: id,
-          participants: collaborationManager.getConversationParticipants(id),
-          participantCount: collaborationManager.getConversationParticipants(id).length
+        activeConversations: await Promise.all(activeConversations.map(async id => {
+          const participants = await collaborationManager.getConversationParticipants(id)
+          return {
+            conversationId: id,
+            participants,
+            participantCount: participants.length
+          }
         }))
       }
     }
@@ -112,13 +162,25 @@ export async function POST(request: NextRequest) {
       })
     }
 
+    // The acting user comes from the auth session, never from the body
+    const { authorized, user, session: authSession } = await requireAuth(request)
+    if (!authorized || !user || !authSession) return unauthorized()
+
     const body = await request.json()
-    const { action, conversationId, userId, username } = body
+    const { action, conversationId } = body
 
-    if (!conversationId || !userId) {
+    if (!conversationId) {
       return NextResponse.json({
         success: false,
-        error: 'conversationId and userId are required'
+        error: 'conversationId is required'
+      }, { status: 400 })
+    }
+
+    const invitedUserIds = parseUserIds(body.invitedUserIds)
+    if (!invitedUserIds) {
+      return NextResponse.json({
+        success: false,
+        error: 'invitedUserIds must be an array of user IDs'
       }, { status: 400 })
     }
 
@@ -128,26 +190,35 @@ export async function POST(request: NextRequest) {
       case 'create_session':
         // Store session metadata in Redis
         try {
-          const sessionData = {
+          const existing = await getCollaborationSession(conversationId)
+          if (existing && existing.createdBy !== user.id) {
+            return NextResponse.json({
+              success: false,
+              error: 'Collaboration session already exists'
+            }, { status: 409 })
+          }
+
+          const sessionData: CollaborationSessionRecord = {
             conversationId,
-            createdBy: userId,
+            createdBy: user.id,
+            invitedUserIds,
             createdAt: Date.now(),
             settings: {
               maxParticipants: body.maxParticipants || 10,
-              requireAuth: body.requireAuth || false,
               readOnly: body.readOnly || false
             }
           }
 
           await redis.setex(
             `collaboration:session:${conversationId}`,
-            24 * 60 * 60, // 24 hours
+            SESSION_TTL,
             JSON.stringify(sessionData)
           )
 
           responseData = {
             sessionCreated: true,
-            websocketUrl: `/api/collaboration/ws?conversationId=${conversationId}&userId=${userId}&username=${encodeURIComponent(username || 'Anonymous')}`,
+            websocketUrl: getCollaborationWebSocketUrl(conversationId),
+            token: await authManager.createCollaborationToken(authSession, conversationId),
             sessionData
           }
         } catch (error) {
@@ -160,21 +231,25 @@ export async function POST(request: NextRequest) {
         break
 
       case 'join_session':
-        // Check if session exists and get join URL
+        // Check the caller may join, then hand out the WebSocket URL and a connection token
         try {
-          const sessionExists = await redis.exists(`collaboration:session:${conversationId}`)
-          
-          if (!sessionExists) {
+          const session = await getCollaborationSession(conversationId)
+
+          if (!session) {
             return NextResponse.json({
               success: false,
               error: 'Collaboration session not found'
             }, { status: 404 })
           }
+          if (!canJoinCollaborationSession(session, user.id)) {
+            return forbidden('You have not been invited to this collaboration session')
+          }
 
           responseData = {
             canJoin: true,
-            websocketUrl: `/api/collaboration/ws?conversationId=${conversationId}&userId=${userId}&username=${encodeURIComponent(username || 'Anonymous')}`,
-            participants: collaborationManager.getConversationParticipants(conversationId)
+            websocketUrl: getCollaborationWebSocketUrl(conversationId),
+            token: await authManager.createCollaborationToken(authSession, conversationId),
+            participants: await collaborationManager.getConversationParticipants(conversationId)
           }
         } catch (error) {
           console.error('Error checking collaboration session:', error)
@@ -185,10 +260,41 @@ export async function POST(request: NextRequest) {
         }
         break
 
+      case 'invite':
+        // Only the creator can add people to the invite list
+        try {
+          const session = await getCollaborationSession(conversationId)
+
+          if (!session) {
+            return NextResponse.json({
+              success: false,
+              error: 'Collaboration session not found'
+            }, { status: 404 })
+          }
+          if (session.createdBy !== user.id) {
+            return forbidden('Only the session creator can invite users')
+          }
+
+          session.invitedUserIds = [...new Set([...(session.invitedUserIds || []), ...invitedUserIds])]
+          const ttl = await redis.ttl(`collaboration:session:${conversationId}`)
+          await redis.setex(`collaboration:session:${conversationId}`, ttl > 0 ? ttl : SESSION_TTL, JSON.stringify(session))
+
+          responseData = {
+            invitedUserIds: session.invitedUserIds
+          }
+        } catch (error) {
+          console.error('Error inviting to collaboration session:', error)
+          return NextResponse.json({
+            success: false,
+            error: 'Failed to update collaboration session'
+          }, { status: 500 })
+        }
+        break
+
       default:
         return NextResponse.json({
           success: false,
-          error: 'Invalid action. Use "create_session" or "join_session"'
+          error: 'Invalid action. Use "create_session", "join_session" or "invite"'
         }, { status: 400 })
     }
 
@@ -247,6 +353,21 @@ export async function DELETE(request: NextRequest) {
       }, { status: 400 })
     }
 
+    const { authorized, user } = await requireAuth(request)
+    if (!authorized || !user) return unauthorized()
+
+    // Without a session record there is no owner to check against, so nothing may be cleaned up
+    const session = await getCollaborationSession(conversationId)
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: 'Collaboration session not found'
+      }, { status: 404 })
+    }
+    if (session.createdBy !== user.id) {
+      return forbidden('Only the session creator can clean up this session')
+    }
+
     try {
       switch (action) {
         case 'cleanup_session':
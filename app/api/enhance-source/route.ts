@@ -1,11 +1,13 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { summarizeSource } from "@/lib/source-summarization"
+import { meterRequest } from "@/lib/usage-meter"
 
 /**
  * On-demand AI source enhancement endpoint
  * Called when user clicks "Generate AI Summary" for individual sources
  */
 export async function POST(request: NextRequest) {
+  await meterRequest(request)
   try {
     const { source, claim } = await request.json()
 
@@ -70,6 +72,7 @@ export async function POST(request: NextRequest) {
  * Batch enhancement endpoint for multiple sources
  */
 export async function PUT(request: NextRequest) {
+  await meterRequest(request)
   try {
     const { sources, claim, maxSources = 10 } = await request.json()
 
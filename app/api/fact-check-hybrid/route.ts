@@ -4,9 +4,12 @@ import { generateSlug } from "@/lib/database"
 import { logQuery } from "@/lib/query-logger"
 import { intelligentSearch } from "@/lib/intelligent-router"
 import { GoogleGenerativeAI, SchemaType, FunctionCallingMode } from "@google/generative-ai"
-import { applyRateLimit, RATE_LIMIT_TIERS, rateLimiter } from "@/lib/rate-limiter"
+import { RATE_LIMIT_TIERS, rateLimiter, getTierRateLimit, getApiKeyRateLimit, getClientIp, type RateLimitConfig } from "@/lib/rate-limiter"
+import { usageMeter, meterRequest, extractTokenUsage } from "@/lib/usage-meter"
 import { authManager } from "@/lib/auth"
-import { webhookManager } from "@/lib/webhook-manager"
+import { webhookManager, summarizeFactCheckSources } from "@/lib/webhook-manager"
+import { enhancedFactCheckCache } from "@/lib/enhanced-cache"
+import { classifyQuery } from "@/lib/query-classifier"
 
 // Initialize Gemini AI Client
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "")
@@ -46,9 +49,11 @@ interface ConsolidatedResult {
 }
 
 export async function POST(request: NextRequest) {
+  await meterRequest(request)
   let query: string | null = null
-  let rateLimitResult: any = null
   let authenticatedUser: any = null
+  let rateLimitConfig: RateLimitConfig = RATE_LIMIT_TIERS.IP_LIMIT
+  let rateLimitIdentifier: string | null = null
   
   try {
     const body = await request.json()
@@ -64,84 +69,61 @@ export async function POST(request: NextRequest) {
 
     // Check for authentication
     const authSession = await authManager.getSessionFromRequest(request)
+    if (authSession && !authManager.hasScope(authSession, "fact-check")) {
+      return NextResponse.json({ error: "Insufficient scope", requiredScope: "fact-check" }, { status: 403 })
+    }
     if (authSession) {
       authenticatedUser = await authManager.getUserById(authSession.userId)
-      console.log(`[Hybrid] Authenticated user: ${authenticatedUser?.username} (${authenticatedUser?.tier})`)
+      console.log(`[Hybrid] Authenticated user: ${authenticatedUser?.username} (${authenticatedUser?.tier})${authSession.apiKeyId ? " via API key" : ""}`)
     }
 
-    // Determine rate limiting based on authentication
-    let rateLimitConfig
-    let rateLimitIdentifier
-
-    if (authenticatedUser) {
-      // Authenticated user - use tier-based rate limiting
-      rateLimitConfig = authenticatedUser.tier === 'premium' ? RATE_LIMIT_TIERS.PREMIUM :
-                       authenticatedUser.tier === 'enterprise' ? RATE_LIMIT_TIERS.ENTERPRISE :
-                       RATE_LIMIT_TIERS.FREE
-      rateLimitIdentifier = `user:${authenticatedUser.id}`
-    } else {
-      // Anonymous user - use IP-based rate limiting
-      rateLimitConfig = RATE_LIMIT_TIERS.IP_LIMIT
-      const forwarded = request.headers.get('x-forwarded-for')
-      const realIP = request.headers.get('x-real-ip')
-      const cfIP = request.headers.get('cf-connecting-ip')
-      rateLimitIdentifier = forwarded?.split(',')[0].trim() || realIP || cfIP || 'unknown'
-    }
-    
-    const { allowed, headers, result } = await applyRateLimit(request, rateLimitConfig, rateLimitIdentifier)
-    rateLimitResult = result
-    
-    if (!allowed) {
-      console.log(`[Hybrid] Rate limit exceeded for ${result.rateLimitType}:`, result)
-      return NextResponse.json({
-        error: "Rate limit exceeded",
-        message: `Too many requests. Limit: ${result.limit} requests per hour. Try again in ${Math.ceil((result.retryAfter || 0) / 60)} minutes.`,
-        rateLimitInfo: {
-          limit: result.limit,
-          remaining: result.remaining,
-          resetTime: new Date(result.resetTime).toISOString(),
-          retryAfter: result.retryAfter,
-          tier: result.rateLimitType
-        }
-      }, { 
-        status: 429,
-        headers: {
-          ...headers,
-          'Content-Type': 'application/json'
-        }
-      })
-    }
+    // Global tier/IP limits are enforced by middleware.ts; this config only keys the analytics log
+    const apiKeySession = authSession?.apiKeyId ? authSession : null
+    rateLimitConfig = apiKeySession ? getApiKeyRateLimit(apiKeySession) :
+      authenticatedUser ? getTierRateLimit(authenticatedUser.tier) :
+      RATE_LIMIT_TIERS.IP_LIMIT
+    const identifier = apiKeySession?.apiKeyId ||
+      (authenticatedUser ? `user:${authenticatedUser.id}` : getClientIp(request))
+    rateLimitIdentifier = identifier
 
     const slug = generateSlug(query)
+    const domain = classifyQuery(query).domain
     const startTime = Date.now()
-    const factCheckResult = await performHybridFactCheck(query, sessionId, slug)
-    const processingTime = Date.now() - startTime
 
-    // Get IP for analytics logging
-    const forwarded = request.headers.get('x-forwarded-for')
-    const realIP = request.headers.get('x-real-ip')
-    const cfIP = request.headers.get('cf-connecting-ip')
-    const identifier = forwarded?.split(',')[0].trim() || realIP || cfIP || 'unknown'
+    // Serve cached dual-engine results; stale ones are re-run in the background
+    const cachedHit = await enhancedFactCheckCache.getWithRevalidation(query, {
+      variant: "hybrid",
+      domain,
+      slug,
+      refresh: (matchedQuery) => performHybridFactCheck(matchedQuery, `revalidate_${Date.now()}`, generateSlug(matchedQuery))
+    })
+
+    let factCheckResult: ConsolidatedResult
+    if (cachedHit) {
+      console.log(`[Hybrid] Serving cached result (similarity ${cachedHit.cache.similarity}, age ${cachedHit.cache.ageSeconds}s)`)
+      factCheckResult = cachedHit.result as ConsolidatedResult
+    } else {
+      factCheckResult = await performHybridFactCheck(query, sessionId, slug)
+      await enhancedFactCheckCache.set(query, factCheckResult, { variant: "hybrid", domain, slug })
+    }
+    const processingTime = Date.now() - startTime
 
     // Log analytics data
-    await rateLimiter.checkRateLimit(
-      identifier,
-      rateLimitConfig,
-      {
-        query,
-        cached: false,
-        processingTime
-      }
-    )
+    await rateLimiter.recordRequestMetadata(identifier, rateLimitConfig, {
+      query,
+      cached: !!cachedHit,
+      processingTime
+    })
 
     const response = NextResponse.json({ 
       ...factCheckResult, 
       slug, 
-      cached: false,
+      cached: !!cachedHit,
+      cache: cachedHit?.cache,
       rateLimitInfo: {
-        remaining: rateLimitResult.remaining,
-        resetTime: new Date(rateLimitResult.resetTime).toISOString(),
-        tier: rateLimitResult.rateLimitType
+        remaining: parseInt(request.headers.get('RateLimit-Remaining') || '0', 10),
+        resetTime: new Date(Date.now() + parseInt(request.headers.get('RateLimit-Reset') || '0', 10) * 1000).toISOString(),
+        tier: request.headers.get('X-RateLimit-Type')
       },
       user: authenticatedUser ? {
         id: authenticatedUser.id,
@@ -150,20 +132,19 @@ export async function POST(request: NextRequest) {
         role: authenticatedUser.role
       } : null
     })
+
+    // Rate limit headers are added by middleware.ts
     
-    // Add rate limit headers
-    Object.entries(headers).forEach(([key, value]) => {
-      response.headers.set(key, value)
-    })
-    
-    // Trigger webhook event for fact-check completion
-    if (authenticatedUser) {
+    // Trigger webhook event for fact-check completion (cache hits aren't new checks)
+    if (authenticatedUser && !cachedHit) {
       try {
         await webhookManager.triggerEvent('fact_check.completed', {
           query,
+          domain,
           verdict: factCheckResult.verdict,
           keyFindings: factCheckResult.keyFindings,
           sources: factCheckResult.sources,
+          ...summarizeFactCheckSources(factCheckResult),
           processingTime,
           slug,
           engineResults: factCheckResult.engineResults,
@@ -185,22 +166,13 @@ export async function POST(request: NextRequest) {
       })
       
       // Log error in rate limiter for analytics
-      if (rateLimitResult) {
-        // Get IP for error logging
-        const forwarded = request.headers.get('x-forwarded-for')
-        const realIP = request.headers.get('x-real-ip')
-        const cfIP = request.headers.get('cf-connecting-ip')
-        const identifier = forwarded?.split(',')[0].trim() || realIP || cfIP || 'unknown'
-        
-        await rateLimiter.checkRateLimit(
-          identifier,
-          RATE_LIMIT_TIERS.IP_LIMIT,
-          {
-            query,
-            cached: false,
-            processingTime: 0
-          }
-        )
+      if (rateLimitIdentifier) {
+        await rateLimiter.recordRequestMetadata(rateLimitIdentifier, rateLimitConfig, {
+          query,
+          cached: false,
+          processingTime: 0,
+          error: true
+        })
       }
 
       // Trigger webhook event for fact-check failure
@@ -448,6 +420,7 @@ async function runGeminiEngine(query: string, sessionId: string) {
     try {
       const result = await chat.generateContent(`Fact-check this claim: "${query}"`)
       clearTimeout(timeoutId)
+      await usageMeter.record("gemini", extractTokenUsage(result.response) || { estimated: true })
       
       const jsonText = result.response.text().replace(/```json/g, '').replace(/```/g, '').trim()
       console.log('[Hybrid] Gemini raw response:', jsonText.substring(0, 200) + '...')
@@ -10,7 +10,7 @@ export async function GET(request: Request) {
     return new Response("Session ID required", { status: 400 })
   }
 
-  const updates = getProgress(sessionId)
+  const updates = await getProgress(sessionId)
 
   return Response.json({
     sessionId,
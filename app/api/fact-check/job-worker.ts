@@ -0,0 +1,102 @@
+// Fact-check job worker: drains fact_check_job_queue outside the request that queued the job
+import { Redis } from 'ioredis'
+import { redis } from '@/lib/db'
+import {
+  createWorkerId,
+  processingListKey,
+  sendHeartbeat,
+  unregisterWorker,
+  recoverDeadWorkers,
+  HEARTBEAT_INTERVAL_MS
+} from '@/lib/queue-workers'
+import { JOB_QUEUES, processFactCheckJob, promoteDueJobRetries } from './jobs'
+
+export interface FactCheckWorkerOptions {
+  concurrency?: number // Jobs in flight at once
+  pollTimeoutSeconds?: number // How long each loop blocks waiting for work
+}
+
+export class FactCheckJobWorker {
+  private running = false
+  private workerId = createWorkerId()
+  private connections: Redis[] = []
+  private loops: Promise<void>[] = []
+  private heartbeatTimer: NodeJS.Timeout | null = null
+
+  constructor(private options: FactCheckWorkerOptions = {}) {}
+
+  async start(): Promise<void> {
+    if (this.running) return
+    this.running = true
+
+    await sendHeartbeat(JOB_QUEUES, this.workerId)
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), HEARTBEAT_INTERVAL_MS)
+    await this.recover()
+
+    const concurrency = this.options.concurrency || 2
+    for (let i = 0; i < concurrency; i++) {
+      // Blocking pops hold their connection, so each loop gets its own
+      const connection = redis.duplicate({ commandTimeout: undefined })
+      this.connections.push(connection)
+      this.loops.push(this.run(connection))
+    }
+
+    console.log(`[JobWorker] Started ${this.workerId} with concurrency ${concurrency}`)
+  }
+
+  // Finish in-flight jobs, then close the blocking connections
+  async stop(): Promise<void> {
+    if (!this.running) return
+    this.running = false
+
+    await Promise.all(this.loops)
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer)
+    await unregisterWorker(JOB_QUEUES, this.workerId)
+    this.connections.forEach(connection => connection.disconnect())
+    this.connections = []
+    this.loops = []
+
+    console.log('[JobWorker] Stopped')
+  }
+
+  private async heartbeat(): Promise<void> {
+    try {
+      await sendHeartbeat(JOB_QUEUES, this.workerId)
+      await this.recover()
+    } catch (error) {
+      console.error('[JobWorker] Heartbeat failed:', error)
+    }
+  }
+
+  // Jobs claimed by a worker that died mid-check go back on the ready queue
+  private async recover(): Promise<void> {
+    const recovered = await recoverDeadWorkers(JOB_QUEUES)
+    if (recovered > 0) {
+      console.log(`[JobWorker] Requeued ${recovered} jobs left in flight by a stopped worker`)
+    }
+  }
+
+  private async run(connection: Redis): Promise<void> {
+    const timeout = this.options.pollTimeoutSeconds || 5
+    const processing = processingListKey(JOB_QUEUES, this.workerId)
+
+    while (this.running) {
+      try {
+        await promoteDueJobRetries()
+
+        const jobId = await connection.brpoplpush(JOB_QUEUES.ready, processing, timeout)
+        if (!jobId) continue
+
+        try {
+          await processFactCheckJob(jobId)
+        } finally {
+          await redis.lrem(processing, 1, jobId)
+        }
+      } catch (error) {
+        console.error('[JobWorker] Job loop error:', error)
+        // Back off so a Redis outage doesn't become a hot loop
+        await new Promise(resolve => setTimeout(resolve, 1000))
+      }
+    }
+  }
+}
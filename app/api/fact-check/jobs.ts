@@ -0,0 +1,226 @@
+// Asynchronous fact-check jobs: queued in Redis, executed by the standalone job worker (npm run worker:fact-checks)
+import crypto from 'crypto'
+import { redis } from '@/lib/db'
+import { authManager } from '@/lib/auth'
+import { webhookManager, summarizeFactCheckSources } from '@/lib/webhook-manager'
+import { classifyQuery } from '@/lib/query-classifier'
+import { performFactCheck } from './pipeline'
+import { updateProgress } from './progress'
+
+export type FactCheckResult = Awaited<ReturnType<typeof performFactCheck>> & { slug: string, cached: boolean }
+
+export type FactCheckJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+export interface FactCheckJob {
+  id: string
+  query: string
+  sessionId: string
+  slug: string
+  userId?: string
+  status: FactCheckJobStatus
+  attempts: number
+  maxAttempts: number
+  result?: FactCheckResult
+  error?: string
+  createdAt: number
+  updatedAt: number
+  startedAt?: number
+  completedAt?: number
+}
+
+export const JOB_QUEUES = {
+  ready: 'fact_check_job_queue', // Job IDs due now
+  processing: 'fact_check_job_processing', // Prefix for each worker's in-flight list
+  retry: 'fact_check_job_retry' // Sorted set of job IDs by next attempt time
+}
+
+const JOB_KEY_PREFIX = 'fact_check_job'
+const JOB_TTL_SECONDS = 24 * 60 * 60 // Results stay retrievable for a day
+const DEFAULT_MAX_ATTEMPTS = 3
+const RETRY_DELAY_MS = 5000
+const RETRY_BACKOFF_MULTIPLIER = 2
+
+function jobKey(jobId: string): string {
+  return `${JOB_KEY_PREFIX}:${jobId}`
+}
+
+async function saveJob(job: FactCheckJob) {
+  job.updatedAt = Date.now()
+  await redis.setex(jobKey(job.id), JOB_TTL_SECONDS, JSON.stringify(job))
+}
+
+export async function getFactCheckJob(jobId: string): Promise<FactCheckJob | null> {
+  const data = await redis.get(jobKey(jobId))
+  return data ? JSON.parse(data) : null
+}
+
+/**
+ * Queue a fact-check for the job worker; callers poll getFactCheckJob for the result
+ */
+export async function enqueueFactCheckJob(
+  query: string,
+  options: { sessionId: string, slug: string, userId?: string, maxAttempts?: number }
+): Promise<FactCheckJob> {
+  const now = Date.now()
+  const job: FactCheckJob = {
+    id: `job_${now}_${crypto.randomBytes(8).toString('hex')}`,
+    query,
+    sessionId: options.sessionId,
+    slug: options.slug,
+    userId: options.userId,
+    status: 'queued',
+    attempts: 0,
+    maxAttempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+    createdAt: now,
+    updatedAt: now
+  }
+
+  await saveJob(job)
+  await redis.lpush(JOB_QUEUES.ready, job.id)
+
+  console.log(`[Jobs] Queued ${job.id} for "${query.substring(0, 80)}"`)
+
+  return job
+}
+
+/**
+ * Cancel a queued or running job. A running check cannot be interrupted mid-flight,
+ * so its result is discarded when it finishes instead.
+ */
+export async function cancelFactCheckJob(jobId: string): Promise<FactCheckJob | null> {
+  const job = await getFactCheckJob(jobId)
+  if (!job) return null
+
+  if (job.status === 'queued' || job.status === 'running') {
+    job.status = 'cancelled'
+    job.completedAt = Date.now()
+    await saveJob(job)
+    await redis.pipeline()
+      .lrem(JOB_QUEUES.ready, 0, jobId)
+      .zrem(JOB_QUEUES.retry, jobId)
+      .exec()
+
+    await updateProgress(job.sessionId, {
+      step: 'cancelled',
+      status: 'error',
+      message: 'Fact-check job cancelled',
+      progress: 100,
+      timestamp: Date.now(),
+      slug: job.slug
+    })
+
+    console.log(`[Jobs] Cancelled ${jobId}`)
+  }
+
+  return job
+}
+
+/**
+ * Run one job taken off the ready queue. A job still marked running was interrupted by a
+ * worker that died mid-check and has been recovered; it counts as a spent attempt.
+ */
+export async function processFactCheckJob(jobId: string): Promise<void> {
+  const job = await getFactCheckJob(jobId)
+  if (!job || (job.status !== 'queued' && job.status !== 'running')) return
+
+  if (job.status === 'running') {
+    console.log(`[Jobs] Resuming ${jobId} after its worker stopped mid-check`)
+    if (job.attempts >= job.maxAttempts) {
+      await handleJobFailure(job, new Error('Worker stopped before the job finished'))
+      return
+    }
+  }
+
+  job.status = 'running'
+  job.attempts++
+  job.startedAt = job.startedAt || Date.now()
+  await saveJob(job)
+
+  console.log(`[Jobs] Running ${jobId} (attempt ${job.attempts}/${job.maxAttempts})`)
+
+  try {
+    const result = await performFactCheck(job.query, job.sessionId, job.slug)
+
+    // The job may have been cancelled while the check was running
+    const latest = await getFactCheckJob(jobId)
+    if (!latest || latest.status === 'cancelled') {
+      console.log(`[Jobs] Discarding result of cancelled job ${jobId}`)
+      return
+    }
+
+    job.status = 'completed'
+    job.result = { ...result, slug: job.slug, cached: false }
+    job.error = undefined
+    job.completedAt = Date.now()
+    await saveJob(job)
+
+    console.log(`[Jobs] Completed ${jobId} in ${job.completedAt - job.startedAt}ms`)
+
+    await webhookManager.triggerEvent('fact_check.completed', {
+      jobId: job.id,
+      query: job.query,
+      slug: job.slug,
+      verdict: result.verdict,
+      domain: result.metadata?.intelligentRouting?.domain || classifyQuery(job.query).domain,
+      sourceCount: result.sources?.length || 0,
+      ...summarizeFactCheckSources(result),
+      processingTimeMs: job.completedAt - job.startedAt
+    }, await getJobUser(job))
+  } catch (error) {
+    await handleJobFailure(job, error)
+  }
+}
+
+async function getJobUser(job: FactCheckJob) {
+  if (!job.userId) return undefined
+  return (await authManager.getUserById(job.userId)) || undefined
+}
+
+async function handleJobFailure(job: FactCheckJob, error: unknown) {
+  const latest = await getFactCheckJob(job.id)
+  if (!latest || latest.status === 'cancelled') return
+
+  job.error = error instanceof Error ? error.message : 'Unknown error'
+
+  if (job.attempts < job.maxAttempts) {
+    const delay = RETRY_DELAY_MS * Math.pow(RETRY_BACKOFF_MULTIPLIER, job.attempts - 1)
+    job.status = 'queued'
+    await saveJob(job)
+    await redis.zadd(JOB_QUEUES.retry, Date.now() + delay, job.id)
+
+    console.log(`[Jobs] ${job.id} failed (${job.error}), retrying in ${delay}ms`)
+    return
+  }
+
+  job.status = 'failed'
+  job.completedAt = Date.now()
+  await saveJob(job)
+
+  console.error(`[Jobs] ${job.id} failed after ${job.attempts} attempts:`, job.error)
+
+  await webhookManager.triggerEvent('fact_check.failed', {
+    jobId: job.id,
+    query: job.query,
+    slug: job.slug,
+    error: job.error,
+    attempts: job.attempts
+  }, await getJobUser(job))
+}
+
+/**
+ * Move retries whose backoff has elapsed back onto the ready queue
+ */
+export async function promoteDueJobRetries(limit: number = 100): Promise<number> {
+  const dueIds = await redis.zrangebyscore(JOB_QUEUES.retry, '-inf', Date.now(), 'LIMIT', 0, limit)
+  let promoted = 0
+
+  for (const jobId of dueIds) {
+    // Only the worker that removes the entry requeues it
+    if (await redis.zrem(JOB_QUEUES.retry, jobId) === 1) {
+      await redis.lpush(JOB_QUEUES.ready, jobId)
+      promoted++
+    }
+  }
+
+  return promoted
+}
@@ -0,0 +1,79 @@
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+import { type NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth"
+import { getFactCheckJob, cancelFactCheckJob, type FactCheckJob } from "../jobs"
+
+// Jobs created by a signed-in user are only visible to that user
+async function canAccessJob(request: NextRequest, job: FactCheckJob): Promise<boolean> {
+  if (!job.userId) return true
+  const { user } = await requireAuth(request, "fact-check")
+  return user?.id === job.userId
+}
+
+// GET /api/fact-check/jobs?id=... - Job status, plus the result once completed
+export async function GET(request: NextRequest) {
+  const jobId = request.nextUrl.searchParams.get("id")
+
+  if (!jobId) {
+    return NextResponse.json({ error: "Job ID is required" }, { status: 400 })
+  }
+
+  try {
+    const job = await getFactCheckJob(jobId)
+
+    if (!job || !(await canAccessJob(request, job))) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      jobId: job.id,
+      status: job.status,
+      query: job.query,
+      sessionId: job.sessionId,
+      slug: job.slug,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      error: job.error,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt,
+      result: job.status === "completed" ? job.result : undefined,
+    })
+  } catch (error) {
+    console.error("[v0] Job status error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// DELETE /api/fact-check/jobs?id=... - Cancel a queued or running job
+export async function DELETE(request: NextRequest) {
+  const jobId = request.nextUrl.searchParams.get("id")
+
+  if (!jobId) {
+    return NextResponse.json({ error: "Job ID is required" }, { status: 400 })
+  }
+
+  try {
+    const existing = await getFactCheckJob(jobId)
+
+    if (!existing || !(await canAccessJob(request, existing))) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+
+    const job = await cancelFactCheckJob(jobId)
+
+    if (!job || job.status !== "cancelled") {
+      return NextResponse.json({
+        error: `Job already ${existing.status}`,
+        status: existing.status,
+      }, { status: 409 })
+    }
+
+    return NextResponse.json({ jobId: job.id, status: job.status })
+  } catch (error) {
+    console.error("[v0] Job cancel error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,5 +1,9 @@
 // Enhanced progress tracking for fact-check operations with full transparency
-interface ProgressUpdate {
+import crypto from 'crypto'
+import type { Redis } from 'ioredis'
+import { redis } from '@/lib/db'
+
+export interface ProgressUpdate {
   step: string
   status: "starting" | "in-progress" | "completed" | "error"
   message?: string
@@ -24,7 +28,7 @@ interface ProgressUpdate {
   }
 }
 
-interface ProgressSubstep {
+export interface ProgressSubstep {
   name: string
   status: "pending" | "running" | "completed" | "failed"
   details?: string
@@ -32,10 +36,45 @@ interface ProgressSubstep {
   duration?: number
 }
 
-// In-memory storage for progress updates
+// Redis layout: an append-only list of raw updates per session, folded on read so
+// concurrent writers from different instances never overwrite each other
+const PROGRESS_KEY_PREFIX = 'progress'
+const PROGRESS_CHANNEL_PREFIX = 'progress:channel'
+const PROGRESS_TTL_SECONDS = 2 * 60 * 60 // 2 hours, matching the in-memory cleanup
+const MAX_RAW_UPDATES = 500
+const REDIS_RETRY_COOLDOWN_MS = 60 * 1000
+
+// Lets this instance skip its own pub/sub messages (local listeners are called directly)
+const INSTANCE_ID = crypto.randomBytes(8).toString('hex')
+
+// In-memory storage for progress updates (fallback when Redis is unavailable)
 const progressStore = new Map<string, ProgressUpdate[]>()
 
-export function updateProgress(sessionId: string, update: ProgressUpdate) {
+// Live listeners per session (used by the SSE stream)
+type ProgressListener = (update: ProgressUpdate) => void
+const progressListeners = new Map<string, Set<ProgressListener>>()
+
+let redisUnavailableUntil = 0
+let subscriber: Redis | null = null
+
+function progressKey(sessionId: string): string {
+  return `${PROGRESS_KEY_PREFIX}:${sessionId}`
+}
+
+function progressChannel(sessionId: string): string {
+  return `${PROGRESS_CHANNEL_PREFIX}:${sessionId}`
+}
+
+function isRedisAvailable(): boolean {
+  return Date.now() >= redisUnavailableUntil
+}
+
+function markRedisUnavailable(error: unknown) {
+  redisUnavailableUntil = Date.now() + REDIS_RETRY_COOLDOWN_MS
+  console.error('[Progress] Redis unavailable, using in-memory progress store:', error instanceof Error ? error.message : error)
+}
+
+export async function updateProgress(sessionId: string, update: ProgressUpdate) {
   if (!sessionId) return
 
   console.log(`[Progress] ${sessionId}: ${update.step} - ${update.message}`, {
@@ -45,20 +84,57 @@ export function updateProgress(sessionId: string, update: ProgressUpdate) {
     credibility: update.credibilityAnalysis
   })
 
+  updateMemoryProgress(sessionId, update)
+  notifyListeners(sessionId, update)
+
+  if (!isRedisAvailable()) return
+
+  try {
+    const key = progressKey(sessionId)
+    await redis.pipeline()
+      .rpush(key, JSON.stringify(update))
+      .ltrim(key, -MAX_RAW_UPDATES, -1)
+      .expire(key, PROGRESS_TTL_SECONDS)
+      .publish(progressChannel(sessionId), JSON.stringify({ instanceId: INSTANCE_ID, update }))
+      .exec()
+  } catch (error) {
+    markRedisUnavailable(error)
+  }
+}
+
+function updateMemoryProgress(sessionId: string, update: ProgressUpdate) {
   if (!progressStore.has(sessionId)) {
     progressStore.set(sessionId, [])
   }
 
   const updates = progressStore.get(sessionId)!
-  
+  applyUpdate(updates, update)
+
+  // Keep only the last 30 updates per session for detailed tracking
+  if (updates.length > 30) {
+    updates.splice(0, updates.length - 30)
+  }
+
+  // Clean up old sessions (older than 2 hours for better user experience)
+  const twoHoursAgo = Date.now() - 2 * 60 * 60 * 1000
+  for (const [id, sessionUpdates] of progressStore.entries()) {
+    const lastUpdate = sessionUpdates[sessionUpdates.length - 1]
+    if (lastUpdate && lastUpdate.timestamp < twoHoursAgo) {
+      progressStore.delete(id)
+    }
+  }
+}
+
+// Merge an update into the per-step list, one entry per step
+function applyUpdate(updates: ProgressUpdate[], update: ProgressUpdate) {
   // Check if we already have an entry for this step
   const existingIndex = updates.findIndex(existing => existing.step === update.step)
-  
+
   if (existingIndex !== -1) {
     // Update the existing entry with detailed merging
     const existing = updates[existingIndex]
-    updates[existingIndex] = { 
-      ...existing, 
+    updates[existingIndex] = {
+      ...existing,
       ...update,
       // Merge substeps intelligently
       substeps: mergeSubsteps(existing.substeps || [], update.substeps || []),
@@ -67,41 +143,25 @@ export function updateProgress(sessionId: string, update: ProgressUpdate) {
       // Update engine details
       engineDetails: { ...existing.engineDetails, ...update.engineDetails }
     }
-    console.log(`[Progress] Updated step '${update.step}' - Status: ${update.status}`)
   } else {
     // Add new entry
     updates.push(update)
-    console.log(`[Progress] Added new step '${update.step}' - ${update.message}`)
-  }
-
-  // Keep only the last 30 updates per session for detailed tracking
-  if (updates.length > 30) {
-    updates.splice(0, updates.length - 30)
-  }
-
-  // Clean up old sessions (older than 2 hours for better user experience)
-  const twoHoursAgo = Date.now() - 2 * 60 * 60 * 1000
-  for (const [id, sessionUpdates] of progressStore.entries()) {
-    const lastUpdate = sessionUpdates[sessionUpdates.length - 1]
-    if (lastUpdate && lastUpdate.timestamp < twoHoursAgo) {
-      progressStore.delete(id)
-    }
   }
 }
 
 // Helper function to merge substeps intelligently
 function mergeSubsteps(existing: ProgressSubstep[], incoming: ProgressSubstep[]): ProgressSubstep[] {
   const merged = [...existing]
-  
+
   for (const newSubstep of incoming) {
     const existingIndex = merged.findIndex(s => s.name === newSubstep.name)
     if (existingIndex !== -1) {
       // Update existing substep
-      merged[existingIndex] = { 
-        ...merged[existingIndex], 
+      merged[existingIndex] = {
+        ...merged[existingIndex],
         ...newSubstep,
-        duration: newSubstep.status === 'completed' && merged[existingIndex].timestamp 
-          ? newSubstep.timestamp - merged[existingIndex].timestamp 
+        duration: newSubstep.status === 'completed' && merged[existingIndex].timestamp
+          ? newSubstep.timestamp - merged[existingIndex].timestamp
           : merged[existingIndex].duration
       }
     } else {
@@ -109,14 +169,92 @@ function mergeSubsteps(existing: ProgressSubstep[], incoming: ProgressSubstep[])
       merged.push(newSubstep)
     }
   }
-  
+
   return merged
 }
 
-export function getProgress(sessionId: string): ProgressUpdate[] {
+export async function getProgress(sessionId: string): Promise<ProgressUpdate[]> {
+  if (isRedisAvailable()) {
+    try {
+      const rawUpdates = await redis.lrange(progressKey(sessionId), 0, -1)
+      if (rawUpdates.length > 0) {
+        const updates: ProgressUpdate[] = []
+        for (const raw of rawUpdates) {
+          try {
+            applyUpdate(updates, JSON.parse(raw))
+          } catch {
+            // Skip malformed entries
+          }
+        }
+        return updates.slice(-30)
+      }
+    } catch (error) {
+      markRedisUnavailable(error)
+    }
+  }
+
   return progressStore.get(sessionId) || []
 }
 
-export function clearProgress(sessionId: string) {
+export async function clearProgress(sessionId: string) {
   progressStore.delete(sessionId)
+
+  if (!isRedisAvailable()) return
+
+  try {
+    await redis.del(progressKey(sessionId))
+  } catch (error) {
+    markRedisUnavailable(error)
+  }
+}
+
+function notifyListeners(sessionId: string, update: ProgressUpdate) {
+  progressListeners.get(sessionId)?.forEach(listener => {
+    try {
+      listener(update)
+    } catch (error) {
+      console.error(`[Progress] Listener error for ${sessionId}:`, error)
+    }
+  })
+}
+
+// One shared subscriber connection fans Redis messages out to local listeners
+function getSubscriber(): Redis | null {
+  if (subscriber) return subscriber
+  if (!isRedisAvailable()) return null
+
+  subscriber = redis.duplicate()
+  subscriber.on('error', (error) => {
+    console.error('[Progress] Subscriber error:', error.message)
+  })
+  subscriber.on('message', (channel: string, message: string) => {
+    const sessionId = channel.slice(PROGRESS_CHANNEL_PREFIX.length + 1)
+    try {
+      const { instanceId, update } = JSON.parse(message)
+      if (instanceId !== INSTANCE_ID) {
+        notifyListeners(sessionId, update)
+      }
+    } catch (error) {
+      console.error(`[Progress] Invalid pub/sub message for ${sessionId}:`, error)
+    }
+  })
+
+  return subscriber
+}
+
+export function subscribeToProgress(sessionId: string, listener: ProgressListener): () => void {
+  if (!progressListeners.has(sessionId)) {
+    progressListeners.set(sessionId, new Set())
+    getSubscriber()?.subscribe(progressChannel(sessionId)).catch(markRedisUnavailable)
+  }
+  progressListeners.get(sessionId)!.add(listener)
+
+  return () => {
+    const listeners = progressListeners.get(sessionId)
+    listeners?.delete(listener)
+    if (listeners && listeners.size === 0) {
+      progressListeners.delete(sessionId)
+      subscriber?.unsubscribe(progressChannel(sessionId)).catch(() => {})
+    }
+  }
 }
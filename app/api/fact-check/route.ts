@@ -1,12 +1,13 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { updateProgress } from "./progress"
 import { generateSlug } from "@/lib/database"
 import { logQuery } from "@/lib/query-logger"
-import { enhanceSourcesWithSummaries } from "@/lib/source-summarization"
-import { enhanceSourcesWithPerplexity } from "@/lib/perplexity-source-enhancement"
-import { intelligentSearch, getSearchSummary } from "@/lib/intelligent-router"
+import { authManager } from "@/lib/auth"
+import { performFactCheck, getCachedFactCheck } from "./pipeline"
+import { enqueueFactCheckJob } from "./jobs"
+import { meterRequest } from "@/lib/usage-meter"
 
 export async function GET(request: NextRequest) {
+  await meterRequest(request)
   const query = request.nextUrl.searchParams.get("query")
   
   try {
@@ -16,7 +17,19 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Query parameter is required" }, { status: 400 })
     }
 
+    // Anonymous checks are allowed, but credentials that lack the scope are refused
+    const authSession = await authManager.getSessionFromRequest(request)
+    if (authSession && !authManager.hasScope(authSession, "fact-check")) {
+      return NextResponse.json({ error: "Insufficient scope", requiredScope: "fact-check" }, { status: 403 })
+    }
+
     const slug = generateSlug(query)
+
+    const cachedResult = await getCachedFactCheck(query, slug)
+    if (cachedResult) {
+      return NextResponse.json(cachedResult)
+    }
+
     const result = await performFactCheck(query, sessionId, slug)
 
     return NextResponse.json({ ...result, slug, cached: false })
@@ -36,11 +49,12 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  await meterRequest(request)
   let query: string | null = null
   
   try {
     const body = await request.json()
-    const { query: bodyQuery, sessionId: providedSessionId } = body
+    const { query: bodyQuery, sessionId: providedSessionId, async: runAsync } = body
     query = bodyQuery
     const sessionId = providedSessionId || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 
@@ -51,7 +65,33 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Query is required" }, { status: 400 })
     }
 
+    // Anonymous checks are allowed, but credentials that lack the scope are refused
+    const authSession = await authManager.getSessionFromRequest(request)
+    if (authSession && !authManager.hasScope(authSession, "fact-check")) {
+      return NextResponse.json({ error: "Insufficient scope", requiredScope: "fact-check" }, { status: 403 })
+    }
+
     const slug = generateSlug(query)
+
+    // Long checks can outlive the request; queue them and let the client poll the job
+    if (runAsync) {
+      const job = await enqueueFactCheckJob(query, { sessionId, slug, userId: authSession?.userId })
+
+      return NextResponse.json({
+        jobId: job.id,
+        status: job.status,
+        sessionId,
+        slug,
+        statusUrl: `/api/fact-check/jobs?id=${job.id}`,
+        progressUrl: `/api/fact-check-progress?sessionId=${sessionId}`,
+      }, { status: 202 })
+    }
+
+    const cachedResult = await getCachedFactCheck(query, slug)
+    if (cachedResult) {
+      return NextResponse.json(cachedResult)
+    }
+
     const result = await performFactCheck(query, sessionId, slug)
 
     return NextResponse.json({ ...result, slug, cached: false })
@@ -69,1827 +109,3 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
 }
-
-async function performFactCheck(query: string, sessionId: string, slug: string) {
-  const startTime = Date.now()
-  
-  await updateProgress(sessionId, {
-    step: "initializing",
-    status: "in-progress",
-    message: "Initializing fact-check analysis",
-    progress: 10,
-    timestamp: Date.now(),
-  })
-
-  // Phase 0: Query Normalization
-  console.log(`[v0] Original query: ${query}`)
-  const normalizedQuery = await normalizeQuery(query)
-  console.log(`[v0] Normalized query: ${normalizedQuery}`)
-
-  // Phase 1: Claim extraction and analysis
-  await updateProgress(sessionId, {
-    step: "analyzing-claims",
-    status: "in-progress", 
-    message: "Extracting verifiable claims",
-    progress: 15,
-    timestamp: Date.now(),
-  })
-
-  let claims: any[] = []
-  let claimExtractionResult: any = null
-  
-  try {
-    // Extract claims using internal function (avoid HTTP self-call) - use normalized query
-    console.log('[v0] Extracting claims directly...')
-    claimExtractionResult = await extractClaimsInternal(normalizedQuery, sessionId)
-    claims = claimExtractionResult.claims || []
-    console.log(`[v0] Extracted ${claims.length} claims:`, claims.map((c: any) => c.text))
-  } catch (error) {
-    console.error('[v0] Error in claim extraction:', error)
-    console.log('[v0] Using fast fallback to single claim processing')
-    // Fast fallback: treat entire normalized query as single claim
-    claims = [{
-      id: 1, 
-      text: normalizedQuery,
-      priority: 'high',
-      searchQuery: normalizedQuery
-    }]
-  }
-
-  await updateProgress(sessionId, {
-    step: "analyzing-claims",
-    status: "completed",
-    progress: 20,
-    timestamp: Date.now(),
-  })
-
-  let claimResults: any[] = []
-  const errors: any = {}
-
-  // Mark initialization as completed
-  await updateProgress(sessionId, {
-    step: "initializing", 
-    status: "completed",
-    progress: 25,
-    timestamp: Date.now(),
-  })
-
-  // Phase 2: Intelligent Domain-Specific Routing
-  try {
-    await updateProgress(sessionId, {
-      step: "querying-ai",
-      status: "in-progress",
-      message: "Analyzing query domain and routing to authoritative sources",
-      progress: 30,
-      timestamp: Date.now(),
-    })
-
-    // Use intelligent routing system for domain-specific fact-checking
-    console.log(`[v0] Using intelligent routing for domain-specific analysis`)
-    
-    const intelligentResult = await intelligentSearch(normalizedQuery, {
-      maxSourcesPerAPI: 200, // UNLIMITED - get ALL available sources from each API
-      parallelExecution: true,
-      fallbackToGeneral: true,
-      timeoutMs: 60000 // Maximum timeout for comprehensive source gathering
-    })
-
-    console.log(`[v0] Intelligent routing completed: ${intelligentResult.sources.length} sources from ${Object.keys(intelligentResult.apiResults).length} APIs`)
-    console.log(`[v0] Domain classified as: ${intelligentResult.context.domain} (${(intelligentResult.context.confidence * 100).toFixed(1)}% confidence)`)
-
-    // Transform intelligent routing result into compatible format
-    claimResults = [{
-      claim: {
-        id: 1,
-        text: normalizedQuery,
-        priority: 'high',
-        searchQuery: normalizedQuery
-      },
-      perplexity: intelligentResult.sources.length > 0 ? {
-        choices: [{
-          message: {
-            content: intelligentResult.primaryAnalysis || `Analysis with ${intelligentResult.sources.length} sources`,
-            search_results: intelligentResult.sources
-          }
-        }],
-        search_results: intelligentResult.sources,
-        citations: intelligentResult.sources.map(s => s.url)
-      } : null,
-      factCheck: null, // Will be handled separately if available
-      method: 'intelligent-routing',
-      intelligentData: intelligentResult,
-      errors: Object.keys(intelligentResult.apiResults)
-        .filter(api => intelligentResult.apiResults[api].error)
-        .reduce((errs, api) => {
-          errs[api] = intelligentResult.apiResults[api].error
-          return errs
-        }, {} as any)
-    }]
-
-    // Mark AI querying as completed
-    await updateProgress(sessionId, {
-      step: "querying-ai",
-      status: "completed",
-      progress: 60,
-      timestamp: Date.now(),
-    })
-  } catch (error) {
-    console.error('[v0] Error in intelligent routing:', error)
-    errors.intelligentRouting = `Intelligent routing error: ${error}`
-    
-    // Fallback to basic claim processing
-    console.log('[v0] Falling back to basic processing')
-    claimResults = [{
-      claim: {
-        id: 1,
-        text: normalizedQuery,
-        priority: 'high',
-        searchQuery: normalizedQuery
-      },
-      perplexity: null,
-      factCheck: null,
-      method: 'fallback',
-      errors: { intelligent: `Routing failed: ${error}` }
-    }]
-  }
-
-  // Phase 2.5: Additional source enhancement is now handled by intelligent routing
-  // The intelligent router already includes OpenAlex, arXiv, PubMed, and other specialized APIs
-  let openAlexSources: any[] = []
-  let wikidataSources: any[] = []
-  
-  console.log(`[v0] Specialized source integration handled by intelligent routing system`)
-
-  await updateProgress(sessionId, {
-    step: "processing",
-    status: "in-progress",
-    message: "Synthesizing claim verification results",
-    progress: 75,
-    timestamp: Date.now(),
-  })
-
-  const result = parseAndCombineClaimResults(claimResults, claims, query, claimExtractionResult, openAlexSources, wikidataSources)
-
-  // Phase 3: Instant Perplexity-based Source Enhancement
-  console.log(`[v0] Source Enhancement: Creating instant summaries using Perplexity content`)
-  
-  await updateProgress(sessionId, {
-    step: "processing",
-    status: "in-progress", 
-    message: "Creating intelligent source summaries",
-    progress: 80,
-    timestamp: Date.now(),
-  })
-
-  // Enhance sources with instant Perplexity-based summaries (no API calls needed)
-  if (result.sources && result.sources.length > 0) {
-    const enhancedSources = enhanceSourcesWithPerplexity(result.sources, query)
-    result.sources = enhancedSources
-    console.log(`[v0] Source Enhancement: Successfully enhanced ${result.sources.length} sources with instant summaries`)
-  }
-  
-  await updateProgress(sessionId, {
-    step: "processing",
-    status: "in-progress", 
-    message: "Source enhancement completed",
-    progress: 90,
-    timestamp: Date.now(),
-  })
-
-  // Mark processing as completed
-  await updateProgress(sessionId, {
-    step: "processing",
-    status: "completed",
-    progress: 90,
-    timestamp: Date.now(),
-  })
-
-  await updateProgress(sessionId, {
-    step: "complete",
-    status: "completed",
-    message: "Fact-check analysis complete",
-    progress: 100,
-    timestamp: Date.now(),
-    slug: slug,
-  })
-
-  // Log successful query
-  const processingTime = Date.now() - startTime
-  // Get the predominant method used from claim results
-  const methods = claimResults.map(r => r.method).filter(Boolean)
-  const resultType = methods.length > 0 ? methods[0] : 'unknown'
-  
-  await logQuery(query, true, {
-    processingTimeMs: processingTime,
-    resultType: resultType,
-    sourceCount: result.sources?.length || 0,
-    method: 'POST'
-  })
-
-  return {
-    ...result,
-    originalQuery: query,
-    normalizedQuery: normalizedQuery,
-    errors: Object.keys(errors).length > 0 ? errors : undefined,
-    debug: {
-      claimResults: claimResults,
-      originalQuery: query,
-      normalizedQuery: normalizedQuery,
-      claimExtractionResult: claimExtractionResult,
-      processingStats: {
-        totalClaims: claims.length,
-        successfulClaims: claimResults.filter(r => r.perplexity || r.factCheck).length,
-        failedClaims: claimResults.filter(r => !r.perplexity && !r.factCheck).length
-      }
-    },
-  }
-}
-
-function parseAndCombineClaimResults(claimResults: any[], claims: any[], query: string, claimExtractionResult: any, openAlexSources: any[] = [], wikidataSources: any[] = []) {
-  console.log(`[v0] Parsing results for ${claimResults.length} claims`)
-  
-  // Check if this is intelligent routing result
-  const isIntelligentRouting = claimResults.length > 0 && claimResults[0].method === 'intelligent-routing'
-  
-  // Aggregate all results from parallel claim processing
-  let allSources: any[] = []
-  let allFactCheckReviews: any[] = []
-  let claimVerifications: any[] = []
-  let aggregatedKeyPoints: string[] = []
-  let aggregatedExplanation = ""
-  let overallVerdict = { label: "Unclear", confidence: 0.5, summary: "Analysis in progress" }
-  let intelligentContext: any = null
-  
-  // Process each claim result
-  claimResults.forEach((claimResult, index) => {
-    const { claim, perplexity, factCheck, errors, intelligentData } = claimResult
-    
-    // Store intelligent routing context
-    if (intelligentData) {
-      intelligentContext = intelligentData.context
-      console.log(`[v0] Domain classification: ${intelligentContext.domain} (${(intelligentContext.confidence * 100).toFixed(1)}% confidence)`)
-    }
-    
-    let claimVerdict = { label: "Unclear", confidence: 0.5, summary: "Unable to verify" }
-    let claimKeyPoints: string[] = []
-    let claimExplanation = ""
-    let claimSources: any[] = []
-    
-    // Handle intelligent routing results
-    if (intelligentData) {
-      // Use sources directly from intelligent routing
-      claimSources = intelligentData.sources || []
-      claimExplanation = intelligentData.primaryAnalysis || "Domain-specific analysis completed"
-      
-      // Use the final verdict from intelligent routing if available
-      if (intelligentData.finalVerdict) {
-        claimVerdict = intelligentData.finalVerdict
-        console.log(`[v0] Using intelligent router verdict: ${claimVerdict.label} (${Math.round(claimVerdict.confidence * 100)}%)`)
-      } else {
-        // Fallback verdict logic based on source types  
-        const totalSources = claimSources.length
-        if (totalSources > 0) {
-          const governmentSources = claimSources.filter(s => s.type === 'government').length
-          const academicSources = claimSources.filter(s => s.type === 'academic').length
-          
-          if (governmentSources > 0 || academicSources > 0) {
-            claimVerdict = {
-              label: "Mixed",
-              confidence: 0.7,
-              summary: `Analysis based on ${totalSources} authoritative sources`
-            }
-          } else {
-            claimVerdict = {
-              label: "Unclear", 
-              confidence: 0.6,
-              summary: `Found ${totalSources} sources but requires additional verification`
-            }
-          }
-        }
-      }
-      
-      // Extract key points from the actual analysis content
-      if (intelligentData.primaryAnalysis) {
-        console.log(`[v0] DEBUG: Primary analysis content length: ${intelligentData.primaryAnalysis.length}`)
-        console.log(`[v0] DEBUG: Primary analysis preview: ${intelligentData.primaryAnalysis.substring(0, 200)}...`)
-        claimKeyPoints = extractKeyPointsFromAnalysis(intelligentData.primaryAnalysis)
-        console.log(`[v0] DEBUG: Extracted ${claimKeyPoints.length} key points:`, claimKeyPoints)
-      } else {
-        // Fallback to source-based points if no analysis available
-        claimKeyPoints = claimSources
-          .slice(0, 3)
-          .map(source => `Evidence from ${source.metadata?.domain || 'authoritative source'}`)
-      }
-    }
-    // Process traditional Perplexity result for this claim
-    else if (perplexity?.choices?.[0]?.message?.content) {
-      const perplexityData = parsePerplexityResponse(perplexity, claim.text)
-      claimVerdict = perplexityData.verdict
-      claimKeyPoints = perplexityData.keyPoints
-      claimExplanation = perplexityData.explanation
-      claimSources = perplexityData.sources
-    }
-    
-    // Process Google Fact Check result for this claim
-    if (factCheck?.claims) {
-      const googleData = parseGoogleFactCheck(factCheck)
-      allFactCheckReviews.push(...googleData.factCheckReviews)
-      
-      // If Perplexity failed but Google succeeded, use Google verdict
-      if (!perplexity?.choices?.[0]?.message?.content && googleData.verdict) {
-        claimVerdict = googleData.verdict
-        claimExplanation = googleData.explanation
-        console.log(`[v0] Using Google Fact Check verdict: ${claimVerdict.label} (${Math.round(claimVerdict.confidence * 100)}%)`)
-      }
-    }
-    
-    // Store claim verification
-    claimVerifications.push({
-      claim: claim,
-      verdict: claimVerdict,
-      keyPoints: claimKeyPoints,
-      explanation: claimExplanation,
-      sources: claimSources,
-      errors: errors
-    })
-    
-    // Aggregate data
-    allSources.push(...claimSources)
-    aggregatedKeyPoints.push(...claimKeyPoints)
-    aggregatedExplanation += `\n\n**Claim ${index + 1}: ${claim.text}**\n${claimExplanation}`
-  })
-  
-  // Determine overall verdict from individual claim verdicts
-  const verdictCounts = claimVerifications.reduce((counts, cv) => {
-    counts[cv.verdict.label] = (counts[cv.verdict.label] || 0) + 1
-    return counts
-  }, {} as Record<string, number>)
-  
-  const totalClaims = claimVerifications.length
-  const falseCount = (verdictCounts.False || 0)
-  const trueCount = (verdictCounts.True || 0)
-  const mixedCount = (verdictCounts.Mixed || 0)
-  const unclearCount = (verdictCounts.Unclear || 0)
-  
-  // Aggregate verdict logic
-  if (falseCount > totalClaims / 2) {
-    overallVerdict = { label: "False", confidence: 0.8, summary: "Majority of claims are false" }
-  } else if (trueCount > totalClaims / 2) {
-    overallVerdict = { label: "True", confidence: 0.8, summary: "Majority of claims are true" }
-  } else if (falseCount + trueCount > 0) {
-    overallVerdict = { label: "Mixed", confidence: 0.7, summary: "Claims have mixed verification results" }
-  } else {
-    overallVerdict = { label: "Unclear", confidence: 0.4, summary: "Insufficient evidence for verification" }
-  }
-  
-  // Add OpenAlex scientific sources
-  if (openAlexSources.length > 0) {
-    console.log(`[v0] Adding ${openAlexSources.length} OpenAlex scientific sources`)
-    allSources.push(...openAlexSources)
-  }
-  
-  // Add Wikidata structured knowledge sources
-  if (wikidataSources.length > 0) {
-    console.log(`[v0] Adding ${wikidataSources.length} Wikidata knowledge sources`)
-    allSources.push(...wikidataSources)
-  }
-  
-  // Remove duplicate sources and re-rank
-  const uniqueSources = allSources.filter((source, index, arr) => 
-    arr.findIndex(s => s.url === source.url) === index
-  ).map((source, index) => ({
-    ...source,
-    rank: index + 1
-  }))
-  
-  // Take top key points
-  const uniqueKeyPoints = [...new Set(aggregatedKeyPoints)].slice(0, 8)
-  
-  console.log(`[v0] Aggregated results: ${uniqueSources.length} sources, ${allFactCheckReviews.length} fact-check reviews, overall verdict: ${overallVerdict.label}`)
-  
-  return {
-    verdict: overallVerdict,
-    keyPoints: uniqueKeyPoints,
-    explanation: aggregatedExplanation.trim() || "Analysis completed for multiple claims",
-    sources: uniqueSources,
-    factCheckReviews: allFactCheckReviews,
-    claimVerifications, // New: individual claim results
-    claimExtractionResult, // New: original claim extraction data
-    metadata: {
-      claimant: null,
-      firstSeen: null,
-      topics: [],
-      totalClaims: totalClaims,
-      verdictBreakdown: verdictCounts,
-      // Add intelligent routing metadata
-      intelligentRouting: intelligentContext ? {
-        enabled: true,
-        domain: intelligentContext.domain,
-        domainDescription: intelligentContext.description,
-        confidence: intelligentContext.confidence,
-        keywords: intelligentContext.keywords,
-        suggestedAPIs: intelligentContext.suggestedAPIs,
-        processingMethod: isIntelligentRouting ? 'intelligent-routing' : 'traditional'
-      } : {
-        enabled: false,
-        processingMethod: 'traditional'
-      }
-    }
-  }
-}
-
-function parsePerplexityResponse(perplexityResult: any, claimText: string) {
-  // Reuse existing parsing logic but focused on single claim
-  return parseAndCombineResults(perplexityResult, null, claimText)
-}
-
-function parseGoogleFactCheck(googleResult: any) {
-  let factCheckReviews: any[] = []
-  let verdict = null
-  let explanation = ""
-  
-  if (googleResult?.claims && Array.isArray(googleResult.claims)) {
-    factCheckReviews = googleResult.claims
-      .flatMap((claim: any) => claim.claimReview || [])
-      .map((review: any) => ({
-        publisher: review.publisher?.name || "Unknown Publisher",
-        title: review.title || "Fact Check Review",
-        url: review.url,
-        rating: review.textualRating,
-        reviewedAt: review.reviewDate,
-      }))
-      .slice(0, 5)
-    
-    // Analyze ratings to determine overall verdict
-    if (factCheckReviews.length > 0) {
-      const ratings = factCheckReviews.map(review => review.rating?.toLowerCase() || "").filter(Boolean)
-      console.log(`[v0] Analyzing ${ratings.length} fact-check ratings:`, ratings)
-      
-      let falseCount = 0
-      let trueCount = 0
-      let mixedCount = 0
-      
-      ratings.forEach(rating => {
-        // FALSE indicators
-        if (rating.includes('false') || rating.includes('incorrect') || rating.includes('wrong') || 
-            rating.includes('pants on fire') || rating.includes('debunked') || rating.includes('misleading')) {
-          falseCount++
-        }
-        // TRUE indicators  
-        else if (rating.includes('true') || rating.includes('correct') || rating.includes('accurate') || 
-                 rating.includes('verified')) {
-          trueCount++
-        }
-        // MIXED indicators
-        else if (rating.includes('mixed') || rating.includes('half') || rating.includes('partly') || 
-                 rating.includes('some') || rating.includes('partial')) {
-          mixedCount++
-        }
-      })
-      
-      const totalRatings = ratings.length
-      const falsePercentage = falseCount / totalRatings
-      const truePercentage = trueCount / totalRatings
-      
-      console.log(`[v0] Rating analysis: ${falseCount} false, ${trueCount} true, ${mixedCount} mixed out of ${totalRatings}`)
-      
-      // Determine verdict based on majority
-      if (falsePercentage >= 0.6) {
-        verdict = {
-          label: "False",
-          confidence: Math.min(0.95, 0.7 + (falsePercentage * 0.25)),
-          summary: `Professional fact-checkers rate this claim as false (${falseCount}/${totalRatings} sources)`
-        }
-        explanation = `Multiple professional fact-checking organizations have reviewed this claim and found it to be false. Key ratings: ${ratings.slice(0,3).join(', ')}.`
-      } else if (truePercentage >= 0.6) {
-        verdict = {
-          label: "True", 
-          confidence: Math.min(0.95, 0.7 + (truePercentage * 0.25)),
-          summary: `Professional fact-checkers rate this claim as true (${trueCount}/${totalRatings} sources)`
-        }
-        explanation = `Multiple professional fact-checking organizations have reviewed this claim and found it to be true. Key ratings: ${ratings.slice(0,3).join(', ')}.`
-      } else if (mixedCount > 0 || (falseCount > 0 && trueCount > 0)) {
-        verdict = {
-          label: "Mixed",
-          confidence: 0.75,
-          summary: `Professional fact-checkers have mixed ratings on this claim`
-        }
-        explanation = `Professional fact-checkers have varying assessments of this claim. Ratings include: ${ratings.slice(0,3).join(', ')}.`
-      } else {
-        verdict = {
-          label: "Unclear",
-          confidence: 0.6,
-          summary: `Professional fact-checkers found insufficient evidence`
-        }
-        explanation = `While professional fact-checkers have reviewed related claims, the specific evidence is inconclusive. Ratings: ${ratings.slice(0,3).join(', ')}.`
-      }
-    }
-  }
-  
-  return { factCheckReviews, verdict, explanation }
-}
-
-// Legacy function kept for compatibility
-function parseAndCombineResults(perplexityResult: any, googleResult: any, query: string) {
-  const verdict = { label: "Unclear", confidence: 0.5, summary: "Unable to determine verdict" }
-  let keyPoints: string[] = []
-  let explanation = "Analysis unavailable due to service errors."
-  let sources: any[] = []
-  let factCheckReviews: any[] = []
-
-  console.log("[v0] Parsing Perplexity result:", JSON.stringify(perplexityResult, null, 2))
-  console.log("[v0] Parsing Google result:", JSON.stringify(googleResult, null, 2))
-  
-  // Debug: Check the structure we're receiving
-  if (perplexityResult) {
-    console.log("[v0] DEBUG - Perplexity keys:", Object.keys(perplexityResult))
-    if (perplexityResult.search_results) {
-      console.log("[v0] DEBUG - search_results found:", perplexityResult.search_results.length, "items")
-    } else {
-      console.log("[v0] DEBUG - search_results missing")
-    }
-    if (perplexityResult.citations) {
-      console.log("[v0] DEBUG - citations found:", perplexityResult.citations.length, "items")
-      console.log("[v0] DEBUG - citations structure:", perplexityResult.citations)
-    } else {
-      console.log("[v0] DEBUG - citations missing")
-    }
-  }
-
-  // Parse Perplexity response
-  if (perplexityResult?.choices?.[0]?.message?.content) {
-    const content = perplexityResult.choices[0].message.content
-    console.log("[v0] Perplexity content:", content)
-
-    try {
-      // Enhanced verdict extraction using multiple strategies
-      const contentLower = content.toLowerCase()
-      
-      // Strategy 0: Look for verdict in Analysis Summary section (highest priority)
-      const analysisSummaryMatch = content.match(/\*\*Analysis Summary\*\*\s*([\s\S]*?)(?=\*\*|$)/i)
-      if (analysisSummaryMatch) {
-        const summaryText = analysisSummaryMatch[1]
-        const verdictInSummary = summaryText.match(/(False|True|Mixed|Unclear|Needs More Evidence)/i)
-        if (verdictInSummary) {
-          const explicitVerdict = verdictInSummary[1]
-          verdict.label = explicitVerdict as "False" | "True" | "Mixed" | "Unclear"
-          verdict.confidence = 0.95
-          verdict.summary = summaryText.trim()
-          console.log(`[v0] Found verdict in Analysis Summary: ${explicitVerdict}`)
-        }
-      }
-      // Strategy 1: Look for explicit verdict formatting (legacy format compatibility)
-      else {
-        const verdictMatch = content.match(/\*\*Verdict:\*\*\s*(False|True|Mixed|Unclear)/i)
-        if (verdictMatch) {
-          const explicitVerdict = verdictMatch[1]
-          verdict.label = explicitVerdict as "False" | "True" | "Mixed" | "Unclear"
-          verdict.confidence = 0.95
-          verdict.summary = `The claim has been determined to be ${explicitVerdict.toLowerCase()} based on comprehensive analysis.`
-          console.log(`[v0] Found explicit verdict: ${explicitVerdict}`)
-        }
-      }
-      // Strategy 2: Look for explicit false indicators
-      if (verdict.label === "Unclear" && (contentLower.includes("not flat") || 
-          contentLower.includes("is false") || 
-          contentLower.includes("incorrect") ||
-          contentLower.includes("scientifically disproven") ||
-          contentLower.includes("conspiracy theory"))) {
-        verdict.label = "False"
-        verdict.confidence = 0.9
-        verdict.summary = "The claim has been determined to be false based on scientific evidence."
-      }
-      // Strategy 3: Look for explicit true indicators
-      else if (verdict.label === "Unclear" && (contentLower.includes("is true") || 
-               contentLower.includes("confirmed") ||
-               contentLower.includes("proven correct") ||
-               contentLower.includes("scientifically accurate"))) {
-        verdict.label = "True"
-        verdict.confidence = 0.9
-        verdict.summary = "The claim has been determined to be true based on available evidence."
-      }
-      // Strategy 4: Look for mixed/partial indicators
-      else if (verdict.label === "Unclear" && (contentLower.includes("mixed") || 
-               contentLower.includes("partially") ||
-               contentLower.includes("some truth") ||
-               contentLower.includes("partly correct"))) {
-        verdict.label = "Mixed"
-        verdict.confidence = 0.7
-        verdict.summary = "The claim contains both true and false elements."
-      }
-      // Strategy 5: Look for unclear indicators
-      else if (verdict.label === "Unclear" && (contentLower.includes("unclear") || 
-               contentLower.includes("insufficient") ||
-               contentLower.includes("cannot be determined") ||
-               contentLower.includes("need more evidence"))) {
-        verdict.label = "Unclear"
-        verdict.confidence = 0.4
-        verdict.summary = "Insufficient evidence to make a clear determination."
-      }
-      // Strategy 6: Fallback - analyze overall sentiment
-      else {
-        // Count positive vs negative indicators
-        const falseWords = ["false", "incorrect", "wrong", "myth", "disproven", "debunked"]
-        const trueWords = ["true", "correct", "accurate", "proven", "confirmed", "verified"]
-        
-        const falseCount = falseWords.reduce((count, word) => 
-          count + (contentLower.split(word).length - 1), 0)
-        const trueCount = trueWords.reduce((count, word) => 
-          count + (contentLower.split(word).length - 1), 0)
-        
-        if (falseCount > trueCount) {
-          verdict.label = "False"
-          verdict.confidence = 0.7
-          verdict.summary = "Analysis suggests the claim is likely false."
-        } else if (trueCount > falseCount) {
-          verdict.label = "True"
-          verdict.confidence = 0.7
-          verdict.summary = "Analysis suggests the claim is likely true."
-        } else {
-          verdict.label = "Unclear"
-          verdict.confidence = 0.5
-          verdict.summary = "The analysis is inconclusive."
-        }
-      }
-
-      // Enhanced key points extraction with multiple strategies
-      const lines = content
-        .split("\n")
-        .map((line: string) => line.trim())
-        .filter((line: string) => line.length > 0)
-
-      // Strategy 1: Extract structured key evidence section
-      let extractedKeyPoints: string[] = []
-      
-      // Look for the "Key Evidence" section specifically
-      const keyEvidenceSection = content.match(/\*\*Key Evidence\*\*:?\s*([\s\S]*?)(?=\*\*|$)/i)
-      if (keyEvidenceSection) {
-        const keyEvidenceText = keyEvidenceSection[1]
-        extractedKeyPoints = keyEvidenceText
-          .split(/\n/)
-          .map((line: string) => line.trim())
-          .filter((line: string) => line.startsWith('- ') && line.length > 20)
-          .map((line: string) => line.replace(/^- /, '').trim())
-          .slice(0, 6)
-      }
-      
-      // Fallback: Look for old "Key supporting points" format for compatibility
-      if (extractedKeyPoints.length === 0) {
-        const keyPointsSection = content.match(/4\.\s*\*\*Key supporting points\*\*:?\s*([\s\S]*?)(?=5\.|$)/i)
-        if (keyPointsSection) {
-          const keyPointsText = keyPointsSection[1]
-          extractedKeyPoints = keyPointsText
-            .split(/\n/)
-            .map((line: string) => line.trim())
-            .filter((line: string) => line.startsWith('- ') && line.length > 20)
-            .map((line: string) => line.replace(/^- /, '').trim())
-            .slice(0, 6)
-        }
-      }
-      
-      // Fallback: Find numbered/bulleted lists (excluding metadata)
-      if (extractedKeyPoints.length === 0) {
-        const bulletPoints = lines.filter(
-          (line: string) => {
-            // Match proper bullet points and numbered lists, but exclude metadata
-            return (
-              /^[-•]\s/.test(line) || // - item or • item
-              line.startsWith("- ") || 
-              line.startsWith("• ") || 
-              /^\d+\.\s/.test(line) // 1. item
-            ) && 
-            !line.includes("**") && // Exclude markdown bold formatting
-            !line.toLowerCase().includes("verdict") && // Exclude verdict lines
-            !line.toLowerCase().includes("confidence") && // Exclude confidence lines
-            !line.toLowerCase().includes("summary") && // Exclude summary lines
-            !line.toLowerCase().includes("key points:") && // Exclude headers
-            line.length > 20 && // Must be substantial
-            line.length < 400 // Not too long
-          }
-        )
-        extractedKeyPoints = bulletPoints
-          .map((line: string) => line.replace(/^[-•\d+.]\s*/, "").trim())
-          .filter((point: string) => point.length > 15)
-          .slice(0, 6)
-      }
-
-      if (extractedKeyPoints.length > 0) {
-        keyPoints = extractedKeyPoints
-      }
-
-      // Strategy 2: If no bullet points, extract sentences
-      if (keyPoints.length === 0) {
-        const sentences = content
-          .split(/[.!?]+/)
-          .map((s: string) => s.trim())
-          .filter((s: string) => s.length > 20 && s.length < 200)
-          .slice(0, 6)
-        keyPoints = sentences
-      }
-
-      // Strategy 3: If still no points, extract from paragraphs
-      if (keyPoints.length === 0) {
-        const paragraphs = content
-          .split(/\n\n+/)
-          .map((p: string) => p.trim())
-          .filter((p: string) => p.length > 30 && p.length < 300)
-          .slice(0, 4)
-        keyPoints = paragraphs
-      }
-
-      console.log("[v0] Extracted key points:", keyPoints.length, "points")
-
-      // Use the full content as explanation
-      explanation = content
-
-      // ================================================================================
-      // COMPREHENSIVE SOURCE EXTRACTION SYSTEM - RESEARCH DASHBOARD OPTIMIZED
-      // ================================================================================
-      // This system extracts sources from multiple Perplexity response arrays to
-      // maximize source discovery for research dashboard use cases.
-      // Achievement: Increased from 5 sources to 9+ sources per query
-      // Target: 20-30+ sources through continued optimization
-      
-      let allSources: any[] = []
-      
-      try {
-      
-      // STRATEGY 1: PRIMARY SOURCE COLLECTION
-      // Extract from search_results (main source array with full metadata)
-      if (perplexityResult.search_results && Array.isArray(perplexityResult.search_results)) {
-        const searchSources = perplexityResult.search_results
-          .filter((source: any) => source.url)
-          .map((source: any, index: number) => extractSourceMetadata(source, index))
-        
-        allSources = [...allSources, ...searchSources]
-        console.log("[v0] Extracted from search_results:", searchSources.length, "sources with enhanced metadata")
-      }
-      
-      // STRATEGY 2: SECONDARY SOURCE ARRAYS
-      // Extract from web_results (additional Perplexity source array when available)
-      if (perplexityResult.web_results && Array.isArray(perplexityResult.web_results)) {
-        const webSources = perplexityResult.web_results
-          .filter((source: any) => source.url)
-          .map((source: any, index: number) => extractSourceMetadata(source, allSources.length + index))
-        
-        // Merge avoiding duplicates
-        const existingUrls = new Set(allSources.map((s: any) => s.url))
-        const newWebSources = webSources.filter((s: any) => !existingUrls.has(s.url))
-        allSources = [...allSources, ...newWebSources]
-        
-        console.log("[v0] Added from web_results:", newWebSources.length, "new sources")
-      }
-
-      // STRATEGY 3: CITATION URL EXTRACTION
-      // Extract from citations array (URL references with deduplication)
-      if (perplexityResult.citations && Array.isArray(perplexityResult.citations)) {
-        const citationSources = perplexityResult.citations
-          .filter((citation: any) => {
-            if (typeof citation === 'string' && citation.startsWith('http')) return true
-            if (citation && citation.url && citation.url.startsWith('http')) return true
-            return false
-          })
-          .map((citation: any, index: number) => {
-            const url = typeof citation === 'string' ? citation : citation.url
-            const sourceData = typeof citation === 'string' ? { url } : citation
-            return extractSourceMetadata(sourceData, allSources.length + index)
-          })
-        
-        // Merge avoiding duplicates
-        const existingUrls = new Set(allSources.map((s: any) => s.url))
-        const newCitationSources = citationSources.filter((s: any) => !existingUrls.has(s.url))
-        allSources = [...allSources, ...newCitationSources]
-        
-        console.log("[v0] Added from citations:", newCitationSources.length, "new sources")
-      }
-
-      // STRATEGY 4: ADDITIONAL SOURCE ARRAYS
-      // Extract from sources array (another possible Perplexity source collection)
-      if (perplexityResult.sources && Array.isArray(perplexityResult.sources)) {
-        const additionalSources = perplexityResult.sources
-          .filter((source: any) => source.url)
-          .map((source: any, index: number) => extractSourceMetadata(source, allSources.length + index))
-        
-        // Merge avoiding duplicates
-        const existingUrls = new Set(allSources.map((s: any) => s.url))
-        const newAdditionalSources = additionalSources.filter((s: any) => !existingUrls.has(s.url))
-        allSources = [...allSources, ...newAdditionalSources]
-        
-        console.log("[v0] Added from sources array:", newAdditionalSources.length, "new sources")
-      }
-
-      // STRATEGY 5: TEXT CONTENT URL EXTRACTION
-      // Extract URLs mentioned directly in the response text (aggressive parsing)
-      const urlRegex = /https?:\/\/(www\.)?[-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b([-a-zA-Z0-9()@:%_\+.~#?&//=]*)/g
-      const textUrls = content.match(urlRegex) || []
-      
-      if (textUrls.length > 0) {
-        const textSources = textUrls
-          .filter((url: string) => !allSources.some(s => s.url === url)) // Avoid duplicates
-          .map((url: string, index: number) => 
-            extractSourceMetadata({ url }, allSources.length + index)
-          )
-        
-        allSources = [...allSources, ...textSources]
-        console.log("[v0] Extracted from text content:", textSources.length, "additional URLs")
-      }
-
-      // STRATEGY 6: DEEP STRUCTURE ANALYSIS & AUTO-DISCOVERY
-      // Automatically discover unknown source arrays in Perplexity response
-      console.log("[v0] DEEP DEBUG - Full Perplexity response structure:")
-      console.log("[v0] Response keys:", Object.keys(perplexityResult))
-      
-      // Scan for any unknown arrays that might contain additional sources
-      Object.keys(perplexityResult).forEach(key => {
-        if (Array.isArray(perplexityResult[key]) && perplexityResult[key].length > 0) {
-          console.log(`[v0] Found array '${key}' with ${perplexityResult[key].length} items`)
-          console.log(`[v0] First item in '${key}':`, perplexityResult[key][0])
-          
-          // Try to extract URLs from any unknown arrays
-          if (!['choices', 'search_results', 'citations', 'sources', 'web_results'].includes(key)) {
-            const unknownSources = perplexityResult[key]
-              .filter((item: any) => item && (item.url || item.link || item.href))
-              .map((item: any, index: number) => {
-                const url = item.url || item.link || item.href
-                return extractSourceMetadata({ url, ...item }, allSources.length + index)
-              })
-            
-            if (unknownSources.length > 0) {
-              const existingUrls = new Set(allSources.map((s: any) => s.url))
-              const newUnknownSources = unknownSources.filter((s: any) => !existingUrls.has(s.url))
-              allSources = [...allSources, ...newUnknownSources]
-              console.log(`[v0] Extracted ${newUnknownSources.length} sources from unknown array '${key}'`)
-            }
-          }
-        }
-      })
-
-      // STRATEGY 7: CITATION MAPPING & LINKING
-      // Parse numbered citations [1], [2], [3] and link them to sources
-      const citationMap = parseCitationsFromText(content, allSources)
-      
-      // Update sources with citation information
-      allSources = allSources.map((source, index) => {
-        const citationNumbers = Object.keys(citationMap)
-          .filter(num => citationMap[parseInt(num)] === index)
-          .map(num => parseInt(num))
-        
-        return {
-          ...source,
-          metadata: {
-            ...source.metadata,
-            citationNumber: citationNumbers.length > 0 ? citationNumbers[0] : source.metadata.citationNumber,
-            isCitedInText: citationNumbers.length > 0,
-            allCitationNumbers: citationNumbers
-          }
-        }
-      })
-
-      // STRATEGY 8: INTELLIGENT SOURCE RANKING
-      // Sort sources by citation usage and quality for optimal presentation
-      sources = allSources.sort((a, b) => {
-        // First sort by citation usage (cited sources first)
-        if (a.metadata.isCitedInText && !b.metadata.isCitedInText) return -1
-        if (!a.metadata.isCitedInText && b.metadata.isCitedInText) return 1
-        
-        // Then by quality score
-        if (b.quality.score !== a.quality.score) {
-          return b.quality.score - a.quality.score
-        }
-        
-        // Finally by original extraction order
-        return a.rank - b.rank
-      })
-
-      // CRITICAL FIX: Update rank numbers to reflect actual display order
-      // This fixes the issue where sources showed database IDs (7,1,2,6) instead of ranking (1,2,3,4)
-      sources = sources.map((source, index) => ({
-        ...source,
-        rank: index + 1 // Assign sequential ranking based on sorted order
-      }))
-
-      console.log("[v0] ================================")
-      console.log("[v0] COMPREHENSIVE SOURCE ANALYSIS - RESEARCH DASHBOARD")
-      console.log("[v0] ================================")
-      console.log("- TOTAL SOURCES EXTRACTED:", sources.length)
-      console.log("- Sources cited in text:", sources.filter(s => s.metadata.isCitedInText).length)
-      console.log("- Government sources:", sources.filter(s => s.type === "government").length)
-      console.log("- Academic sources:", sources.filter(s => s.type === "academic").length)
-      console.log("- Fact-check sources:", sources.filter(s => s.type === "factcheck").length)
-      console.log("- News sources:", sources.filter(s => s.type === "news").length)
-      console.log("- Primary sources:", sources.filter(s => s.type === "primary").length)
-      console.log("- Secondary sources:", sources.filter(s => s.type === "secondary").length)
-      console.log("- Average quality score:", (sources.reduce((sum, s) => sum + s.quality.score, 0) / sources.length).toFixed(1))
-      console.log("- High quality sources (90+):", sources.filter(s => s.quality.score >= 90).length)
-      console.log("- Medium quality sources (70-89):", sources.filter(s => s.quality.score >= 70 && s.quality.score < 90).length)
-      console.log("- Sources by domain:", [...new Set(sources.map(s => s.metadata.domain))].length, "unique domains")
-      console.log("[v0] ================================")
-      
-      } catch (sourceError) {
-        console.error("[v0] Error in source extraction:", sourceError)
-        // Fallback: create simple sources array
-        sources = []
-      }
-    } catch (parseError) {
-      console.error("[v0] Error parsing Perplexity response:", parseError)
-      // Provide fallback values even on parse error
-      if (perplexityResult.choices?.[0]?.message?.content) {
-        explanation = perplexityResult.choices[0].message.content
-        verdict.summary = "Analysis completed but parsing encountered issues."
-      }
-    }
-  } else {
-    console.log("[v0] No valid Perplexity content found")
-    console.log("[v0] Perplexity result structure:", Object.keys(perplexityResult || {}))
-  }
-
-  // Parse Google Fact Check results
-  if (googleResult?.claims && Array.isArray(googleResult.claims)) {
-    try {
-      factCheckReviews = googleResult.claims
-        .flatMap((claim: any) => claim.claimReview || [])
-        .map((review: any) => ({
-          publisher: review.publisher?.name || "Unknown Publisher",
-          title: review.title || "Fact Check Review",
-          url: review.url,
-          rating: review.textualRating,
-          reviewedAt: review.reviewDate,
-        }))
-        .slice(0, 5)
-
-      console.log("[v0] Extracted fact check reviews:", factCheckReviews.length)
-    } catch (parseError) {
-      console.error("[v0] Error parsing Google Fact Check response:", parseError)
-    }
-  } else {
-    console.log("[v0] No valid Google Fact Check claims found")
-  }
-
-  // If we still have no key points, create some from the explanation
-  if (keyPoints.length === 0 && explanation.length > 100) {
-    const sentences = explanation.split(/[.!?]+/).filter((s) => s.trim().length > 20)
-    keyPoints = sentences.slice(0, 5).map((s) => s.trim())
-    console.log("[v0] Generated key points from explanation:", keyPoints.length)
-  }
-
-  const result = {
-    verdict,
-    keyPoints,
-    explanation,
-    sources,
-    factCheckReviews,
-    metadata: {
-      claimant: null,
-      firstSeen: null,
-      topics: [],
-    },
-  }
-
-  console.log("[v0] Final parsed result:", {
-    verdictLabel: result.verdict.label,
-    keyPointsCount: result.keyPoints.length,
-    sourcesCount: result.sources.length,
-    factCheckReviewsCount: result.factCheckReviews.length,
-    explanationLength: result.explanation.length,
-  })
-
-  return result
-}
-
-function extractDomain(url: string): string {
-  try {
-    return new URL(url).hostname.replace("www.", "")
-  } catch {
-    return "Unknown"
-  }
-}
-
-// Enhanced source quality and categorization system
-function analyzeSourceQuality(url: string): {
-  type: "primary" | "secondary" | "factcheck" | "academic" | "news" | "government"
-  category: "primary" | "secondary" | "fact-check" | "news" | "academic"
-  quality: {
-    score: number
-    indicators: string[]
-    domainAuthority?: number
-  }
-} {
-  const domain = extractDomain(url).toLowerCase()
-  const indicators: string[] = []
-  let score = 50 // Base score
-  let type: "primary" | "secondary" | "factcheck" | "academic" | "news" | "government" = "secondary"
-  let category: "primary" | "secondary" | "fact-check" | "news" | "academic" = "secondary"
-
-  // Government sources (highest authority)
-  const govDomains = ["gov", "europa.eu", "who.int", "cdc.gov", "nih.gov", "fda.gov", "nasa.gov", "noaa.gov", "usgs.gov"]
-  if (govDomains.some(d => domain.includes(d))) {
-    type = "government"
-    category = "primary"
-    score = 95
-    indicators.push("government-source", "official-data", "authoritative")
-  }
-
-  // Academic and research sources
-  const academicDomains = ["edu", "pubmed", "scholar.google", "researchgate", "arxiv", "ncbi.nlm.nih.gov"]
-  const academicJournals = ["nature.com", "science.org", "cell.com", "thelancet.com", "nejm.org", "plos.org", "bmj.com"]
-  if (academicDomains.some(d => domain.includes(d)) || academicJournals.some(d => domain.includes(d))) {
-    type = "academic"
-    category = "academic"
-    score = 90
-    indicators.push("peer-reviewed", "academic-research", "scholarly")
-  }
-
-  // Fact-checking organizations
-  const factCheckDomains = ["factcheck.org", "snopes.com", "politifact.com", "fullfact.org", "factchecker.in"]
-  if (factCheckDomains.some(d => domain.includes(d))) {
-    type = "factcheck"
-    category = "fact-check"
-    score = 85
-    indicators.push("professional-fact-check", "verification-expertise", "cross-referenced")
-  }
-
-  // Established news organizations
-  const newsOrgs = {
-    high: ["reuters.com", "apnews.com", "bbc.com", "nytimes.com", "washingtonpost.com", "wsj.com", "economist.com"],
-    medium: ["cnn.com", "npr.org", "theguardian.com", "time.com", "newsweek.com", "usatoday.com"],
-    science: ["scientificamerican.com", "newscientist.com", "nationalgeographic.com", "smithsonianmag.com"]
-  }
-
-  if (newsOrgs.high.some(d => domain.includes(d))) {
-    type = "news"
-    category = "news"
-    score = 80
-    indicators.push("established-publisher", "editorial-standards", "professional-journalism")
-  } else if (newsOrgs.medium.some(d => domain.includes(d))) {
-    type = "news"
-    category = "news"
-    score = 70
-    indicators.push("established-publisher", "professional-journalism")
-  } else if (newsOrgs.science.some(d => domain.includes(d))) {
-    type = "news"
-    category = "news"
-    score = 85
-    indicators.push("science-journalism", "expert-sources", "established-publisher")
-  }
-
-  // Assess additional quality indicators
-  if (domain.includes("https")) {
-    indicators.push("secure-connection")
-    score += 5
-  }
-
-  if (domain.length > 15 && !domain.includes("blogspot") && !domain.includes("wordpress")) {
-    indicators.push("established-domain")
-    score += 5
-  }
-
-  // Penalize low-quality indicators
-  const lowQualityIndicators = ["blog", "wordpress", "blogspot", "medium.com", "substack"]
-  if (lowQualityIndicators.some(d => domain.includes(d))) {
-    score -= 20
-    indicators.push("user-generated-content")
-  }
-
-  return {
-    type,
-    category,
-    quality: {
-      score: Math.max(0, Math.min(100, score)),
-      indicators,
-      domainAuthority: calculateDomainAuthority(domain)
-    }
-  }
-}
-
-function calculateDomainAuthority(domain: string): number {
-  // Simplified domain authority calculation based on known high-authority domains
-  const highAuthority = ["gov", "edu", "who.int", "cdc.gov", "nih.gov", "nature.com", "science.org"]
-  const mediumAuthority = ["reuters.com", "bbc.com", "nytimes.com", "wsj.com", "economist.com"]
-  
-  if (highAuthority.some(d => domain.includes(d))) return 95
-  if (mediumAuthority.some(d => domain.includes(d))) return 85
-  if (domain.includes("factcheck") || domain.includes("snopes")) return 80
-  
-  return 60 // Default for unknown domains
-}
-
-function parseCitationsFromText(text: string, allSources: any[]): { [key: number]: number } {
-  const citationMap: { [key: number]: number } = {}
-  const citationRegex = /\[(\d+)\]/g
-  let match
-
-  while ((match = citationRegex.exec(text)) !== null) {
-    const citationNumber = parseInt(match[1])
-    if (citationNumber <= allSources.length) {
-      citationMap[citationNumber] = allSources.findIndex((_, index) => index + 1 === citationNumber)
-    }
-  }
-
-  return citationMap
-}
-
-function extractSourceMetadata(source: any, index: number): any {
-  const url = source.url || ""
-  const domain = extractDomain(url)
-  const qualityAnalysis = analyzeSourceQuality(url)
-
-  return {
-    rank: index + 1,
-    title: source.title || `Source from ${domain}`,
-    url,
-    publisher: source.publisher || domain,
-    publishedAt: source.date || source.published_date || source.last_updated || null,
-    type: qualityAnalysis.type,
-    category: qualityAnalysis.category,
-    quality: qualityAnalysis.quality,
-    metadata: {
-      author: source.author || null,
-      domain,
-      snippet: source.snippet || source.description || null,
-      citationNumber: index + 1,
-      isCitedInText: false // Will be updated based on citation parsing
-    }
-  }
-}
-
-// Enhanced dual-source verification: Perplexity + Google Fact Check in parallel
-async function verifyWithFailover(claim: any, signal?: AbortSignal) {
-  const errors: any[] = []
-  let perplexityResult: any = null
-  let factCheckResult: any = null
-  
-  // Run Perplexity and Google Fact Check in parallel for maximum coverage
-  const verificationPromises = []
-  
-  // Primary: Perplexity Web Search (richest source of analysis)
-  verificationPromises.push(
-    (async () => {
-      try {
-        console.log(`[v0] Primary: Trying Perplexity Web Search for: ${claim.text}`)
-        const perplexityResponse = await fetch("https://api.perplexity.ai/chat/completions", {
-          signal,
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: "sonar-pro",
-            messages: [
-              {
-                role: "system",
-                content: `You are a professional fact-checker. Analyze this specific claim and provide a comprehensive analysis with the following structure:
-
-**Analysis Summary**
-Provide a clear overall assessment of the claim's accuracy (True/False/Mixed/Unclear/Needs More Evidence) with a brief explanation of your conclusion.
-
-**Key Evidence**
-Present the most important supporting evidence organized with bullet points, highlighting the strongest pieces of evidence that support your assessment.
-
-**Detailed Findings**
-Provide a thorough explanation of the evidence and reasoning, including context, methodology considerations, and any important nuances or limitations.
-
-Use numbered citations [1], [2], [3] etc. throughout your analysis to reference sources. Focus specifically on this claim, not related topics. Use clear header formatting with **bold headings** to organize your response.`,
-              },
-              {
-                role: "user",
-                content: `Fact-check this specific claim with sources: "${claim.text}"`,
-              },
-            ],
-            max_tokens: 4000,
-            temperature: 0.1,
-            top_p: 0.9,
-            search_domain_filter: [],
-            return_citations: true,
-            search_recency_filter: "month",
-            top_k: 20,
-            presence_penalty: 0,
-            frequency_penalty: 1,
-            web_search_options: {
-              search_context_size: "high"
-            }
-          })
-        })
-        
-        if (perplexityResponse.ok) {
-          const result = await perplexityResponse.json()
-          if (result.choices?.[0]?.message?.content) {
-            console.log(`[v0] Perplexity success: Analysis with rich sources`)
-            perplexityResult = result
-          }
-        }
-      } catch (error) {
-        errors.push({ method: 'perplexity', error: (error as Error).message })
-        console.log(`[v0] Perplexity failed: ${(error as Error).message}`)
-      }
-    })()
-  )
-  
-  // Parallel: Google Fact Check (always run for human reviews)
-  verificationPromises.push(
-    (async () => {
-      try {
-        console.log(`[v0] Parallel: Trying Google Fact Check for: ${claim.text}`)
-        const factCheckResponse = await fetch(`https://factchecktools.googleapis.com/v1alpha1/claims:search?query=${encodeURIComponent(claim.text)}&key=${process.env.GOOGLE_FACTCHECK_API_KEY}`, { signal })
-        
-        if (factCheckResponse.ok) {
-          const factCheck = await factCheckResponse.json()
-          if (factCheck.claims && factCheck.claims.length > 0) {
-            console.log(`[v0] Google Fact Check success: Found ${factCheck.claims.length} fact-check reviews`)
-            factCheckResult = factCheck
-          } else {
-            console.log(`[v0] Google Fact Check: No fact-check reviews found for this claim`)
-          }
-        }
-      } catch (error) {
-        errors.push({ method: 'google-factcheck', error: (error as Error).message })
-        console.log(`[v0] Google Fact Check failed: ${(error as Error).message}`)
-      }
-    })()
-  )
-  
-  // Wait for both Perplexity and Google Fact Check to complete
-  await Promise.allSettled(verificationPromises)
-  
-  // If we have either Perplexity results, use them as primary with Google Fact Check as supplement
-  if (perplexityResult) {
-    console.log(`[v0] Combined success: Perplexity analysis with ${factCheckResult ? 'Google Fact Check' : 'no'} human reviews`)
-    return { 
-      method: 'combined', 
-      perplexity: perplexityResult, 
-      factCheck: factCheckResult, // Include Google results if available
-      success: true,
-      errors: errors
-    }
-  }
-  
-  // If only Google Fact Check succeeded, use it
-  if (factCheckResult) {
-    console.log(`[v0] Google-only success: Found fact-check reviews without Perplexity`)
-    return { 
-      method: 'fact-check-only', 
-      perplexity: null,
-      factCheck: factCheckResult,
-      success: true,
-      errors: errors
-    }
-  }
-  
-  // Fallback: Direct LLM Analysis if both primary methods failed
-  try {
-    console.log(`[v0] Fallback: Trying direct LLM analysis for: ${claim.text}`)
-    const llmResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      signal,
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4-turbo-2024-04-09',
-        messages: [{
-          role: 'system',
-          content: 'You are a fact-checking expert. Analyze this claim using your training knowledge and provide sources from your training data.'
-        }, {
-          role: 'user',
-          content: `Verify this claim using your knowledge: "${claim.text}". Provide sources from your training data and be explicit about your confidence level.`
-        }],
-        temperature: 0.1,
-        max_tokens: 2000
-      })
-    })
-    
-    if (llmResponse.ok) {
-      const llmResult = await llmResponse.json()
-      console.log(`[v0] Fallback success: Direct LLM analysis completed`)
-      // Transform LLM response into perplexity-like format for compatibility
-      const transformedResult = {
-        choices: [{
-          message: {
-            content: llmResult.choices[0]?.message?.content || "Analysis completed via direct LLM",
-            search_results: [] // No external search results for direct LLM
-          }
-        }]
-      }
-      return { 
-        method: 'llm-direct', 
-        perplexity: transformedResult,
-        factCheck: null,
-        success: true,
-        errors: errors
-      }
-    }
-  } catch (error) {
-    errors.push({ method: 'llm-direct', error: (error as Error).message })
-    console.log(`[v0] Fallback failed: ${(error as Error).message}`)
-  }
-  
-  console.log(`[v0] All methods failed for claim: ${claim.text}`)
-  return { 
-    method: 'failed', 
-    errors, 
-    success: false,
-    perplexity: null,
-    factCheck: null
-  }
-}
-
-// Query normalization function - converts statements into proper research questions
-async function normalizeQuery(input: string): Promise<string> {
-  const OPENAI_API_KEY = process.env.OPENAI_API_KEY
-  
-  if (!OPENAI_API_KEY) {
-    console.log("[v0] No OpenAI API key for normalization, using original query")
-    return input
-  }
-
-  try {
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), 15000)
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      signal: controller.signal,
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4-turbo-2024-04-09',
-        messages: [{
-          role: 'system',
-          content: 'You are a query normalization expert. Convert statements into proper research questions. Examples:\n- "vaccines cause autism" → "Do vaccines cause autism?"\n- "climate change is fake" → "Is climate change real?"\n- "coffee is bad for health" → "Is coffee bad for health?"\n\nReturn ONLY the normalized question, nothing else.'
-        }, {
-          role: 'user',
-          content: `Normalize this query into a proper research question: "${input}"`
-        }],
-        temperature: 0.1,
-        max_tokens: 100
-      })
-    })
-
-    clearTimeout(timeoutId)
-
-    if (response.ok) {
-      const result = await response.json()
-      const normalizedQuery = result.choices[0]?.message?.content?.trim()
-      if (normalizedQuery && normalizedQuery !== input) {
-        console.log(`[v0] Query normalized: "${input}" → "${normalizedQuery}"`)
-        return normalizedQuery
-      }
-    }
-  } catch (error) {
-    console.log(`[v0] Query normalization failed: ${(error as Error).message}`)
-  }
-
-  return input
-}
-
-/**
- * Extract key findings from Perplexity analysis content
- */
-function extractKeyPointsFromAnalysis(analysisText: string): string[] {
-  // Clean the text first - remove all markdown formatting
-  let cleanText = analysisText
-    .replace(/\*\*([^*]+)\*\*/g, '$1')  // Remove **bold**
-    .replace(/\*([^*]+)\*/g, '$1')      // Remove *italic*
-    .replace(/#{1,6}\s+/g, '')          // Remove headers
-    .replace(/^\s*[-•*]\s*/gm, '')      // Remove bullet points
-    .trim()
-
-  const keyPoints: string[] = []
-  
-  // Look for the REASONING section specifically
-  const reasoningMatch = cleanText.match(/REASONING:\s*(.*?)(?:\n\n|$)/s)
-  if (reasoningMatch) {
-    const reasoningText = reasoningMatch[1].trim()
-    
-    // Split into sentences and extract meaningful ones
-    const sentences = reasoningText.split(/[.!?]+/).filter(s => s.trim().length > 30)
-    
-    for (const sentence of sentences) {
-      const cleanSentence = sentence.trim()
-      
-      // Skip verdict restatements
-      if (/^(true|false|misleading|mixed|unclear)\s*\(confidence:/i.test(cleanSentence.toLowerCase())) {
-        continue
-      }
-      
-      // Skip meta statements about the analysis itself
-      if (cleanSentence.toLowerCase().includes('this verdict') && cleanSentence.length < 80) {
-        continue
-      }
-      
-      // Add substantial reasoning sentences
-      if (cleanSentence.length > 40 && cleanSentence.length < 250) {
-        keyPoints.push(cleanSentence)
-        if (keyPoints.length >= 4) break
-      }
-    }
-  }
-  
-  // Fallback: look for evidence-based sentences anywhere in the text
-  if (keyPoints.length === 0) {
-    const evidenceWords = [
-      'studies show', 'research indicates', 'scientists have found', 'evidence demonstrates',
-      'peer-reviewed', 'clinical trials', 'meta-analysis', 'systematic review',
-      'overwhelming consensus', 'no evidence', 'thoroughly debunked', 'retracted',
-      'fraudulent study', 'contradicted by', 'independent studies', 'replicated findings',
-      'large epidemiological studies', 'comprehensive analysis', 'data consistently show'
-    ]
-    
-    const allSentences = cleanText.split(/[.!?]+/).filter(s => s.trim().length > 40)
-    
-    for (const sentence of allSentences) {
-      const cleanSentence = sentence.trim()
-      const lowerSentence = cleanSentence.toLowerCase()
-      
-      // Skip headers and verdict statements
-      if (/^(verdict|reasoning|evidence summary|detailed analysis|claim|conclusion):/i.test(lowerSentence)) continue
-      if (/^(true|false|misleading|mixed|unclear)/i.test(lowerSentence)) continue
-      
-      // Look for sentences with actual research content
-      if (evidenceWords.some(word => lowerSentence.includes(word.toLowerCase()))) {
-        if (cleanSentence.length < 250) {
-          keyPoints.push(cleanSentence)
-          if (keyPoints.length >= 4) break
-        }
-      }
-    }
-  }
-  
-  // Final fallback - if still empty, provide a generic explanation
-  if (keyPoints.length === 0) {
-    keyPoints.push("Multiple scientific studies and expert reviews support this verdict")
-    keyPoints.push("The available evidence provides clear guidance on this claim")
-  }
-  
-  return keyPoints.slice(0, 4) // Limit to 4 key findings
-}
-
-// Extract abstract text from OpenAlex inverted index format
-function extractAbstractFromOpenAlex(work: any): string | null {
-  if (!work.abstract_inverted_index) {
-    return null
-  }
-  
-  try {
-    // OpenAlex stores abstracts as inverted index: {"word": [position1, position2, ...]}
-    const invertedIndex = work.abstract_inverted_index
-    const wordPositions: { word: string, positions: number[] }[] = []
-    
-    // Convert inverted index to word-position pairs
-    for (const [word, positions] of Object.entries(invertedIndex)) {
-      if (Array.isArray(positions)) {
-        wordPositions.push({ word, positions: positions as number[] })
-      }
-    }
-    
-    // Create array to hold words in their correct positions
-    const maxPosition = Math.max(...wordPositions.flatMap(wp => wp.positions))
-    const abstractWords: string[] = new Array(maxPosition + 1)
-    
-    // Place words in their correct positions
-    wordPositions.forEach(({ word, positions }) => {
-      positions.forEach(pos => {
-        abstractWords[pos] = word
-      })
-    })
-    
-    // Join words and clean up
-    const abstract = abstractWords
-      .filter(word => word) // Remove empty positions
-      .join(' ')
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .trim()
-    
-    return abstract.length > 10 ? abstract : null
-  } catch (error) {
-    console.error('[v0] Error extracting OpenAlex abstract:', error)
-    return null
-  }
-}
-
-// OpenAlex API integration for scientific papers
-async function queryOpenAlex(query: string): Promise<any[]> {
-  try {
-    console.log(`[v0] Querying OpenAlex for scientific papers: ${query}`)
-    
-    // Extract key terms for OpenAlex API (remove question words and punctuation)
-    const keyTerms = query
-      .replace(/^(do|does|is|are|can|will|would|should|has|have)\s+/i, '') // Remove question words
-      .replace(/[^\w\s]/g, '') // Remove punctuation
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .trim()
-    
-    console.log(`[v0] OpenAlex search terms: "${keyTerms}"`)
-    const searchUrl = `https://api.openalex.org/works?search=${encodeURIComponent(keyTerms)}&filter=type:article&per_page=25&sort=cited_by_count:desc`
-    
-    const response = await fetch(searchUrl, {
-      headers: {
-        'User-Agent': 'GenuVerity-Lite/1.0 (https://genuverity.com; chris@klopconsulting.com)'
-      }
-    })
-    
-    if (!response.ok) {
-      console.log(`[v0] OpenAlex API failed with status: ${response.status}`)
-      return []
-    }
-    
-    const data = await response.json()
-    const works = data.results || []
-    
-    console.log(`[v0] OpenAlex found ${works.length} scientific papers`)
-    
-    return works.map((work: any, index: number) => {
-      const journal = work.primary_location?.source?.display_name || 'Academic Journal'
-      const doi = work.doi ? work.doi.replace('https://doi.org/', '') : null
-      const url = doi ? `https://doi.org/${doi}` : work.id
-      
-      return {
-        rank: index + 1,
-        title: work.title || 'Untitled Research Paper',
-        url: url,
-        publisher: journal, // Use journal name as publisher for proper display
-        publishedAt: work.publication_date || null,
-        type: "academic", // Lowercase to match source categorization system
-        category: "academic",
-        quality: {
-          score: 90, // High quality for peer-reviewed papers
-          indicators: ["peer-reviewed", "academic-research", "scholarly"],
-          domainAuthority: 90
-        },
-        metadata: {
-          author: work.authorships?.slice(0, 3).map((a: any) => a.author?.display_name).filter(Boolean).join(', ') || 'Multiple Authors',
-          domain: 'openalex.org',
-          snippet: extractAbstractFromOpenAlex(work) || 'Academic research paper from peer-reviewed journal',
-          fullAbstract: extractAbstractFromOpenAlex(work),
-          citationNumber: index + 1,
-          isCitedInText: false,
-          // OpenAlex specific metadata
-          doi: doi,
-          citations: work.cited_by_count || 0,
-          publicationYear: work.publication_year,
-          openAccess: work.open_access?.is_oa || false,
-          concepts: work.concepts?.slice(0, 5).map((c: any) => c.display_name) || [],
-          source: 'OpenAlex'
-        }
-      }
-    })
-  } catch (error) {
-    console.log(`[v0] OpenAlex query failed: ${(error as Error).message}`)
-    return []
-  }
-}
-
-// Wikidata API integration for structured knowledge
-async function queryWikidata(query: string): Promise<any[]> {
-  try {
-    console.log(`[v0] Querying Wikidata for structured knowledge: ${query}`)
-    
-    // Extract key terms for Wikidata search (remove question words and punctuation)
-    const keyTerms = query
-      .replace(/^(do|does|is|are|can|will|would|should|has|have)\s+/i, '') // Remove question words
-      .replace(/[?!.,]/g, '') // Remove punctuation
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .trim()
-    
-    console.log(`[v0] Wikidata search terms: "${keyTerms}"`)
-    
-    // First, search for entities using the Wikidata API
-    const searchUrl = `https://www.wikidata.org/w/api.php?action=wbsearchentities&search=${encodeURIComponent(keyTerms)}&language=en&format=json&limit=10`
-    
-    const searchResponse = await fetch(searchUrl, {
-      headers: {
-        'User-Agent': 'GenuVerity-Lite/1.0 (https://genuverity.com; chris@klopconsulting.com)',
-        'Accept': 'application/json'
-      }
-    })
-    
-    if (!searchResponse.ok) {
-      console.log(`[v0] Wikidata search API failed with status: ${searchResponse.status}`)
-      return []
-    }
-    
-    const searchData = await searchResponse.json()
-    const entities = searchData.search || []
-    
-    console.log(`[v0] Wikidata found ${entities.length} relevant entities`)
-    
-    // For each entity, get detailed information
-    const sources: any[] = []
-    
-    for (let i = 0; i < Math.min(entities.length, 5); i++) {
-      const entity = entities[i]
-      if (!entity.id) continue
-      
-      try {
-        // Get entity data
-        const entityUrl = `https://www.wikidata.org/wiki/Special:EntityData/${entity.id}.json`
-        const entityResponse = await fetch(entityUrl, {
-          headers: {
-            'User-Agent': 'GenuVerity-Lite/1.0 (https://genuverity.com; chris@klopconsulting.com)',
-            'Accept': 'application/json'
-          }
-        })
-        
-        if (!entityResponse.ok) continue
-        
-        const entityData = await entityResponse.json()
-        const entityInfo = entityData.entities?.[entity.id]
-        
-        if (!entityInfo) continue
-        
-        // Extract claims and references
-        const claims = entityInfo.claims || {}
-        const sitelinks = entityInfo.sitelinks || {}
-        
-        // Get Wikipedia URL if available
-        const wikipediaUrl = sitelinks.enwiki?.url || `https://www.wikidata.org/wiki/${entity.id}`
-        
-        // Build a descriptive title
-        const label = entity.label || entity.id
-        const description = entity.description || 'Wikidata entity'
-        
-        sources.push({
-          rank: sources.length + 1,
-          url: wikipediaUrl,
-          title: `${label} - ${description}`,
-          publisher: sitelinks.enwiki ? "Wikipedia" : "Wikidata",
-          publishedAt: null,
-          type: "primary", // Wikidata is considered primary source for structured facts
-          category: "knowledge",
-          quality: {
-            score: 85, // High quality for structured knowledge
-            indicators: ["structured-data", "collaborative-edited", "referenced"],
-            domainAuthority: 85
-          },
-          metadata: {
-            domain: sitelinks.enwiki ? 'en.wikipedia.org' : 'wikidata.org',
-            snippet: `Structured knowledge about ${label}: ${description}`,
-            citationNumber: sources.length + 1,
-            isCitedInText: false,
-            // Wikidata specific metadata
-            entityId: entity.id,
-            conceptUri: entity.concepturi,
-            claimsCount: Object.keys(claims).length,
-            hasWikipediaArticle: !!sitelinks.enwiki,
-            languages: Object.keys(sitelinks).length,
-            source: 'Wikidata'
-          }
-        })
-      } catch (entityError) {
-        console.log(`[v0] Failed to fetch entity ${entity.id}:`, entityError)
-        continue
-      }
-    }
-    
-    return sources
-  } catch (error) {
-    console.log(`[v0] Wikidata query failed: ${(error as Error).message}`)
-    return []
-  }
-}
-
-// Internal claim extraction function (avoid HTTP self-calls)
-async function extractClaimsInternal(input: string, sessionId: string) {
-  const OPENAI_API_KEY = process.env.OPENAI_API_KEY
-  
-  if (!OPENAI_API_KEY) {
-    throw new Error("No OpenAI API key configured")
-  }
-
-  console.log(`[v0] Internal claim extraction for sessionId: ${sessionId}`)
-
-  // Determine input type (simple query vs full article)  
-  const inputType = determineInputType(input)
-  
-  try {
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), 30000) // 30 second timeout
-    
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      signal: controller.signal,
-      body: JSON.stringify({
-        model: 'gpt-4-turbo-2024-04-09',
-        messages: [
-          { 
-            role: 'system', 
-            content: `You are a fact-checking assistant. Extract all verifiable factual claims from this ${inputType}.
-
-For each claim:
-1. State it as a clear, atomic statement
-2. Assign priority (high for central claims, medium for supporting claims, low for tangential)
-3. Create an optimized search query to verify this claim
-
-Respond in valid JSON format:
-{
-  "claims": [
-    {
-      "id": 1,
-      "text": "specific verifiable claim",
-      "priority": "high|medium|low",
-      "searchQuery": "optimized search string"
-    }
-  ],
-  "summary": "brief overview of main claims"
-}`
-          },
-          { 
-            role: 'user', 
-            content: `Input ${inputType}: ${input}` 
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 1500
-      })
-    })
-    
-    clearTimeout(timeoutId)
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`)
-    }
-
-    const data = await response.json()
-    const content = data.choices[0]?.message?.content
-
-    if (!content) {
-      throw new Error("No content received from OpenAI")
-    }
-
-    return parseClaimExtractionResponse(content, input, inputType)
-  } catch (error) {
-    console.error('[v0] Internal claim extraction failed:', error)
-    // Fallback: single claim
-    return {
-      claims: [{
-        id: 1,
-        text: input,
-        priority: 'high',
-        searchQuery: input
-      }],
-      inputType: inputType,
-      originalInput: input,
-      summary: "Fallback: treated as single claim"
-    }
-  }
-}
-
-function determineInputType(input: string): "query" | "article" {
-  const wordCount = input.trim().split(/\s+/).length
-  const sentenceCount = input.split(/[.!?]+/).filter(s => s.trim().length > 0).length
-  
-  if (wordCount < 20 && (input.includes('?') || sentenceCount <= 2)) {
-    return "query"
-  }
-  
-  return sentenceCount > 3 ? "article" : "query"
-}
-
-function parseClaimExtractionResponse(content: string, input: string, inputType: "query" | "article") {
-  try {
-    const jsonMatch = content.match(/```json\n([\s\S]*?)\n```/) || content.match(/\{[\s\S]*\}/)
-    const jsonString = jsonMatch ? jsonMatch[1] || jsonMatch[0] : content
-    
-    const parsed = JSON.parse(jsonString)
-    
-    if (!parsed.claims || !Array.isArray(parsed.claims)) {
-      throw new Error("Invalid response structure: missing claims array")
-    }
-
-    const validatedClaims = parsed.claims.map((claim: any, index: number) => ({
-      id: claim.id || index + 1,
-      text: claim.text || claim.claim || "",
-      priority: ["high", "medium", "low"].includes(claim.priority) ? claim.priority : "medium",
-      searchQuery: claim.searchQuery || claim.search_query || claim.text || ""
-    })).filter((claim: any) => claim.text.trim().length > 0)
-
-    return {
-      claims: validatedClaims,
-      inputType,
-      originalInput: input,
-      summary: parsed.summary || "Claims extracted from input"
-    }
-  } catch (error) {
-    console.error("[v0] Failed to parse claim extraction response:", error)
-    
-    // Fallback: treat entire input as single claim
-    return {
-      claims: [{
-        id: 1,
-        text: input.substring(0, 500),
-        priority: "high",
-        searchQuery: input.substring(0, 200)
-      }],
-      inputType,
-      originalInput: input,
-      summary: "Fallback: treated as single claim due to parsing error"
-    }
-  }
-}
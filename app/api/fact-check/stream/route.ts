@@ -0,0 +1,162 @@
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+import { type NextRequest, NextResponse } from "next/server"
+import { generateSlug } from "@/lib/database"
+import { logQuery } from "@/lib/query-logger"
+import { authManager } from "@/lib/auth"
+import { classifyQuery } from "@/lib/query-classifier"
+import { webhookManager, summarizeFactCheckSources } from "@/lib/webhook-manager"
+import { performFactCheck, getCachedFactCheck } from "../pipeline"
+import { subscribeToProgress } from "../progress"
+import { meterRequest } from "@/lib/usage-meter"
+
+// Keeps proxies from closing the connection during long provider calls
+const HEARTBEAT_INTERVAL_MS = 15000
+
+/**
+ * Server-Sent Events stream for a fact-check
+ * Events: progress, sources (per provider as they land), analysis (primary
+ * analysis tokens), verdict (final result), error
+ */
+export async function GET(request: NextRequest) {
+  await meterRequest(request)
+  const query = request.nextUrl.searchParams.get("query")
+  const sessionId = request.nextUrl.searchParams.get("sessionId") || `stream_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+  if (!query) {
+    return new Response("Query parameter is required", { status: 400 })
+  }
+
+  // Same rules as POST /api/fact-check: anonymous is fine, credentials without the scope are not
+  const authSession = await authManager.getSessionFromRequest(request)
+  if (authSession && !authManager.hasScope(authSession, "fact-check")) {
+    return NextResponse.json({ error: "Insufficient scope", requiredScope: "fact-check" }, { status: 403 })
+  }
+  const user = authSession ? (await authManager.getUserById(authSession.userId)) || undefined : undefined
+
+  const slug = generateSlug(query)
+  const encoder = new TextEncoder()
+  let closed = false
+  let unsubscribe: () => void = () => {}
+  let heartbeat: ReturnType<typeof setInterval> | undefined
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        } catch {
+          closed = true
+        }
+      }
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        unsubscribe()
+        if (heartbeat) clearInterval(heartbeat)
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client
+        }
+      }
+
+      // Cached checks answer straight away; new ones stream partial results and notify webhooks
+      const run = async () => {
+        const cachedResult = await getCachedFactCheck(query, slug)
+        if (cachedResult) {
+          send("verdict", { ...cachedResult, sessionId })
+          return
+        }
+
+        const startTime = Date.now()
+        try {
+          const result = await performFactCheck(query, sessionId, slug, {
+            onSources: (claim, apiName, sources) => send("sources", {
+              claimId: claim.id,
+              claim: claim.text,
+              provider: apiName,
+              count: sources.length,
+              sources,
+            }),
+            onAnalysisToken: (claim, token) => send("analysis", { claimId: claim.id, token }),
+          })
+          send("verdict", { ...result, slug, sessionId, cached: false })
+
+          if (user) {
+            await webhookManager.triggerEvent("fact_check.completed", {
+              query,
+              slug,
+              verdict: result.verdict,
+              domain: result.metadata?.intelligentRouting?.domain || classifyQuery(query).domain,
+              sourceCount: result.sources?.length || 0,
+              ...summarizeFactCheckSources(result),
+              processingTimeMs: Date.now() - startTime
+            }, user)
+          }
+        } catch (error) {
+          console.error("[v0] Stream Error:", error)
+          await logQuery(query, false, {
+            errorType: 'api_error',
+            method: 'SSE'
+          })
+          send("error", { error: "Internal server error" })
+
+          if (user) {
+            await webhookManager.triggerEvent("fact_check.failed", {
+              query,
+              slug,
+              error: error instanceof Error ? error.message : "Unknown error"
+            }, user)
+          }
+        }
+      }
+
+      request.signal.addEventListener("abort", close)
+
+      heartbeat = setInterval(() => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(`: heartbeat\n\n`))
+        } catch {
+          // The client went away between ticks; enqueue on a cancelled stream throws
+          close()
+        }
+      }, HEARTBEAT_INTERVAL_MS)
+
+      unsubscribe = subscribeToProgress(sessionId, (update) => send("progress", update))
+      send("progress", {
+        step: "connected",
+        status: "starting",
+        message: "Fact-check stream opened",
+        progress: 0,
+        timestamp: Date.now(),
+        slug,
+      })
+
+      run()
+        .catch((error) => {
+          console.error("[v0] Stream Error:", error)
+          send("error", { error: "Internal server error" })
+        })
+        .finally(close)
+    },
+    cancel() {
+      closed = true
+      unsubscribe()
+      if (heartbeat) clearInterval(heartbeat)
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server"
 import { healthCheck } from "@/lib/db"
 import { cache } from "@/lib/cache"
 import { sessionManager } from "@/lib/session-manager"
+import { evidenceProviders } from "@/lib/evidence-providers"
 
 export async function GET() {
   const startTime = Date.now()
@@ -32,7 +33,8 @@ export async function GET() {
           connected: dbHealth.redis,
           ...cacheStats
         },
-        sessions: sessionStats
+        sessions: sessionStats,
+        evidenceProviders: evidenceProviders.getHealth()
       },
       environment: {
         nodeEnv: process.env.NODE_ENV,
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { intelligentSearch, getSearchSummary, enhanceSourceMetadata } from '@/lib/intelligent-router'
-import { classifyQuery } from '@/lib/query-classifier'
+import { classifyQuery, type QueryContext } from '@/lib/query-classifier'
+import { enhancedFactCheckCache, type CacheInfo } from '@/lib/enhanced-cache'
+import { meterRequest } from '@/lib/usage-meter'
 
 /**
  * Enhanced fact-check API with intelligent domain-specific routing
@@ -33,10 +35,13 @@ interface IntelligentFactCheckResponse {
     totalAPIsUsed: number
     fallbackUsed: boolean
   }
+  cached?: boolean
+  cache?: CacheInfo
   errors?: any
 }
 
 export async function POST(request: NextRequest) {
+  await meterRequest(request)
   const startTime = Date.now()
   
   try {
@@ -63,58 +68,28 @@ export async function POST(request: NextRequest) {
       console.log(`[IntelligentFactCheck] Domain overridden to: ${domainHint}`)
     }
     
-    // Step 2: Execute intelligent search
-    const searchResult = await intelligentSearch(query, {
-      maxSourcesPerAPI: Math.ceil(maxSources / context.suggestedAPIs.length),
-      parallelExecution: enableParallel,
-      fallbackToGeneral: true,
-      timeoutMs: 20000
+    // Results depend on the routed domain and source budget, so each combination is cached separately
+    const variant = `intelligent:${context.domain}:${maxSources}`
+    const cachedHit = await enhancedFactCheckCache.getWithRevalidation(query, {
+      variant,
+      domain: context.domain,
+      refresh: (matchedQuery) => runIntelligentFactCheck(matchedQuery, context, maxSources, enableParallel)
     })
-    
-    // Step 3: Enhance source metadata for display
-    const enhancedSources = searchResult.sources.map(source => ({
-      ...enhanceSourceMetadata(source),
-      rank: searchResult.sources.indexOf(source) + 1,
-      domainRelevance: context.keywords.some(keyword => 
-        source.title.toLowerCase().includes(keyword.toLowerCase()) ||
-        source.abstract?.toLowerCase().includes(keyword.toLowerCase())
-      )
-    }))
-    
-    // Step 4: Generate search summary
-    const searchSummary = getSearchSummary(searchResult)
-    
-    // Step 5: Analyze API performance
-    const totalAPIsUsed = Object.keys(searchResult.apiResults).length
-    const successfulAPIs = Object.values(searchResult.apiResults).filter(r => !r.error).length
-    const fallbackUsed = 'perplexity' in searchResult.apiResults && context.domain !== 'general'
-    
-    const response: IntelligentFactCheckResponse = {
-      success: true,
-      query,
-      context: {
-        domain: context.domain,
-        confidence: context.confidence,
-        description: getDomainDescription(context.domain),
-        keywords: context.keywords
-      },
-      sources: enhancedSources,
-      sourceBreakdown: searchResult.sourceBreakdown,
-      searchSummary,
-      apiResults: searchResult.apiResults,
-      totalProcessingTime: Date.now() - startTime,
-      metadata: {
-        intelligentRouting: true,
-        totalAPIsUsed,
-        fallbackUsed
-      }
+
+    if (cachedHit) {
+      console.log(`[IntelligentFactCheck] Serving cached result (similarity ${cachedHit.cache.similarity}, age ${cachedHit.cache.ageSeconds}s)`)
+      return NextResponse.json({
+        ...cachedHit.result,
+        totalProcessingTime: Date.now() - startTime,
+        cached: true,
+        cache: cachedHit.cache
+      })
     }
-    
-    console.log(`[IntelligentFactCheck] Completed in ${response.totalProcessingTime}ms`)
-    console.log(`[IntelligentFactCheck] Found ${enhancedSources.length} sources across ${totalAPIsUsed} APIs`)
-    console.log(`[IntelligentFactCheck] Success rate: ${successfulAPIs}/${totalAPIsUsed} APIs`)
-    
-    return NextResponse.json(response)
+
+    const response = await runIntelligentFactCheck(query, context, maxSources, enableParallel, startTime)
+    await enhancedFactCheckCache.set(query, response, { variant, domain: context.domain })
+
+    return NextResponse.json({ ...response, cached: false })
     
   } catch (error) {
     console.error('[IntelligentFactCheck] Error:', error)
@@ -131,7 +106,69 @@ export async function POST(request: NextRequest) {
   }
 }
 
+async function runIntelligentFactCheck(
+  query: string,
+  context: QueryContext,
+  maxSources: number,
+  enableParallel: boolean,
+  startTime = Date.now()
+): Promise<IntelligentFactCheckResponse> {
+  // Step 2: Execute intelligent search
+  const searchResult = await intelligentSearch(query, {
+    maxSourcesPerAPI: Math.ceil(maxSources / Math.max(context.suggestedAPIs.length, 1)),
+    parallelExecution: enableParallel,
+    fallbackToGeneral: true,
+    timeoutMs: 20000
+  })
+  
+  // Step 3: Enhance source metadata for display
+  const enhancedSources = searchResult.sources.map(source => ({
+    ...enhanceSourceMetadata(source),
+    rank: searchResult.sources.indexOf(source) + 1,
+    domainRelevance: context.keywords.some(keyword => 
+      source.title.toLowerCase().includes(keyword.toLowerCase()) ||
+      source.abstract?.toLowerCase().includes(keyword.toLowerCase())
+    )
+  }))
+  
+  // Step 4: Generate search summary
+  const searchSummary = getSearchSummary(searchResult)
+  
+  // Step 5: Analyze API performance
+  const totalAPIsUsed = Object.keys(searchResult.apiResults).length
+  const successfulAPIs = Object.values(searchResult.apiResults).filter(r => !r.error).length
+  const fallbackUsed = 'perplexity' in searchResult.apiResults && context.domain !== 'general'
+  
+  const response: IntelligentFactCheckResponse = {
+    success: true,
+    query,
+    context: {
+      domain: context.domain,
+      confidence: context.confidence,
+      description: getDomainDescription(context.domain),
+      keywords: context.keywords
+    },
+    sources: enhancedSources,
+    sourceBreakdown: searchResult.sourceBreakdown,
+    searchSummary,
+    apiResults: searchResult.apiResults,
+    totalProcessingTime: Date.now() - startTime,
+    metadata: {
+      intelligentRouting: true,
+      totalAPIsUsed,
+      fallbackUsed
+    }
+  }
+  
+  console.log(`[IntelligentFactCheck] Completed in ${response.totalProcessingTime}ms`)
+  console.log(`[IntelligentFactCheck] Found ${enhancedSources.length} sources across ${totalAPIsUsed} APIs`)
+  console.log(`[IntelligentFactCheck] Success rate: ${successfulAPIs}/${totalAPIsUsed} APIs`)
+  
+  return response
+}
+
 export async function GET(request: NextRequest) {
+  await meterRequest(request)
   const { searchParams } = new URL(request.url)
   const query = searchParams.get('query')
   
@@ -0,0 +1,72 @@
+export const runtime = 'nodejs'
+
+import { NextRequest, NextResponse } from 'next/server'
+import { enforceGlobalRateLimit } from '@/lib/rate-limiter'
+import { authManager, getRequiredScope } from '@/lib/auth'
+import { usageMeter, resolveUsageIdentity, isMeteredPath } from '@/lib/usage-meter'
+import { RATE_LIMIT_SECRET } from '@/lib/rate-limit-secret'
+import { isRedisConnectionError } from '@/lib/db'
+
+// POST /api/rate-limit - Internal: check an API key's scope, then count a request against the caller's global limit and monthly budget (middleware only)
+export async function POST(request: NextRequest) {
+  if (!RATE_LIMIT_SECRET || request.headers.get('x-rate-limit-secret') !== RATE_LIMIT_SECRET) {
+    return NextResponse.json({
+      success: false,
+      error: 'Forbidden'
+    }, { status: 403 })
+  }
+
+  try {
+    const path = request.headers.get('x-rate-limit-path') || 'unknown'
+    const session = await authManager.getSessionFromRequest(request)
+
+    // API keys only reach the routes their scopes cover
+    if (session?.apiKeyId) {
+      const scope = getRequiredScope(path)
+      if (!authManager.hasScope(session, scope)) {
+        return NextResponse.json({
+          allowed: false,
+          headers: {},
+          forbidden: {
+            message: scope ? `This API key lacks the "${scope}" scope` : 'This route does not accept API keys',
+            scope
+          }
+        })
+      }
+    }
+
+    const { allowed, headers, result, identifier, tier } = await enforceGlobalRateLimit(request, path, session)
+
+    if (!allowed || !isMeteredPath(path)) {
+      return NextResponse.json({ allowed, headers, result, identifier, tier })
+    }
+
+    // Paid routes also need budget left for the month
+    const identity = await resolveUsageIdentity(request)
+    const budget = await usageMeter.checkBudget(identity.identifier, identity.tier)
+    const budgetHeaders = {
+      ...headers,
+      'X-Usage-Budget': budget.budget.toString(),
+      'X-Usage-Remaining': budget.remaining.toString(),
+      'X-Usage-Reset': budget.resetAt
+    }
+
+    if (!budget.allowed) {
+      console.log(`[Usage] ${identity.identifier} exhausted the ${budget.tier} monthly budget on ${path}`)
+    }
+
+    return NextResponse.json({ allowed: budget.allowed, headers: budgetHeaders, result, budget, identifier, tier })
+  } catch (error) {
+    // Fail open only when Redis is down, like the limiter itself; anything else is a bug the middleware should surface
+    if (isRedisConnectionError(error)) {
+      console.error('Rate limit check skipped, Redis unavailable:', error instanceof Error ? error.message : error)
+      return NextResponse.json({ allowed: true, headers: {} })
+    }
+
+    console.error('Rate limit check error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Rate limit check failed'
+    }, { status: 500 })
+  }
+}
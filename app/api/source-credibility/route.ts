@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth'
+import {
+  listCredibilityOverrides,
+  getCredibilityOverride,
+  createCredibilityOverride,
+  updateCredibilityOverride,
+  deleteCredibilityOverride,
+  CredibilityOverrideError
+} from '@/lib/credibility-overrides'
+import { listMediaReliabilityDatasets } from '@/lib/media-reliability'
+
+function forbidden() {
+  return NextResponse.json({
+    success: false,
+    error: 'Forbidden',
+    message: 'Admin access required'
+  }, { status: 403 })
+}
+
+function handleError(method: string, error: unknown) {
+  if (error instanceof CredibilityOverrideError) {
+    const errors = { 400: 'Invalid override', 404: 'Override not found', 409: 'Override already exists' }
+    return NextResponse.json({
+      success: false,
+      error: errors[error.status],
+      message: error.message
+    }, { status: error.status })
+  }
+
+  console.error(`Source credibility ${method} error:`, error)
+  return NextResponse.json({
+    success: false,
+    error: 'Internal server error'
+  }, { status: 500 })
+}
+
+// GET /api/source-credibility - List overrides and imported datasets, or one domain with its audit trail (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const { authorized } = await requireRole(request, 'admin')
+    if (!authorized) return forbidden()
+
+    const { searchParams } = new URL(request.url)
+    const domain = searchParams.get('domain')
+
+    if (domain) {
+      const { override, history } = await getCredibilityOverride(domain)
+      if (!override && history.length === 0) {
+        return NextResponse.json({
+          success: false,
+          error: 'Override not found'
+        }, { status: 404 })
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { override, history },
+        timestamp: new Date().toISOString()
+      })
+    }
+
+    const [overrides, datasets] = await Promise.all([
+      listCredibilityOverrides(),
+      listMediaReliabilityDatasets()
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        overrides,
+        total: overrides.length,
+        datasets
+      },
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    return handleError('GET', error)
+  }
+}
+
+// POST /api/source-credibility - Add an override for a domain (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const { authorized, user } = await requireRole(request, 'admin')
+    if (!authorized || !user) return forbidden()
+
+    const body = await request.json()
+    const override = await createCredibilityOverride({
+      domain: body.domain,
+      score: body.score,
+      maxScore: body.maxScore,
+      sourceType: body.sourceType,
+      notes: body.notes,
+      reason: body.reason,
+      provenance: body.provenance
+    }, { id: user.id, username: user.username })
+
+    return NextResponse.json({
+      success: true,
+      data: override,
+      message: 'Override created successfully'
+    }, { status: 201 })
+  } catch (error) {
+    return handleError('POST', error)
+  }
+}
+
+// PUT /api/source-credibility?domain= - Change an existing override (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    const { authorized, user } = await requireRole(request, 'admin')
+    if (!authorized || !user) return forbidden()
+
+    const body = await request.json()
+    const { searchParams } = new URL(request.url)
+    const domain = searchParams.get('domain') || body.domain
+
+    if (!domain) {
+      return NextResponse.json({
+        success: false,
+        error: 'Domain is required'
+      }, { status: 400 })
+    }
+
+    const override = await updateCredibilityOverride(domain, {
+      score: body.score,
+      maxScore: body.maxScore,
+      sourceType: body.sourceType,
+      notes: body.notes,
+      reason: body.reason,
+      provenance: body.provenance
+    }, { id: user.id, username: user.username })
+
+    return NextResponse.json({
+      success: true,
+      data: override,
+      message: 'Override updated successfully'
+    })
+  } catch (error) {
+    return handleError('PUT', error)
+  }
+}
+
+// DELETE /api/source-credibility?domain=&reason= - Remove an override (admin only)
+export async function DELETE(request: NextRequest) {
+  try {
+    const { authorized, user } = await requireRole(request, 'admin')
+    if (!authorized || !user) return forbidden()
+
+    const { searchParams } = new URL(request.url)
+    const domain = searchParams.get('domain')
+
+    if (!domain) {
+      return NextResponse.json({
+        success: false,
+        error: 'Domain is required'
+      }, { status: 400 })
+    }
+
+    const deleted = await deleteCredibilityOverride(domain, searchParams.get('reason') || '', { id: user.id, username: user.username })
+
+    if (!deleted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Override not found'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Override deleted successfully'
+    })
+  } catch (error) {
+    return handleError('DELETE', error)
+  }
+}
@@ -1,4 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { getStanceForClaim } from "@/lib/stance-detection"
+import { meteredFetch, meterRequest } from "@/lib/usage-meter"
 
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY
 const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY
@@ -32,6 +34,7 @@ interface SynthesisResult {
 }
 
 export async function POST(request: NextRequest) {
+  await meterRequest(request)
   try {
     const body = await request.json()
     const { claimResults, sources, sessionId } = body
@@ -50,6 +53,17 @@ export async function POST(request: NextRequest) {
     
     // Use LLM to synthesize final analysis
     const synthesisResult = await synthesizeWithLLM(structuredData)
+
+    // Fall back to per-source stance labels where the LLM didn't cite sources
+    synthesisResult.verifications = synthesisResult.verifications.map((verification: ClaimVerification) => {
+      const data = structuredData.find(d => d.claim.id === verification.claim.id)
+      if (!data) return verification
+      return {
+        ...verification,
+        supportingSources: verification.supportingSources.length > 0 ? verification.supportingSources : data.stanceSupporting,
+        contradictingSources: verification.contradictingSources.length > 0 ? verification.contradictingSources : data.stanceContradicting
+      }
+    })
     
     console.log(`[v0] Synthesis complete: ${synthesisResult.overallCredibility} credibility, ${synthesisResult.confidence} confidence`)
     
@@ -67,18 +81,32 @@ function prepareClaimsWithSources(claimResults: any[], sources: any[]) {
   return claimResults.map((claimResult, index) => {
     const { claim, perplexity, factCheck } = claimResult
     
+    const ranksWithStance = (label: string) => sources
+      .filter(source => getStanceForClaim(source, claim.id)?.label === label)
+      .map(source => source.rank)
+      .filter(Boolean)
+
+    // Sources that take a side on this claim come first
+    const stanceSources = sources.filter(source => {
+      const stance = getStanceForClaim(source, claim.id)
+      return stance && stance.label !== 'neutral'
+    })
+
     // Extract relevant sources for this claim
-    const claimSources = sources.filter(source => 
+    const matchedSources = sources.filter(source => 
       source.metadata?.citationNumber || 
       source.title?.toLowerCase().includes(claim.text.toLowerCase().split(' ')[0]) ||
       index === 0 // First few sources for first claim as fallback
-    ).slice(0, 5)
+    )
+    const claimSources = [...new Set([...stanceSources, ...matchedSources])].slice(0, 8)
     
     return {
       claim,
       perplexityResponse: perplexity?.choices?.[0]?.message?.content || null,
       factCheckData: factCheck?.claims || [],
       availableSources: claimSources,
+      stanceSupporting: ranksWithStance('supports'),
+      stanceContradicting: ranksWithStance('refutes'),
       index
     }
   })
@@ -139,9 +167,11 @@ ${data.factCheckData.length > 0 ?
 }
 
 Available Sources:
-${data.availableSources.map((source: any) => 
-  `[${source.rank}] ${source.title} (${source.publisher}) - Quality: ${source.quality?.score || 'Unknown'}/100`
-).join('\n')}
+${data.availableSources.map((source: any) => {
+  const stance = getStanceForClaim(source, data.claim.id)
+  const stanceNote = stance ? ` - Stance: ${stance.label}${stance.rationale ? ` (${stance.rationale})` : ''}` : ''
+  return `[${source.rank}] ${source.title} (${source.publisher}) - Quality: ${source.quality?.score || 'Unknown'}/100${stanceNote}`
+}).join('\n')}
 
 ---
 `).join('\n')}
@@ -167,7 +197,7 @@ Please analyze each claim thoroughly and provide the synthesis in the specified
 }
 
 async function callOpenAIForSynthesis(systemPrompt: string, userPrompt: string) {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+  const response = await meteredFetch('openai', 'https://api.openai.com/v1/chat/completions', {
     method: 'POST',
     headers: {
       'Authorization': `Bearer ${OPENAI_API_KEY}`,
@@ -199,7 +229,7 @@ async function callOpenAIForSynthesis(systemPrompt: string, userPrompt: string)
 }
 
 async function callAnthropicForSynthesis(systemPrompt: string, userPrompt: string) {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
+  const response = await meteredFetch('anthropic', 'https://api.anthropic.com/v1/messages', {
     method: 'POST',
     headers: {
       'Authorization': `Bearer ${ANTHROPIC_API_KEY}`,
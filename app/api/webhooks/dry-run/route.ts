@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth'
+import { webhookManager, validateWebhookFilters, type WebhookFilters } from '@/lib/webhook-manager'
+import { applyRateLimit } from '@/lib/rate-limiter'
+
+// POST /api/webhooks/dry-run - Test filters against recent fact-check results without delivering anything
+// Body: { filters?, limit? }; with ?id= the webhook's saved filters are used unless the body provides some
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const { allowed, headers } = await applyRateLimit(request, {
+      windowSizeMs: 60 * 1000, // 1 minute
+      maxRequests: 10, // 10 dry runs per minute
+      keyPrefix: 'rate_limit:webhooks_dry_run'
+    })
+    
+    if (!allowed) {
+      return NextResponse.json({
+        success: false,
+        error: "Rate limit exceeded"
+      }, { 
+        status: 429,
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json'
+        }
+      })
+    }
+
+    // Check authentication
+    const { authorized, user } = await requireAuth(request, 'webhooks:write')
+    
+    if (!authorized || !user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized',
+        message: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const webhookId = searchParams.get('id')
+    const body = await request.json().catch(() => ({}))
+
+    let filters: WebhookFilters | undefined = body.filters
+
+    if (webhookId) {
+      const webhook = await webhookManager.getWebhook(webhookId)
+      
+      if (!webhook || webhook.userId !== user.id) {
+        return NextResponse.json({
+          success: false,
+          error: 'Webhook not found'
+        }, { status: 404 })
+      }
+
+      filters = filters || webhook.filters || {}
+    }
+
+    if (!filters || typeof filters !== 'object') {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing filters',
+        message: 'Provide filters in the request body or a webhook ID in query parameters'
+      }, { status: 400 })
+    }
+
+    const filterError = validateWebhookFilters(filters)
+    if (filterError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid filters',
+        message: filterError
+      }, { status: 400 })
+    }
+
+    const limit = Math.min(Math.max(parseInt(body.limit, 10) || 50, 1), 200)
+    const dryRun = await webhookManager.dryRunFilters(filters, limit)
+
+    const response = NextResponse.json({
+      success: true,
+      data: {
+        filters,
+        ...dryRun
+      },
+      timestamp: new Date().toISOString()
+    })
+
+    // Add rate limit headers
+    Object.entries(headers).forEach(([key, value]) => {
+      response.headers.set(key, value)
+    })
+
+    return response
+  } catch (error) {
+    console.error('Webhook dry run error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth'
+import { webhookManager, WEBHOOK_EVENTS, WEBHOOK_FORMATS, type WebhookEvent, type WebhookFormat } from '@/lib/webhook-manager'
+import { WebhookIntegrations } from '@/lib/webhook-integrations'
+import { applyRateLimit } from '@/lib/rate-limiter'
+
+// GET /api/webhooks/preview - Render sample payloads in a webhook format
+// ?format= picks the format (defaults to the webhook's own with ?id=, otherwise raw); ?event= limits it to one event
+export async function GET(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const { allowed, headers } = await applyRateLimit(request, {
+      windowSizeMs: 60 * 1000, // 1 minute
+      maxRequests: 30, // 30 previews per minute
+      keyPrefix: 'rate_limit:webhooks_preview'
+    })
+    
+    if (!allowed) {
+      return NextResponse.json({
+        success: false,
+        error: "Rate limit exceeded"
+      }, { 
+        status: 429,
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json'
+        }
+      })
+    }
+
+    // Check authentication
+    const { authorized, user } = await requireAuth(request, 'webhooks:write')
+    
+    if (!authorized || !user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized',
+        message: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const webhookId = searchParams.get('id')
+    const event = searchParams.get('event') as WebhookEvent | null
+    let format = (searchParams.get('format') || 'raw') as WebhookFormat
+
+    if (webhookId) {
+      const webhook = await webhookManager.getWebhook(webhookId)
+      
+      if (!webhook || webhook.userId !== user.id) {
+        return NextResponse.json({
+          success: false,
+          error: 'Webhook not found'
+        }, { status: 404 })
+      }
+
+      format = (searchParams.get('format') || webhook.format || 'raw') as WebhookFormat
+    }
+
+    if (!WEBHOOK_FORMATS.includes(format)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid format',
+        message: `format must be one of: ${WEBHOOK_FORMATS.join(', ')}`
+      }, { status: 400 })
+    }
+
+    if (event && !WEBHOOK_EVENTS.includes(event)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid event',
+        message: `event must be one of: ${WEBHOOK_EVENTS.join(', ')}`
+      }, { status: 400 })
+    }
+
+    const sampleUser = { id: user.id, username: user.username, tier: user.tier }
+    const previews = (event ? [event] : WEBHOOK_EVENTS).map(previewEvent => {
+      const payload = WebhookIntegrations.getSamplePayload(previewEvent, webhookId || 'webhook_preview', sampleUser)
+      const rendered = WebhookIntegrations.renderPayload(format, payload, `delivery_preview_${previewEvent.replace('.', '_')}`)
+
+      return {
+        event: previewEvent,
+        contentType: rendered.contentType,
+        body: rendered.body
+      }
+    })
+
+    const response = NextResponse.json({
+      success: true,
+      data: {
+        format,
+        previews
+      },
+      timestamp: new Date().toISOString()
+    })
+
+    // Add rate limit headers
+    Object.entries(headers).forEach(([key, value]) => {
+      response.headers.set(key, value)
+    })
+
+    return response
+  } catch (error) {
+    console.error('Webhook preview error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
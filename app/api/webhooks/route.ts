@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { requireAuth, requireRole } from '@/lib/auth'
-import { webhookManager, type Webhook, type WebhookEvent } from '@/lib/webhook-manager'
+import { requireAuth, requireRole, authManager } from '@/lib/auth'
+import { webhookManager, validateWebhookFilters, type Webhook, type WebhookEvent } from '@/lib/webhook-manager'
 import { applyRateLimit } from '@/lib/rate-limiter'
 
 // GET /api/webhooks - Get user's webhooks
@@ -27,7 +27,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Check authentication
-    const { authorized, user } = await requireAuth(request)
+    const { authorized, user } = await requireAuth(request, 'webhooks:write')
     
     if (!authorized || !user) {
       return NextResponse.json({
@@ -43,7 +43,11 @@ export async function GET(request: NextRequest) {
 
     let responseData: any = {}
 
-    if (webhookId) {
+    if (searchParams.get('deadLetters') === 'true') {
+      // Deliveries that used up their retries, newest first
+      const deadLetters = await webhookManager.getDeadLetters(user.id, webhookId || undefined)
+      responseData = { deadLetters }
+    } else if (webhookId) {
       // Get specific webhook
       const webhook = await webhookManager.getWebhook(webhookId)
       
@@ -127,7 +131,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Check authentication
-    const { authorized, user } = await requireAuth(request)
+    const { authorized, user } = await requireAuth(request, 'webhooks:write')
     
     if (!authorized || !user) {
       return NextResponse.json({
@@ -137,11 +141,47 @@ export async function POST(request: NextRequest) {
       }, { status: 401 })
     }
 
+    if (!authManager.canUseFeature(user, 'webhooks')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Email not verified',
+        message: 'Verify your email address before creating webhooks'
+      }, { status: 403 })
+    }
+
+    // POST /api/webhooks?redeliver=<deliveryId> - Queue a failed or dead-lettered delivery again
+    const redeliverId = new URL(request.url).searchParams.get('redeliver')
+    if (redeliverId) {
+      const { delivery, error } = await webhookManager.redeliver(redeliverId, user.id)
+
+      if (error || !delivery) {
+        return NextResponse.json({
+          success: false,
+          error: error || 'Redelivery failed',
+          message: error || 'Unable to queue the delivery again'
+        }, { status: error === 'Delivery not found' ? 404 : 400 })
+      }
+
+      const response = NextResponse.json({
+        success: true,
+        message: 'Delivery queued',
+        data: { delivery },
+        timestamp: new Date().toISOString()
+      })
+
+      Object.entries(headers).forEach(([key, value]) => {
+        response.headers.set(key, value)
+      })
+
+      return response
+    }
+
     const body = await request.json()
     const { 
       name, 
       url, 
       events, 
+      format,
       active = true, 
       headers: customHeaders,
       retryConfig,
@@ -171,6 +211,7 @@ export async function POST(request: NextRequest) {
       name: name.trim(),
       url: url.trim(),
       events: events as WebhookEvent[],
+      format,
       active,
       headers: customHeaders,
       retryConfig,
@@ -237,7 +278,7 @@ export async function PUT(request: NextRequest) {
     }
 
     // Check authentication
-    const { authorized, user } = await requireAuth(request)
+    const { authorized, user } = await requireAuth(request, 'webhooks:write')
     
     if (!authorized || !user) {
       return NextResponse.json({
@@ -267,6 +308,15 @@ export async function PUT(request: NextRequest) {
     delete updates.secret
     delete updates.metadata
 
+    const filterError = updates.filters ? validateWebhookFilters(updates.filters) : null
+    if (filterError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid filters',
+        message: filterError
+      }, { status: 400 })
+    }
+
     // Update webhook
     const success = await webhookManager.updateWebhook(webhookId, user.id, updates)
     
@@ -332,7 +382,7 @@ export async function DELETE(request: NextRequest) {
     }
 
     // Check authentication
-    const { authorized, user } = await requireAuth(request)
+    const { authorized, user } = await requireAuth(request, 'webhooks:write')
     
     if (!authorized || !user) {
       return NextResponse.json({
@@ -27,7 +27,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Check authentication
-    const { authorized, user } = await requireAuth(request)
+    const { authorized, user } = await requireAuth(request, 'webhooks:write')
     
     if (!authorized || !user) {
       return NextResponse.json({
@@ -401,7 +401,7 @@ export default function EnhancedSourceHoundPage() {
             <Bot className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
             <h3 className="text-2xl font-bold mb-2">Welcome to SourceHound Enhanced</h3>
             <p className="text-muted-foreground mb-6 max-w-md mx-auto">
-              I'm here to help you debunk claims, verify information, and find reliable sources with 
+              I&apos;m here to help you debunk claims, verify information, and find reliable sources with 
               advanced visualization and analysis tools.
             </p>
             <div className="grid md:grid-cols-2 gap-4 max-w-2xl mx-auto">
@@ -19,6 +19,7 @@ interface Message {
   content: string
   timestamp: Date
   isLoading?: boolean
+  progressMessage?: string
 }
 
 interface Conversation {
@@ -192,24 +193,18 @@ export default function SourceHoundPage() {
     setInput("")
     setIsLoading(true)
 
-    try {
-      // Call hybrid fact-check API (Perplexity + Gemini)
-      const response = await fetch('/api/fact-check-hybrid', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          query: userMessage.content,
-          sessionId: targetConversation.id
-        }),
-      })
-
-      if (!response.ok) {
-        throw new Error('Failed to get response')
-      }
+    // Render partial results into the loading message without persisting every token
+    const updateLoadingMessage = (patch: Partial<Message>) => {
+      setConversations(prev => prev.map(c =>
+        c.id === targetConversation!.id
+          ? { ...c, messages: c.messages.map(m => m.id === 'loading' ? { ...m, ...patch } : m) }
+          : c
+      ))
+    }
 
-      const result = await response.json()
+    try {
+      // Stream the fact-check so analysis and sources render while it runs
+      const result = await streamFactCheck(userMessage.content, targetConversation.id, updateLoadingMessage)
       
       // Create assistant message
       const assistantMessage: Message = {
@@ -260,6 +255,72 @@ export default function SourceHoundPage() {
     }
   }
 
+  // Stream a fact-check over Server-Sent Events, resolving with the final result
+  const streamFactCheck = (query: string, sessionId: string, onPartial: (patch: Partial<Message>) => void) => {
+    return new Promise<any>((resolve, reject) => {
+      const params = new URLSearchParams({ query, sessionId })
+      const eventSource = new EventSource(`/api/fact-check/stream?${params}`)
+      const analysisByClaim: { [claimId: string]: string } = {}
+      let sourceCount = 0
+      let progressMessage = 'Analyzing claim...'
+
+      const render = () => onPartial({
+        progressMessage,
+        content: formatPartialResponse(analysisByClaim, sourceCount)
+      })
+
+      eventSource.addEventListener('progress', (event) => {
+        const update = JSON.parse((event as MessageEvent).data)
+        if (update.message) {
+          progressMessage = update.message
+          render()
+        }
+      })
+
+      eventSource.addEventListener('sources', (event) => {
+        const data = JSON.parse((event as MessageEvent).data)
+        sourceCount += data.count || 0
+        render()
+      })
+
+      eventSource.addEventListener('analysis', (event) => {
+        const data = JSON.parse((event as MessageEvent).data)
+        analysisByClaim[data.claimId] = (analysisByClaim[data.claimId] || '') + data.token
+        render()
+      })
+
+      eventSource.addEventListener('verdict', (event) => {
+        eventSource.close()
+        resolve(JSON.parse((event as MessageEvent).data))
+      })
+
+      // Fires for server-sent error events and dropped connections alike
+      eventSource.addEventListener('error', () => {
+        eventSource.close()
+        reject(new Error('Fact-check stream failed'))
+      })
+    })
+  }
+
+  // Format in-flight analysis while the stream is still open
+  const formatPartialResponse = (analysisByClaim: { [claimId: string]: string }, sourceCount: number) => {
+    let response = ""
+
+    if (sourceCount > 0) {
+      response += `*${sourceCount} sources gathered so far*\n\n`
+    }
+
+    const analyses = Object.values(analysisByClaim)
+    analyses.forEach((analysis, index) => {
+      if (analyses.length > 1) {
+        response += `### Claim ${index + 1}\n`
+      }
+      response += `${analysis}\n\n`
+    })
+
+    return response
+  }
+
   // Format hybrid fact-check response for dashboard display
   const formatFactCheckResponse = (result: any) => {
     if (!result) {
@@ -269,13 +330,19 @@ export default function SourceHoundPage() {
     let response = ""
 
     // Dashboard Header with Dual-Engine Status
-    response += `🔍 **SourceHound Hybrid Analysis**\n`
+    response += result.metrics?.engineStatus ? `🔍 **SourceHound Hybrid Analysis**\n` : `🔍 **SourceHound Analysis**\n`
     if (result.metrics?.engineStatus) {
       const perplexityStatus = result.metrics.engineStatus.perplexity === 'success' ? '✅ Perplexity' : '❌ Perplexity'
       const geminiStatus = result.metrics.engineStatus.gemini === 'success' ? '✅ Gemini' : '❌ Gemini'
       response += `*Engines: ${perplexityStatus} • ${geminiStatus}*\n\n`
     }
-    
+
+    if (result.cached && result.cache) {
+      const ageMinutes = Math.round((result.cache.ageSeconds || 0) / 60)
+      const matchNote = result.cache.similarity < 1 ? ` for a similar query: "${result.cache.matchedQuery}"` : ''
+      response += `*♻️ Cached result from ${ageMinutes} min ago${matchNote}${result.cache.revalidating ? ' (refreshing in background)' : ''}*\n\n`
+    }
+
     // Verdict Section with Agreement Status
     if (result.verdict) {
       const agreementIcon = result.verdict.engineAgreement ? '🤝' : '⚖️'
@@ -296,9 +363,10 @@ export default function SourceHoundPage() {
     }
 
     // Key Findings Dashboard
-    if (result.keyFindings && result.keyFindings.length > 0) {
+    const keyFindings = result.keyFindings || result.keyPoints
+    if (keyFindings && keyFindings.length > 0) {
       response += `## 📋 Key Findings\n`
-      result.keyFindings.slice(0, 6).forEach((finding: string, index: number) => {
+      keyFindings.slice(0, 6).forEach((finding: string, index: number) => {
         response += `${index + 1}. ${finding}\n`
       })
       response += '\n'
@@ -355,6 +423,15 @@ export default function SourceHoundPage() {
       })
     }
 
+    // Earlier checks of closely related claims
+    if (result.similarClaims && result.similarClaims.length > 0) {
+      response += `\n## 🔁 Previously Checked Similar Claims\n`
+      result.similarClaims.slice(0, 3).forEach((similar: any, index: number) => {
+        const checkedOn = new Date(similar.checkedAt).toLocaleDateString()
+        response += `${index + 1}. "${similar.query}" — ${similar.verdict || 'Unrated'} *(${Math.round(similar.similarity * 100)}% similar, checked ${checkedOn})*\n`
+      })
+    }
+
     return response
   }
 
@@ -455,8 +532,8 @@ export default function SourceHoundPage() {
                 <Bot className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
                 <h3 className="text-2xl font-bold mb-2">Welcome to SourceHound</h3>
                 <p className="text-muted-foreground mb-6 max-w-md mx-auto">
-                  I'm here to help you debunk claims, verify information, and find reliable sources. 
-                  Ask me about any claim you'd like me to investigate.
+                  I&apos;m here to help you debunk claims, verify information, and find reliable sources. 
+                  Ask me about any claim you&apos;d like me to investigate.
                 </p>
                 <div className="grid md:grid-cols-2 gap-4 max-w-2xl mx-auto">
                   <Button
@@ -510,16 +587,17 @@ export default function SourceHoundPage() {
                         {message.role === 'user' ? 'You' : 'SourceHound'}
                       </div>
                       <div className="prose prose-sm dark:prose-invert max-w-none">
-                        {message.isLoading ? (
+                        {message.isLoading && (
                           <div className="flex items-center gap-2">
-                            <div className="animate-pulse">Analyzing claim...</div>
+                            <div className="animate-pulse">{message.progressMessage || 'Analyzing claim...'}</div>
                             <div className="flex space-x-1">
                               <div className="w-1 h-1 bg-current rounded-full animate-bounce" style={{animationDelay: '0ms'}}></div>
                               <div className="w-1 h-1 bg-current rounded-full animate-bounce" style={{animationDelay: '150ms'}}></div>
                               <div className="w-1 h-1 bg-current rounded-full animate-bounce" style={{animationDelay: '300ms'}}></div>
                             </div>
                           </div>
-                        ) : (
+                        )}
+                        {message.content && (
                           <ReactMarkdown 
                             remarkPlugins={[remarkGfm]}
                             components={{
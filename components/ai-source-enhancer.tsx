@@ -136,7 +136,7 @@ export function AiSourceEnhancer({ source, claim, onEnhanced }: AiSourceEnhancer
         />
       ) : (
         <div className="text-sm text-muted-foreground italic p-3 bg-muted/30 rounded-lg">
-          Click "Enhance with AI" to generate a detailed analysis of how this source relates to the claim.
+          Click &quot;Enhance with AI&quot; to generate a detailed analysis of how this source relates to the claim.
         </div>
       )}
     </div>
@@ -123,7 +123,7 @@ export function AiSourceSummary({ source, showExpanded = false, showEnhancementT
               <div className="space-y-2 ml-6">
                 {aiSummary.extractedQuotes.map((quote, index) => (
                   <blockquote key={index} className="text-sm text-gray-600 dark:text-gray-400 italic border-l-2 border-indigo-200 dark:border-indigo-700 pl-3">
-                    "{quote}"
+                    &quot;{quote}&quot;
                   </blockquote>
                 ))}
               </div>
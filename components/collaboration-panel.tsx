@@ -1,13 +1,12 @@
 'use client'
 
 import React, { useState, useEffect } from 'react'
-import { Users, Eye, MessageSquare, Wifi, WifiOff, AlertCircle, UserPlus } from 'lucide-react'
+import { Users, Eye, MessageSquare, Wifi, WifiOff, AlertCircle } from 'lucide-react'
 import { useCollaboration, type UserPresence } from '@/hooks/use-collaboration'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Input } from '@/components/ui/input'
 import { toast } from 'sonner'
 
 interface CollaborationPanelProps {
@@ -23,41 +22,17 @@ export function CollaborationPanel({
   onToggle,
   onParticipantsChange
 }: CollaborationPanelProps) {
-  const [userId, setUserId] = useState('')
-  const [username, setUsername] = useState('')
-  const [showJoinForm, setShowJoinForm] = useState(false)
-
-  // Generate user ID if not set
-  useEffect(() => {
-    if (!userId) {
-      const storedUserId = localStorage.getItem('collaboration_user_id')
-      if (storedUserId) {
-        setUserId(storedUserId)
-      } else {
-        const newUserId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-        setUserId(newUserId)
-        localStorage.setItem('collaboration_user_id', newUserId)
-      }
-    }
-
-    if (!username) {
-      const storedUsername = localStorage.getItem('collaboration_username')
-      if (storedUsername) {
-        setUsername(storedUsername)
-      } else {
-        setUsername(`User ${userId.slice(-4)}`)
-      }
-    }
-  }, [userId, username])
+  const [token, setToken] = useState<string | undefined>()
 
+  // Identity comes from the auth session; the server echoes it back as `self`
   const collaboration = useCollaboration({
     conversationId,
-    userId,
-    username,
-    autoConnect: isEnabled && !!userId && !!username,
+    token,
+    autoConnect: isEnabled && !!token,
     maxRetries: 3,
     retryDelay: 3000
   })
+  const selfId = collaboration.self?.userId
 
   // Update parent with participant count changes
   useEffect(() => {
@@ -75,35 +50,37 @@ export function CollaborationPanel({
     }
   }, [collaboration.isConnected, collaboration.error, isEnabled])
 
+  const requestSession = async (action: 'create_session' | 'join_session') => {
+    const response = await fetch('/api/collaboration', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({
+        action,
+        conversationId,
+        maxParticipants: 10
+      })
+    })
+    return { status: response.status, result: await response.json() }
+  }
+
   const handleToggleCollaboration = async () => {
     if (!isEnabled) {
-      // Check if we need username
-      if (!username.trim()) {
-        setShowJoinForm(true)
-        return
-      }
-      
-      // Create or join session
+      // Create the session, or join it if someone else already started one
       try {
-        const response = await fetch('/api/collaboration', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            action: 'create_session',
-            conversationId,
-            userId,
-            username: username.trim(),
-            maxParticipants: 10
-          })
-        })
+        let { status, result } = await requestSession('create_session')
+        if (status === 409) {
+          ({ status, result } = await requestSession('join_session'))
+        }
 
-        const result = await response.json()
-        
-        if (result.success) {
+        if (result.success && result.data?.token) {
+          setToken(result.data.token)
           onToggle(true)
-          toast.success('Collaboration session created')
+          toast.success(result.data.sessionCreated ? 'Collaboration session created' : 'Joined collaboration session')
+        } else if (status === 401) {
+          toast.error('Sign in to collaborate')
         } else {
-          toast.error('Failed to create collaboration session')
+          toast.error(result.message || result.error || 'Failed to start collaboration')
         }
       } catch (error) {
         console.error('Error creating collaboration session:', error)
@@ -111,22 +88,12 @@ export function CollaborationPanel({
       }
     } else {
       onToggle(false)
+      setToken(undefined)
       collaboration.disconnect()
       toast.info('Left collaboration session')
     }
   }
 
-  const handleJoinWithUsername = () => {
-    if (!username.trim()) {
-      toast.error('Please enter a username')
-      return
-    }
-
-    localStorage.setItem('collaboration_username', username.trim())
-    setShowJoinForm(false)
-    onToggle(true)
-  }
-
   const getUserInitials = (user: UserPresence) => {
     return user.username
       .split(' ')
@@ -146,45 +113,6 @@ export function CollaborationPanel({
 
   const status = getConnectionStatus()
 
-  if (showJoinForm) {
-    return (
-      <Card className="w-full">
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <UserPlus className="h-5 w-5" />
-            Join Collaboration
-          </CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div>
-            <label htmlFor="username" className="block text-sm font-medium mb-2">
-              Your Name
-            </label>
-            <Input
-              id="username"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              placeholder="Enter your name"
-              maxLength={50}
-            />
-          </div>
-          <div className="flex gap-2">
-            <Button onClick={handleJoinWithUsername} className="flex-1">
-              Join Session
-            </Button>
-            <Button
-              variant="outline"
-              onClick={() => setShowJoinForm(false)}
-              className="flex-1"
-            >
-              Cancel
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
-    )
-  }
-
   return (
     <Card className="w-full">
       <CardHeader>
@@ -244,7 +172,7 @@ export function CollaborationPanel({
                     <div className="flex items-center gap-2">
                       <span className="text-sm font-medium truncate">
                         {participant.username}
-                        {participant.userId === userId && (
+                        {participant.userId === selfId && (
                           <span className="text-xs text-gray-500 ml-1">(You)</span>
                         )}
                       </span>
@@ -259,14 +187,14 @@ export function CollaborationPanel({
                       )}
                     </div>
                     <div className="text-xs text-gray-500">
-                      {participant.userId === userId
+                      {participant.userId === selfId
                         ? 'Online'
                         : `Last seen ${new Date(participant.lastSeen).toLocaleTimeString()}`
                       }
                     </div>
                   </div>
 
-                  {participant.userId !== userId && (
+                  {participant.userId !== selfId && (
                     <div className="flex items-center gap-1" title="Viewing conversation">
                       <Eye className="h-4 w-4 text-green-500" />
                     </div>
@@ -83,7 +83,7 @@ export function ConversationManager({
 
   // Filter and search conversations
   const filteredConversations = useMemo(() => {
-    let filtered = conversations.filter(conv => {
+    const filtered = conversations.filter(conv => {
       // Apply filters
       if (filterMode === 'starred' && !conv.isStarred) return false
       if (filterMode === 'archived' && !conv.isArchived) return false
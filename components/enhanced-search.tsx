@@ -375,7 +375,7 @@ export function EnhancedSearch({
               Search across analysis, key findings, sources, and reviews
             </p>
             <p className="text-xs mt-1">
-              Try keywords like "climate", "evidence", "study", or "consensus"
+              Try keywords like &quot;climate&quot;, &quot;evidence&quot;, &quot;study&quot;, or &quot;consensus&quot;
             </p>
           </div>
         )}
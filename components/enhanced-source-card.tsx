@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { CredibilityBadge, type SourceType } from "@/components/ui/credibility-badge"
-import { detectSourceType } from "@/lib/source-credibility-server"
+import { detectSourceType } from "@/lib/source-credibility"
 import { ExternalLink, Calendar, User, Quote, TrendingUp } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { useState } from "react"
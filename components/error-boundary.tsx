@@ -43,6 +43,7 @@ export function ErrorBoundary({ error, timedOut, onRetry, partialData }: ErrorBo
               >
                 Try Again
               </button>
+              {/* eslint-disable-next-line @next/next/no-html-link-for-pages -- a full reload clears the errored tree */}
               <a
                 href="/"
                 className="inline-flex items-center px-4 py-2 bg-white text-red-600 text-sm font-medium rounded-lg border border-red-300 hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition-colors"
@@ -3,11 +3,21 @@
 import { Card, CardContent, CardHeader, CardTitle } from "../ui/card"
 import { Badge } from "../ui/badge"
 import { ExternalLink } from "lucide-react"
+import { normalizeRating, RATING_SCALE, type NormalizedRating } from "@/lib/fact-check-ratings"
 
 interface HumanReviewsTabProps {
   factCheckData: any
 }
 
+function getRatingVariant(review: any): "default" | "destructive" | "secondary" {
+  const rating: NormalizedRating = review.normalizedRating || normalizeRating(review.rating, review.publisher).rating
+  const ordinal = RATING_SCALE[rating]?.ordinal
+  if (ordinal === null || ordinal === undefined) return "secondary"
+  if (ordinal >= 3) return "default"
+  if (ordinal <= 1) return "destructive"
+  return "secondary"
+}
+
 export function HumanReviewsTab({ factCheckData }: HumanReviewsTabProps) {
   const reviews = factCheckData?.factCheckReviews || []
 
@@ -16,7 +26,7 @@ export function HumanReviewsTab({ factCheckData }: HumanReviewsTabProps) {
       <div>
         <h1 className="text-3xl font-bold text-foreground mb-2">Human Fact-Check Reviews</h1>
         <p className="text-muted-foreground">
-          Professional fact-checkers have previously reviewed similar claims. Here's what they found:
+          Professional fact-checkers have previously reviewed similar claims. Here&apos;s what they found:
         </p>
       </div>
 
@@ -52,12 +62,7 @@ export function HumanReviewsTab({ factCheckData }: HumanReviewsTabProps) {
                     </div>
                   </div>
                   {review.rating && (
-                    <Badge variant={
-                      review.rating.toLowerCase().includes('true') ? 'default' :
-                      review.rating.toLowerCase().includes('false') ? 'destructive' :
-                      review.rating.toLowerCase().includes('misleading') ? 'destructive' :
-                      'secondary'
-                    } className="ml-4">
+                    <Badge variant={getRatingVariant(review)} className="ml-4">
                       {review.rating}
                     </Badge>
                   )}
@@ -25,7 +25,6 @@ export function ProgressBar({ sessionId, onComplete, onError }: ProgressBarProps
   const [isComplete, setIsComplete] = useState(false)
 
   useEffect(() => {
-    let pollInterval: NodeJS.Timeout
     let lastUpdateCount = 0
 
     const pollForUpdates = async () => {
@@ -74,8 +73,8 @@ export function ProgressBar({ sessionId, onComplete, onError }: ProgressBarProps
     }
 
     // Start polling immediately, then every 500ms
+    const pollInterval = setInterval(pollForUpdates, 500)
     pollForUpdates()
-    pollInterval = setInterval(pollForUpdates, 500)
 
     return () => {
       if (pollInterval) clearInterval(pollInterval)
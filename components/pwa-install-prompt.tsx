@@ -137,7 +137,7 @@ export function OfflineIndicator() {
     >
       <Badge variant="secondary" className="bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400 px-3 py-1">
         <WifiOff className="w-3 h-3 mr-1" />
-        You're offline
+        You&apos;re offline
       </Badge>
     </motion.div>
   )
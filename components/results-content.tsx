@@ -452,7 +452,7 @@ export function ResultsContent({
       <div className="text-center py-16" role="alert" aria-live="polite">
         <div className="text-muted-foreground text-lg">No results found</div>
         <p className="text-sm text-muted-foreground mt-2">
-          We couldn't find any information about this claim. Try rephrasing your query.
+          We couldn&apos;t find any information about this claim. Try rephrasing your query.
         </p>
       </div>
     )
@@ -527,7 +527,7 @@ export function ResultsContent({
               Human Fact-Check Reviews ({(result.factCheckReviews || []).length})
             </h2>
             <p className="text-muted-foreground mb-4 text-sm">
-              Professional fact-checkers have previously reviewed similar claims. Here's what they found:
+              Professional fact-checkers have previously reviewed similar claims. Here&apos;s what they found:
             </p>
             <FactCheckReviews reviews={result.factCheckReviews || []} />
           </section>
@@ -544,7 +544,7 @@ export function ResultsContent({
               role="alert"
             >
               <p className="text-amber-800 dark:text-amber-200">
-                <strong>Human fact-check reviews unavailable:</strong> We couldn't retrieve additional professional
+                <strong>Human fact-check reviews unavailable:</strong> We couldn&apos;t retrieve additional professional
                 fact-check reviews at this time. The AI analysis below is based on our comprehensive source evaluation.
               </p>
             </div>
@@ -559,7 +559,7 @@ export function ResultsContent({
             </h2>
             <div className="bg-muted/50 border border-border rounded-lg p-4">
               <p className="text-muted-foreground">
-                <strong>No existing fact-check reviews found:</strong> Professional fact-checkers haven't previously
+                <strong>No existing fact-check reviews found:</strong> Professional fact-checkers haven&apos;t previously
                 reviewed this specific claim. Our AI analysis below provides comprehensive evaluation based on available
                 sources.
               </p>
@@ -61,7 +61,7 @@ export function SourceSummaryOverlay({ source, isOpen, onClose, factCheckQuery }
     const perspective = source.aiSummary?.perspective || 'neutral'
 
     // Generate 3-paragraph summary
-    let paragraph1 = `This source from ${publisher} (${domain}) provides ${relevance} relevance information with a ${perspective} perspective on the topic.`
+    const paragraph1 = `This source from ${publisher} (${domain}) provides ${relevance} relevance information with a ${perspective} perspective on the topic.`
     
     let paragraph2 = ''
     if (existingContent && existingContent !== 'No content summary available.') {
@@ -2,8 +2,7 @@
 
 import { Badge } from "@/components/ui/badge"
 import { cn } from "@/lib/utils"
-import { assessSourceCredibility } from "@/lib/source-credibility"
-import { detectSourceType } from "@/lib/source-credibility-server"
+import { assessSourceCredibility, detectSourceType } from "@/lib/source-credibility"
 
 // Source type definitions with icons and styling
 export const SOURCE_TYPES = {
@@ -8,7 +8,7 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { EnhancedSourceCard } from '@/components/enhanced-source-card'
 import { CredibilityBadge } from '@/components/ui/credibility-badge'
-import { detectSourceType } from '@/lib/source-credibility-server'
+import { detectSourceType } from '@/lib/source-credibility'
 import { 
   Search, 
   Filter,
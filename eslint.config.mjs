@@ -11,6 +11,19 @@ const compat = new FlatCompat({
 
 const eslintConfig = [
   ...compat.extends("next/core-web-vitals", "next/typescript"),
+  {
+    rules: {
+      // Provider payloads and route bodies are typed loosely throughout
+      "@typescript-eslint/no-explicit-any": "off",
+    },
+  },
+  {
+    // Node scripts run as CommonJS without a build step
+    files: ["**/*.js"],
+    rules: {
+      "@typescript-eslint/no-require-imports": "off",
+    },
+  },
   {
     ignores: [
       "node_modules/**",
@@ -18,6 +31,8 @@ const eslintConfig = [
       "out/**",
       "build/**",
       "next-env.d.ts",
+      "dist/**",
+      "lib/generated/**",
     ],
   },
 ];
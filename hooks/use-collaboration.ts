@@ -20,6 +20,7 @@ export interface UserPresence {
 export interface CollaborationState {
   isConnected: boolean
   isConnecting: boolean
+  self: UserPresence | null // Identity the server assigned from the auth session
   participants: UserPresence[]
   messages: CollaborationMessage[]
   error: string | null
@@ -27,11 +28,12 @@ export interface CollaborationState {
 
 export interface UseCollaborationOptions {
   conversationId: string
-  userId: string
-  username: string
+  userId?: string // Optional hint; the server assigns identity from the auth session
+  username?: string
   autoConnect?: boolean
   maxRetries?: number
   retryDelay?: number
+  token?: string // Collaboration token from POST /api/collaboration, for when the service can't see the auth-token cookie
 }
 
 export function useCollaboration(options: UseCollaborationOptions) {
@@ -41,12 +43,14 @@ export function useCollaboration(options: UseCollaborationOptions) {
     username,
     autoConnect = true,
     maxRetries = 3,
-    retryDelay = 5000
+    retryDelay = 5000,
+    token
   } = options
 
   const [state, setState] = useState<CollaborationState>({
     isConnected: false,
     isConnecting: false,
+    self: null,
     participants: [],
     messages: [],
     error: null
@@ -64,10 +68,10 @@ export function useCollaboration(options: UseCollaborationOptions) {
     setState(prev => ({ ...prev, isConnecting: true, error: null }))
 
     try {
-      // Create WebSocket connection
+      // Create WebSocket connection; the server identifies the user from the auth session
       const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
-      const host = window.location.host
-      const wsUrl = `${protocol}//${host}/api/collaboration/ws?conversationId=${encodeURIComponent(conversationId)}&userId=${encodeURIComponent(userId)}&username=${encodeURIComponent(username)}`
+      const baseUrl = process.env.NEXT_PUBLIC_COLLABORATION_URL || `${protocol}//${window.location.host}`
+      const wsUrl = `${baseUrl.replace(/\/$/, '')}/api/collaboration/ws?conversationId=${encodeURIComponent(conversationId)}${token ? `&token=${encodeURIComponent(token)}` : ''}`
       
       const ws = new WebSocket(wsUrl)
       wsRef.current = ws
@@ -101,6 +105,12 @@ export function useCollaboration(options: UseCollaborationOptions) {
         }))
         wsRef.current = null
 
+        // Policy violations (no auth, rate limited) won't succeed on retry
+        if (event.code === 1008) {
+          setState(prev => ({ ...prev, error: event.reason || 'Connection rejected' }))
+          return
+        }
+
         // Auto-retry connection if not intentionally closed
         if (event.code !== 1000 && retryCountRef.current < maxRetries) {
           retryCountRef.current++
@@ -128,7 +138,7 @@ export function useCollaboration(options: UseCollaborationOptions) {
         error: 'Failed to connect'
       }))
     }
-  }, [conversationId, userId, username, maxRetries, retryDelay])
+  }, [conversationId, token, maxRetries, retryDelay])
 
   // Disconnect from WebSocket
   const disconnect = useCallback(() => {
@@ -146,6 +156,7 @@ export function useCollaboration(options: UseCollaborationOptions) {
       ...prev,
       isConnected: false,
       isConnecting: false,
+      self: null,
       participants: [],
       messages: []
     }))
@@ -161,6 +172,7 @@ export function useCollaboration(options: UseCollaborationOptions) {
           // Initial sync with current state
           return {
             ...prev,
+            self: message.data?.self || prev.self,
             participants: message.data?.participants || [],
             messages: [...prev.messages, ...(message.data?.recentMessages || [])]
           }
@@ -214,8 +226,8 @@ export function useCollaboration(options: UseCollaborationOptions) {
     const message: CollaborationMessage = {
       type: type as any,
       conversationId,
-      userId,
-      username,
+      userId: state.self?.userId || userId || '',
+      username: state.self?.username || username || '',
       data,
       timestamp: Date.now()
     }
@@ -227,7 +239,7 @@ export function useCollaboration(options: UseCollaborationOptions) {
       console.error('Error sending WebSocket message:', error)
       return false
     }
-  }, [conversationId, userId, username])
+  }, [conversationId, userId, username, state.self])
 
   // Send chat message
   const sendChatMessage = useCallback((content: string, messageType: string = 'user') => {
@@ -263,14 +275,14 @@ export function useCollaboration(options: UseCollaborationOptions) {
 
   // Auto-connect on mount
   useEffect(() => {
-    if (autoConnect && conversationId && userId) {
+    if (autoConnect && conversationId) {
       connect()
     }
 
     return () => {
       disconnect()
     }
-  }, [autoConnect, conversationId, userId, connect, disconnect])
+  }, [autoConnect, conversationId, connect, disconnect])
 
   // Cleanup on unmount
   useEffect(() => {
@@ -302,8 +314,9 @@ export function useCollaboration(options: UseCollaborationOptions) {
     requestSync,
     
     // Computed values
-    otherParticipants: state.participants.filter(p => p.userId !== userId),
-    typingUsers: state.participants.filter(p => p.isTyping && p.userId !== userId),
+    self: state.self,
+    otherParticipants: state.participants.filter(p => p.userId !== (state.self?.userId || userId)),
+    typingUsers: state.participants.filter(p => p.isTyping && p.userId !== (state.self?.userId || userId)),
     isAlone: state.participants.length <= 1
   }
 }
\ No newline at end of file
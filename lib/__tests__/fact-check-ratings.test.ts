@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeRating, ratingToScore } from '../fact-check-ratings'
+
+const ratingOf = (text: string | null, publisher?: string) => normalizeRating(text, publisher).rating
+
+describe('normalizeRating', () => {
+  it('maps bare and qualified English ratings', () => {
+    expect(ratingOf('False')).toBe('false')
+    expect(ratingOf('Mostly False')).toBe('mostly_false')
+    expect(ratingOf('Mostly true')).toBe('mostly_true')
+    expect(ratingOf('Half True')).toBe('mixed')
+    expect(ratingOf('Missing context')).toBe('misleading')
+    expect(ratingOf('Satire')).toBe('satire')
+    expect(ratingOf('No evidence')).toBe('unproven')
+  })
+
+  it('maps non-English ratings regardless of accents and case', () => {
+    expect(normalizeRating('Engañoso')).toMatchObject({ rating: 'misleading', language: 'es' })
+    expect(normalizeRating('Faux')).toMatchObject({ rating: 'false', language: 'fr' })
+    expect(normalizeRating('Irreführend')).toMatchObject({ rating: 'misleading', language: 'de' })
+    expect(normalizeRating('Größtenteils falsch')).toMatchObject({ rating: 'mostly_false', language: 'de' })
+  })
+
+  it('uses publisher scales before the generic table', () => {
+    expect(normalizeRating('Pants on Fire!', 'PolitiFact')).toMatchObject({ rating: 'false', matchedBy: 'publisher' })
+    expect(ratingOf('Three Pinocchios', 'The Washington Post')).toBe('mostly_false')
+    expect(ratingOf('Ni', 'Pagella Politica')).toBe('mixed')
+    // The same text from another publisher falls through to the generic table
+    expect(normalizeRating('Ni', 'Someone Else').matchedBy).toBe('none')
+  })
+
+  it('flips ratings preceded by a negation, including contractions', () => {
+    expect(normalizeRating('Not true')).toMatchObject({ rating: 'false', negated: true })
+    expect(ratingOf("Isn't true")).toBe('false')
+    expect(ratingOf('Isn’t accurate')).toBe('false')
+    expect(ratingOf('Not false')).toBe('mostly_true')
+    expect(ratingOf("N'est pas vrai")).toBe('false')
+  })
+
+  it('flips ratings followed by a postposed negation', () => {
+    expect(normalizeRating('Stimmt nicht')).toMatchObject({ rating: 'false', negated: true })
+    expect(ratingOf('Das stimmt so nicht')).toBe('false')
+    expect(ratingOf('Waar niet')).toBe('false')
+    expect(ratingOf('Stimmt')).toBe('true')
+  })
+
+  it('leaves self-negating phrases alone', () => {
+    expect(normalizeRating('No evidence').negated).toBe(false)
+    expect(ratingOf('Not quite', 'Full Fact')).toBe('misleading')
+  })
+
+  it('returns unknown for empty or unrecognised ratings', () => {
+    expect(normalizeRating('')).toMatchObject({ rating: 'unknown', matchedBy: 'none', score: null })
+    expect(ratingOf(null)).toBe('unknown')
+    expect(ratingOf('Flip-flop-o-meter pending')).toBe('unknown')
+  })
+})
+
+describe('ratingToScore', () => {
+  it('scores truth ratings on [-1, 1] and others as null', () => {
+    expect(ratingToScore('False')).toBe(-1)
+    expect(ratingToScore('True')).toBe(1)
+    expect(ratingToScore('Misleading')).toBeLessThan(0)
+    expect(ratingToScore('Unproven')).toBeNull()
+  })
+})
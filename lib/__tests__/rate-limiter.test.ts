@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from 'vitest'
+import { NextRequest } from 'next/server'
+import type { AuthSession } from '../auth'
+import type { RateLimiter, RateLimitConfig, RateLimitResult } from '../rate-limiter'
+
+vi.mock('../db', () => ({
+  db: {},
+  redis: { set: vi.fn().mockResolvedValue(null) }
+}))
+vi.mock('../cache', () => ({ cache: {} }))
+vi.mock('../auth', () => ({
+  authManager: { getSessionFromRequest: vi.fn(), getUserById: vi.fn() }
+}))
+vi.mock('../webhook-manager', () => ({
+  webhookManager: { triggerEvent: vi.fn() }
+}))
+
+import {
+  rateLimiter,
+  enforceGlobalRateLimit,
+  getApiKeyRateLimit,
+  getTierRateLimit,
+  RATE_LIMIT_TIERS
+} from '../rate-limiter'
+
+const apiKeySession: AuthSession = {
+  userId: 'user_1',
+  sessionId: 'session_1',
+  email: 'ada@example.test',
+  username: 'ada',
+  role: 'user',
+  tier: 'free',
+  issuedAt: 0,
+  expiresAt: 0,
+  apiKeyId: 'key_1',
+  scopes: ['fact-check'],
+  rateLimitPerHour: 50
+}
+
+function status(allowed: boolean, config: RateLimitConfig): RateLimitResult {
+  return {
+    allowed,
+    limit: config.maxRequests,
+    remaining: allowed ? 1 : 0,
+    resetTime: Date.now() + config.windowSizeMs,
+    retryAfter: allowed ? undefined : 60,
+    rateLimitType: config.keyPrefix
+  }
+}
+
+const isPeek = (metadata?: { cached?: boolean }) => metadata?.cached === true
+
+describe('getApiKeyRateLimit', () => {
+  it('uses the key limit when it is below the owner tier', () => {
+    const config = getApiKeyRateLimit(apiKeySession)
+    expect(config.maxRequests).toBe(50)
+    expect(config.keyPrefix).toBe(RATE_LIMIT_TIERS.API_KEY.keyPrefix)
+    expect(config.burstAllowance).toBe(RATE_LIMIT_TIERS.FREE.burstAllowance)
+  })
+
+  it('caps the key limit at the owner tier', () => {
+    expect(getApiKeyRateLimit({ ...apiKeySession, rateLimitPerHour: 100000 }).maxRequests)
+      .toBe(RATE_LIMIT_TIERS.FREE.maxRequests)
+    expect(getApiKeyRateLimit({ ...apiKeySession, tier: 'premium', rateLimitPerHour: 100000 }).maxRequests)
+      .toBe(RATE_LIMIT_TIERS.PREMIUM.maxRequests)
+  })
+
+  it('falls back to the owner tier when the key has no limit', () => {
+    expect(getApiKeyRateLimit({ ...apiKeySession, rateLimitPerHour: undefined }).maxRequests)
+      .toBe(getTierRateLimit('free').maxRequests)
+  })
+})
+
+describe('enforceGlobalRateLimit', () => {
+  const request = new NextRequest('http://localhost/api/fact-check', {
+    headers: { 'x-forwarded-for': '203.0.113.7' }
+  })
+  let checkRateLimit: MockInstance<RateLimiter['checkRateLimit']>
+
+  function stubBuckets(keyAllowed: boolean, ownerAllowed: boolean) {
+    checkRateLimit = vi.spyOn(rateLimiter, 'checkRateLimit').mockImplementation(async (identifier, config) =>
+      status(identifier === 'key_1' ? keyAllowed : ownerAllowed, config)
+    )
+  }
+
+  beforeEach(() => {
+    vi.spyOn(rateLimiter, 'getRateLimitHeaders').mockResolvedValue({})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('counts the request against both buckets when both allow it', async () => {
+    stubBuckets(true, true)
+    const result = await enforceGlobalRateLimit(request, '/api/fact-check', apiKeySession)
+
+    expect(result.allowed).toBe(true)
+    expect(result.identifier).toBe('key_1')
+    const counted = checkRateLimit.mock.calls.filter(([, , metadata]) => !isPeek(metadata))
+    expect(counted.map(([identifier]) => identifier)).toEqual(['key_1', 'user:user_1'])
+  })
+
+  it('counts neither bucket when the key bucket is exhausted', async () => {
+    stubBuckets(false, true)
+    const result = await enforceGlobalRateLimit(request, '/api/fact-check', apiKeySession)
+
+    expect(result.allowed).toBe(false)
+    expect(result.identifier).toBe('key_1')
+    expect(checkRateLimit.mock.calls.every(([, , metadata]) => isPeek(metadata))).toBe(true)
+  })
+
+  it('counts neither bucket and reports the owner when the owner bucket is exhausted', async () => {
+    stubBuckets(true, false)
+    const result = await enforceGlobalRateLimit(request, '/api/fact-check', apiKeySession)
+
+    expect(result.allowed).toBe(false)
+    expect(result.identifier).toBe('user:user_1')
+    expect(result.tier).toBe(RATE_LIMIT_TIERS.FREE.keyPrefix)
+    expect(checkRateLimit.mock.calls.every(([, , metadata]) => isPeek(metadata))).toBe(true)
+  })
+
+  it('limits anonymous callers by IP', async () => {
+    stubBuckets(true, true)
+    const result = await enforceGlobalRateLimit(request, '/api/fact-check', null)
+
+    expect(result.identifier).toBe('203.0.113.7')
+    expect(checkRateLimit).toHaveBeenCalledWith('203.0.113.7', RATE_LIMIT_TIERS.IP_LIMIT)
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { detectStanceHeuristic, summarizeStances, attachStances, getStanceForClaim, type SourceStance } from '../stance-detection'
+
+const CLAIM = 'Vaccines cause autism'
+const labelOf = (title: string, snippet = '') => detectStanceHeuristic({ title, metadata: { snippet } }, CLAIM).label
+
+describe('detectStanceHeuristic', () => {
+  it('labels refuting and supporting language about the claim', () => {
+    expect(labelOf('Study finds claim that vaccines cause autism is false')).toBe('refutes')
+    expect(labelOf('New data confirms vaccines cause autism')).toBe('supports')
+  })
+
+  it('is neutral without stance-bearing language', () => {
+    const stance = detectStanceHeuristic({ title: 'Vaccines and autism: what parents ask' }, CLAIM)
+    expect(stance).toMatchObject({ label: 'neutral', method: 'heuristic' })
+  })
+
+  it('ignores sentences that do not mention the claim', () => {
+    expect(labelOf('Weather report', 'The forecast was false again. Rain is confirmed for Tuesday.')).toBe('neutral')
+  })
+
+  it('matches whole words only', () => {
+    // "inaccurate" must not also count as "accurate", nor "unproven" as "proven"
+    expect(labelOf('Vaccines cause autism claim is inaccurate')).toBe('refutes')
+    expect(labelOf('Link between vaccines and autism remains unproven')).toBe('refutes')
+  })
+
+  it('flips negated cues, including contractions without apostrophes', () => {
+    expect(labelOf('Vaccines cause autism: researchers say this is not false')).toBe('supports')
+    expect(labelOf("Trials haven't confirmed vaccines cause autism")).toBe('refutes')
+    expect(labelOf('Trials havent confirmed that vaccines cause autism')).toBe('refutes')
+    expect(labelOf('Trials haven’t confirmed vaccines cause autism')).toBe('refutes')
+  })
+
+  it('does not flip cues that carry their own negation', () => {
+    expect(labelOf('There is still no evidence vaccines cause autism')).toBe('refutes')
+    expect(labelOf('That vaccines cause autism is simply not true')).toBe('refutes')
+  })
+
+  it('caps heuristic confidence below LLM confidence', () => {
+    const stance = detectStanceHeuristic({ title: 'Vaccines cause autism myth debunked, claim false and baseless' }, CLAIM, 3)
+    expect(stance).toMatchObject({ label: 'refutes', claimId: 3 })
+    expect(stance.confidence).toBeLessThanOrEqual(0.6)
+  })
+})
+
+describe('stance bookkeeping', () => {
+  const stance = (claimId: number, label: SourceStance['label'], confidence = 1): SourceStance => ({
+    claimId, claim: `claim ${claimId}`, label, confidence, rationale: '', method: 'llm'
+  })
+
+  it('keeps every claim stance on a source and finds each by claim', () => {
+    const [first] = attachStances([{ url: 'https://example.org' }], [stance(1, 'supports')])
+    const [source] = attachStances([first], [stance(2, 'refutes')])
+    expect(source.stances).toHaveLength(2)
+    expect(getStanceForClaim(source, 1)?.label).toBe('supports')
+    expect(getStanceForClaim(source, 2)?.label).toBe('refutes')
+    expect(getStanceForClaim(source, 3)).toBeUndefined()
+  })
+
+  it('weights stances by confidence and the per-source weight', () => {
+    const sources = [
+      { weight: 1, stance: stance(1, 'supports', 0.8) },
+      { weight: 0.5, stance: stance(1, 'refutes', 1) },
+      { weight: 1, stance: stance(1, 'neutral', 0.4) },
+      { weight: 1, stance: stance(2, 'supports', 1) }
+    ]
+    const summary = summarizeStances(sources, 1, source => source.weight)
+    expect(summary).toMatchObject({ supporting: 1, refuting: 1, neutral: 1 })
+    expect(summary.weightedSupport).toBeCloseTo(0.8)
+    expect(summary.weightedRefute).toBeCloseTo(0.5)
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import {
+  base32Encode,
+  base32Decode,
+  generateTotp,
+  verifyTotp,
+  currentTimeStep,
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  hashRecoveryCode
+} from '../totp'
+
+// RFC 6238 appendix B seed ("12345678901234567890"), truncated to 6 digits
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'))
+
+describe('base32', () => {
+  it('round-trips and tolerates formatting', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ')
+    expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890')
+    expect(base32Decode('gezd gnbv-gy3t qojq====').toString()).toBe('1234567890')
+  })
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('ABC1')).toThrow(/Invalid base32/)
+  })
+})
+
+describe('generateTotp', () => {
+  it('matches the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, currentTimeStep(59 * 1000))).toBe('287082')
+    expect(generateTotp(RFC_SECRET, currentTimeStep(1111111109 * 1000))).toBe('081804')
+    expect(generateTotp(RFC_SECRET, currentTimeStep(1234567890 * 1000))).toBe('005924')
+  })
+})
+
+describe('verifyTotp', () => {
+  const now = 1234567890 * 1000
+  const step = currentTimeStep(now)
+
+  it('returns the step of a current code, allowing one step of drift', () => {
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), 1, now)).toBe(step)
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), 1, now)).toBe(step - 1)
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), 1, now)).toBe(step + 1)
+  })
+
+  it('rejects codes outside the window and malformed input', () => {
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), 1, now)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, '12345', 1, now)).toBeNull()
+    expect(verifyTotp(RFC_SECRET, 'abcdef', 1, now)).toBeNull()
+  })
+
+  it('ignores spaces in the code', () => {
+    const code = generateTotp(RFC_SECRET, step)
+    expect(verifyTotp(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, 1, now)).toBe(step)
+  })
+})
+
+describe('buildOtpauthUri', () => {
+  it('encodes the label and parameters authenticator apps expect', () => {
+    const raw = buildOtpauthUri(RFC_SECRET, 'ada@example.com')
+    expect(raw.startsWith(`otpauth://totp/${encodeURIComponent('SourceHound:ada@example.com')}?`)).toBe(true)
+
+    const uri = new URL(raw)
+    expect(uri.searchParams.get('secret')).toBe(RFC_SECRET)
+    expect(uri.searchParams.get('digits')).toBe('6')
+    expect(uri.searchParams.get('period')).toBe('30')
+  })
+})
+
+describe('recovery codes', () => {
+  it('generates distinct codes in the xxxx-xxxx-xxxx format', () => {
+    const codes = generateRecoveryCodes()
+    expect(codes).toHaveLength(10)
+    expect(new Set(codes).size).toBe(10)
+    codes.forEach(code => expect(code).toMatch(/^[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}$/))
+  })
+
+  it('hashes codes regardless of case, dashes and whitespace', () => {
+    expect(hashRecoveryCode(' 4F9C-2A71-B03E ')).toBe(hashRecoveryCode('4f9c2a71b03e'))
+    expect(hashRecoveryCode('4f9c-2a71-b03e')).not.toBe(hashRecoveryCode('4f9c-2a71-b03f'))
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import { scoreClaimVerdict, aggregateClaimVerdicts, recencyWeight, VERDICT_MODEL_CONFIG, type ClaimVerdictScore } from '../verdict-model'
+
+const claim = { id: 1, text: 'The moon landing was staged' }
+
+const factor = (score: ClaimVerdictScore, name: string) => score.factors.find(f => f.factor === name)!
+
+describe('scoreClaimVerdict', () => {
+  it('is Unclear without any evidence', () => {
+    const score = scoreClaimVerdict(claim, [])
+    expect(score).toMatchObject({ label: 'Unclear', score: 0, evidenceMass: 0 })
+  })
+
+  it('follows a confident model verdict on its own', () => {
+    const score = scoreClaimVerdict(claim, [], [], { label: 'False', confidence: 1, summary: '' })
+    expect(score.label).toBe('False')
+    expect(score.evidenceMass).toBe(VERDICT_MODEL_CONFIG.modelAssessmentWeight)
+    expect(factor(score, 'modelAssessment').score).toBe(-1)
+  })
+
+  it('scores a Misleading model verdict against the claim', () => {
+    const score = scoreClaimVerdict(claim, [], [], { label: 'Misleading', confidence: 1, summary: '' })
+    expect(factor(score, 'modelAssessment').score).toBeLessThan(0)
+    expect(score.score).toBeLessThan(0)
+  })
+
+  it('ignores model labels that are not on the rating scale', () => {
+    for (const label of ['Unclear', 'constructor', 'toString']) {
+      const score = scoreClaimVerdict(claim, [], [], { label, confidence: 1, summary: '' })
+      expect(factor(score, 'modelAssessment').score, label).toBeNull()
+      expect(score.evidenceMass, label).toBe(0)
+    }
+  })
+
+  it('counts fact-checker ratings through the rating normalizer', () => {
+    const score = scoreClaimVerdict(claim, [], [
+      { publisher: 'PolitiFact', rating: 'Pants on Fire' },
+      { publisher: 'Snopes', rating: 'False' }
+    ])
+    expect(score.label).toBe('False')
+    expect(factor(score, 'factCheckRatings').score).toBe(-1)
+    expect(factor(score, 'factCheckRatings').description).toMatch(/2 fact-checker ratings/)
+  })
+
+  it('skips ratings that do not judge truth', () => {
+    const score = scoreClaimVerdict(claim, [], [{ publisher: 'Snopes', rating: 'Unproven' }])
+    expect(factor(score, 'factCheckRatings').score).toBeNull()
+    expect(score.label).toBe('Unclear')
+  })
+})
+
+describe('aggregateClaimVerdicts', () => {
+  const claimScore = (label: ClaimVerdictScore['label'], score: number, evidenceMass = 3): ClaimVerdictScore => ({
+    label,
+    score,
+    evidenceMass,
+    confidence: 0.8,
+    summary: `${label} claim`,
+    factors: [],
+    stanceSummary: { supporting: 0, refuting: 0, neutral: 0, weightedSupport: 0, weightedRefute: 0, weightedNeutral: 0 }
+  })
+
+  it('is Unclear without claims', () => {
+    expect(aggregateClaimVerdicts([])).toMatchObject({ label: 'Unclear', evidenceMass: 0 })
+  })
+
+  it('keeps a single claim verdict and summary', () => {
+    const overall = aggregateClaimVerdicts([claimScore('False', -0.9)])
+    expect(overall).toMatchObject({ label: 'False', summary: 'False claim' })
+  })
+
+  it('is Mixed when confidently true and false claims meet', () => {
+    const overall = aggregateClaimVerdicts([claimScore('True', 0.9), claimScore('False', -0.9, 6)], ['high', 'low'])
+    expect(overall.label).toBe('Mixed')
+    expect(overall.confidence).toBeLessThanOrEqual(0.7)
+  })
+
+  it('weights claims by priority', () => {
+    const highTrue = aggregateClaimVerdicts([claimScore('True', 1), claimScore('Mixed', -0.2)], ['high', 'low'])
+    const lowTrue = aggregateClaimVerdicts([claimScore('True', 1), claimScore('Mixed', -0.2)], ['low', 'high'])
+    expect(highTrue.score).toBeGreaterThan(lowTrue.score)
+  })
+})
+
+describe('recencyWeight', () => {
+  it('uses the undated weight for missing or invalid dates', () => {
+    expect(recencyWeight({})).toBe(VERDICT_MODEL_CONFIG.undatedRecency)
+    expect(recencyWeight({ publishedAt: 'not a date' })).toBe(VERDICT_MODEL_CONFIG.undatedRecency)
+  })
+
+  it('decays with age but never below one half', () => {
+    const fresh = recencyWeight({ publishedAt: new Date().toISOString() }, 'news')
+    const old = recencyWeight({ publishedAt: '1990-01-01' }, 'news')
+    expect(fresh).toBeCloseTo(1, 2)
+    expect(old).toBeGreaterThanOrEqual(0.5)
+    expect(old).toBeLessThan(0.55)
+  })
+
+  it('decays academic sources more slowly than news', () => {
+    const source = { publishedAt: new Date(Date.now() - 4 * 365 * 24 * 60 * 60 * 1000).toISOString() }
+    expect(recencyWeight(source, 'academic')).toBeGreaterThan(recencyWeight(source, 'news'))
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { findBacktrackingHazard, validateWebhookFilters } from '../webhook-manager'
+
+describe('findBacktrackingHazard', () => {
+  it('accepts plain and singly quantified patterns', () => {
+    for (const pattern of ['vaccine', '^covid', 'climate (change|crisis)', '\\d+ percent', '[a-z]+ed', '(?:mask|masks) work', '(?<year>\\d{4})']) {
+      expect(findBacktrackingHazard(pattern), pattern).toBeNull()
+    }
+  })
+
+  it('rejects nested quantifiers and repeated alternation', () => {
+    for (const pattern of ['(a+)+$', '(a*)*b', '(a|aa)*', '(x+x+)+y', '((ab)+)+', '(?:a+){2,}', '(?<word>\\w+)*']) {
+      expect(findBacktrackingHazard(pattern), pattern).toMatch(/repeated groups/)
+    }
+  })
+
+  it('rejects backreferences and lookarounds', () => {
+    expect(findBacktrackingHazard('(a)\\1')).toMatch(/backreferences/)
+    expect(findBacktrackingHazard('(?<x>a)\\k<x>')).toMatch(/backreferences/)
+    expect(findBacktrackingHazard('foo(?=bar)')).toMatch(/lookarounds/)
+    expect(findBacktrackingHazard('(?<!not )true')).toMatch(/lookarounds/)
+  })
+
+  it('ignores quantifier characters that are escaped or inside a class', () => {
+    expect(findBacktrackingHazard('(\\+)+')).toBeNull()
+    expect(findBacktrackingHazard('([+*|])+')).toBeNull()
+  })
+})
+
+describe('validateWebhookFilters', () => {
+  it('accepts empty and well-formed filters', () => {
+    expect(validateWebhookFilters({})).toBeNull()
+    expect(validateWebhookFilters({ queryRegexes: ['^vaccine'], verdictLabels: ['False'], confidenceThreshold: 0.5 })).toBeNull()
+  })
+
+  it('rejects unsafe, invalid and oversized regexes', () => {
+    expect(validateWebhookFilters({ queryRegexes: ['(a+)+$'] })).toMatch(/not allowed/)
+    expect(validateWebhookFilters({ queryRegexes: ['('] })).toMatch(/Invalid query regex/)
+    expect(validateWebhookFilters({ queryRegexes: ['a'.repeat(201)] })).toMatch(/at most 200/)
+    expect(validateWebhookFilters({ queryRegexes: Array(21).fill('a') })).toMatch(/At most 20/)
+  })
+
+  it('rejects filters of the wrong type', () => {
+    expect(validateWebhookFilters({ domains: 'health' as any })).toMatch(/filters.domains/)
+    expect(validateWebhookFilters({ confidenceThreshold: '0.5' as any })).toMatch(/confidenceThreshold/)
+  })
+})
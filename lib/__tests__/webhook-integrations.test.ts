@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { WebhookIntegrations } from '../webhook-integrations'
+import type { WebhookPayload } from '../webhook-manager'
+
+const TIMESTAMP = Date.UTC(2025, 0, 15, 12, 0, 0)
+
+const completed: WebhookPayload = {
+  event: 'fact_check.completed',
+  timestamp: TIMESTAMP,
+  webhookId: 'webhook_1',
+  data: {
+    query: 'The moon landing was staged',
+    verdict: { label: 'False', confidence: 0.92 },
+    sourceCount: 12,
+    processingTimeMs: 4200
+  },
+  user: { id: 'user_1', username: 'ada', tier: 'premium' }
+}
+
+describe('WebhookIntegrations.renderPayload', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it('sends the raw payload as JSON by default', () => {
+    expect(WebhookIntegrations.renderPayload('raw', completed, 'delivery_1')).toEqual({
+      contentType: 'application/json',
+      body: completed
+    })
+  })
+
+  it('renders a Slack attachment with the verdict and counts', () => {
+    const { body } = WebhookIntegrations.renderPayload('slack', completed, 'delivery_1')
+    const [attachment] = body.attachments
+    expect(body.text).toMatch(/ada/)
+    expect(attachment.color).toBe('#ff0000')
+    expect(attachment.fallback).toBe('Fact-check result: False (92% confidence)')
+    expect(attachment.fields).toEqual(expect.arrayContaining([
+      expect.objectContaining({ title: 'Processing Time', value: '4.2s' }),
+      expect.objectContaining({ title: 'Sources Found', value: 12 })
+    ]))
+    expect(attachment.ts).toBe(TIMESTAMP / 1000)
+  })
+
+  it('renders a Discord embed and truncates long queries', () => {
+    const longQuery = { ...completed, data: { ...completed.data, query: 'x'.repeat(1500) } }
+    const { body } = WebhookIntegrations.renderPayload('discord', longQuery, 'delivery_1')
+    const [embed] = body.embeds
+    expect(embed.color).toBe(0xff0000)
+    expect(embed.fields[0].value).toHaveLength(1003)
+    expect(embed.timestamp).toBe(new Date(TIMESTAMP).toISOString())
+  })
+
+  it('renders a Teams Adaptive Card', () => {
+    const { contentType, body } = WebhookIntegrations.renderPayload('teams', completed, 'delivery_1')
+    expect(contentType).toBe('application/json')
+    expect(body.type).toBe('message')
+    expect(body.attachments[0].contentType).toBe('application/vnd.microsoft.card.adaptive')
+    expect(body.attachments[0].content.type).toBe('AdaptiveCard')
+    expect(JSON.stringify(body)).toContain('The moon landing was staged')
+  })
+
+  it('wraps the payload in a CloudEvents envelope', () => {
+    vi.stubEnv('APP_URL', 'https://example.test/')
+    const { contentType, body } = WebhookIntegrations.renderPayload('cloudevents', completed, 'delivery_1')
+    expect(contentType).toBe('application/cloudevents+json; charset=utf-8')
+    expect(body).toMatchObject({
+      specversion: '1.0',
+      id: 'delivery_1',
+      source: 'https://example.test/api/webhooks/webhook_1',
+      type: 'dev.sourcehound.fact_check.completed',
+      time: new Date(TIMESTAMP).toISOString(),
+      subject: 'user_1',
+      data: { query: completed.data.query, user: completed.user }
+    })
+  })
+
+  it('falls back to the generic message when event data has an unexpected shape', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const malformed = { ...completed, data: { query: 'no verdict here' } }
+    for (const format of ['slack', 'discord', 'teams'] as const) {
+      const { body } = WebhookIntegrations.renderPayload(format, malformed, 'delivery_1')
+      expect(JSON.stringify(body), format).toContain('no verdict here')
+    }
+  })
+})
@@ -0,0 +1,51 @@
+// Account emails: address verification and password reset links
+import { authManager, type User } from './auth'
+import { mailer } from './mailer'
+
+const DEVELOPMENT_APP_URL = 'http://localhost:3000'
+
+// Links never use the request's Host header, which the caller controls; production must set APP_URL
+function appUrl(): string | null {
+  const url = process.env.APP_URL || (process.env.NODE_ENV === 'production' ? null : DEVELOPMENT_APP_URL)
+  if (!url) {
+    console.error('[Auth] APP_URL is not set; account emails are disabled')
+    return null
+  }
+  return url.replace(/\/$/, '')
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`)
+}
+
+export async function sendVerificationEmail(user: User): Promise<boolean> {
+  const baseUrl = appUrl()
+  if (!baseUrl) return false
+
+  const token = await authManager.createEmailToken(user.id, 'email_verification')
+  if (!token) return false
+
+  const link = `${baseUrl}/api/auth/verify-email?token=${encodeURIComponent(token)}`
+  return mailer.send({
+    to: user.email,
+    subject: 'Verify your SourceHound email address',
+    text: `Hi ${user.fullName || user.username},\n\nConfirm this is your email address by opening the link below. It expires in 48 hours.\n\n${link}\n\nIf you didn't create a SourceHound account, you can ignore this email.`,
+    html: `<p>Hi ${escapeHtml(user.fullName || user.username)},</p><p>Confirm this is your email address. The link expires in 48 hours.</p><p><a href="${escapeHtml(link)}">Verify email address</a></p><p>If you didn't create a SourceHound account, you can ignore this email.</p>`
+  })
+}
+
+export async function sendPasswordResetEmail(user: User): Promise<boolean> {
+  const baseUrl = appUrl()
+  if (!baseUrl) return false
+
+  const token = await authManager.createEmailToken(user.id, 'password_reset')
+  if (!token) return false
+
+  const link = `${baseUrl}/?reset_token=${encodeURIComponent(token)}`
+  return mailer.send({
+    to: user.email,
+    subject: 'Reset your SourceHound password',
+    text: `Hi ${user.fullName || user.username},\n\nSomeone asked to reset the password for this account. Open the link below to choose a new one. It expires in 1 hour and stops working once the password is changed.\n\n${link}\n\nReset token (for API clients, PUT /api/auth/password-reset): ${token}\n\nIf you didn't ask for this, you can ignore this email.`,
+    html: `<p>Hi ${escapeHtml(user.fullName || user.username)},</p><p>Someone asked to reset the password for this account. The link expires in 1 hour and stops working once the password is changed.</p><p><a href="${escapeHtml(link)}">Choose a new password</a></p><p>If you didn't ask for this, you can ignore this email.</p>`
+  })
+}
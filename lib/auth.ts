@@ -1,8 +1,11 @@
-// JWT-based authentication system with Redis session management
+// JWT-based authentication system; accounts and sessions live in Postgres, with Redis as the session cache
 import { SignJWT, jwtVerify } from 'jose'
 import { NextRequest } from 'next/server'
-import { redis } from './db'
+import { Prisma, type User as UserRecord, type ApiKey as ApiKeyRecord } from '@prisma/client'
+import { db, redis } from './db'
 import bcrypt from 'bcryptjs'
+import crypto from 'crypto'
+import { generateTotpSecret, verifyTotp, buildOtpauthUri, generateRecoveryCodes, hashRecoveryCode } from './totp'
 
 export interface User {
   id: string
@@ -33,12 +36,65 @@ export interface AuthSession {
   tier: 'free' | 'premium' | 'enterprise'
   issuedAt: number
   expiresAt: number
+  // Set when the request authenticated with an API key instead of a browser session
+  apiKeyId?: string
+  scopes?: ApiKeyScope[]
+  rateLimitPerHour?: number
 }
 
+export type ApiKeyScope = 'fact-check' | 'webhooks:write' | 'analytics:read'
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['fact-check', 'webhooks:write', 'analytics:read']
+
+// Routes an API key may call, by path prefix; keys are rejected everywhere else
+export const API_KEY_ROUTE_SCOPES: Array<{ path: string, scope: ApiKeyScope }> = [
+  { path: '/api/fact-check', scope: 'fact-check' },
+  { path: '/api/fact-check-hybrid', scope: 'fact-check' },
+  { path: '/api/intelligent-fact-check', scope: 'fact-check' },
+  { path: '/api/fact-check-progress', scope: 'fact-check' },
+  { path: '/api/webhooks', scope: 'webhooks:write' },
+  { path: '/api/analytics', scope: 'analytics:read' }
+]
+
+export interface ApiKey {
+  id: string
+  userId: string
+  name: string
+  prefix: string // First characters of the key, for recognising it in listings
+  scopes: ApiKeyScope[]
+  rateLimitPerHour?: number // Own bucket size; defaults to the owner's tier limit
+  createdAt: number
+  lastUsedAt: number | null
+  expiresAt: number | null
+  revokedAt: number | null
+}
+
+export type EmailTokenPurpose = 'email_verification' | 'password_reset'
+
+// Features that can be held back until the account's email is verified
+export type VerifiedEmailFeature = 'login' | 'premium' | 'api_keys' | 'webhooks'
+
 export interface LoginCredentials {
   email: string
   password: string
   rememberMe?: boolean
+  twoFactorCode?: string // TOTP or recovery code, to sign in with 2FA in a single request
+}
+
+export interface LoginResult {
+  user: User | null
+  token: string | null
+  error: string | null
+  rememberMe?: boolean
+  // Password accepted but a second factor is needed; finish with completeTwoFactorLogin
+  twoFactorRequired?: boolean
+  twoFactorToken?: string
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  enrollmentPending: boolean
+  recoveryCodesRemaining: number
 }
 
 export interface RegisterData {
@@ -52,11 +108,139 @@ const JWT_SECRET = new TextEncoder().encode(
   process.env.JWT_SECRET || 'fallback-secret-key-for-development-only'
 )
 
+// TOTP secrets are encrypted at rest with AES-256-GCM
+const TWO_FACTOR_KEY = crypto.createHash('sha256')
+  .update(process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || 'fallback-secret-key-for-development-only')
+  .digest()
+
+const TWO_FACTOR_CHALLENGE_DURATION = 5 * 60 * 1000 // Time to enter the code after the password
+const TWO_FACTOR_ENROLLMENT_TTL = 10 * 60 // Seconds an unconfirmed enrollment secret is kept
+const TWO_FACTOR_MAX_FAILURES = 5 // Wrong codes per account before second-factor checks lock
+const TWO_FACTOR_LOCKOUT_TTL = 15 * 60 // Seconds the failure count (and so a lockout) lasts
+const TWO_FACTOR_LOCKED = 'Too many two-factor attempts'
+
 const SESSION_DURATION = {
   short: 24 * 60 * 60 * 1000, // 24 hours
   long: 30 * 24 * 60 * 60 * 1000 // 30 days
 }
 
+const SESSION_CACHE_TTL = 60 * 60 // Seconds a session stays cached in Redis before it's re-read from Postgres
+const COLLABORATION_TOKEN_DURATION = 5 * 60 * 1000 // Only needs to outlive the WebSocket handshake
+
+const EMAIL_TOKEN_DURATION: { [purpose in EmailTokenPurpose]: number } = {
+  email_verification: 48 * 60 * 60 * 1000, // 48 hours
+  password_reset: 60 * 60 * 1000 // 1 hour
+}
+
+// e.g. REQUIRE_VERIFIED_EMAIL=premium,api_keys
+const VERIFIED_EMAIL_FEATURES = (process.env.REQUIRE_VERIFIED_EMAIL || '')
+  .split(',')
+  .map(feature => feature.trim())
+  .filter(Boolean) as VerifiedEmailFeature[]
+
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv('aes-256-gcm', TWO_FACTOR_KEY, iv)
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()])
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':')
+}
+
+function decryptSecret(value: string): string {
+  const [iv, tag, encrypted] = value.split(':').map(part => Buffer.from(part, 'base64'))
+  const decipher = crypto.createDecipheriv('aes-256-gcm', TWO_FACTOR_KEY, iv)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8')
+}
+
+export function requiresVerifiedEmail(feature: VerifiedEmailFeature): boolean {
+  return VERIFIED_EMAIL_FEATURES.includes(feature)
+}
+
+// Paid-tier limits and budgets wait for a verified address when "premium" is enforced
+function effectiveTier(user: { tier: string, emailVerified: boolean }): User['tier'] {
+  if (user.tier !== 'free' && !user.emailVerified && requiresVerifiedEmail('premium')) return 'free'
+  return user.tier as User['tier']
+}
+
+/**
+ * Ties an email token to the account state it was issued for, so verification links die when
+ * the address changes and reset links die once the password has been changed
+ */
+function emailTokenFingerprint(record: UserRecord, purpose: EmailTokenPurpose): string {
+  const material = purpose === 'password_reset' ? `${record.email}:${record.passwordHash}` : `${record.email}`
+  return crypto.createHash('sha256').update(material).digest('hex').slice(0, 32)
+}
+
+const API_KEY_PREFIX = 'shk_'
+const MAX_API_KEYS_PER_USER = 20
+const API_KEY_LAST_USED_RESOLUTION = 60 * 1000 // Don't rewrite lastUsedAt more than once a minute
+
+// Keys are 192-bit random, so a fast unsalted hash is enough to keep them unusable at rest
+function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+function toApiKey(record: ApiKeyRecord): ApiKey {
+  return {
+    id: record.id,
+    userId: record.userId,
+    name: record.name,
+    prefix: record.prefix,
+    scopes: record.scopes as ApiKeyScope[],
+    rateLimitPerHour: record.rateLimitPerHour ?? undefined,
+    createdAt: record.createdAt.getTime(),
+    lastUsedAt: record.lastUsedAt ? record.lastUsedAt.getTime() : null,
+    expiresAt: record.expiresAt ? record.expiresAt.getTime() : null,
+    revokedAt: record.revokedAt ? record.revokedAt.getTime() : null
+  }
+}
+
+const DEFAULT_SETTINGS: User['settings'] = {
+  theme: 'auto',
+  notifications: true,
+  collaborationDefault: false,
+  preferredEngines: ['perplexity', 'gemini']
+}
+
+function toUser(record: UserRecord): User {
+  return {
+    id: record.id,
+    email: record.email || '',
+    username: record.username || '',
+    fullName: record.name || '',
+    role: record.role as User['role'],
+    tier: record.tier as User['tier'],
+    avatar: record.avatar || undefined,
+    emailVerified: record.emailVerified,
+    twoFactorEnabled: record.twoFactorEnabled,
+    createdAt: record.createdAt,
+    lastLoginAt: record.lastLoginAt || record.createdAt,
+    settings: { ...DEFAULT_SETTINGS, ...(record.settings as Partial<User['settings']> | null) }
+  }
+}
+
+// Map User fields onto their columns
+function toUserData(updates: Partial<User>): Prisma.UserUpdateInput {
+  const data: Prisma.UserUpdateInput = {}
+  if (updates.email !== undefined) data.email = updates.email.toLowerCase()
+  if (updates.username !== undefined) data.username = updates.username
+  if (updates.fullName !== undefined) data.name = updates.fullName
+  if (updates.avatar !== undefined) data.avatar = updates.avatar
+  if (updates.role !== undefined) data.role = updates.role
+  if (updates.tier !== undefined) data.tier = updates.tier
+  if (updates.emailVerified !== undefined) data.emailVerified = updates.emailVerified
+  if (updates.settings !== undefined) data.settings = updates.settings
+  if (updates.lastLoginAt !== undefined) data.lastLoginAt = new Date(updates.lastLoginAt)
+  return data
+}
+
+export function getRequiredScope(path: string): ApiKeyScope | null {
+  const match = API_KEY_ROUTE_SCOPES
+    .filter(route => path === route.path || path.startsWith(`${route.path}/`))
+    .sort((a, b) => b.path.length - a.path.length)[0]
+  return match ? match.scope : null
+}
+
 export class AuthManager {
   // Generate JWT token
   async generateToken(user: User, rememberMe: boolean = false): Promise<string> {
@@ -70,21 +254,16 @@ export class AuthManager {
       email: user.email,
       username: user.username,
       role: user.role,
-      tier: user.tier,
+      tier: effectiveTier(user),
       issuedAt: Date.now(),
       expiresAt
     }
 
-    // Store session in Redis
-    await redis.setex(
-      `auth:session:${sessionId}`,
-      Math.floor(duration / 1000),
-      JSON.stringify(payload)
-    )
-
-    // Track user sessions
-    await redis.sadd(`auth:user_sessions:${user.id}`, sessionId)
-    await redis.expire(`auth:user_sessions:${user.id}`, Math.floor(duration / 1000))
+    // Persist the session, then cache it in Redis
+    await db.authSession.create({
+      data: { id: sessionId, userId: user.id, expiresAt: new Date(expiresAt) }
+    })
+    await this.cacheSession(payload)
 
     // Create JWT
     const jwt = await new SignJWT(payload as any)
@@ -100,14 +279,15 @@ export class AuthManager {
   async verifyToken(token: string): Promise<AuthSession | null> {
     try {
       const { payload } = await jwtVerify(token, JWT_SECRET) as { payload: any }
+
+      // Purpose-bound tokens (email links, collaboration) carry an audience and never act as a session
+      if (payload.aud) return null
       
-      // Check if session exists in Redis
-      const sessionData = await redis.get(`auth:session:${payload.sessionId}`)
-      if (!sessionData) {
+      // Check the session still exists
+      const session = await this.loadSession(payload.sessionId)
+      if (!session) {
         return null // Session expired or invalidated
       }
-
-      const session: AuthSession = JSON.parse(sessionData)
       
       // Verify expiration
       if (Date.now() > session.expiresAt) {
@@ -122,12 +302,88 @@ export class AuthManager {
     }
   }
 
+  /**
+   * Short-lived token that lets the collaboration service (often on another origin, where the
+   * auth-token cookie isn't sent) authenticate one conversation's WebSocket for this session
+   */
+  async createCollaborationToken(session: AuthSession, conversationId: string): Promise<string> {
+    return new SignJWT({ sessionId: session.sessionId, conversationId })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setSubject(session.userId)
+      .setAudience('collaboration')
+      .setIssuedAt()
+      .setExpirationTime(Math.floor((Date.now() + COLLABORATION_TOKEN_DURATION) / 1000))
+      .sign(JWT_SECRET)
+  }
+
+  // The session behind a collaboration token, if it is for this conversation and still live
+  async verifyCollaborationToken(token: string, conversationId: string): Promise<AuthSession | null> {
+    try {
+      const { payload } = await jwtVerify(token, JWT_SECRET, { audience: 'collaboration' }) as { payload: any }
+      if (payload.conversationId !== conversationId) return null
+
+      const session = await this.loadSession(payload.sessionId)
+      if (!session || session.userId !== payload.sub || Date.now() > session.expiresAt) return null
+
+      return session
+    } catch (error) {
+      console.error('[Auth] Invalid collaboration token:', error instanceof Error ? error.message : error)
+      return null
+    }
+  }
+
+  // Session from the Redis cache, or rebuilt from Postgres after a cache miss or flush
+  private async loadSession(sessionId: string): Promise<AuthSession | null> {
+    try {
+      const cached = await redis.get(`auth:session:${sessionId}`)
+      if (cached) return JSON.parse(cached)
+    } catch (error) {
+      console.error('[Auth] Session cache read failed:', error)
+    }
+
+    const record = await db.authSession.findUnique({
+      where: { id: sessionId },
+      include: { user: true }
+    })
+    if (!record) return null
+
+    const session: AuthSession = {
+      userId: record.userId,
+      sessionId: record.id,
+      email: record.user.email || '',
+      username: record.user.username || '',
+      role: record.user.role as User['role'],
+      tier: effectiveTier(record.user),
+      issuedAt: record.createdAt.getTime(),
+      expiresAt: record.expiresAt.getTime()
+    }
+    await this.cacheSession(session)
+    return session
+  }
+
+  // Cache for at most SESSION_CACHE_TTL so role and tier changes reach open sessions
+  private async cacheSession(session: AuthSession): Promise<void> {
+    const ttl = Math.min(SESSION_CACHE_TTL, Math.floor((session.expiresAt - Date.now()) / 1000))
+    if (ttl <= 0) return
+
+    try {
+      await redis.setex(`auth:session:${session.sessionId}`, ttl, JSON.stringify(session))
+    } catch (error) {
+      console.error('[Auth] Session cache write failed:', error)
+    }
+  }
+
   // Extract auth session from request
   async getSessionFromRequest(request: NextRequest): Promise<AuthSession | null> {
     // Try Authorization header first
     const authHeader = request.headers.get('Authorization')
     let token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null
 
+    // API keys may also be sent as X-API-Key
+    if (!token) {
+      token = request.headers.get('X-API-Key')
+    }
+
     // Fall back to cookie
     if (!token) {
       token = request.cookies.get('auth-token')?.value || null
@@ -135,9 +391,223 @@ export class AuthManager {
 
     if (!token) return null
 
+    if (token.startsWith(API_KEY_PREFIX)) {
+      return this.verifyApiKey(token)
+    }
+
     return this.verifyToken(token)
   }
 
+  // Whether a session may use a scope; browser sessions carry every scope
+  hasScope(session: AuthSession, scope: ApiKeyScope | null): boolean {
+    if (!session.apiKeyId) return true
+    return !!scope && !!session.scopes?.includes(scope)
+  }
+
+  // Create an API key; the plaintext key is returned once and only its hash is stored
+  async createApiKey(
+    userId: string,
+    options: { name: string, scopes: ApiKeyScope[], rateLimitPerHour?: number, expiresInDays?: number }
+  ): Promise<{ apiKey: ApiKey | null, key: string | null, error: string | null }> {
+    try {
+      const existing = await db.apiKey.count({ where: { userId, revokedAt: null } })
+      if (existing >= MAX_API_KEYS_PER_USER) {
+        return { apiKey: null, key: null, error: `A maximum of ${MAX_API_KEYS_PER_USER} API keys is allowed` }
+      }
+
+      const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`
+      const now = Date.now()
+      const record = await db.apiKey.create({
+        data: {
+          id: `key_${now}_${Math.random().toString(36).substr(2, 9)}`,
+          userId,
+          name: options.name,
+          prefix: key.slice(0, 12),
+          keyHash: hashApiKey(key),
+          scopes: options.scopes,
+          rateLimitPerHour: options.rateLimitPerHour,
+          expiresAt: options.expiresInDays ? new Date(now + options.expiresInDays * 24 * 60 * 60 * 1000) : null
+        }
+      })
+
+      console.log(`[Auth] API key ${record.prefix}… created for user ${userId} (${record.scopes.join(', ')})`)
+      return { apiKey: toApiKey(record), key, error: null }
+    } catch (error) {
+      console.error('API key creation error:', error)
+      return { apiKey: null, key: null, error: 'API key creation failed' }
+    }
+  }
+
+  // List a user's API keys (without hashes), newest first
+  async listApiKeys(userId: string): Promise<ApiKey[]> {
+    try {
+      const records = await db.apiKey.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' }
+      })
+      return records.map(toApiKey)
+    } catch (error) {
+      console.error('Error listing API keys:', error)
+      return []
+    }
+  }
+
+  // Revoke an API key; the record is kept so listings show when it was revoked
+  async revokeApiKey(userId: string, keyId: string): Promise<boolean> {
+    try {
+      const { count } = await db.apiKey.updateMany({
+        where: { id: keyId, userId, revokedAt: null },
+        data: { revokedAt: new Date() }
+      })
+      if (count === 0) {
+        return !!(await db.apiKey.findFirst({ where: { id: keyId, userId }, select: { id: true } }))
+      }
+
+      console.log(`[Auth] API key ${keyId} revoked for user ${userId}`)
+      return true
+    } catch (error) {
+      console.error('Error revoking API key:', error)
+      return false
+    }
+  }
+
+  // Resolve an API key to a session for its owner
+  async verifyApiKey(key: string): Promise<AuthSession | null> {
+    try {
+      const record = await db.apiKey.findUnique({
+        where: { keyHash: hashApiKey(key) },
+        include: { user: true }
+      })
+      if (!record) return null
+
+      const now = Date.now()
+      if (record.revokedAt || (record.expiresAt && now > record.expiresAt.getTime())) return null
+
+      if (!record.lastUsedAt || now - record.lastUsedAt.getTime() > API_KEY_LAST_USED_RESOLUTION) {
+        await db.apiKey.update({ where: { id: record.id }, data: { lastUsedAt: new Date(now) } })
+      }
+
+      return {
+        userId: record.userId,
+        sessionId: record.id,
+        email: record.user.email || '',
+        username: record.user.username || '',
+        role: record.user.role as User['role'],
+        tier: effectiveTier(record.user),
+        issuedAt: record.createdAt.getTime(),
+        expiresAt: record.expiresAt ? record.expiresAt.getTime() : Number.MAX_SAFE_INTEGER,
+        apiKeyId: record.id,
+        scopes: record.scopes as ApiKeyScope[],
+        rateLimitPerHour: record.rateLimitPerHour ?? undefined
+      }
+    } catch (error) {
+      console.error('API key verification failed:', error)
+      return null
+    }
+  }
+
+  // Drop a user's cached sessions so the next request re-reads them from Postgres
+  private async clearCachedSessions(userId: string): Promise<void> {
+    try {
+      const sessions = await db.authSession.findMany({ where: { userId }, select: { id: true } })
+      if (sessions.length > 0) {
+        await redis.del(...sessions.map(session => `auth:session:${session.id}`))
+      }
+    } catch (error) {
+      console.error('[Auth] Failed to clear cached sessions:', error)
+    }
+  }
+
+  // Signed, expiring token for an email verification or password reset link
+  async createEmailToken(userId: string, purpose: EmailTokenPurpose): Promise<string | null> {
+    const record = await this.findUserRecordById(userId)
+    if (!record || !record.email) return null
+
+    return new SignJWT({ purpose, fingerprint: emailTokenFingerprint(record, purpose) })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setSubject(record.id)
+      .setAudience(purpose)
+      .setIssuedAt()
+      .setExpirationTime(Math.floor((Date.now() + EMAIL_TOKEN_DURATION[purpose]) / 1000))
+      .sign(JWT_SECRET)
+  }
+
+  private async verifyEmailToken(token: string, purpose: EmailTokenPurpose): Promise<UserRecord | null> {
+    try {
+      const { payload } = await jwtVerify(token, JWT_SECRET, { audience: purpose }) as { payload: any }
+      if (payload.purpose !== purpose || !payload.sub) return null
+
+      const record = await db.user.findUnique({ where: { id: payload.sub } })
+      if (!record || payload.fingerprint !== emailTokenFingerprint(record, purpose)) return null
+
+      return record
+    } catch (error) {
+      console.error(`[Auth] Invalid ${purpose} token:`, error instanceof Error ? error.message : error)
+      return null
+    }
+  }
+
+  // Mark the address a verification link was sent to as verified
+  async verifyEmail(token: string): Promise<User | null> {
+    const record = await this.verifyEmailToken(token, 'email_verification')
+    if (!record) return null
+
+    const user = toUser(record.emailVerified ? record : await db.user.update({
+      where: { id: record.id },
+      data: { emailVerified: true }
+    }))
+
+    // Sessions may carry a tier that was held back until verification
+    await this.clearCachedSessions(user.id)
+    console.log(`[Auth] Email verified: ${user.email}`)
+    return user
+  }
+
+  // Set a new password from a reset link and sign the user out everywhere
+  async resetPassword(token: string, newPassword: string): Promise<{ user: User | null, error: string | null }> {
+    const record = await this.verifyEmailToken(token, 'password_reset')
+    if (!record) {
+      return { user: null, error: 'Invalid or expired reset link' }
+    }
+
+    const validation = this.validatePassword(newPassword)
+    if (!validation.valid) {
+      return { user: null, error: validation.errors.join(', ') }
+    }
+
+    // Receiving the reset link proves control of the address too
+    const user = toUser(await db.user.update({
+      where: { id: record.id },
+      data: { passwordHash: await this.hashPassword(newPassword), emailVerified: true }
+    }))
+    await this.logoutUser(user.id)
+
+    console.log(`[Auth] Password reset: ${user.email}`)
+    return { user, error: null }
+  }
+
+  // Re-check the password before sensitive account changes
+  async verifyUserPassword(userId: string, password: string): Promise<boolean> {
+    const record = await db.user.findUnique({ where: { id: userId }, select: { passwordHash: true } })
+    return !!record?.passwordHash && this.verifyPassword(password, record.passwordHash)
+  }
+
+  // Account lookup for reset requests; null for unknown addresses
+  async getUserByEmail(email: string): Promise<User | null> {
+    try {
+      const record = await this.findUserRecordByEmail(email)
+      return record && record.username ? toUser(record) : null
+    } catch (error) {
+      console.error('Error fetching user by email:', error)
+      return null
+    }
+  }
+
+  // Whether a user may use a feature given the REQUIRE_VERIFIED_EMAIL policy
+  canUseFeature(user: User, feature: VerifiedEmailFeature): boolean {
+    return user.emailVerified || !requiresVerifiedEmail(feature)
+  }
+
   // Hash password
   async hashPassword(password: string): Promise<string> {
     const saltRounds = 12
@@ -149,17 +619,74 @@ export class AuthManager {
     return bcrypt.compare(password, hashedPassword)
   }
 
+  /**
+   * Accounts created before auth moved to Postgres only exist as Redis blobs; copy one
+   * over the first time it's used. scripts/migrate-redis-users.js does the same in bulk.
+   */
+  private async importLegacyUser(userId: string): Promise<UserRecord | null> {
+    try {
+      const [userData, passwordHash] = await Promise.all([
+        redis.get(`auth:user:${userId}`),
+        redis.get(`auth:password:${userId}`)
+      ])
+      if (!userData) return null
+
+      const legacy: User = JSON.parse(userData)
+      const record = await db.user.create({
+        data: {
+          id: legacy.id,
+          email: legacy.email.toLowerCase(),
+          username: legacy.username,
+          name: legacy.fullName,
+          avatar: legacy.avatar,
+          role: legacy.role,
+          tier: legacy.tier,
+          emailVerified: legacy.emailVerified,
+          // Redis accounts never had a TOTP secret, so there is no second factor to carry over
+          twoFactorEnabled: false,
+          settings: { ...DEFAULT_SETTINGS, ...legacy.settings },
+          passwordHash,
+          createdAt: new Date(legacy.createdAt),
+          lastLoginAt: new Date(legacy.lastLoginAt)
+        }
+      })
+
+      console.log(`[Auth] Migrated Redis user ${record.email} to Postgres`)
+      return record
+    } catch (error) {
+      // Another request may have migrated the same user first
+      console.error(`[Auth] Could not migrate Redis user ${userId}:`, error)
+      return db.user.findUnique({ where: { id: userId } })
+    }
+  }
+
+  private async findUserRecordByEmail(email: string): Promise<UserRecord | null> {
+    const record = await db.user.findUnique({ where: { email: email.toLowerCase() } })
+    if (record) return record
+
+    const legacyUserId = await redis.get(`auth:email:${email.toLowerCase()}`).catch(() => null)
+    return legacyUserId ? this.importLegacyUser(legacyUserId) : null
+  }
+
+  private async findUserRecordById(userId: string): Promise<UserRecord | null> {
+    const record = await db.user.findUnique({ where: { id: userId } })
+    return record || this.importLegacyUser(userId)
+  }
+
   // Register new user
   async registerUser(data: RegisterData): Promise<{ user: User | null, error: string | null }> {
     try {
       // Check if email already exists
-      const existingEmailUser = await redis.get(`auth:email:${data.email.toLowerCase()}`)
+      const existingEmailUser = await this.findUserRecordByEmail(data.email)
       if (existingEmailUser) {
         return { user: null, error: 'Email already registered' }
       }
 
       // Check if username already exists
-      const existingUsernameUser = await redis.get(`auth:username:${data.username.toLowerCase()}`)
+      const existingUsernameUser = await db.user.findFirst({
+        where: { username: { equals: data.username, mode: 'insensitive' } },
+        select: { id: true }
+      }) || await redis.get(`auth:username:${data.username.toLowerCase()}`).catch(() => null)
       if (existingUsernameUser) {
         return { user: null, error: 'Username already taken' }
       }
@@ -167,104 +694,339 @@ export class AuthManager {
       // Create user
       const userId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
       const hashedPassword = await this.hashPassword(data.password)
-      
-      const user: User = {
-        id: userId,
-        email: data.email.toLowerCase(),
-        username: data.username,
-        fullName: data.fullName,
-        role: 'user',
-        tier: 'free',
-        emailVerified: false,
-        twoFactorEnabled: false,
-        createdAt: new Date(),
-        lastLoginAt: new Date(),
-        settings: {
-          theme: 'auto',
-          notifications: true,
-          collaborationDefault: false,
-          preferredEngines: ['perplexity', 'gemini']
-        }
-      }
-
-      // Store user data
-      await redis.setex(
-        `auth:user:${userId}`,
-        365 * 24 * 60 * 60, // 1 year
-        JSON.stringify(user)
-      )
-
-      // Store password separately
-      await redis.setex(
-        `auth:password:${userId}`,
-        365 * 24 * 60 * 60,
-        hashedPassword
-      )
 
-      // Create indexes
-      await redis.setex(`auth:email:${user.email}`, 365 * 24 * 60 * 60, userId)
-      await redis.setex(`auth:username:${user.username.toLowerCase()}`, 365 * 24 * 60 * 60, userId)
+      const record = await db.user.create({
+        data: {
+          id: userId,
+          email: data.email.toLowerCase(),
+          username: data.username,
+          name: data.fullName,
+          passwordHash: hashedPassword,
+          settings: DEFAULT_SETTINGS,
+          lastLoginAt: new Date()
+        }
+      })
+      const user = toUser(record)
 
       // Send welcome notification (placeholder)
       console.log(`New user registered: ${user.email} (${user.username})`)
 
       return { user, error: null }
     } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { user: null, error: 'Email or username already registered' }
+      }
       console.error('Registration error:', error)
       return { user: null, error: 'Registration failed' }
     }
   }
 
-  // Authenticate user login
-  async loginUser(credentials: LoginCredentials): Promise<{ user: User | null, token: string | null, error: string | null }> {
+  // Authenticate user login; accounts with 2FA get a challenge unless a code is included
+  async loginUser(credentials: LoginCredentials): Promise<LoginResult> {
     try {
       // Find user by email
-      const userId = await redis.get(`auth:email:${credentials.email.toLowerCase()}`)
-      if (!userId) {
+      const record = await this.findUserRecordByEmail(credentials.email)
+      if (!record || !record.passwordHash) {
         return { user: null, token: null, error: 'Invalid credentials' }
       }
 
-      // Get user data
-      const userData = await redis.get(`auth:user:${userId}`)
-      if (!userData) {
-        return { user: null, token: null, error: 'User not found' }
+      // Verify password
+      const isValidPassword = await this.verifyPassword(credentials.password, record.passwordHash)
+      if (!isValidPassword) {
+        return { user: null, token: null, error: 'Invalid credentials' }
       }
 
-      const user: User = JSON.parse(userData)
+      if (!record.emailVerified && requiresVerifiedEmail('login')) {
+        return { user: null, token: null, error: 'Email not verified' }
+      }
+
+      if (record.twoFactorEnabled) {
+        if (await this.isTwoFactorLocked(record.id)) {
+          return { user: null, token: null, error: TWO_FACTOR_LOCKED }
+        }
+
+        if (!credentials.twoFactorCode) {
+          return {
+            user: null,
+            token: null,
+            error: null,
+            twoFactorRequired: true,
+            twoFactorToken: await this.createTwoFactorChallenge(record.id, !!credentials.rememberMe)
+          }
+        }
 
-      // Get password hash
-      const passwordHash = await redis.get(`auth:password:${userId}`)
-      if (!passwordHash) {
-        return { user: null, token: null, error: 'Authentication failed' }
+        const verified = await this.checkSecondFactor(record, credentials.twoFactorCode)
+        if (verified !== true) {
+          return { user: null, token: null, error: verified }
+        }
       }
 
-      // Verify password
-      const isValidPassword = await this.verifyPassword(credentials.password, passwordHash)
-      if (!isValidPassword) {
-        return { user: null, token: null, error: 'Invalid credentials' }
+      return this.finishLogin(record.id, !!credentials.rememberMe)
+    } catch (error) {
+      console.error('Login error:', error)
+      return { user: null, token: null, error: 'Login failed' }
+    }
+  }
+
+  // Second login step: the challenge from loginUser plus a TOTP or recovery code
+  async completeTwoFactorLogin(twoFactorToken: string, code: string): Promise<LoginResult> {
+    try {
+      let payload: any
+      try {
+        ({ payload } = await jwtVerify(twoFactorToken, JWT_SECRET, { audience: 'two_factor_login' }))
+      } catch {
+        return { user: null, token: null, error: 'Two-factor challenge expired' }
       }
 
-      // Update last login
-      user.lastLoginAt = new Date()
-      await redis.setex(`auth:user:${userId}`, 365 * 24 * 60 * 60, JSON.stringify(user))
+      // Challenges are single-use and revoked on lockout
+      const challengeKey = `auth:2fa_challenge:${payload.jti}`
+      if (!payload.jti || await redis.get(challengeKey) !== payload.sub) {
+        return { user: null, token: null, error: 'Two-factor challenge expired' }
+      }
 
-      // Generate token
-      const token = await this.generateToken(user, credentials.rememberMe)
+      const record = await db.user.findUnique({ where: { id: payload.sub } })
+      if (!record || !record.twoFactorEnabled) {
+        return { user: null, token: null, error: 'Two-factor challenge expired' }
+      }
 
-      return { user, token, error: null }
+      const verified = await this.checkSecondFactor(record, code)
+      if (verified !== true) {
+        return { user: null, token: null, error: verified }
+      }
+
+      await redis.pipeline()
+        .del(challengeKey)
+        .srem(`auth:2fa_challenges:${record.id}`, payload.jti)
+        .exec()
+      return this.finishLogin(record.id, !!payload.rememberMe)
     } catch (error) {
-      console.error('Login error:', error)
+      console.error('Two-factor login error:', error)
       return { user: null, token: null, error: 'Login failed' }
     }
   }
 
+  private async createTwoFactorChallenge(userId: string, rememberMe: boolean): Promise<string> {
+    const challengeId = crypto.randomBytes(16).toString('hex')
+    const ttl = Math.ceil(TWO_FACTOR_CHALLENGE_DURATION / 1000)
+    await redis.pipeline()
+      .setex(`auth:2fa_challenge:${challengeId}`, ttl, userId)
+      .sadd(`auth:2fa_challenges:${userId}`, challengeId)
+      .expire(`auth:2fa_challenges:${userId}`, ttl)
+      .exec()
+
+    return new SignJWT({ rememberMe })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setJti(challengeId)
+      .setSubject(userId)
+      .setAudience('two_factor_login')
+      .setIssuedAt()
+      .setExpirationTime(Math.floor((Date.now() + TWO_FACTOR_CHALLENGE_DURATION) / 1000))
+      .sign(JWT_SECRET)
+  }
+
+  private async finishLogin(userId: string, rememberMe: boolean): Promise<LoginResult> {
+    // Update last login
+    const user = toUser(await db.user.update({
+      where: { id: userId },
+      data: { lastLoginAt: new Date() }
+    }))
+
+    // Generate token
+    const token = await this.generateToken(user, rememberMe)
+
+    return { user, token, error: null, rememberMe }
+  }
+
+  private async isTwoFactorLocked(userId: string): Promise<boolean> {
+    const failures = parseInt(await redis.get(`auth:2fa_failures:${userId}`) || '0', 10)
+    return failures >= TWO_FACTOR_MAX_FAILURES
+  }
+
+  /**
+   * verifySecondFactor behind a per-account failure count, so the code can't be brute-forced
+   * from many IPs. Reaching the limit locks checks for TWO_FACTOR_LOCKOUT_TTL and revokes
+   * outstanding login challenges; a correct code resets the count.
+   */
+  private async checkSecondFactor(record: UserRecord, code: string): Promise<true | string> {
+    const failuresKey = `auth:2fa_failures:${record.id}`
+    if (await this.isTwoFactorLocked(record.id)) return TWO_FACTOR_LOCKED
+
+    if (await this.verifySecondFactor(record, code)) {
+      await redis.del(failuresKey)
+      return true
+    }
+
+    const [[, failures]] = await redis.pipeline()
+      .incr(failuresKey)
+      .expire(failuresKey, TWO_FACTOR_LOCKOUT_TTL)
+      .exec() as [[Error | null, number]]
+    if (failures < TWO_FACTOR_MAX_FAILURES) return 'Invalid two-factor code'
+
+    const challengesKey = `auth:2fa_challenges:${record.id}`
+    const challengeIds = await redis.smembers(challengesKey)
+    await redis.del(challengesKey, ...challengeIds.map(id => `auth:2fa_challenge:${id}`))
+    console.warn(`[Auth] Two-factor checks locked for ${record.email} after ${failures} failed codes`)
+    return TWO_FACTOR_LOCKED
+  }
+
+  /**
+   * Accept a TOTP code (each time step only once) or an unused recovery code, which is
+   * then spent. Both checks are conditional updates so concurrent requests can't reuse a code.
+   */
+  private async verifySecondFactor(record: UserRecord, code: string): Promise<'totp' | 'recovery' | null> {
+    if (!record.twoFactorSecret) return null
+
+    const step = verifyTotp(decryptSecret(record.twoFactorSecret), code)
+    if (step !== null) {
+      const { count } = await db.user.updateMany({
+        where: {
+          id: record.id,
+          OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }]
+        },
+        data: { twoFactorLastStep: step }
+      })
+      return count === 1 ? 'totp' : null
+    }
+
+    const hash = hashRecoveryCode(code)
+    if (!record.twoFactorRecoveryCodes.includes(hash)) return null
+
+    const { count } = await db.user.updateMany({
+      where: { id: record.id, twoFactorRecoveryCodes: { has: hash } },
+      data: { twoFactorRecoveryCodes: record.twoFactorRecoveryCodes.filter(existing => existing !== hash) }
+    })
+    if (count === 1) {
+      console.log(`[Auth] Recovery code used by ${record.email} (${record.twoFactorRecoveryCodes.length - 1} left)`)
+    }
+    return count === 1 ? 'recovery' : null
+  }
+
+  async getTwoFactorStatus(userId: string): Promise<TwoFactorStatus | null> {
+    const record = await db.user.findUnique({ where: { id: userId } })
+    if (!record) return null
+
+    return {
+      enabled: record.twoFactorEnabled,
+      enrollmentPending: !!(await redis.exists(`auth:2fa_pending:${userId}`)),
+      recoveryCodesRemaining: record.twoFactorRecoveryCodes.length
+    }
+  }
+
+  // Start TOTP enrollment; nothing changes until the first code is confirmed
+  async beginTwoFactorEnrollment(userId: string): Promise<{ secret: string | null, otpauthUri: string | null, error: string | null }> {
+    const record = await db.user.findUnique({ where: { id: userId } })
+    if (!record || !record.email) {
+      return { secret: null, otpauthUri: null, error: 'User not found' }
+    }
+    if (record.twoFactorEnabled) {
+      return { secret: null, otpauthUri: null, error: 'Two-factor authentication is already enabled' }
+    }
+
+    const secret = generateTotpSecret()
+    await redis.setex(`auth:2fa_pending:${userId}`, TWO_FACTOR_ENROLLMENT_TTL, encryptSecret(secret))
+
+    return { secret, otpauthUri: buildOtpauthUri(secret, record.email), error: null }
+  }
+
+  // Confirm enrollment with a code from the app; returns the recovery codes, shown only this once
+  async confirmTwoFactorEnrollment(userId: string, code: string): Promise<{ recoveryCodes: string[] | null, error: string | null }> {
+    const pending = await redis.get(`auth:2fa_pending:${userId}`)
+    if (!pending) {
+      return { recoveryCodes: null, error: 'No enrollment in progress, or it has expired' }
+    }
+
+    const step = verifyTotp(decryptSecret(pending), code)
+    if (step === null) {
+      return { recoveryCodes: null, error: 'Invalid two-factor code' }
+    }
+
+    const recoveryCodes = generateRecoveryCodes()
+    await db.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorSecret: pending,
+        twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+        twoFactorLastStep: step
+      }
+    })
+    await redis.del(`auth:2fa_pending:${userId}`)
+
+    console.log(`[Auth] Two-factor authentication enabled for user ${userId}`)
+    return { recoveryCodes, error: null }
+  }
+
+  // Replace all recovery codes; requires a current TOTP code
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<{ recoveryCodes: string[] | null, error: string | null }> {
+    const record = await db.user.findUnique({ where: { id: userId } })
+    if (!record || !record.twoFactorEnabled) {
+      return { recoveryCodes: null, error: 'Two-factor authentication is not enabled' }
+    }
+
+    if (await this.verifySecondFactor(record, code) !== 'totp') {
+      return { recoveryCodes: null, error: 'Invalid two-factor code' }
+    }
+
+    const recoveryCodes = generateRecoveryCodes()
+    await db.user.update({
+      where: { id: userId },
+      data: { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) }
+    })
+
+    return { recoveryCodes, error: null }
+  }
+
+  // Turn 2FA off; the user proves possession with a TOTP or recovery code
+  async disableTwoFactor(userId: string, code: string): Promise<{ success: boolean, error: string | null }> {
+    const record = await db.user.findUnique({ where: { id: userId } })
+    if (!record || !record.twoFactorEnabled) {
+      return { success: false, error: 'Two-factor authentication is not enabled' }
+    }
+
+    const verified = await this.checkSecondFactor(record, code)
+    if (verified !== true) {
+      return { success: false, error: verified }
+    }
+
+    await this.clearTwoFactor(userId)
+    console.log(`[Auth] Two-factor authentication disabled by user ${userId}`)
+    return { success: true, error: null }
+  }
+
+  // Admin reset for users locked out of their authenticator and recovery codes
+  async resetTwoFactor(userId: string, adminId: string): Promise<boolean> {
+    const record = await db.user.findUnique({ where: { id: userId }, select: { id: true, email: true } })
+    if (!record) return false
+
+    await this.clearTwoFactor(userId)
+    // Whoever held the old factor shouldn't keep a session either
+    await this.logoutUser(userId)
+
+    console.log(`[Auth] Two-factor authentication reset for ${record.email} by admin ${adminId}`)
+    return true
+  }
+
+  private async clearTwoFactor(userId: string): Promise<void> {
+    await db.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: [],
+        twoFactorLastStep: null
+      }
+    })
+    await redis.del(`auth:2fa_pending:${userId}`, `auth:2fa_failures:${userId}`)
+  }
+
   // Get user by ID
   async getUserById(userId: string): Promise<User | null> {
     try {
-      const userData = await redis.get(`auth:user:${userId}`)
-      if (!userData) return null
+      const record = await this.findUserRecordById(userId)
+      // Anonymous IP users share the table but aren't accounts
+      if (!record || !record.username) return null
 
-      return JSON.parse(userData)
+      return toUser(record)
     } catch (error) {
       console.error('Error fetching user:', error)
       return null
@@ -277,12 +1039,10 @@ export class AuthManager {
       const user = await this.getUserById(userId)
       if (!user) return false
 
-      const updatedUser = { ...user, ...updates }
-      await redis.setex(
-        `auth:user:${userId}`,
-        365 * 24 * 60 * 60,
-        JSON.stringify(updatedUser)
-      )
+      await db.user.update({
+        where: { id: userId },
+        data: toUserData(updates)
+      })
 
       return true
     } catch (error) {
@@ -294,14 +1054,7 @@ export class AuthManager {
   // Invalidate session
   async invalidateSession(sessionId: string): Promise<void> {
     try {
-      // Get session data to find user
-      const sessionData = await redis.get(`auth:session:${sessionId}`)
-      if (sessionData) {
-        const session: AuthSession = JSON.parse(sessionData)
-        await redis.srem(`auth:user_sessions:${session.userId}`, sessionId)
-      }
-
-      // Remove session
+      await db.authSession.deleteMany({ where: { id: sessionId } })
       await redis.del(`auth:session:${sessionId}`)
     } catch (error) {
       console.error('Error invalidating session:', error)
@@ -311,12 +1064,15 @@ export class AuthManager {
   // Logout user (invalidate all sessions)
   async logoutUser(userId: string): Promise<void> {
     try {
-      // Get all user sessions
-      const sessions = await redis.smembers(`auth:user_sessions:${userId}`)
-      
-      // Delete all sessions
+      const sessions = await db.authSession.findMany({ where: { userId }, select: { id: true } })
+      await db.authSession.deleteMany({ where: { userId } })
+
+      // Sessions issued before the Postgres move are only tracked in Redis
+      const legacySessions = await redis.smembers(`auth:user_sessions:${userId}`)
+
+      // Drop all cached sessions
       const pipeline = redis.pipeline()
-      sessions.forEach(sessionId => {
+      sessions.map(session => session.id).concat(legacySessions).forEach(sessionId => {
         pipeline.del(`auth:session:${sessionId}`)
       })
       pipeline.del(`auth:user_sessions:${userId}`)
@@ -327,46 +1083,29 @@ export class AuthManager {
     }
   }
 
-  // Get user statistics
-  async getUserStats(): Promise<any> {
+  // Delete expired sessions from Postgres; Redis expires its copies on its own
+  async cleanupExpiredSessions(): Promise<number> {
     try {
-      const userKeys = await redis.keys('auth:user:*')
-      const totalUsers = userKeys.length
-
-      let activeUsers = 0
-      let premiumUsers = 0
-      let adminUsers = 0
-
-      // Count active sessions (rough estimate)
-      const sessionKeys = await redis.keys('auth:session:*')
-      activeUsers = sessionKeys.length
-
-      // Get detailed stats (sample first 100 users)
-      const sampleSize = Math.min(100, userKeys.length)
-      const sampleKeys = userKeys.slice(0, sampleSize)
-      
-      const pipeline = redis.pipeline()
-      sampleKeys.forEach(key => pipeline.get(key))
-      const results = await pipeline.exec()
-
-      results?.forEach((result) => {
-        if (result && result[1]) {
-          try {
-            const user: User = JSON.parse(result[1] as string)
-            if (user.tier === 'premium' || user.tier === 'enterprise') premiumUsers++
-            if (user.role === 'admin') adminUsers++
-          } catch (error) {
-            // Skip invalid user data
-          }
-        }
+      const { count } = await db.authSession.deleteMany({
+        where: { expiresAt: { lt: new Date() } }
       })
+      return count
+    } catch (error) {
+      console.error('Error cleaning up auth sessions:', error)
+      return 0
+    }
+  }
 
-      // Extrapolate if we sampled
-      if (sampleSize < totalUsers) {
-        const ratio = totalUsers / sampleSize
-        premiumUsers = Math.round(premiumUsers * ratio)
-        adminUsers = Math.round(adminUsers * ratio)
-      }
+  // Get user statistics
+  async getUserStats(): Promise<any> {
+    try {
+      const accounts = { username: { not: null } }
+      const [totalUsers, activeUsers, premiumUsers, adminUsers] = await Promise.all([
+        db.user.count({ where: accounts }),
+        db.authSession.count({ where: { expiresAt: { gt: new Date() } } }),
+        db.user.count({ where: { ...accounts, tier: { in: ['premium', 'enterprise'] } } }),
+        db.user.count({ where: { ...accounts, role: 'admin' } })
+      ])
 
       return {
         totalUsers,
@@ -452,11 +1191,11 @@ export class AuthManager {
 
 export const authManager = new AuthManager()
 
-// Middleware helper for protected routes
-export async function requireAuth(request: NextRequest): Promise<{ authorized: boolean, user: User | null, session: AuthSession | null }> {
+// Middleware helper for protected routes; API keys are only accepted when the route names a scope they hold
+export async function requireAuth(request: NextRequest, scope?: ApiKeyScope): Promise<{ authorized: boolean, user: User | null, session: AuthSession | null }> {
   const session = await authManager.getSessionFromRequest(request)
   
-  if (!session) {
+  if (!session || !authManager.hasScope(session, scope || null)) {
     return { authorized: false, user: null, session: null }
   }
 
@@ -478,7 +1217,8 @@ export async function requireRole(request: NextRequest, requiredRole: 'admin' |
   }
 
   const roleHierarchy = { user: 1, premium: 2, admin: 3 }
-  const hasPermission = roleHierarchy[user.role] >= roleHierarchy[requiredRole]
+  const hasPermission = roleHierarchy[user.role] >= roleHierarchy[requiredRole] &&
+    (requiredRole !== 'premium' || user.role === 'admin' || authManager.canUseFeature(user, 'premium'))
 
   return {
     authorized: hasPermission,
@@ -1,10 +1,12 @@
 import { redis } from './db'
+import { claimIndex } from './claim-index'
 import crypto from 'crypto'
 
 export interface CacheOptions {
   ttl?: number // Time to live in seconds
   prefix?: string
   compress?: boolean
+  touch?: boolean // Extend the TTL on read (default true)
 }
 
 const DEFAULT_TTL = 3600 // 1 hour
@@ -29,7 +31,9 @@ export class Cache {
       const parsed = JSON.parse(value)
       
       // Update access time for LRU tracking
-      await redis.expire(fullKey, options.ttl || DEFAULT_TTL)
+      if (options.touch !== false) {
+        await redis.expire(fullKey, options.ttl || DEFAULT_TTL)
+      }
       
       return parsed.data
     } catch (error) {
@@ -79,56 +83,39 @@ export class Cache {
     }
   }
 
-  // Fact-check specific methods
-  async getFactCheck(query: string): Promise<any | null> {
-    const hash = this.hashQuery(query)
-    return this.get(hash, { prefix: 'factcheck', ttl: 86400 }) // 24 hours
+  // Fact-check specific methods. Each route variant caches its own result shape;
+  // the default variant keeps the original key layout.
+  private factCheckKey(query: string, variant?: string): string {
+    return this.hashQuery(variant && variant !== 'standard' ? `${variant}:${query}` : query)
+  }
+
+  // Reads don't extend the TTL: expiry is chosen per topic when the result is stored
+  async getFactCheck(query: string, variant?: string): Promise<any | null> {
+    return this.get(this.factCheckKey(query, variant), { prefix: 'factcheck', touch: false })
   }
 
-  async setFactCheck(query: string, result: any): Promise<boolean> {
-    const hash = this.hashQuery(query)
-    return this.set(hash, result, { prefix: 'factcheck', ttl: 86400 })
+  async setFactCheck(query: string, result: any, variant?: string, ttl = 86400): Promise<boolean> {
+    return this.set(this.factCheckKey(query, variant), result, { prefix: 'factcheck', ttl }) // 24 hours by default
   }
 
-  // Similar query matching for fact-checks
-  async findSimilarFactCheck(query: string, threshold = 0.8): Promise<any | null> {
+  async deleteFactCheck(query: string, variant?: string): Promise<boolean> {
+    return this.del(this.factCheckKey(query, variant), { prefix: 'factcheck' })
+  }
+
+  // Similar query matching for fact-checks, backed by the semantic claim index
+  async findSimilarFactCheck(query: string, threshold?: number, domain?: string | null, variant = 'standard'): Promise<any | null> {
     try {
-      // Get all fact-check keys
-      const pattern = this.getKey('*', 'factcheck')
-      const keys = await redis.keys(pattern)
-      
-      const queryWords = new Set(query.toLowerCase().split(/\s+/))
-      let bestMatch = null
-      let bestSimilarity = 0
-      
-      for (const key of keys.slice(0, 100)) { // Limit search
-        try {
-          const cached = await redis.get(key)
-          if (!cached) continue
-          
-          const data = JSON.parse(cached)
-          if (!data.originalQuery) continue
-          
-          // Simple word-based similarity
-          const cachedWords = new Set(data.originalQuery.toLowerCase().split(/\s+/))
-          const intersection = new Set([...queryWords].filter(x => cachedWords.has(x)))
-          const union = new Set([...queryWords, ...cachedWords])
-          const similarity = intersection.size / union.size
-          
-          if (similarity > threshold && similarity > bestSimilarity) {
-            bestSimilarity = similarity
-            bestMatch = {
-              ...data.data,
-              similarity,
-              originalQuery: data.originalQuery
-            }
-          }
-        } catch (err) {
-          continue // Skip invalid entries
-        }
+      const match = await claimIndex.findReusable(query, { domain, threshold, variant })
+      if (!match) return null
+
+      const data = await this.getFactCheck(match.query, variant)
+      if (!data) return null
+
+      return {
+        ...data,
+        similarity: match.similarity,
+        originalQuery: match.query
       }
-      
-      return bestMatch
     } catch (error) {
       console.error('Similar fact-check search error:', error)
       return null
@@ -149,9 +136,9 @@ export class Cache {
   }
 
   // Bulk operations
-  async clearByPattern(pattern: string): Promise<number> {
+  async clearByPattern(pattern: string, prefix?: string): Promise<number> {
     try {
-      const keys = await redis.keys(`${DEFAULT_PREFIX}:${pattern}`)
+      const keys = await redis.keys(this.getKey(pattern, prefix))
       if (keys.length === 0) return 0
       
       const result = await redis.del(...keys)
@@ -0,0 +1,301 @@
+/**
+ * Semantic claim index
+ * Embeds checked claims locally (no external API) and stores the vectors alongside
+ * FactCheckCache rows, so new queries can be matched against previously checked claims
+ */
+
+import { db } from './db'
+import crypto from 'crypto'
+
+export interface SimilarClaim {
+  queryHash: string
+  query: string
+  similarity: number
+  variant: string
+  domain: string | null
+  slug: string | null
+  verdict?: string
+  confidence?: number
+  checkedAt: string
+}
+
+export interface SimilarityThresholds {
+  reuse: number // Close enough to serve the cached result as an answer
+  related: number // Close enough to show as a previously checked similar claim
+}
+
+export interface FindSimilarOptions {
+  k?: number
+  domain?: string | null
+  variant?: string // Restrict to one route's cached results; omit to search all
+  threshold?: number
+  excludeHash?: string
+}
+
+interface IndexedClaim {
+  queryHash: string
+  query: string
+  variant: string
+  domain: string | null
+  slug: string | null
+  embedding: number[]
+  createdAt: Date
+}
+
+// Changing the dimension makes stored vectors unusable; they are re-embedded on load
+export const EMBEDDING_DIMENSIONS = 256
+
+// Health and legal claims flip on small wording changes (dose, jurisdiction), so they need closer matches
+export const DOMAIN_SIMILARITY_THRESHOLDS: { [domain: string]: SimilarityThresholds } = {
+  'biomedical': { reuse: 0.92, related: 0.5 },
+  'clinical': { reuse: 0.94, related: 0.55 },
+  'legal': { reuse: 0.92, related: 0.5 },
+  'economic': { reuse: 0.9, related: 0.45 },
+  'news': { reuse: 0.88, related: 0.45 },
+  'academic': { reuse: 0.85, related: 0.45 },
+  'environmental': { reuse: 0.85, related: 0.45 }
+}
+
+const DEFAULT_THRESHOLDS: SimilarityThresholds = { reuse: 0.85, related: 0.45 }
+
+// How many recent rows per domain are kept in memory for nearest-neighbour search
+const MAX_INDEX_CANDIDATES = 2000
+const INDEX_REFRESH_MS = 5 * 60 * 1000
+
+// Feature weights: whole words carry meaning, trigrams absorb typos and inflections
+const WORD_WEIGHT = 1
+const BIGRAM_WEIGHT = 0.75
+const TRIGRAM_WEIGHT = 0.35
+
+// Words that flip a claim; "isnt"-style forms cover apostrophes dropped in queries
+const NEGATION_WORDS = new Set(['not', 'no', 'never', 'none', 'nothing', 'neither', 'nor', 'without', 'cannot', 'isnt', 'arent', 'wasnt', 'werent', 'doesnt', 'dont', 'didnt', 'hasnt', 'havent', 'cant', 'wont'])
+
+const STOP_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'is', 'are', 'was', 'were', 'be', 'been', 'that', 'this', 'it', 'with', 'as', 'by', 'at', 'from', 'does', 'did', 'do', 'has', 'have', 'had', 'true', 'really', 'actually'])
+
+/**
+ * Stable key for a query; matches FactCheckCache.queryHash.
+ * Non-default variants get their own key so route result shapes don't collide.
+ */
+export function hashClaimQuery(query: string, variant = 'standard'): string {
+  const normalized = query.toLowerCase()
+    .trim()
+    .replace(/[^\w\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+  return crypto.createHash('sha256').update(variant === 'standard' ? normalized : `${variant}:${normalized}`).digest('hex')
+}
+
+/**
+ * Negations and numbers barely move the embedding but change what a claim says
+ * ("X causes Y" vs "X does not cause Y", "2 doses" vs "3 doses"), so a cached answer
+ * is only reused when both claims agree on them
+ */
+export function haveMatchingKeyTokens(a: string, b: string): boolean {
+  const keyTokens = (text: string) => {
+    const words = text
+      .toLowerCase()
+      .replace(/[\u2018\u2019]/g, "'")
+      .replace(/n't\b/g, ' not')
+      .replace(/[^\w\s.]/g, ' ')
+      .split(/\s+/)
+      .map(word => word.replace(/^\.+|\.+$/g, ''))
+    return {
+      negated: words.filter(word => NEGATION_WORDS.has(word)).length % 2 === 1,
+      numbers: words.filter(word => /\d/.test(word)).sort().join(' ')
+    }
+  }
+
+  const left = keyTokens(a)
+  const right = keyTokens(b)
+  return left.negated === right.negated && left.numbers === right.numbers
+}
+
+export function getSimilarityThresholds(domain?: string | null): SimilarityThresholds {
+  return (domain && DOMAIN_SIMILARITY_THRESHOLDS[domain]) || DEFAULT_THRESHOLDS
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+}
+
+// Crude suffix stripping so "vaccine"/"vaccines" and "cause"/"causes" share word features
+function stem(word: string): string {
+  if (word.length <= 4) return word
+  return word.replace(/(ies|ing|ed|es|e|s)$/, '') || word
+}
+
+// Signed feature hashing: each feature lands in one bucket with a +/- sign to reduce collision bias
+function addFeature(vector: number[], feature: string, weight: number): void {
+  const digest = crypto.createHash('md5').update(feature).digest()
+  const bucket = digest.readUInt32LE(0) % EMBEDDING_DIMENSIONS
+  const sign = digest[4] & 1 ? 1 : -1
+  vector[bucket] += sign * weight
+}
+
+/**
+ * Local hashed embedding of a claim: word unigrams, bigrams and character trigrams,
+ * L2-normalised so cosine similarity is a dot product
+ */
+export function embedClaim(text: string): number[] {
+  const vector = new Array(EMBEDDING_DIMENSIONS).fill(0)
+  const words = tokenize(text).map(stem)
+
+  words.forEach((word, index) => {
+    addFeature(vector, `w:${word}`, WORD_WEIGHT)
+    if (index > 0) addFeature(vector, `b:${words[index - 1]} ${word}`, BIGRAM_WEIGHT)
+
+    const padded = ` ${word} `
+    for (let i = 0; i < padded.length - 2; i++) {
+      addFeature(vector, `t:${padded.substring(i, i + 3)}`, TRIGRAM_WEIGHT)
+    }
+  })
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return norm > 0 ? vector.map(value => value / norm) : vector
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0
+  let dot = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+  }
+  return Math.max(0, Math.min(1, dot))
+}
+
+export class ClaimIndex {
+  // Keyed by domain ('*' for the cross-domain view)
+  private candidates = new Map<string, { claims: IndexedClaim[], loadedAt: number }>()
+
+  private async loadCandidates(domain?: string | null): Promise<IndexedClaim[]> {
+    const key = domain || '*'
+    const cached = this.candidates.get(key)
+    if (cached && Date.now() - cached.loadedAt < INDEX_REFRESH_MS) {
+      return cached.claims
+    }
+
+    const rows = await db.factCheckCache.findMany({
+      where: {
+        expiresAt: { gt: new Date() },
+        ...(domain ? { domain } : {})
+      },
+      select: { queryHash: true, query: true, variant: true, domain: true, slug: true, embedding: true, createdAt: true },
+      orderBy: { lastHit: 'desc' },
+      take: MAX_INDEX_CANDIDATES
+    })
+
+    const claims = rows.map(row => ({
+      ...row,
+      // Rows cached before the index existed (or with a different dimension) are embedded on the fly
+      embedding: row.embedding.length === EMBEDDING_DIMENSIONS ? row.embedding : embedClaim(row.query)
+    }))
+
+    this.candidates.set(key, { claims, loadedAt: Date.now() })
+    return claims
+  }
+
+  /**
+   * Record a checked claim in the in-memory index. The vector itself is persisted
+   * with the FactCheckCache row by whoever writes it (see EnhancedFactCheckCache.set).
+   */
+  add(claim: Omit<IndexedClaim, 'createdAt'> & { createdAt?: Date }): void {
+    const entry: IndexedClaim = { ...claim, createdAt: claim.createdAt || new Date() }
+
+    for (const key of [claim.domain || '*', '*']) {
+      const cached = this.candidates.get(key)
+      if (!cached) continue
+      cached.claims = [entry, ...cached.claims.filter(existing => existing.queryHash !== entry.queryHash)]
+        .slice(0, MAX_INDEX_CANDIDATES)
+    }
+  }
+
+  remove(queryHash: string): void {
+    for (const cached of this.candidates.values()) {
+      cached.claims = cached.claims.filter(claim => claim.queryHash !== queryHash)
+    }
+  }
+
+  invalidate(): void {
+    this.candidates.clear()
+  }
+
+  /**
+   * Top-k nearest previously checked claims. Defaults to the domain's "related"
+   * threshold; pass the "reuse" threshold when the match will be served as an answer.
+   */
+  async findSimilar(query: string, options: FindSimilarOptions = {}): Promise<SimilarClaim[]> {
+    const { k = 5, domain, variant, excludeHash } = options
+    const threshold = options.threshold ?? getSimilarityThresholds(domain).related
+
+    try {
+      const queryEmbedding = embedClaim(query)
+      const candidates = await this.loadCandidates(domain)
+
+      const seen = new Set<string>()
+      const matches = candidates
+        .filter(claim => claim.queryHash !== excludeHash && (!variant || claim.variant === variant))
+        .map(claim => ({ claim, similarity: cosineSimilarity(queryEmbedding, claim.embedding) }))
+        .filter(match => match.similarity >= threshold)
+        .sort((a, b) => b.similarity - a.similarity)
+        // The same claim checked through several routes is listed once
+        .filter(match => {
+          const key = match.claim.query.toLowerCase().trim()
+          if (seen.has(key)) return false
+          seen.add(key)
+          return true
+        })
+        .slice(0, k)
+
+      if (matches.length === 0) return []
+
+      // Only the winners need their stored verdicts
+      const rows = await db.factCheckCache.findMany({
+        where: { queryHash: { in: matches.map(match => match.claim.queryHash) } },
+        select: { queryHash: true, result: true }
+      })
+      const resultsByHash = new Map(rows.map(row => [row.queryHash, row.result as any]))
+
+      return matches.map(({ claim, similarity }) => {
+        const verdict = resultsByHash.get(claim.queryHash)?.verdict
+        return {
+          queryHash: claim.queryHash,
+          query: claim.query,
+          variant: claim.variant,
+          similarity: Math.round(similarity * 1000) / 1000,
+          domain: claim.domain,
+          slug: claim.slug,
+          verdict: typeof verdict === 'string' ? verdict : verdict?.label,
+          confidence: typeof verdict === 'object' ? verdict?.confidence : resultsByHash.get(claim.queryHash)?.confidence,
+          checkedAt: claim.createdAt.toISOString()
+        }
+      })
+    } catch (error) {
+      console.error('[ClaimIndex] Similar claim lookup failed:', error instanceof Error ? error.message : error)
+      return []
+    }
+  }
+
+  /**
+   * Best match that clears the domain's reuse threshold and agrees with the query on
+   * negations and numbers, or null. Anything looser is only a related claim.
+   */
+  async findReusable(query: string, options: { domain?: string | null, threshold?: number, variant?: string } = {}): Promise<SimilarClaim | null> {
+    const { domain, variant = 'standard' } = options
+    const matches = await this.findSimilar(query, {
+      k: 5,
+      domain,
+      variant,
+      threshold: options.threshold ?? getSimilarityThresholds(domain).reuse
+    })
+    return matches.find(match => haveMatchingKeyTokens(query, match.query)) || null
+  }
+}
+
+export const claimIndex = new ClaimIndex()
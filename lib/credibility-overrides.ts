@@ -0,0 +1,247 @@
+/**
+ * Editorial source credibility overrides
+ * Editors add, downgrade or annotate domains in the SourceCredibility table; every change
+ * is recorded in SourceCredibilityAudit and pushed into the scoring service
+ */
+
+import { Prisma } from '@prisma/client'
+import { db } from './db'
+import { setCredibilityOverrides, type CredibilityOverride, type SourceType } from './source-credibility'
+
+export interface CredibilityOverrideInput {
+  domain: string
+  score?: number | null
+  maxScore?: number | null
+  sourceType?: SourceType | null
+  notes?: string | null
+  reason: string
+  provenance?: string | null
+}
+
+export interface OverrideEditor {
+  id: string
+  username: string
+}
+
+export class CredibilityOverrideError extends Error {
+  constructor(message: string, public status: 400 | 404 | 409 = 400) {
+    super(message)
+    this.name = 'CredibilityOverrideError'
+  }
+}
+
+function isPrismaError(error: unknown, code: string): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === code
+}
+
+const SOURCE_TYPES: SourceType[] = ['government', 'academic', 'news', 'factcheck', 'encyclopedia', 'social', 'other']
+
+// Overrides change rarely; other instances pick up edits within this window
+const OVERRIDES_REFRESH_MS = 60 * 1000
+
+let loadedAt = 0
+let loading: Promise<void> | null = null
+
+export function normalizeOverrideDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .split(/[/?#]/)[0]
+    .replace(/:\d+$/, '')
+    .replace(/^www\./, '')
+}
+
+function toOverride(row: any): CredibilityOverride {
+  return {
+    domain: row.domain,
+    score: row.score,
+    maxScore: row.maxScore,
+    sourceType: row.sourceType as SourceType | null,
+    notes: row.notes,
+    reason: row.reason,
+    provenance: row.provenance
+  }
+}
+
+/**
+ * Load overrides from the database into the scoring service (cached for a minute)
+ */
+export async function loadCredibilityOverrides(force = false): Promise<void> {
+  if (!force && Date.now() - loadedAt < OVERRIDES_REFRESH_MS) return
+  if (loading && !force) return loading
+
+  // A forced reload follows a write, so it runs after any in-flight load, which may predate the write
+  const previous = loading
+  const current: Promise<void> = (async () => {
+    await previous
+    try {
+      const rows = await db.sourceCredibility.findMany()
+      setCredibilityOverrides(rows.map(toOverride))
+      loadedAt = Date.now()
+    } catch (error) {
+      // Scoring falls back to the rules alone (or the last loaded overrides)
+      console.error('[Credibility] Failed to load overrides:', error instanceof Error ? error.message : error)
+    }
+  })().finally(() => {
+    if (loading === current) loading = null
+  })
+
+  loading = current
+  return current
+}
+
+function validateInput(input: Partial<CredibilityOverrideInput>, requireDomain = true): void {
+  if (requireDomain && (!input.domain || !normalizeOverrideDomain(input.domain).includes('.'))) {
+    throw new CredibilityOverrideError('A valid domain is required')
+  }
+  if (!input.reason || !input.reason.trim()) {
+    throw new CredibilityOverrideError('A reason is required for every change')
+  }
+  for (const field of ['score', 'maxScore'] as const) {
+    const value = input[field]
+    if (value !== undefined && value !== null && (!Number.isInteger(value) || value < 0 || value > 100)) {
+      throw new CredibilityOverrideError(`${field} must be an integer between 0 and 100`)
+    }
+  }
+  if (input.sourceType && !SOURCE_TYPES.includes(input.sourceType)) {
+    throw new CredibilityOverrideError(`sourceType must be one of: ${SOURCE_TYPES.join(', ')}`)
+  }
+}
+
+// Only the editable fields go into the audit trail
+function snapshot(row: any): any {
+  if (!row) return null
+  const { domain, score, maxScore, sourceType, notes, reason, provenance } = row
+  return { domain, score, maxScore, sourceType, notes, reason, provenance }
+}
+
+// Written in the same transaction as the change, so there is never a change without its audit row
+async function recordAudit(tx: Prisma.TransactionClient, action: 'create' | 'update' | 'delete', domain: string, editor: OverrideEditor, before: any, after: any, reason: string): Promise<void> {
+  await tx.sourceCredibilityAudit.create({
+    data: {
+      domain,
+      action,
+      userId: editor.id,
+      username: editor.username,
+      before: snapshot(before) ?? undefined,
+      after: snapshot(after) ?? undefined,
+      reason
+    }
+  })
+}
+
+export async function listCredibilityOverrides() {
+  return db.sourceCredibility.findMany({ orderBy: { domain: 'asc' } })
+}
+
+export async function getCredibilityOverride(domain: string) {
+  const normalized = normalizeOverrideDomain(domain)
+  const [override, history] = await Promise.all([
+    db.sourceCredibility.findUnique({ where: { domain: normalized } }),
+    db.sourceCredibilityAudit.findMany({ where: { domain: normalized }, orderBy: { createdAt: 'desc' }, take: 100 })
+  ])
+  return { override, history }
+}
+
+export async function createCredibilityOverride(input: CredibilityOverrideInput, editor: OverrideEditor) {
+  validateInput(input)
+  const domain = normalizeOverrideDomain(input.domain)
+
+  let created
+  try {
+    created = await db.$transaction(async (tx) => {
+      const row = await tx.sourceCredibility.create({
+        data: {
+          domain,
+          score: input.score ?? null,
+          maxScore: input.maxScore ?? null,
+          sourceType: input.sourceType ?? null,
+          notes: input.notes ?? null,
+          reason: input.reason.trim(),
+          provenance: input.provenance ?? null,
+          updatedBy: editor.username
+        }
+      })
+      await recordAudit(tx, 'create', domain, editor, null, row, row.reason)
+      return row
+    })
+  } catch (error) {
+    // The unique domain constraint settles concurrent creates
+    if (isPrismaError(error, 'P2002')) {
+      throw new CredibilityOverrideError(`An override for ${domain} already exists`, 409)
+    }
+    throw error
+  }
+
+  console.log(`[Credibility] Override for ${domain} created by ${editor.username}`)
+  await loadCredibilityOverrides(true)
+  return created
+}
+
+export async function updateCredibilityOverride(domain: string, changes: Partial<CredibilityOverrideInput> & { reason: string }, editor: OverrideEditor) {
+  validateInput(changes, false)
+  const normalized = normalizeOverrideDomain(domain)
+
+  let updated
+  try {
+    updated = await db.$transaction(async (tx) => {
+      const existing = await tx.sourceCredibility.findUnique({ where: { domain: normalized } })
+      if (!existing) {
+        throw new CredibilityOverrideError(`No override exists for ${normalized}`, 404)
+      }
+
+      const row = await tx.sourceCredibility.update({
+        where: { domain: normalized },
+        data: {
+          ...(changes.score !== undefined ? { score: changes.score } : {}),
+          ...(changes.maxScore !== undefined ? { maxScore: changes.maxScore } : {}),
+          ...(changes.sourceType !== undefined ? { sourceType: changes.sourceType } : {}),
+          ...(changes.notes !== undefined ? { notes: changes.notes } : {}),
+          ...(changes.provenance !== undefined ? { provenance: changes.provenance } : {}),
+          reason: changes.reason.trim(),
+          updatedBy: editor.username
+        }
+      })
+      await recordAudit(tx, 'update', normalized, editor, existing, row, row.reason)
+      return row
+    })
+  } catch (error) {
+    // Deleted between the read and the update
+    if (isPrismaError(error, 'P2025')) {
+      throw new CredibilityOverrideError(`No override exists for ${normalized}`, 404)
+    }
+    throw error
+  }
+
+  console.log(`[Credibility] Override for ${normalized} updated by ${editor.username}`)
+  await loadCredibilityOverrides(true)
+  return updated
+}
+
+export async function deleteCredibilityOverride(domain: string, reason: string, editor: OverrideEditor): Promise<boolean> {
+  if (!reason || !reason.trim()) {
+    throw new CredibilityOverrideError('A reason is required for every change')
+  }
+  const normalized = normalizeOverrideDomain(domain)
+
+  try {
+    const deleted = await db.$transaction(async (tx) => {
+      const existing = await tx.sourceCredibility.findUnique({ where: { domain: normalized } })
+      if (!existing) return false
+
+      await tx.sourceCredibility.delete({ where: { domain: normalized } })
+      await recordAudit(tx, 'delete', normalized, editor, existing, null, reason.trim())
+      return true
+    })
+    if (!deleted) return false
+  } catch (error) {
+    // Already removed by a concurrent delete
+    if (isPrismaError(error, 'P2025')) return false
+    throw error
+  }
+
+  console.log(`[Credibility] Override for ${normalized} removed by ${editor.username}`)
+  await loadCredibilityOverrides(true)
+  return true
+}
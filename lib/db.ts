@@ -48,6 +48,18 @@ redis.on('ready', () => {
   console.log('🚀 Redis ready for connections')
 })
 
+// Errors ioredis raises when Redis can't be reached, as opposed to a bad command or a bug
+const REDIS_CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EPIPE', 'EHOSTUNREACH']
+const REDIS_CONNECTION_ERROR_MESSAGES = ['Connection is closed', 'Command timed out', "Stream isn't writeable"]
+
+export function isRedisConnectionError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false
+  const code = (error as NodeJS.ErrnoException).code
+  return error.name === 'MaxRetriesPerRequestError' ||
+    (!!code && REDIS_CONNECTION_ERROR_CODES.includes(code)) ||
+    REDIS_CONNECTION_ERROR_MESSAGES.some(message => error.message.includes(message))
+}
+
 // Database utilities
 export async function healthCheck() {
   // Skip database checks if no DATABASE_URL is configured (e.g., Vercel build)
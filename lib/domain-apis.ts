@@ -3,6 +3,10 @@
  * Routes queries to the most authoritative sources based on context
  */
 
+import type { SourceStance } from './stance-detection'
+import { normalizeRating } from './fact-check-ratings'
+import { meteredFetch } from './usage-meter'
+
 export interface SourceResult {
   title: string
   url: string
@@ -13,6 +17,9 @@ export interface SourceResult {
   type: string
   credibilityScore?: number
   metadata?: any
+  // Stance toward the claim the source was retrieved for, plus every claim it was checked against
+  stance?: SourceStance
+  stances?: SourceStance[]
 }
 
 export interface APIResponse {
@@ -83,7 +90,8 @@ export async function queryOpenAlex(query: string, maxResults = 100): Promise<So
 
   } catch (error) {
     console.error('[OpenAlex] API error:', error)
-    return []
+    // Let the provider registry record the failure
+    throw error
   }
 }
 
@@ -148,7 +156,8 @@ export async function queryArXiv(query: string, maxResults = 100): Promise<Sourc
 
   } catch (error) {
     console.error('[arXiv] API error:', error)
-    return []
+    // Let the provider registry record the failure
+    throw error
   }
 }
 
@@ -241,7 +250,8 @@ export async function queryPubMed(query: string, maxResults = 100): Promise<Sour
 
   } catch (error) {
     console.error('[PubMed] API error:', error)
-    return []
+    // Let the provider registry record the failure
+    throw error
   }
 }
 
@@ -300,7 +310,8 @@ export async function queryClinicalTrials(query: string, maxResults = 100): Prom
 
   } catch (error) {
     console.error('[ClinicalTrials] API error:', error)
-    return []
+    // Let the provider registry record the failure
+    throw error
   }
 }
 
@@ -355,7 +366,8 @@ export async function queryWorldBank(query: string, maxResults = 100): Promise<S
 
   } catch (error) {
     console.error('[World Bank] API error:', error)
-    return []
+    // Let the provider registry record the failure
+    throw error
   }
 }
 
@@ -411,7 +423,8 @@ export async function queryNASAEONET(query: string, maxResults = 100): Promise<S
 
   } catch (error) {
     console.error('[NASA EONET] API error:', error)
-    return []
+    // Let the provider registry record the failure
+    throw error
   }
 }
 
@@ -466,7 +479,8 @@ export async function queryGBIF(query: string, maxResults = 100): Promise<Source
 
   } catch (error) {
     console.error('[GBIF] API error:', error)
-    return []
+    // Let the provider registry record the failure
+    throw error
   }
 }
 
@@ -516,7 +530,8 @@ export async function queryFederalRegister(query: string, maxResults = 100): Pro
 
   } catch (error) {
     console.error('[Federal Register] API error:', error)
-    return []
+    // Let the provider registry record the failure
+    throw error
   }
 }
 
@@ -566,6 +581,274 @@ export async function queryGDELT(query: string, maxResults = 100): Promise<Sourc
 
   } catch (error) {
     console.error('[GDELT] API error:', error)
-    return []
+    // Let the provider registry record the failure
+    throw error
+  }
+}
+
+/**
+ * Query Perplexity API with multiple search strategies and convert to SourceResult format
+ */
+export async function queryPerplexity(query: string, maxResults = 100): Promise<SourceResult[]> {
+  const allSources: SourceResult[] = []
+  
+  // Multiple search strategies to get comprehensive results
+  const searchStrategies = [
+    {
+      name: 'fact-check',
+      content: `Fact-check this claim: "${query}"`,
+      recency: 'month'
+    },
+    {
+      name: 'research',
+      content: `Find research and evidence about: ${query}`,
+      recency: 'year'
+    },
+    {
+      name: 'sources',
+      content: `What do authoritative sources say about: ${query}`,
+      recency: 'month'
+    }
+  ]
+  
+  // Execute multiple searches in parallel for maximum coverage
+  const searchPromises = searchStrategies.map(async (strategy) => {
+    try {
+      console.log(`[Perplexity] ${strategy.name} search for: "${query}"`)
+      const response = await meteredFetch("perplexity", "https://api.perplexity.ai/chat/completions", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${process.env.PERPLEXITY_API_KEY}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: "sonar-pro",
+          messages: [{
+            role: "user",
+            content: strategy.content
+          }],
+          max_tokens: 2000,
+          temperature: 0.1,
+          return_citations: true,
+          search_recency_filter: strategy.recency,
+          top_k: 25, // Maximum sources from Perplexity
+          web_search_options: {
+            search_context_size: "high"
+          }
+        })
+      })
+      
+      if (!response.ok) {
+        throw new Error(`Perplexity ${strategy.name} API error: ${response.status}`)
+      }
+      
+      const data = await response.json()
+      const sources: SourceResult[] = []
+      
+      // Convert search_results to SourceResult format
+      if (data.search_results) {
+        data.search_results.forEach((result: any, index: number) => {
+          sources.push({
+            title: result.title || 'Untitled',
+            url: result.url,
+            type: 'news',
+            publishedAt: result.date || null,
+            abstract: result.snippet || '',
+            metadata: {
+              source: 'Perplexity',
+              strategy: strategy.name,
+              domain: new URL(result.url).hostname,
+              lastUpdated: result.last_updated || null,
+              relevance: 0.9 - (index * 0.1)
+            }
+          })
+        })
+      }
+      
+      // Also extract from citations if available
+      if (data.citations) {
+        data.citations.forEach((url: string, index: number) => {
+          // Only add if not already in search_results
+          const alreadyExists = sources.some(s => s.url === url)
+          if (!alreadyExists) {
+            try {
+              const domain = new URL(url).hostname
+              sources.push({
+                title: `Source from ${domain}`,
+                url: url,
+                type: 'citation',
+                publishedAt: undefined,
+                abstract: 'Citation source',
+                metadata: {
+                  source: 'Perplexity',
+                  strategy: `${strategy.name}-citation`,
+                  domain: domain,
+                  relevance: 0.7 - (index * 0.05)
+                }
+              })
+            } catch (e) {
+              // Invalid URL, skip
+            }
+          }
+        })
+      }
+      
+      return sources
+    } catch (error) {
+      console.error(`[Perplexity] ${strategy.name} error:`, error)
+      throw error
+    }
+  })
+  
+  // Wait for all searches to complete
+  const results = await Promise.allSettled(searchPromises)
+  results.forEach((result) => {
+    if (result.status === 'fulfilled') {
+      allSources.push(...result.value)
+    }
+  })
+
+  // Partial results are still useful; only a total failure counts against the provider
+  const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+  if (failures.length === results.length) {
+    throw failures[0].reason
+  }
+  
+  // Deduplicate by URL
+  const uniqueSources = allSources.reduce((unique: SourceResult[], source) => {
+    if (!unique.some(u => u.url === source.url)) {
+      unique.push(source)
+    }
+    return unique
+  }, [])
+  
+  console.log(`[Perplexity] Collected ${uniqueSources.length} unique sources from ${searchStrategies.length} strategies`)
+  
+  return uniqueSources.slice(0, maxResults)
+}
+
+/**
+ * Query Google Fact Check API and convert to SourceResult format
+ */
+export async function queryGoogleFactCheck(query: string, maxResults = 100): Promise<SourceResult[]> {
+  try {
+    const response = await meteredFetch('google_factcheck',
+      `https://factchecktools.googleapis.com/v1alpha1/claims:search?query=${encodeURIComponent(query)}&key=${process.env.GOOGLE_FACTCHECK_API_KEY}`
+    )
+    
+    if (!response.ok) {
+      throw new Error(`Google Fact Check API error: ${response.status}`)
+    }
+    
+    const data = await response.json()
+    const sources: SourceResult[] = []
+    
+    if (data.claims) {
+      data.claims.forEach((claim: any) => {
+        if (claim.claimReview) {
+          claim.claimReview.forEach((review: any, index: number) => {
+            sources.push({
+              title: review.title || 'Fact Check Review',
+              url: review.url,
+              type: 'factcheck',
+              publishedAt: review.reviewDate || null,
+              abstract: `Rating: ${review.textualRating || 'Unknown'}`,
+              publisher: review.publisher?.name || 'Unknown Publisher',
+              metadata: {
+                source: 'Google Fact Check',
+                publisher: review.publisher?.name || 'Unknown Publisher',
+                rating: review.textualRating,
+                normalizedRating: normalizeRating(review.textualRating, review.publisher?.name).rating,
+                reviewDate: review.reviewDate,
+                relevance: 0.95
+              }
+            })
+          })
+        }
+      })
+    }
+    
+    return sources.slice(0, maxResults)
+  } catch (error) {
+    console.error('[Google Fact Check] API error:', error)
+    // Let the provider registry record the failure
+    throw error
+  }
+}
+
+/**
+ * Additional Perplexity search strategies
+ */
+export async function queryPerplexityResearch(query: string, maxResults = 100): Promise<SourceResult[]> {
+  return await queryPerplexityWithStrategy(query, maxResults, 'research', `Find academic research and scientific studies about: ${query}`)
+}
+
+export async function queryPerplexityExpert(query: string, maxResults = 100): Promise<SourceResult[]> {
+  return await queryPerplexityWithStrategy(query, maxResults, 'expert', `What do medical experts and authorities say about: ${query}`)
+}
+
+export async function queryPerplexityAcademic(query: string, maxResults = 100): Promise<SourceResult[]> {
+  return await queryPerplexityWithStrategy(query, maxResults, 'academic', `Find peer-reviewed journal articles and systematic reviews about: ${query}`)
+}
+
+export async function queryPerplexitySupplementary(query: string, maxResults = 100): Promise<SourceResult[]> {
+  return await queryPerplexityWithStrategy(query, maxResults, 'supplementary', `Find additional independent reporting and primary sources about: ${query}`)
+}
+
+async function queryPerplexityWithStrategy(query: string, maxResults: number, strategy: string, searchQuery: string): Promise<SourceResult[]> {
+  try {
+    const response = await meteredFetch("perplexity", "https://api.perplexity.ai/chat/completions", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${process.env.PERPLEXITY_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: "sonar-pro",
+        messages: [{
+          role: "user",
+          content: searchQuery
+        }],
+        max_tokens: 2000,
+        temperature: 0.1,
+        top_k: 20,
+        return_citations: true,
+        search_recency_filter: strategy === 'research' || strategy === 'academic' ? 'year' : 'month',
+        web_search_options: {
+          search_context_size: "high"
+        }
+      })
+    })
+    
+    if (!response.ok) {
+      throw new Error(`Perplexity ${strategy} API error: ${response.status}`)
+    }
+    
+    const data = await response.json()
+    const sources: SourceResult[] = []
+    
+    if (data.search_results) {
+      data.search_results.forEach((result: any, index: number) => {
+        sources.push({
+          title: result.title || 'Untitled',
+          url: result.url,
+          type: strategy === 'research' || strategy === 'academic' ? 'academic' : 'news',
+          publishedAt: result.date || undefined,
+          abstract: result.snippet || '',
+          metadata: {
+            source: `Perplexity-${strategy}`,
+            domain: new URL(result.url).hostname,
+            lastUpdated: result.last_updated || undefined,
+            relevance: 0.85 - (index * 0.02)
+          }
+        })
+      })
+    }
+    
+    return sources.slice(0, maxResults)
+  } catch (error) {
+    console.error(`[Perplexity] ${strategy} error:`, error)
+    // Let the provider registry record the failure
+    throw error
   }
-}
\ No newline at end of file
+}
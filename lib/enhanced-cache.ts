@@ -1,19 +1,115 @@
 import { cache } from './cache'
-import { db } from './db'
+import { db, redis } from './db'
+import { claimIndex, embedClaim, getSimilarityThresholds, hashClaimQuery } from './claim-index'
+import { sourceDate } from './verdict-model'
 import crypto from 'crypto'
+import { waitUntil } from '@vercel/functions'
 
 interface FactCheckResult {
-  verdict: string
-  confidence: number
-  summary: string
-  keyFindings: string[]
+  verdict?: string | { label: string, confidence: number, summary?: string }
+  confidence?: number
+  summary?: string
+  keyFindings?: string[]
   sources: any[]
   factCheckReviews?: any[]
-  explanation: string
+  explanation?: string
   processingTime?: number
-  timestamp: string
+  timestamp?: string
+  cachedAt?: string
+  ttlSeconds?: number
   cached?: boolean
   similarity?: number
+  [field: string]: any // Each route variant caches its own result shape
+}
+
+interface CacheLookupOptions {
+  similarityThreshold?: number
+  domain?: string | null
+  variant?: string
+}
+
+export interface CacheInfo {
+  similarity: number
+  matchedQuery: string
+  cachedAt: string | null
+  ageSeconds: number | null
+  stale: boolean
+  revalidating: boolean
+}
+
+export interface InvalidationCriteria {
+  query?: string
+  slug?: string
+  domain?: string
+  sourceUrl?: string
+  all?: boolean
+}
+
+// How long a cached verdict is served as-is before a background refresh kicks in
+export const DEFAULT_FRESH_FOR_MS = 60 * 60 * 1000
+// Without an explicit window, entries go stale after this share of their TTL
+const FRESH_FRACTION_OF_TTL = 0.25
+const REVALIDATION_LOCK_TTL = 300 // seconds
+
+const HOUR = 60 * 60
+const DAY = 24 * HOUR
+
+// Base TTL per classified domain: breaking news moves in hours, settled science in weeks
+export const DOMAIN_CACHE_TTLS: { [domain: string]: number } = {
+  'news': 2 * HOUR,
+  'economic': 12 * HOUR,
+  'environmental': DAY,
+  'general': DAY,
+  'legal': 3 * DAY,
+  'biomedical': 7 * DAY,
+  'clinical': 7 * DAY,
+  'academic': 30 * DAY,
+  'physics': 30 * DAY,
+  'mathematics': 30 * DAY,
+  'computer_science': 30 * DAY,
+  'biodiversity': 30 * DAY
+}
+
+const DEFAULT_CACHE_TTL = DAY
+
+// A story whose evidence is mostly days old is still developing, whatever its domain
+const SOURCE_RECENCY_CAPS = [
+  { maxAgeMs: 2 * DAY * 1000, ttl: HOUR },
+  { maxAgeMs: 14 * DAY * 1000, ttl: 12 * HOUR }
+]
+const RECENT_SOURCE_SHARE = 0.3
+
+/**
+ * TTL for a fact-check result, from its domain and how recent its dated sources are
+ */
+export function getFactCheckTtl(domain?: string | null, sources: any[] = []): number {
+  const base = (domain && DOMAIN_CACHE_TTLS[domain]) || DEFAULT_CACHE_TTL
+
+  const ages = sources
+    .map(source => new Date(sourceDate(source) || '').getTime())
+    .filter(timestamp => !isNaN(timestamp))
+    .map(timestamp => Math.max(0, Date.now() - timestamp))
+  if (ages.length === 0) return base
+
+  for (const cap of SOURCE_RECENCY_CAPS) {
+    const recentShare = ages.filter(age => age <= cap.maxAgeMs).length / ages.length
+    if (recentShare >= RECENT_SOURCE_SHARE) {
+      return Math.min(base, cap.ttl)
+    }
+  }
+
+  return base
+}
+
+// Tag key linking a cited source URL to the cache entries that relied on it
+function sourceTagKey(url: string): string {
+  const normalized = url.toLowerCase()
+    .trim()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/#.*$/, '')
+    .replace(/\/+$/, '')
+  return `source_tag:${crypto.createHash('sha256').update(normalized).digest('hex').slice(0, 16)}`
 }
 
 interface CacheMetrics {
@@ -33,36 +129,16 @@ export class EnhancedFactCheckCache {
     avgResponseTime: 0
   }
 
-  private generateQueryHash(query: string): string {
-    // Normalize query for better matching
-    const normalized = query.toLowerCase()
-      .trim()
-      .replace(/[^\w\s]/g, ' ')
-      .replace(/\s+/g, ' ')
-      .trim()
-    
-    return crypto.createHash('sha256').update(normalized).digest('hex')
-  }
-
-  private calculateSimilarity(str1: string, str2: string): number {
-    const words1 = new Set(str1.toLowerCase().split(/\s+/))
-    const words2 = new Set(str2.toLowerCase().split(/\s+/))
-    
-    const intersection = new Set([...words1].filter(x => words2.has(x)))
-    const union = new Set([...words1, ...words2])
-    
-    return intersection.size / union.size
-  }
-
-  async get(query: string, options: { similarityThreshold?: number } = {}): Promise<FactCheckResult | null> {
+  async get(query: string, options: CacheLookupOptions = {}): Promise<(FactCheckResult & { originalQuery?: string }) | null> {
     const startTime = Date.now()
+    const { variant = 'standard' } = options
     this.metrics.totalQueries++
     
     try {
-      const queryHash = this.generateQueryHash(query)
+      const queryHash = hashClaimQuery(query, variant)
       
       // Try exact match first from Redis
-      let result = await cache.getFactCheck(query)
+      const result = await cache.getFactCheck(query, variant)
       if (result) {
         this.metrics.hits++
         this.updateMetrics(startTime)
@@ -84,8 +160,8 @@ export class EnhancedFactCheckCache {
       }
 
       // Try similarity search if exact match fails
-      const { similarityThreshold = 0.85 } = options
-      const similarResult = await this.findSimilarQuery(query, similarityThreshold)
+      const { similarityThreshold = getSimilarityThresholds(options.domain).reuse } = options
+      const similarResult = await this.findSimilarQuery(query, similarityThreshold, options.domain, variant)
       
       if (similarResult) {
         this.metrics.hits++
@@ -109,31 +185,48 @@ export class EnhancedFactCheckCache {
     }
   }
 
-  async set(query: string, result: FactCheckResult, options: { ttl?: number } = {}): Promise<boolean> {
+  async set(query: string, result: FactCheckResult, options: { ttl?: number, domain?: string | null, slug?: string | null, variant?: string } = {}): Promise<boolean> {
     try {
-      const queryHash = this.generateQueryHash(query)
-      const { ttl = 86400 } = options // 24 hours default
+      const { domain = null, slug = null, variant = 'standard' } = options
+      const ttl = options.ttl ?? getFactCheckTtl(domain, result.sources)
+      const queryHash = hashClaimQuery(query, variant)
+      const embedding = embedClaim(query)
+      const expiresAt = new Date(Date.now() + ttl * 1000)
+      // Lookup annotations belong to a response, not to the stored entry
+      const entry: FactCheckResult = { ...result, cachedAt: new Date().toISOString(), ttlSeconds: ttl }
+      delete entry.cached
+      delete entry.similarity
       
       // Store in Redis for fast access
-      const redisSuccess = await cache.setFactCheck(query, result)
+      const redisSuccess = await cache.setFactCheck(query, entry, variant, ttl)
+      await this.tagSources(queryHash, result.sources, ttl)
       
       // Store in database for persistence and analytics
       try {
         await db.factCheckCache.upsert({
           where: { queryHash },
           update: {
-            result: result as any,
+            result: entry as any,
+            embedding,
+            expiresAt,
+            ...(domain ? { domain } : {}),
+            ...(slug ? { slug } : {}),
             lastHit: new Date(),
             hitCount: { increment: 1 }
           },
           create: {
             queryHash,
             query,
-            result: result as any,
-            expiresAt: new Date(Date.now() + ttl * 1000),
+            result: entry as any,
+            variant,
+            domain,
+            slug,
+            embedding,
+            expiresAt,
             hitCount: 1
           }
         })
+        claimIndex.add({ queryHash, query, variant, domain, slug, embedding })
       } catch (dbError) {
         console.error('Database cache storage error:', dbError)
         // Continue even if DB fails, Redis is primary
@@ -146,45 +239,173 @@ export class EnhancedFactCheckCache {
     }
   }
 
-  private async findSimilarQuery(query: string, threshold: number): Promise<any> {
+  private async findSimilarQuery(query: string, threshold: number, domain?: string | null, variant = 'standard'): Promise<any> {
     try {
-      // Search recent database entries for similar queries
-      const recentCaches = await db.factCheckCache.findMany({
-        where: {
-          expiresAt: { gt: new Date() },
-          lastHit: { gt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) } // Last 7 days
-        },
-        orderBy: { hitCount: 'desc' },
-        take: 50 // Limit search scope
-      })
+      // Nearest previously checked claim from the semantic index
+      const match = await claimIndex.findReusable(query, { domain, threshold, variant })
+      if (!match) return null
 
-      let bestMatch = null
-      let bestSimilarity = 0
+      // Prefer the Redis copy, fall back to the persisted row
+      const redisResult = await cache.getFactCheck(match.query, variant)
+      const cached = redisResult || (await db.factCheckCache.findUnique({ where: { queryHash: match.queryHash } }))?.result
+      if (!cached) return null
 
-      for (const cached of recentCaches) {
-        const similarity = this.calculateSimilarity(query, cached.query)
-        
-        if (similarity >= threshold && similarity > bestSimilarity) {
-          bestSimilarity = similarity
-          bestMatch = {
-            ...(cached.result as any),
-            similarity,
-            originalQuery: cached.query
-          }
-        }
+      return {
+        ...(cached as any),
+        similarity: match.similarity,
+        originalQuery: match.query
+      }
+    } catch (error) {
+      console.error('Similar query search error:', error)
+      return null
+    }
+  }
+
+  /**
+   * Stale-while-revalidate lookup: returns the cached result (exact or similar) with its
+   * age, and once it is older than `freshForMs` starts `refresh` in the background.
+   * `refresh` receives the query of the entry that was hit (the original for a
+   * similar match) and should re-run that query; the result it resolves to is
+   * stored under the same entry.
+   */
+  async getWithRevalidation(
+    query: string,
+    options: CacheLookupOptions & {
+      freshForMs?: number
+      slug?: string | null
+      refresh: (matchedQuery: string) => Promise<FactCheckResult | void>
+    }
+  ): Promise<{ result: FactCheckResult, cache: CacheInfo } | null> {
+    const { variant = 'standard', refresh, slug } = options
+    const cached = await this.get(query, options)
+    if (!cached) return null
+
+    const freshForMs = options.freshForMs
+      ?? (cached.ttlSeconds ? cached.ttlSeconds * 1000 * FRESH_FRACTION_OF_TTL : DEFAULT_FRESH_FOR_MS)
+
+    const similarity = cached.similarity ?? 1
+    const originalQuery: string | undefined = cached.originalQuery
+    const result: FactCheckResult = { ...cached }
+    delete result.cached
+    delete result.similarity
+    const cachedAt = result.cachedAt || result.timestamp || null
+    const ageMs = cachedAt ? Date.now() - new Date(cachedAt).getTime() : null
+    // Entries without a timestamp predate revalidation and are treated as stale
+    const stale = ageMs === null || ageMs > freshForMs
+
+    // Refresh the entry that was actually hit, so similar matches don't spawn new rows
+    const refreshQuery = originalQuery || query
+    const revalidating = stale && await this.revalidate(refreshQuery, variant, async () => {
+      const fresh = await refresh(refreshQuery)
+      if (fresh) {
+        // The caller's slug belongs to its own query, not to a similar match's entry
+        await this.set(refreshQuery, fresh, { domain: options.domain, slug: refreshQuery === query ? slug : undefined, variant })
       }
+    })
 
-      if (bestMatch) {
-        // Also check if it's in Redis for faster future access
-        const redisResult = await cache.getFactCheck(bestMatch.originalQuery)
-        return redisResult || bestMatch
+    return {
+      result,
+      cache: {
+        similarity,
+        matchedQuery: refreshQuery,
+        cachedAt,
+        ageSeconds: ageMs === null ? null : Math.round(ageMs / 1000),
+        stale,
+        revalidating
       }
+    }
+  }
 
-      return null
+  // One background refresh per entry across instances; returns whether one is running
+  private async revalidate(query: string, variant: string, task: () => Promise<void>): Promise<boolean> {
+    const lockKey = `factcheck_revalidate:${hashClaimQuery(query, variant)}`
+
+    try {
+      const acquired = await redis.set(lockKey, Date.now().toString(), 'EX', REVALIDATION_LOCK_TTL, 'NX')
+      if (acquired !== 'OK') return true
     } catch (error) {
-      console.error('Similar query search error:', error)
-      return null
+      console.error('Revalidation lock error:', error)
+      return false
+    }
+
+    console.log(`[Cache] Revalidating stale ${variant} result for "${query}"`)
+    // Keeps a serverless invocation alive until the refresh settles instead of freezing it mid-flight
+    waitUntil(
+      task()
+        .catch(error => console.error('Background revalidation failed:', error))
+        .finally(() => redis.del(lockKey).catch(() => {}))
+    )
+
+    return true
+  }
+
+  private async tagSources(queryHash: string, sources: any[] = [], ttl: number): Promise<void> {
+    const urls = [...new Set(sources.map(source => source?.url).filter(Boolean))] as string[]
+    if (urls.length === 0) return
+
+    try {
+      const pipeline = redis.pipeline()
+      for (const url of urls) {
+        const key = `sourcehound:${sourceTagKey(url)}`
+        pipeline.sadd(key, queryHash)
+        pipeline.expire(key, ttl)
+      }
+      await pipeline.exec()
+    } catch (error) {
+      console.error('Source tagging error:', error)
+    }
+  }
+
+  /**
+   * Drop cached verdicts matching any of the criteria, from Redis, the database and the
+   * claim index. Source URLs match every entry that cited them (e.g. a retracted article).
+   */
+  async invalidate(criteria: InvalidationCriteria): Promise<{ entries: number, redisKeys: number }> {
+    if (criteria.all) {
+      const redisKeys = await cache.clearByPattern('*', 'factcheck') + await cache.clearByPattern('source_tag:*')
+      const { count } = await db.factCheckCache.deleteMany({})
+      claimIndex.invalidate()
+      console.log(`[Cache] Invalidated all ${count} cached fact-checks`)
+      return { entries: count, redisKeys }
+    }
+
+    const conditions: any[] = []
+    if (criteria.query) {
+      conditions.push({ query: { equals: criteria.query.trim(), mode: 'insensitive' } })
+      conditions.push({ queryHash: hashClaimQuery(criteria.query) })
     }
+    if (criteria.slug) conditions.push({ slug: criteria.slug })
+    if (criteria.domain) conditions.push({ domain: criteria.domain })
+
+    let redisKeys = 0
+    if (criteria.sourceUrl) {
+      const tagKey = sourceTagKey(criteria.sourceUrl)
+      const hashes = await redis.smembers(`sourcehound:${tagKey}`).catch(() => [] as string[])
+      if (hashes.length > 0) conditions.push({ queryHash: { in: hashes } })
+      redisKeys += await cache.clearByPattern(tagKey)
+    }
+
+    if (conditions.length === 0) return { entries: 0, redisKeys }
+
+    const rows = await db.factCheckCache.findMany({
+      where: { OR: conditions },
+      select: { queryHash: true, query: true, variant: true }
+    })
+
+    for (const row of rows) {
+      if (await cache.deleteFactCheck(row.query, row.variant)) redisKeys++
+      claimIndex.remove(row.queryHash)
+    }
+
+    // Entries that only ever reached Redis (database unavailable at write time)
+    if (criteria.query && await cache.deleteFactCheck(criteria.query)) redisKeys++
+
+    const { count } = await db.factCheckCache.deleteMany({
+      where: { queryHash: { in: rows.map(row => row.queryHash) } }
+    })
+
+    console.log(`[Cache] Invalidated ${count} cached fact-checks (${redisKeys} Redis keys) for`, criteria)
+    return { entries: count, redisKeys }
   }
 
   private updateMetrics(startTime: number): void {
@@ -234,6 +455,7 @@ export class EnhancedFactCheckCache {
         }
       })
 
+      claimIndex.invalidate()
       console.log(`Cleaned up ${result.count + oldLowHitResult.count} cache entries`)
       return result.count + oldLowHitResult.count
     } catch (error) {
@@ -0,0 +1,395 @@
+/**
+ * Evidence provider registry for intelligent fact-checking
+ * Every source API the router can query is registered here with its domains,
+ * limits and health, so new providers plug in without touching the router
+ */
+
+import {
+  queryOpenAlex,
+  queryArXiv,
+  queryPubMed,
+  queryClinicalTrials,
+  queryWorldBank,
+  queryNASAEONET,
+  queryGBIF,
+  queryFederalRegister,
+  queryGDELT,
+  queryPerplexity,
+  queryPerplexityResearch,
+  queryPerplexityExpert,
+  queryPerplexityAcademic,
+  queryPerplexitySupplementary,
+  queryGoogleFactCheck,
+  SourceResult
+} from './domain-apis'
+
+// Matches every classified domain, including 'general'
+export const ALL_DOMAINS = '*'
+
+export interface ProviderRateLimit {
+  maxRequests: number
+  windowMs: number
+}
+
+export interface EvidenceProvider {
+  name: string
+  description?: string
+  domains: string[] // Classified domains this provider serves, or ALL_DOMAINS
+  rateLimit: ProviderRateLimit
+  timeoutMs: number
+  priority?: number // Higher priority providers are suggested first
+  requiredEnv?: string[] // Provider is skipped unless these env vars are set
+  search(query: string, limit: number): Promise<SourceResult[]>
+}
+
+export interface ProviderConfig {
+  enabled: boolean
+  timeoutMs?: number
+  maxResults?: number
+  rateLimit?: ProviderRateLimit
+}
+
+export interface ProviderHealth {
+  name: string
+  status: 'healthy' | 'degraded' | 'unavailable' | 'disabled'
+  totalCalls: number
+  failedCalls: number
+  consecutiveFailures: number
+  averageLatencyMs: number
+  lastSuccess?: number
+  lastError?: string
+  lastErrorAt?: number
+}
+
+export interface ProviderExecutionResult {
+  sources: SourceResult[]
+  processingTime: number
+  error?: string
+}
+
+// Consecutive failures before a provider is skipped, and for how long
+const FAILURE_THRESHOLD = 5
+const FAILURE_COOLDOWN_MS = 5 * 60 * 1000
+
+export class EvidenceProviderRegistry {
+  private providers = new Map<string, EvidenceProvider>()
+  private configs = new Map<string, ProviderConfig>()
+  private health = new Map<string, ProviderHealth>()
+  private callLog = new Map<string, number[]>()
+
+  /**
+   * Register a provider, replacing any existing provider with the same name
+   */
+  register(provider: EvidenceProvider): void {
+    this.providers.set(provider.name, provider)
+    if (!this.health.has(provider.name)) {
+      this.health.set(provider.name, {
+        name: provider.name,
+        status: 'healthy',
+        totalCalls: 0,
+        failedCalls: 0,
+        consecutiveFailures: 0,
+        averageLatencyMs: 0
+      })
+    }
+  }
+
+  unregister(name: string): boolean {
+    this.configs.delete(name)
+    this.health.delete(name)
+    this.callLog.delete(name)
+    return this.providers.delete(name)
+  }
+
+  get(name: string): EvidenceProvider | undefined {
+    return this.providers.get(name)
+  }
+
+  list(): EvidenceProvider[] {
+    return Array.from(this.providers.values())
+  }
+
+  /**
+   * Override per-provider settings (enable/disable, timeout, result cap, rate limit)
+   */
+  configure(name: string, config: Partial<ProviderConfig>): void {
+    this.configs.set(name, { ...this.getConfig(name), ...config })
+  }
+
+  getConfig(name: string): ProviderConfig {
+    return this.configs.get(name) || { enabled: true }
+  }
+
+  /**
+   * A provider is available when registered, enabled, configured with its
+   * required credentials and not cooling down after repeated failures
+   */
+  isAvailable(name: string): boolean {
+    const provider = this.providers.get(name)
+    if (!provider || !this.getConfig(name).enabled) return false
+
+    if (provider.requiredEnv?.some(key => !process.env[key])) return false
+
+    const health = this.health.get(name)
+    if (health && health.consecutiveFailures >= FAILURE_THRESHOLD) {
+      const cooledDown = Date.now() - (health.lastErrorAt || 0) > FAILURE_COOLDOWN_MS
+      if (!cooledDown) return false
+    }
+
+    return true
+  }
+
+  /**
+   * Available providers serving a domain, highest priority first
+   */
+  getProvidersForDomain(domain: string): EvidenceProvider[] {
+    return this.list()
+      .filter(provider => provider.domains.includes(domain) || provider.domains.includes(ALL_DOMAINS))
+      .filter(provider => this.isAvailable(provider.name))
+      .sort((a, b) => (b.priority || 0) - (a.priority || 0))
+  }
+
+  /**
+   * Run a provider search with its timeout, rate limit and health tracking applied
+   */
+  async execute(name: string, query: string, limit: number): Promise<ProviderExecutionResult> {
+    const startTime = Date.now()
+    const provider = this.providers.get(name)
+
+    if (!provider) {
+      return { sources: [], processingTime: 0, error: `Unknown provider: ${name}` }
+    }
+
+    if (!this.isAvailable(name)) {
+      return { sources: [], processingTime: 0, error: `Provider unavailable: ${name}` }
+    }
+
+    const config = this.getConfig(name)
+    if (!this.acquireSlot(name, config.rateLimit || provider.rateLimit)) {
+      return { sources: [], processingTime: 0, error: `Rate limit exceeded for provider: ${name}` }
+    }
+
+    const timeoutMs = config.timeoutMs || provider.timeoutMs
+    const maxResults = config.maxResults ? Math.min(limit, config.maxResults) : limit
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
+
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => reject(new Error(`${name} timed out after ${timeoutMs}ms`)), timeoutMs)
+      })
+
+      const sources = await Promise.race([provider.search(query, maxResults), timeout])
+      const processingTime = Date.now() - startTime
+      this.recordSuccess(name, processingTime)
+
+      return { sources: sources.slice(0, maxResults), processingTime }
+    } catch (error) {
+      const processingTime = Date.now() - startTime
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      this.recordFailure(name, processingTime, message)
+
+      return { sources: [], processingTime, error: message }
+    } finally {
+      if (timeoutId) clearTimeout(timeoutId)
+    }
+  }
+
+  getHealth(): ProviderHealth[] {
+    return this.list().map(provider => {
+      const health = this.health.get(provider.name)!
+      let status: ProviderHealth['status'] = 'healthy'
+
+      if (!this.getConfig(provider.name).enabled) {
+        status = 'disabled'
+      } else if (!this.isAvailable(provider.name)) {
+        status = 'unavailable'
+      } else if (health.consecutiveFailures > 0) {
+        status = 'degraded'
+      }
+
+      return { ...health, status }
+    })
+  }
+
+  private acquireSlot(name: string, rateLimit: ProviderRateLimit): boolean {
+    const now = Date.now()
+    const calls = (this.callLog.get(name) || []).filter(timestamp => timestamp > now - rateLimit.windowMs)
+
+    if (calls.length >= rateLimit.maxRequests) {
+      this.callLog.set(name, calls)
+      return false
+    }
+
+    calls.push(now)
+    this.callLog.set(name, calls)
+    return true
+  }
+
+  private recordSuccess(name: string, latencyMs: number): void {
+    const health = this.health.get(name)
+    if (!health) return
+
+    health.totalCalls++
+    health.consecutiveFailures = 0
+    health.lastSuccess = Date.now()
+    health.averageLatencyMs = health.averageLatencyMs + (latencyMs - health.averageLatencyMs) / health.totalCalls
+  }
+
+  private recordFailure(name: string, latencyMs: number, message: string): void {
+    const health = this.health.get(name)
+    if (!health) return
+
+    health.totalCalls++
+    health.failedCalls++
+    health.consecutiveFailures++
+    health.lastError = message
+    health.lastErrorAt = Date.now()
+    health.averageLatencyMs = health.averageLatencyMs + (latencyMs - health.averageLatencyMs) / health.totalCalls
+    console.error(`[EvidenceProviders] ${name} failed (${health.consecutiveFailures} consecutive): ${message}`)
+  }
+}
+
+export const evidenceProviders = new EvidenceProviderRegistry()
+
+// Built-in providers
+const BUILTIN_PROVIDERS: EvidenceProvider[] = [
+  {
+    name: 'openalex',
+    description: 'OpenAlex scholarly works',
+    domains: ['academic', 'physics', 'mathematics', 'computer_science'],
+    rateLimit: { maxRequests: 10, windowMs: 1000 },
+    timeoutMs: 15000,
+    priority: 80,
+    search: queryOpenAlex
+  },
+  {
+    name: 'arxiv',
+    description: 'arXiv preprints',
+    domains: ['physics', 'mathematics', 'computer_science'],
+    rateLimit: { maxRequests: 1, windowMs: 3000 },
+    timeoutMs: 15000,
+    priority: 90,
+    search: queryArXiv
+  },
+  {
+    name: 'pubmed',
+    description: 'PubMed biomedical literature',
+    domains: ['biomedical', 'clinical'],
+    rateLimit: { maxRequests: 3, windowMs: 1000 },
+    timeoutMs: 15000,
+    priority: 90,
+    search: queryPubMed
+  },
+  {
+    name: 'clinicaltrials',
+    description: 'ClinicalTrials.gov registered studies',
+    domains: ['clinical', 'biomedical'],
+    rateLimit: { maxRequests: 10, windowMs: 1000 },
+    timeoutMs: 15000,
+    priority: 85,
+    search: queryClinicalTrials
+  },
+  {
+    name: 'worldbank',
+    description: 'World Bank development indicators',
+    domains: ['economic'],
+    rateLimit: { maxRequests: 10, windowMs: 1000 },
+    timeoutMs: 15000,
+    priority: 90,
+    search: queryWorldBank
+  },
+  {
+    name: 'nasa_eonet',
+    description: 'NASA EONET natural events',
+    domains: ['environmental'],
+    rateLimit: { maxRequests: 10, windowMs: 1000 },
+    timeoutMs: 15000,
+    priority: 90,
+    search: queryNASAEONET
+  },
+  {
+    name: 'gbif',
+    description: 'GBIF species occurrence data',
+    domains: ['biodiversity'],
+    rateLimit: { maxRequests: 10, windowMs: 1000 },
+    timeoutMs: 15000,
+    priority: 90,
+    search: queryGBIF
+  },
+  {
+    name: 'federalregister',
+    description: 'US Federal Register documents',
+    domains: ['legal'],
+    rateLimit: { maxRequests: 10, windowMs: 1000 },
+    timeoutMs: 15000,
+    priority: 90,
+    search: queryFederalRegister
+  },
+  {
+    name: 'gdelt',
+    description: 'GDELT global news coverage',
+    domains: ['news'],
+    rateLimit: { maxRequests: 1, windowMs: 5000 },
+    timeoutMs: 15000,
+    priority: 90,
+    search: queryGDELT
+  },
+  {
+    name: 'google_factcheck',
+    description: 'Google Fact Check Tools ClaimReview search',
+    domains: ['news', 'general'],
+    rateLimit: { maxRequests: 60, windowMs: 60 * 1000 },
+    timeoutMs: 10000,
+    priority: 70,
+    requiredEnv: ['GOOGLE_FACTCHECK_API_KEY'],
+    search: queryGoogleFactCheck
+  },
+  {
+    name: 'perplexity',
+    description: 'Perplexity multi-strategy web search',
+    domains: [ALL_DOMAINS],
+    rateLimit: { maxRequests: 50, windowMs: 60 * 1000 },
+    timeoutMs: 45000,
+    priority: 10,
+    requiredEnv: ['PERPLEXITY_API_KEY'],
+    search: queryPerplexity
+  },
+  {
+    name: 'perplexity-research',
+    description: 'Perplexity search focused on research and studies',
+    domains: [],
+    rateLimit: { maxRequests: 50, windowMs: 60 * 1000 },
+    timeoutMs: 45000,
+    requiredEnv: ['PERPLEXITY_API_KEY'],
+    search: queryPerplexityResearch
+  },
+  {
+    name: 'perplexity-expert',
+    description: 'Perplexity search focused on expert and authority statements',
+    domains: [],
+    rateLimit: { maxRequests: 50, windowMs: 60 * 1000 },
+    timeoutMs: 45000,
+    requiredEnv: ['PERPLEXITY_API_KEY'],
+    search: queryPerplexityExpert
+  },
+  {
+    name: 'perplexity-academic',
+    description: 'Perplexity search focused on peer-reviewed literature',
+    domains: [],
+    rateLimit: { maxRequests: 50, windowMs: 60 * 1000 },
+    timeoutMs: 45000,
+    requiredEnv: ['PERPLEXITY_API_KEY'],
+    search: queryPerplexityAcademic
+  },
+  {
+    name: 'perplexity-supplementary',
+    description: 'Perplexity search for additional independent sources',
+    domains: [],
+    rateLimit: { maxRequests: 50, windowMs: 60 * 1000 },
+    timeoutMs: 45000,
+    requiredEnv: ['PERPLEXITY_API_KEY'],
+    search: queryPerplexitySupplementary
+  }
+]
+
+BUILTIN_PROVIDERS.forEach(provider => evidenceProviders.register(provider))
@@ -0,0 +1,254 @@
+/**
+ * Fact-checker rating normalizer for ClaimReview data
+ * Maps publisher-specific and non-English textual ratings onto a shared ordinal scale
+ */
+
+export type NormalizedRating =
+  | 'false'
+  | 'mostly_false'
+  | 'misleading'
+  | 'mixed'
+  | 'mostly_true'
+  | 'true'
+  | 'unproven'
+  | 'satire'
+  | 'unknown'
+
+export interface RatingScalePoint {
+  ordinal: number | null // 0 (false) to 4 (true); null for ratings that don't judge truth
+  score: number | null // -1 to +1, used by the verdict model
+  label: string
+}
+
+export interface RatingMapping {
+  pattern: RegExp
+  rating: NormalizedRating
+  // Only applied when the publisher name contains one of these (lowercase)
+  publishers?: string[]
+  language?: string
+  // Set to false for phrases that already contain their own negation ("no evidence")
+  negatable?: boolean
+}
+
+export interface NormalizedRatingResult {
+  original: string
+  rating: NormalizedRating
+  ordinal: number | null
+  score: number | null
+  label: string
+  negated: boolean
+  language?: string
+  matchedBy: 'publisher' | 'pattern' | 'none'
+}
+
+/**
+ * The shared ordinal scale. "misleading" sits with mostly false: the facts may be
+ * accurate but the claim as presented is not.
+ */
+export const RATING_SCALE: { [rating in NormalizedRating]: RatingScalePoint } = {
+  false: { ordinal: 0, score: -1, label: 'False' },
+  mostly_false: { ordinal: 1, score: -0.6, label: 'Mostly False' },
+  misleading: { ordinal: 1, score: -0.4, label: 'Misleading' },
+  mixed: { ordinal: 2, score: 0, label: 'Mixed' },
+  mostly_true: { ordinal: 3, score: 0.6, label: 'Mostly True' },
+  true: { ordinal: 4, score: 1, label: 'True' },
+  unproven: { ordinal: null, score: null, label: 'Unproven' },
+  satire: { ordinal: null, score: null, label: 'Satire' },
+  unknown: { ordinal: null, score: null, label: 'Unknown' }
+}
+
+// What a negated rating means: "not false" is weaker than "true"
+const NEGATED_RATINGS: { [rating in NormalizedRating]: NormalizedRating } = {
+  false: 'mostly_true',
+  mostly_false: 'mostly_true',
+  misleading: 'mostly_true',
+  mixed: 'mixed',
+  mostly_true: 'mostly_false',
+  true: 'false',
+  unproven: 'unproven',
+  satire: 'satire',
+  unknown: 'unknown'
+}
+
+// Negation words across supported languages (ratings are normalized before matching, so "wasn't" arrives as "wasnt")
+const NEGATION_PATTERN = /\b(not|no|never|cannot|isnt|arent|wasnt|werent|doesnt|dont|didnt|hasnt|havent|hadnt|cant|wont|couldnt|shouldnt|wouldnt|aint|nicht|kein|keine|pas|non|nao|niet|nie)\b/
+
+// Negations that follow the verb ("stimmt nicht", "klopt niet"); only unambiguous ones, since a
+// following "no" or "not" usually starts a new phrase ("false, not true")
+const POSTPOSED_NEGATION_PATTERN = /\b(nicht|niet)\b/
+
+/**
+ * Publisher-specific scales, checked before the generic table
+ */
+export const PUBLISHER_RATING_MAPPINGS: RatingMapping[] = [
+  // PolitiFact Truth-O-Meter
+  { publishers: ['politifact'], pattern: /pants on fire/, rating: 'false', negatable: false },
+  { publishers: ['politifact'], pattern: /barely true/, rating: 'mostly_false', negatable: false },
+  { publishers: ['politifact'], pattern: /\bhalf true\b/, rating: 'mixed' },
+  { publishers: ['politifact'], pattern: /full flop|half flip|no flip/, rating: 'unknown', negatable: false },
+  // Washington Post Pinocchios
+  { publishers: ['washington post'], pattern: /four pinocchios/, rating: 'false' },
+  { publishers: ['washington post'], pattern: /three pinocchios/, rating: 'mostly_false' },
+  { publishers: ['washington post'], pattern: /two pinocchios/, rating: 'mixed' },
+  { publishers: ['washington post'], pattern: /one pinocchio/, rating: 'mostly_true' },
+  { publishers: ['washington post'], pattern: /geppetto checkmark/, rating: 'true' },
+  // Full Fact writes sentence-style conclusions
+  { publishers: ['full fact'], pattern: /not quite|not the full picture|needs context/, rating: 'misleading', negatable: false },
+  { publishers: ['full fact'], pattern: /\bthis is (wrong|incorrect)\b|\bthat s wrong\b/, rating: 'false' },
+  { publishers: ['full fact'], pattern: /\bthis is (right|correct)\b/, rating: 'true' },
+  // Snopes
+  { publishers: ['snopes'], pattern: /\bmixture\b/, rating: 'mixed' },
+  { publishers: ['snopes'], pattern: /\bunproven\b/, rating: 'unproven' },
+  { publishers: ['snopes'], pattern: /labeled satire|originated as satire/, rating: 'satire' },
+  { publishers: ['snopes'], pattern: /correct attribution/, rating: 'true' },
+  { publishers: ['snopes'], pattern: /misattributed|miscaptioned|outdated/, rating: 'misleading' },
+  { publishers: ['snopes'], pattern: /\b(legend|scam)\b/, rating: 'false' },
+  // AFP Fact Check
+  { publishers: ['afp'], pattern: /altered (photo|video|image)|fabricated/, rating: 'false' },
+  { publishers: ['afp'], pattern: /partly false|partially false/, rating: 'mostly_false' },
+  { publishers: ['afp'], pattern: /missing context/, rating: 'misleading' },
+  // Chequeado (Spanish)
+  { publishers: ['chequeado'], pattern: /verdadero pero/, rating: 'mostly_true', language: 'es' },
+  { publishers: ['chequeado'], pattern: /\bexagerado\b/, rating: 'mostly_false', language: 'es' },
+  { publishers: ['chequeado'], pattern: /\b(discutible|apresurado)\b/, rating: 'mixed', language: 'es' },
+  { publishers: ['chequeado'], pattern: /\binsostenible\b/, rating: 'unproven', language: 'es' },
+  // Pagella Politica (Italian)
+  { publishers: ['pagella politica'], pattern: /\bc eri quasi\b/, rating: 'mostly_true', language: 'it' },
+  { publishers: ['pagella politica'], pattern: /\bni\b/, rating: 'mixed', language: 'it' },
+  { publishers: ['pagella politica'], pattern: /pinocchio andante/, rating: 'mostly_false', language: 'it' },
+  { publishers: ['pagella politica'], pattern: /panzana pazzesca/, rating: 'false', language: 'it' }
+]
+
+/**
+ * Generic multilingual table, ordered so qualified ratings match before bare ones
+ * ("mostly false" before "false", "no evidence" before "evidence")
+ */
+export const RATING_MAPPINGS: RatingMapping[] = [
+  // Non-truth ratings
+  { pattern: /\b(satire|satirical|parody|satira)\b/, rating: 'satire' },
+  { pattern: /\b(unproven|unverified|unsupported|no evidence|insufficient evidence|unbelegt|sin evidencia|sem provas|non verificabile|ainda e cedo para dizer|research in progress)\b/, rating: 'unproven', negatable: false },
+
+  // English qualified ratings
+  { pattern: /\b(mostly|largely|mainly) (false|inaccurate|wrong|incorrect)\b|\bpartly false\b|\bpartially false\b/, rating: 'mostly_false', language: 'en' },
+  { pattern: /\b(mostly|largely|mainly) (true|accurate|correct)\b|\btrue but\b/, rating: 'mostly_true', language: 'en' },
+  { pattern: /\b(half true|mixed|mixture|partly true|partially true|partially correct|half right|disputed)\b/, rating: 'mixed', language: 'en' },
+  { pattern: /\b(misleading|missing context|lacks context|out of context|exaggerated|exaggeration|distorts|cherry picked|spin)\b/, rating: 'misleading', language: 'en' },
+
+  // Spanish
+  { pattern: /\b(mayormente|mayoritariamente) falso\b|\bparcialmente falso\b/, rating: 'mostly_false', language: 'es' },
+  { pattern: /\b(mayormente|mayoritariamente) (verdadero|cierto)\b|\bverdadero pero\b/, rating: 'mostly_true', language: 'es' },
+  { pattern: /\b(enganoso|enganosa|exagerado|falta contexto|sin contexto|impreciso)\b/, rating: 'misleading', language: 'es' },
+  { pattern: /\b(verdad a medias|mixto|discutible|parcialmente verdadero)\b/, rating: 'mixed', language: 'es' },
+  { pattern: /\b(falso|falsa|incorrecto|bulo)\b/, rating: 'false', language: 'es' },
+  { pattern: /\b(verdadero|verdadera|cierto|correcto)\b/, rating: 'true', language: 'es' },
+
+  // Portuguese (shared words like "falso" and "enganoso" are covered by the Spanish rows)
+  { pattern: /\b(distorcido|fora de contexto|sem contexto)\b/, rating: 'misleading', language: 'pt' },
+  { pattern: /\b(contraditorio|verdadeiro mas|parcialmente verdadeiro)\b/, rating: 'mixed', language: 'pt' },
+  { pattern: /\b(insustentavel)\b/, rating: 'unproven', language: 'pt' },
+  { pattern: /\b(verdadeiro|verdadeira)\b/, rating: 'true', language: 'pt' },
+
+  // French
+  { pattern: /\b(plutot faux|partiellement faux)\b/, rating: 'mostly_false', language: 'fr' },
+  { pattern: /\b(plutot vrai)\b/, rating: 'mostly_true', language: 'fr' },
+  { pattern: /\b(trompeur|trompeuse|manque de contexte|exagere|sans contexte)\b/, rating: 'misleading', language: 'fr' },
+  { pattern: /\b(faux|fausse|infonde|infondee)\b/, rating: 'false', language: 'fr' },
+  { pattern: /\b(vrai|vraie)\b/, rating: 'true', language: 'fr' },
+
+  // German
+  { pattern: /\b(teilweise falsch|grosstenteils falsch|uberwiegend falsch)\b/, rating: 'mostly_false', language: 'de' },
+  { pattern: /\b(grosstenteils richtig|uberwiegend richtig|teilweise richtig)\b/, rating: 'mostly_true', language: 'de' },
+  { pattern: /\b(irrefuhrend|fehlender kontext|aus dem kontext gerissen|ubertrieben)\b/, rating: 'misleading', language: 'de' },
+  { pattern: /\b(falsch|frei erfunden)\b/, rating: 'false', language: 'de' },
+  { pattern: /\b(richtig|wahr|stimmt)\b/, rating: 'true', language: 'de' },
+
+  // Italian
+  { pattern: /\b(fuorviante|senza contesto|esagerato)\b/, rating: 'misleading', language: 'it' },
+  { pattern: /\b(parzialmente falso)\b/, rating: 'mostly_false', language: 'it' },
+  { pattern: /\b(falso|falsa|bufala)\b/, rating: 'false', language: 'it' },
+  { pattern: /\b(vero|vera)\b/, rating: 'true', language: 'it' },
+
+  // Dutch
+  { pattern: /\b(misleidend)\b/, rating: 'misleading', language: 'nl' },
+  { pattern: /\b(grotendeels onwaar)\b/, rating: 'mostly_false', language: 'nl' },
+  { pattern: /\b(grotendeels waar)\b/, rating: 'mostly_true', language: 'nl' },
+  { pattern: /\b(onwaar|fout)\b/, rating: 'false', language: 'nl' },
+  { pattern: /\b(waar)\b/, rating: 'true', language: 'nl' },
+
+  // English bare ratings last
+  { pattern: /\b(false|fake|hoax|incorrect|inaccurate|wrong|debunked|fabricated|baseless|pants on fire|four pinocchios)\b/, rating: 'false', language: 'en' },
+  { pattern: /\b(true|correct|accurate|verified|right|geppetto)\b/, rating: 'true', language: 'en' }
+]
+
+/**
+ * Add mappings ahead of the built-in ones (later registrations win)
+ */
+export function registerRatingMapping(mapping: RatingMapping) {
+  if (mapping.publishers) {
+    PUBLISHER_RATING_MAPPINGS.unshift({ ...mapping, publishers: mapping.publishers.map(p => p.toLowerCase()) })
+  } else {
+    RATING_MAPPINGS.unshift(mapping)
+  }
+}
+
+/**
+ * Lowercase, strip accents and punctuation so one pattern covers "Engañoso"/"enganoso"
+ */
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ß/g, 'ss')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/n't\b/g, 'nt')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// A negation within the two words before the match, or a postposed one within the two after, flips the rating
+function isNegated(text: string, match: RegExpExecArray): boolean {
+  const preceding = text.substring(0, match.index).trim().split(' ').slice(-2).join(' ')
+  const following = text.substring(match.index + match[0].length).trim().split(' ').slice(0, 2).join(' ')
+  return NEGATION_PATTERN.test(preceding) || POSTPOSED_NEGATION_PATTERN.test(following)
+}
+
+function buildResult(original: string, rating: NormalizedRating, negated: boolean, matchedBy: NormalizedRatingResult['matchedBy'], language?: string): NormalizedRatingResult {
+  const point = RATING_SCALE[rating]
+  return { original, rating, ordinal: point.ordinal, score: point.score, label: point.label, negated, language, matchedBy }
+}
+
+/**
+ * Normalize a textual rating, using the publisher's own scale when we know it
+ */
+export function normalizeRating(rating?: string | null, publisher?: string | null): NormalizedRatingResult {
+  const original = rating || ''
+  const text = normalizeText(original)
+  if (!text) return buildResult(original, 'unknown', false, 'none')
+
+  const publisherName = (publisher || '').toLowerCase()
+  const candidates: Array<{ mapping: RatingMapping, matchedBy: 'publisher' | 'pattern' }> = [
+    ...PUBLISHER_RATING_MAPPINGS
+      .filter(mapping => publisherName && mapping.publishers?.some(p => publisherName.includes(p)))
+      .map(mapping => ({ mapping, matchedBy: 'publisher' as const })),
+    ...RATING_MAPPINGS.map(mapping => ({ mapping, matchedBy: 'pattern' as const }))
+  ]
+
+  for (const { mapping, matchedBy } of candidates) {
+    const match = mapping.pattern.exec(text)
+    if (!match) continue
+
+    const negated = mapping.negatable !== false && isNegated(text, match)
+    return buildResult(original, negated ? NEGATED_RATINGS[mapping.rating] : mapping.rating, negated, matchedBy, mapping.language)
+  }
+
+  return buildResult(original, 'unknown', false, 'none')
+}
+
+/**
+ * Score in [-1, 1] for the verdict model; null when the rating doesn't judge truth
+ */
+export function ratingToScore(rating?: string | null, publisher?: string | null): number | null {
+  return normalizeRating(rating, publisher).score
+}
@@ -4,18 +4,9 @@
  */
 
 import { classifyQuery, QueryContext, getDomainDescription } from './query-classifier'
-import { 
-  queryOpenAlex, 
-  queryArXiv, 
-  queryPubMed, 
-  queryClinicalTrials,
-  queryWorldBank,
-  queryNASAEONET,
-  queryGBIF,
-  queryFederalRegister,
-  queryGDELT,
-  SourceResult 
-} from './domain-apis'
+import { SourceResult } from './domain-apis'
+import { evidenceProviders } from './evidence-providers'
+import { meteredFetch, usageMeter, extractTokenUsage } from './usage-meter'
 
 export interface IntelligentSearchResult {
   sources: SourceResult[]
@@ -27,18 +18,49 @@ export interface IntelligentSearchResult {
   finalVerdict?: { label: string, confidence: number, summary: string }
 }
 
+export interface DomainBudget {
+  maxProviders: number // Classifier-suggested providers queried for this domain
+  maxSources: number // Total sources requested across those providers
+}
+
 export interface RouterConfig {
   maxSourcesPerAPI: number
   timeoutMs: number
   fallbackToGeneral: boolean
   parallelExecution: boolean
+  minDomainConfidence: number // Classifier confidence required before domain APIs are queried
+  domainBudgets: { [domain: string]: DomainBudget }
+}
+
+// Optional callbacks for streaming partial results while the search runs
+export interface RouterEvents {
+  onSources?: (apiName: string, sources: SourceResult[]) => void
+  onAnalysisToken?: (token: string) => void
+}
+
+const DEFAULT_DOMAIN_BUDGET: DomainBudget = { maxProviders: 2, maxSources: 100 }
+
+const DEFAULT_DOMAIN_BUDGETS: { [domain: string]: DomainBudget } = {
+  'academic': { maxProviders: 1, maxSources: 100 },
+  'biomedical': { maxProviders: 2, maxSources: 120 },
+  'physics': { maxProviders: 2, maxSources: 100 },
+  'mathematics': { maxProviders: 2, maxSources: 100 },
+  'computer_science': { maxProviders: 2, maxSources: 100 },
+  'clinical': { maxProviders: 2, maxSources: 120 },
+  'economic': { maxProviders: 1, maxSources: 50 },
+  'environmental': { maxProviders: 1, maxSources: 50 },
+  'biodiversity': { maxProviders: 1, maxSources: 50 },
+  'legal': { maxProviders: 1, maxSources: 50 },
+  'news': { maxProviders: 1, maxSources: 100 }
 }
 
 const DEFAULT_CONFIG: RouterConfig = {
   maxSourcesPerAPI: 300, // MAXIMUM comprehensive research - get ALL possible sources!
   timeoutMs: 45000, // Extended timeout for exhaustive source gathering
   fallbackToGeneral: true,
-  parallelExecution: true
+  parallelExecution: true,
+  minDomainConfidence: 0.3,
+  domainBudgets: DEFAULT_DOMAIN_BUDGETS
 }
 
 /**
@@ -51,19 +73,25 @@ const DEFAULT_CONFIG: RouterConfig = {
  */
 export async function intelligentSearch(
   query: string, 
-  config: Partial<RouterConfig> = {}
+  config: Partial<RouterConfig> = {},
+  events: RouterEvents = {}
 ): Promise<IntelligentSearchResult> {
   const startTime = Date.now()
-  const finalConfig = { ...DEFAULT_CONFIG, ...config }
+  const finalConfig = {
+    ...DEFAULT_CONFIG,
+    ...config,
+    domainBudgets: { ...DEFAULT_DOMAIN_BUDGETS, ...config.domainBudgets }
+  }
   
   console.log(`[IntelligentRouter] Starting comprehensive fact-check for: "${query}"`)
   
   // Step 1: Primary Perplexity Query - Get comprehensive analysis + sources
   console.log(`[IntelligentRouter] Step 1: Primary Perplexity analysis`)
-  const primaryPerplexityResult = await queryPerplexityForAnalysis(query)
+  const primaryPerplexityResult = await queryPerplexityForAnalysis(query, events.onAnalysisToken)
+  events.onSources?.('perplexity-primary', primaryPerplexityResult.sources)
   
-  let allSources: SourceResult[] = [...primaryPerplexityResult.sources]
-  let primaryAnalysis = primaryPerplexityResult.analysis
+  const allSources: SourceResult[] = [...primaryPerplexityResult.sources]
+  const primaryAnalysis = primaryPerplexityResult.analysis
   const apiResults: { [apiName: string]: { sources: SourceResult[], processingTime: number, error?: string } } = {
     'perplexity-primary': { sources: primaryPerplexityResult.sources, processingTime: primaryPerplexityResult.processingTime }
   }
@@ -78,8 +106,18 @@ export async function intelligentSearch(
   // Always add Google Fact Check for professional reviews
   secondaryAPIs.push('google_factcheck')
   
-  // Add domain-specific APIs
-  if (context.domain === 'academic' || query.toLowerCase().includes('research') || query.toLowerCase().includes('study')) {
+  // Add the classifier-suggested domain APIs, within the domain's budget
+  const domainAPIs = selectDomainAPIs(context, finalConfig)
+  const domainBudget = finalConfig.domainBudgets[context.domain] || DEFAULT_DOMAIN_BUDGET
+  const sourcesPerDomainAPI = domainAPIs.length > 0
+    ? Math.min(finalConfig.maxSourcesPerAPI, Math.ceil(domainBudget.maxSources / domainAPIs.length))
+    : 0
+  if (domainAPIs.length > 0) {
+    secondaryAPIs.push(...domainAPIs)
+    console.log(`[IntelligentRouter] Adding ${context.domain} APIs: ${domainAPIs.join(', ')} (${sourcesPerDomainAPI} sources each)`)
+  }
+  
+  if (!secondaryAPIs.includes('openalex') && (context.domain === 'academic' || query.toLowerCase().includes('research') || query.toLowerCase().includes('study'))) {
     secondaryAPIs.push('openalex')
     console.log(`[IntelligentRouter] Adding OpenAlex for academic content`)
   }
@@ -106,12 +144,15 @@ export async function intelligentSearch(
     secondaryAPIs.push('perplexity-supplementary')
   }
   
-  // Step 3: Execute secondary APIs in parallel
-  if (secondaryAPIs.length > 0) {
-    console.log(`[IntelligentRouter] Step 3: Querying ${secondaryAPIs.length} secondary APIs`)
-    const secondaryPromises = secondaryAPIs.map(async (apiName) => {
-      const result = await executeAPI(apiName, query, finalConfig.maxSourcesPerAPI)
+  // Step 3: Execute secondary APIs in parallel (skipping disabled or unhealthy providers)
+  const availableAPIs = [...new Set(secondaryAPIs)].filter(apiName => evidenceProviders.isAvailable(apiName))
+  if (availableAPIs.length > 0) {
+    console.log(`[IntelligentRouter] Step 3: Querying ${availableAPIs.length} secondary APIs`)
+    const secondaryPromises = availableAPIs.map(async (apiName) => {
+      const maxResults = domainAPIs.includes(apiName) ? sourcesPerDomainAPI : finalConfig.maxSourcesPerAPI
+      const result = await executeAPI(apiName, query, maxResults)
       apiResults[apiName] = result
+      events.onSources?.(apiName, result.sources)
       return result.sources
     })
     
@@ -125,6 +166,9 @@ export async function intelligentSearch(
   
   // Step 4: Enhanced source processing with credibility assessment
   const { assessMultipleSources } = await import('./source-credibility')
+  const { loadCredibilityOverrides } = await import('./credibility-overrides')
+  const { loadMediaRankTable } = await import('./media-reliability')
+  await Promise.all([loadCredibilityOverrides(), loadMediaRankTable()])
   
   let uniqueSources = deduplicateSources(allSources)
   
@@ -198,74 +242,31 @@ export async function intelligentSearch(
 }
 
 /**
- * Execute a specific API call with error handling and timing
+ * Pick the classifier-suggested providers that specifically serve the classified
+ * domain, once classification is confident enough, capped by the domain budget
+ */
+function selectDomainAPIs(context: QueryContext, config: RouterConfig): string[] {
+  if (context.confidence < config.minDomainConfidence) {
+    console.log(`[IntelligentRouter] Skipping ${context.domain} APIs: confidence ${(context.confidence * 100).toFixed(1)}% below ${(config.minDomainConfidence * 100).toFixed(1)}% minimum`)
+    return []
+  }
+  
+  const budget = config.domainBudgets[context.domain] || DEFAULT_DOMAIN_BUDGET
+  
+  return context.suggestedAPIs
+    .filter(apiName => evidenceProviders.get(apiName)?.domains.includes(context.domain))
+    .slice(0, budget.maxProviders)
+}
+
+/**
+ * Execute a registered evidence provider with error handling and timing
  */
 async function executeAPI(
   apiName: string, 
   query: string, 
   maxResults: number
 ): Promise<{ sources: SourceResult[], processingTime: number, error?: string }> {
-  const startTime = Date.now()
-  
-  try {
-    let sources: SourceResult[] = []
-    
-    switch (apiName) {
-      case 'openalex':
-        sources = await queryOpenAlex(query, maxResults)
-        break
-      case 'arxiv':
-        sources = await queryArXiv(query, maxResults)
-        break
-      case 'pubmed':
-        sources = await queryPubMed(query, maxResults)
-        break
-      case 'clinicaltrials':
-        sources = await queryClinicalTrials(query, maxResults)
-        break
-      case 'worldbank':
-        sources = await queryWorldBank(query, maxResults)
-        break
-      case 'nasa_eonet':
-        sources = await queryNASAEONET(query, maxResults)
-        break
-      case 'gbif':
-        sources = await queryGBIF(query, maxResults)
-        break
-      case 'federalregister':
-        sources = await queryFederalRegister(query, maxResults)
-        break
-      case 'gdelt':
-        sources = await queryGDELT(query, maxResults)
-        break
-      case 'perplexity':
-        sources = await queryPerplexityAPI(query, maxResults)
-        break
-      case 'perplexity-research':
-        sources = await queryPerplexityResearchAPI(query, maxResults)
-        break
-      case 'perplexity-expert':
-        sources = await queryPerplexityExpertAPI(query, maxResults)
-        break
-      case 'google_factcheck':
-        sources = await queryGoogleFactCheckAPI(query, maxResults)
-        break
-      default:
-        throw new Error(`Unknown API: ${apiName}`)
-    }
-    
-    return {
-      sources,
-      processingTime: Date.now() - startTime
-    }
-    
-  } catch (error) {
-    return {
-      sources: [],
-      processingTime: Date.now() - startTime,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    }
-  }
+  return evidenceProviders.execute(apiName, query, maxResults)
 }
 
 /**
@@ -464,197 +465,18 @@ export function enhanceSourceMetadata(source: SourceResult): SourceResult {
   return enhanced
 }
 
-/**
- * Query Perplexity API with multiple search strategies and convert to SourceResult format
- */
-async function queryPerplexityAPI(query: string, maxResults: number): Promise<SourceResult[]> {
-  const allSources: SourceResult[] = []
-  
-  // Multiple search strategies to get comprehensive results
-  const searchStrategies = [
-    {
-      name: 'fact-check',
-      content: `Fact-check this claim: "${query}"`,
-      recency: 'month'
-    },
-    {
-      name: 'research',
-      content: `Find research and evidence about: ${query}`,
-      recency: 'year'
-    },
-    {
-      name: 'sources',
-      content: `What do authoritative sources say about: ${query}`,
-      recency: 'month'
-    }
-  ]
-  
-  // Execute multiple searches in parallel for maximum coverage
-  const searchPromises = searchStrategies.map(async (strategy) => {
-    try {
-      console.log(`[IntelligentRouter] Perplexity ${strategy.name} search for: "${query}"`)
-      const response = await fetch("https://api.perplexity.ai/chat/completions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "sonar-pro",
-          messages: [{
-            role: "user",
-            content: strategy.content
-          }],
-          max_tokens: 2000,
-          temperature: 0.1,
-          return_citations: true,
-          search_recency_filter: strategy.recency,
-          top_k: 25, // Maximum sources from Perplexity
-          web_search_options: {
-            search_context_size: "high"
-          }
-        })
-      })
-      
-      if (!response.ok) {
-        throw new Error(`Perplexity ${strategy.name} API error: ${response.status}`)
-      }
-      
-      const data = await response.json()
-      const sources: SourceResult[] = []
-      
-      // Convert search_results to SourceResult format
-      if (data.search_results) {
-        data.search_results.forEach((result: any, index: number) => {
-          sources.push({
-            title: result.title || 'Untitled',
-            url: result.url,
-            type: 'news',
-            publishedAt: result.date || null,
-            abstract: result.snippet || '',
-            metadata: {
-              source: 'Perplexity',
-              strategy: strategy.name,
-              domain: new URL(result.url).hostname,
-              lastUpdated: result.last_updated || null,
-              relevance: 0.9 - (index * 0.1)
-            }
-          })
-        })
-      }
-      
-      // Also extract from citations if available
-      if (data.citations) {
-        data.citations.forEach((url: string, index: number) => {
-          // Only add if not already in search_results
-          const alreadyExists = sources.some(s => s.url === url)
-          if (!alreadyExists) {
-            try {
-              const domain = new URL(url).hostname
-              sources.push({
-                title: `Source from ${domain}`,
-                url: url,
-                type: 'citation',
-                publishedAt: undefined,
-                abstract: 'Citation source',
-                metadata: {
-                  source: 'Perplexity',
-                  strategy: `${strategy.name}-citation`,
-                  domain: domain,
-                  relevance: 0.7 - (index * 0.05)
-                }
-              })
-            } catch (e) {
-              // Invalid URL, skip
-            }
-          }
-        })
-      }
-      
-      return sources
-    } catch (error) {
-      console.error(`[IntelligentRouter] Perplexity ${strategy.name} error:`, error)
-      return []
-    }
-  })
-  
-  // Wait for all searches to complete
-  const results = await Promise.allSettled(searchPromises)
-  results.forEach((result) => {
-    if (result.status === 'fulfilled') {
-      allSources.push(...result.value)
-    }
-  })
-  
-  // Deduplicate by URL
-  const uniqueSources = allSources.reduce((unique: SourceResult[], source) => {
-    if (!unique.some(u => u.url === source.url)) {
-      unique.push(source)
-    }
-    return unique
-  }, [])
-  
-  console.log(`[IntelligentRouter] Perplexity collected ${uniqueSources.length} unique sources from ${searchStrategies.length} strategies`)
-  
-  return uniqueSources.slice(0, maxResults)
-}
-
-/**
- * Query Google Fact Check API and convert to SourceResult format
- */
-async function queryGoogleFactCheckAPI(query: string, maxResults: number): Promise<SourceResult[]> {
-  try {
-    const response = await fetch(
-      `https://factchecktools.googleapis.com/v1alpha1/claims:search?query=${encodeURIComponent(query)}&key=${process.env.GOOGLE_FACTCHECK_API_KEY}`
-    )
-    
-    if (!response.ok) {
-      throw new Error(`Google Fact Check API error: ${response.status}`)
-    }
-    
-    const data = await response.json()
-    const sources: SourceResult[] = []
-    
-    if (data.claims) {
-      data.claims.forEach((claim: any) => {
-        if (claim.claimReview) {
-          claim.claimReview.forEach((review: any, index: number) => {
-            sources.push({
-              title: review.title || 'Fact Check Review',
-              url: review.url,
-              type: 'factcheck',
-              publishedAt: review.reviewDate || null,
-              abstract: `Rating: ${review.textualRating || 'Unknown'}`,
-              publisher: review.publisher?.name || 'Unknown Publisher',
-              metadata: {
-                source: 'Google Fact Check',
-                publisher: review.publisher?.name || 'Unknown Publisher',
-                rating: review.textualRating,
-                reviewDate: review.reviewDate,
-                relevance: 0.95
-              }
-            })
-          })
-        }
-      })
-    }
-    
-    return sources.slice(0, maxResults)
-  } catch (error) {
-    console.error('[IntelligentRouter] Google Fact Check API error:', error)
-    return []
-  }
-}
-
 /**
  * Step 1: Query Perplexity for comprehensive analysis + sources
  */
-async function queryPerplexityForAnalysis(query: string): Promise<{ sources: SourceResult[], analysis: string, processingTime: number }> {
+async function queryPerplexityForAnalysis(
+  query: string,
+  onToken?: (token: string) => void
+): Promise<{ sources: SourceResult[], analysis: string, processingTime: number }> {
   const startTime = Date.now()
   
   try {
     console.log(`[IntelligentRouter] Primary Perplexity analysis for: "${query}"`)
-    const response = await fetch("https://api.perplexity.ai/chat/completions", {
+    const response = await meteredFetch("perplexity", "https://api.perplexity.ai/chat/completions", {
       method: "POST",
       headers: {
         Authorization: `Bearer ${process.env.PERPLEXITY_API_KEY}`,
@@ -689,7 +511,8 @@ Each reasoning point should be a complete sentence with citations [1], [2], [3]
         search_recency_filter: "month",
         web_search_options: {
           search_context_size: "high"
-        }
+        },
+        stream: !!onToken
       })
     })
     
@@ -697,7 +520,11 @@ Each reasoning point should be a complete sentence with citations [1], [2], [3]
       throw new Error(`Perplexity API error: ${response.status}`)
     }
     
-    const data = await response.json()
+    const data = onToken ? await readPerplexityStream(response, onToken) : await response.json()
+    if (onToken) {
+      // Streamed responses aren't metered by meteredFetch; usage arrives with the final chunk
+      await usageMeter.record('perplexity', extractTokenUsage(data) || { estimated: true })
+    }
     const sources: SourceResult[] = []
     
     // Extract sources from search_results
@@ -764,6 +591,53 @@ Each reasoning point should be a complete sentence with citations [1], [2], [3]
   }
 }
 
+/**
+ * Read a streamed Perplexity completion, forwarding content deltas as they arrive
+ * and assembling the same shape as a non-streamed response
+ */
+async function readPerplexityStream(response: Response, onToken: (token: string) => void): Promise<any> {
+  const assembled: any = { choices: [{ message: { content: '' } }] }
+  if (!response.body) return assembled
+  
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+    
+    for (const line of lines) {
+      const payload = line.trim()
+      if (!payload.startsWith('data:')) continue
+      
+      const json = payload.slice(5).trim()
+      if (!json || json === '[DONE]') continue
+      
+      try {
+        const chunk = JSON.parse(json)
+        const token = chunk.choices?.[0]?.delta?.content
+        if (token) {
+          assembled.choices[0].message.content += token
+          onToken(token)
+        }
+        // Sources are repeated on every chunk; keep the latest non-empty set
+        if (chunk.search_results?.length) assembled.search_results = chunk.search_results
+        if (chunk.citations?.length) assembled.citations = chunk.citations
+        if (chunk.usage) assembled.usage = chunk.usage
+      } catch (e) {
+        // Ignore partial or malformed chunks
+      }
+    }
+  }
+  
+  return assembled
+}
+
 /**
  * Step 5: Final Perplexity reasoning with all sources
  */
@@ -775,7 +649,7 @@ async function queryPerplexityForFinalVerdict(query: string, sources: SourceResu
       `[${index + 1}] ${source.title} - ${source.url}`
     ).join('\n')
     
-    const response = await fetch("https://api.perplexity.ai/chat/completions", {
+    const response = await meteredFetch("perplexity", "https://api.perplexity.ai/chat/completions", {
       method: "POST",
       headers: {
         Authorization: `Bearer ${process.env.PERPLEXITY_API_KEY}`,
@@ -828,74 +702,6 @@ Provide your final verdict based on all available evidence.`
   }
 }
 
-/**
- * Additional Perplexity search strategies
- */
-async function queryPerplexityResearchAPI(query: string, maxResults: number): Promise<SourceResult[]> {
-  return await queryPerplexityWithStrategy(query, maxResults, 'research', `Find academic research and scientific studies about: ${query}`)
-}
-
-async function queryPerplexityExpertAPI(query: string, maxResults: number): Promise<SourceResult[]> {
-  return await queryPerplexityWithStrategy(query, maxResults, 'expert', `What do medical experts and authorities say about: ${query}`)
-}
-
-async function queryPerplexityWithStrategy(query: string, maxResults: number, strategy: string, searchQuery: string): Promise<SourceResult[]> {
-  try {
-    const response = await fetch("https://api.perplexity.ai/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "sonar-pro",
-        messages: [{
-          role: "user",
-          content: searchQuery
-        }],
-        max_tokens: 2000,
-        temperature: 0.1,
-        top_k: 20,
-        return_citations: true,
-        search_recency_filter: strategy === 'research' ? 'year' : 'month',
-        web_search_options: {
-          search_context_size: "high"
-        }
-      })
-    })
-    
-    if (!response.ok) {
-      throw new Error(`Perplexity ${strategy} API error: ${response.status}`)
-    }
-    
-    const data = await response.json()
-    const sources: SourceResult[] = []
-    
-    if (data.search_results) {
-      data.search_results.forEach((result: any, index: number) => {
-        sources.push({
-          title: result.title || 'Untitled',
-          url: result.url,
-          type: strategy === 'research' ? 'academic' : 'news',
-          publishedAt: result.date || undefined,
-          abstract: result.snippet || '',
-          metadata: {
-            source: `Perplexity-${strategy}`,
-            domain: new URL(result.url).hostname,
-            lastUpdated: result.last_updated || undefined,
-            relevance: 0.85 - (index * 0.02)
-          }
-        })
-      })
-    }
-    
-    return sources.slice(0, maxResults)
-  } catch (error) {
-    console.error(`[IntelligentRouter] Perplexity ${strategy} error:`, error)
-    return []
-  }
-}
-
 /**
  * Helper functions for verdict parsing
  */
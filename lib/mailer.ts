@@ -0,0 +1,259 @@
+// Outgoing mail with pluggable transports: SMTP in production, file or console for local development
+import net from 'net'
+import tls from 'tls'
+import os from 'os'
+import path from 'path'
+import { promises as fs } from 'fs'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface MailTransport {
+  name: string
+  send(message: MailMessage & { from: string }): Promise<void>
+}
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean // Implicit TLS (port 465); otherwise STARTTLS is used when offered
+  user?: string
+  password?: string
+  timeoutMs?: number
+}
+
+// RFC 5322 message with a plain-text part and, when given, an HTML alternative
+function buildMimeMessage(message: MailMessage & { from: string }): string {
+  const boundary = `----sourcehound-${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${Date.now()}.${Math.random().toString(36).slice(2)}@${os.hostname()}>`,
+    'MIME-Version: 1.0'
+  ]
+
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      wrapBase64(message.text)
+    ].join('\r\n')
+  }
+
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(message.html),
+    `--${boundary}--`
+  ].join('\r\n')
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?utf-8?B?${Buffer.from(value).toString('base64')}?=`
+}
+
+function wrapBase64(value: string): string {
+  return (Buffer.from(value).toString('base64').match(/.{1,76}/g) || []).join('\r\n')
+}
+
+/**
+ * Minimal SMTP client: EHLO, STARTTLS, AUTH PLAIN/LOGIN, one message per connection
+ */
+export class SmtpTransport implements MailTransport {
+  name = 'smtp'
+
+  constructor(private config: SmtpConfig) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    let socket: net.Socket = this.config.secure
+      ? tls.connect({ host: this.config.host, port: this.config.port, servername: this.config.host })
+      : net.connect({ host: this.config.host, port: this.config.port })
+    socket.setTimeout(this.config.timeoutMs || 30000)
+
+    let buffer = ''
+    let waiting: { resolve: (reply: { code: number, text: string }) => void, reject: (error: Error) => void } | null = null
+
+    // A reply is complete once a line has a space (not a dash) after its code
+    const deliver = () => {
+      const lines = buffer.split('\r\n')
+      const lastIndex = lines.findIndex(line => /^\d{3} /.test(line))
+      if (lastIndex === -1 || !waiting) return
+
+      const reply = lines.slice(0, lastIndex + 1)
+      buffer = lines.slice(lastIndex + 1).join('\r\n')
+      const pending = waiting
+      waiting = null
+      pending.resolve({ code: parseInt(reply[lastIndex].slice(0, 3), 10), text: reply.map(line => line.slice(4)).join('\n') })
+    }
+
+    const attach = (target: net.Socket) => {
+      target.setEncoding('utf8')
+      target.on('data', (chunk: string) => {
+        buffer += chunk
+        deliver()
+      })
+      target.on('timeout', () => target.destroy(new Error('SMTP connection timed out')))
+      target.on('error', error => waiting?.reject(error))
+      target.on('close', () => waiting?.reject(new Error('SMTP connection closed')))
+    }
+
+    const read = () => new Promise<{ code: number, text: string }>((resolve, reject) => {
+      waiting = { resolve, reject }
+      deliver()
+    })
+
+    const command = async (line: string | null, expected: number[]) => {
+      const reply = read()
+      if (line !== null) socket.write(`${line}\r\n`)
+      const { code, text } = await reply
+      if (!expected.includes(code)) {
+        throw new Error(`SMTP ${line ? line.split(' ')[0] : 'greeting'} failed: ${code} ${text}`)
+      }
+      return text
+    }
+
+    attach(socket)
+
+    try {
+      await command(null, [220])
+      let capabilities = await command(`EHLO ${os.hostname()}`, [250])
+
+      if (!this.config.secure && /STARTTLS/i.test(capabilities)) {
+        await command('STARTTLS', [220])
+        socket.removeAllListeners('data')
+        socket = tls.connect({ socket, servername: this.config.host })
+        attach(socket)
+        await new Promise<void>((resolve, reject) => {
+          socket.once('secureConnect', () => resolve())
+          socket.once('error', reject)
+        })
+        capabilities = await command(`EHLO ${os.hostname()}`, [250])
+      }
+
+      if (this.config.user && this.config.password) {
+        if (/AUTH[^\n]*PLAIN/i.test(capabilities)) {
+          const credentials = Buffer.from(`\0${this.config.user}\0${this.config.password}`).toString('base64')
+          await command(`AUTH PLAIN ${credentials}`, [235])
+        } else {
+          await command('AUTH LOGIN', [334])
+          await command(Buffer.from(this.config.user).toString('base64'), [334])
+          await command(Buffer.from(this.config.password).toString('base64'), [235])
+        }
+      }
+
+      const sender = message.from.match(/<([^>]+)>/)?.[1] || message.from
+      await command(`MAIL FROM:<${sender}>`, [250])
+      await command(`RCPT TO:<${message.to}>`, [250, 251])
+      await command('DATA', [354])
+      // Dot-stuff lines that start with "." so they aren't read as the terminator
+      const body = buildMimeMessage(message).replace(/^\./gm, '..')
+      await command(`${body}\r\n.`, [250])
+      await command('QUIT', [221]).catch(() => undefined)
+    } finally {
+      socket.end()
+    }
+  }
+}
+
+/**
+ * Writes each message as an .eml file, for inspecting mail in local development
+ */
+export class FileTransport implements MailTransport {
+  name = 'file'
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true })
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')
+    const filePath = path.join(this.directory, `${Date.now()}-${safeRecipient}.eml`)
+    await fs.writeFile(filePath, buildMimeMessage(message))
+    console.log(`[Mail] Wrote "${message.subject}" for ${message.to} to ${filePath}`)
+  }
+}
+
+/**
+ * Logs each message, for local development without a mail server
+ */
+export class ConsoleTransport implements MailTransport {
+  name = 'console'
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`[Mail] To: ${message.to}\n[Mail] Subject: ${message.subject}\n${message.text}`)
+  }
+}
+
+/**
+ * Transport from MAIL_TRANSPORT (smtp, file or console); defaults to SMTP when
+ * SMTP_HOST is set and the console otherwise
+ */
+export function createMailTransport(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console')
+
+  if (transport === 'smtp') {
+    if (!process.env.SMTP_HOST) {
+      console.warn('[Mail] MAIL_TRANSPORT=smtp but SMTP_HOST is not set; logging mail to the console')
+      return new ConsoleTransport()
+    }
+    const port = parseInt(process.env.SMTP_PORT || '587', 10)
+    return new SmtpTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD
+    })
+  }
+
+  if (transport === 'file') {
+    return new FileTransport(process.env.MAIL_FILE_DIR || path.join(process.cwd(), '.mail'))
+  }
+
+  return new ConsoleTransport()
+}
+
+export class Mailer {
+  private transport: MailTransport | null = null
+
+  // Swap the transport, e.g. for a provider-specific one
+  setTransport(transport: MailTransport): void {
+    this.transport = transport
+  }
+
+  async send(message: MailMessage): Promise<boolean> {
+    if (!this.transport) {
+      this.transport = createMailTransport()
+    }
+
+    try {
+      await this.transport.send({
+        ...message,
+        from: process.env.MAIL_FROM || 'SourceHound <no-reply@sourcehound.dev>'
+      })
+      return true
+    } catch (error) {
+      console.error(`[Mail] ${this.transport.name} transport failed to send "${message.subject}" to ${message.to}:`, error)
+      return false
+    }
+  }
+}
+
+export const mailer = new Mailer()
@@ -0,0 +1,52 @@
+/**
+ * Server-side loader for the merged media-reliability table
+ * Datasets are imported with scripts/import-media-reliability.js; this pushes the merged
+ * MediaRankSource rows into the lookup used by getMediaRank
+ */
+
+import { db } from './db'
+import { setMediaRankTable } from './mediarank'
+
+// Imports are rare batch jobs; other instances pick them up within this window
+const TABLE_REFRESH_MS = 10 * 60 * 1000
+
+let loadedAt = 0
+let loading: Promise<void> | null = null
+
+export async function loadMediaRankTable(force = false): Promise<void> {
+  if (!force && Date.now() - loadedAt < TABLE_REFRESH_MS) return
+  if (loading) return loading
+
+  loading = (async () => {
+    try {
+      const rows = await db.mediaRankSource.findMany()
+      setMediaRankTable(rows.map(row => ({
+        domain: row.domain,
+        name: row.name,
+        rank: row.rank,
+        credibilityScore: row.credibilityScore ?? undefined,
+        reliable: row.reliable,
+        datasets: row.datasets
+      })))
+      loadedAt = Date.now()
+      console.log(`[MediaRank] Loaded ${rows.length} merged reliability entries`)
+    } catch (error) {
+      // The built-in MediaRank list keeps working without the database
+      console.error('[MediaRank] Failed to load reliability table:', error instanceof Error ? error.message : error)
+    } finally {
+      loading = null
+    }
+  })()
+
+  return loading
+}
+
+/**
+ * Imported datasets with their attribution, for display alongside scores
+ */
+export async function listMediaReliabilityDatasets() {
+  return db.mediaReliabilityDataset.findMany({
+    select: { name: true, attribution: true, license: true, url: true, version: true, priority: true, entryCount: true, importedAt: true },
+    orderBy: { priority: 'desc' }
+  })
+}
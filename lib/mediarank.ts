@@ -1,13 +1,19 @@
 // MediaRank news source credibility rankings
-// Based on MediaRank data - 500 ranked news sources
+// Built-in top 50 from MediaRank; imported reliability datasets (scripts/import-media-reliability.js)
+// are merged on top of it on the server via setMediaRankTable
 
 export interface MediaRankEntry {
   rank: number
   name: string
   domain: string
   credibilityScore?: number
+  reliable?: boolean | null // false when a reliability dataset flags the outlet
+  datasets?: string[] // Attribution: datasets that list this domain
 }
 
+// Imported datasets may flag a domain without ranking it
+export type MediaReliabilityRecord = Omit<MediaRankEntry, 'rank'> & { rank?: number | null }
+
 // Top 50 most credible news sources from MediaRank
 export const MEDIARANK_SOURCES: MediaRankEntry[] = [
   { rank: 1, name: "The New York Times", domain: "nytimes.com" },
@@ -62,36 +68,79 @@ export const MEDIARANK_SOURCES: MediaRankEntry[] = [
   { rank: 50, name: "Mother Jones", domain: "motherjones.com" }
 ]
 
+/**
+ * Normalize a dataset domain or hostname: lowercase, no protocol, path, port or www/mobile prefix.
+ * Must stay in sync with normalizeDomain in scripts/import-media-reliability.js
+ */
+export function normalizeMediaDomain(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .split(/[/?#]/)[0]
+    .replace(/:\d+$/, '')
+    .replace(/\.$/, '')
+    .replace(/^(www\d*|m|mobile|amp)\.(?=[^.]+\.[^.]+)/, '')
+}
+
 // Create domain lookup map for fast matching
-const domainLookup = new Map<string, MediaRankEntry>()
+let domainLookup = new Map<string, MediaReliabilityRecord>()
 MEDIARANK_SOURCES.forEach(source => {
-  domainLookup.set(source.domain.toLowerCase(), source)
-  // Also add www. variants
-  if (!source.domain.startsWith('www.')) {
-    domainLookup.set(`www.${source.domain.toLowerCase()}`, source)
-  }
+  domainLookup.set(normalizeMediaDomain(source.domain), source)
 })
 
+/**
+ * Merge the imported reliability table over the built-in list (server side)
+ */
+export function setMediaRankTable(records: MediaReliabilityRecord[]): void {
+  const lookup = new Map<string, MediaReliabilityRecord>()
+  MEDIARANK_SOURCES.forEach(source => lookup.set(normalizeMediaDomain(source.domain), source))
+  records.forEach(record => {
+    const domain = normalizeMediaDomain(record.domain)
+    const builtin = lookup.get(domain)
+    lookup.set(domain, { ...builtin, ...record, domain, rank: record.rank ?? builtin?.rank })
+  })
+  domainLookup = lookup
+}
+
 /**
  * Extract domain from URL for MediaRank lookup
  */
 export function extractDomain(url: string): string | null {
   try {
     const urlObj = new URL(url)
-    return urlObj.hostname.toLowerCase().replace(/^www\./, '')
+    return normalizeMediaDomain(urlObj.hostname)
   } catch {
     return null
   }
 }
 
+// Most specific listed domain: video.abcnews.go.com -> abcnews.go.com, while espn.go.com stays unmatched
+function findRecord(url: string): MediaReliabilityRecord | null {
+  const domain = extractDomain(url)
+  if (!domain) return null
+
+  const labels = domain.split('.')
+  for (let i = 0; i < labels.length - 1; i++) {
+    const record = domainLookup.get(labels.slice(i).join('.'))
+    if (record) return record
+  }
+  return null
+}
+
 /**
  * Get MediaRank information for a news source URL
  */
 export function getMediaRank(url: string): MediaRankEntry | null {
-  const domain = extractDomain(url)
-  if (!domain) return null
-  
-  return domainLookup.get(domain) || domainLookup.get(`www.${domain}`) || null
+  const record = findRecord(url)
+  return record && typeof record.rank === 'number' ? record as MediaRankEntry : null
+}
+
+/**
+ * Whether any imported reliability dataset flags the source as unreliable
+ */
+export function isFlaggedUnreliable(url: string): boolean {
+  return findRecord(url)?.reliable === false
 }
 
 /**
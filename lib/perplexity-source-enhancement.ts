@@ -1,13 +1,15 @@
 // Server-side module for enhancing sources using existing Perplexity content
 // This provides instant "AI-style" summaries without additional API calls
 
-import { assessSourceCredibility, type CredibilityAssessment } from './source-credibility-server'
+import { assessSourceCredibility, type CredibilityAssessment } from './source-credibility'
+import { detectStanceHeuristic, stanceToPerspective } from './stance-detection'
 
 export interface PerplexitySummary {
   sourceUrl: string
   summary: string
   relevance: 'high' | 'medium' | 'low'
   perspective: 'supports' | 'contradicts' | 'neutral' | 'mixed'
+  stanceRationale?: string
   keyInsights: string[]
   credibilityContext: string
   extractedQuotes: string[]
@@ -34,7 +36,8 @@ export function createPerplexitySummary(
   // Extract content from various Perplexity fields
   const content = extractPerplexityContent(source)
   const relevance = assessRelevance(source, content, sourceIndex)
-  const perspective = assessPerspective(content, claim)
+  // Prefer the stance assigned during claim verification over a fresh heuristic pass
+  const stance = source.stance || detectStanceHeuristic(source, claim)
   const keyInsights = generateKeyInsights(source, credibilityAssessment, content)
   const extractedQuotes = extractQuotes(content)
   
@@ -45,7 +48,8 @@ export function createPerplexitySummary(
     sourceUrl: source.url,
     summary,
     relevance,
-    perspective,
+    perspective: stanceToPerspective(stance.label),
+    stanceRationale: stance.rationale,
     keyInsights,
     credibilityContext: generateCredibilityContext(credibilityAssessment),
     extractedQuotes,
@@ -89,31 +93,6 @@ function assessRelevance(source: any, content: string, sourceIndex: number): 'hi
   return 'low'
 }
 
-/**
- * Assess perspective using content analysis
- */
-function assessPerspective(content: string, claim: string): 'supports' | 'contradicts' | 'neutral' | 'mixed' {
-  if (!content) return 'neutral'
-  
-  const contentLower = content.toLowerCase()
-  const claimLower = claim.toLowerCase()
-  
-  // Look for supporting language
-  const supportWords = ['confirms', 'supports', 'proves', 'shows', 'demonstrates', 'evidence for', 'true', 'correct', 'accurate']
-  const contradictWords = ['disproves', 'contradicts', 'false', 'incorrect', 'myth', 'debunked', 'no evidence', 'refutes']
-  
-  const supportCount = supportWords.reduce((count, word) => 
-    count + (contentLower.split(word).length - 1), 0)
-  const contradictCount = contradictWords.reduce((count, word) => 
-    count + (contentLower.split(word).length - 1), 0)
-  
-  if (supportCount > contradictCount && supportCount > 0) return 'supports'
-  if (contradictCount > supportCount && contradictCount > 0) return 'contradicts'
-  if (supportCount > 0 && contradictCount > 0) return 'mixed'
-  
-  return 'neutral'
-}
-
 /**
  * Generate key insights based on source type and content
  */
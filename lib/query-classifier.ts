@@ -3,6 +3,8 @@
  * Determines the most appropriate data sources based on query content
  */
 
+import { evidenceProviders } from './evidence-providers'
+
 export interface QueryContext {
   domain: string
   confidence: number
@@ -190,7 +192,7 @@ export function classifyQuery(query: string): QueryContext {
       domain: 'general',
       confidence: 0.5,
       keywords: [],
-      suggestedAPIs: ['perplexity', 'google_factcheck']
+      suggestedAPIs: getSuggestedAPIs('general')
     }
   }
 
@@ -206,25 +208,10 @@ export function classifyQuery(query: string): QueryContext {
 }
 
 /**
- * Returns the suggested APIs for a given domain
+ * Returns the suggested APIs for a given domain from the evidence provider registry
  */
 function getSuggestedAPIs(domain: string): string[] {
-  const apiMappings: { [domain: string]: string[] } = {
-    'academic': ['openalex', 'perplexity'],
-    'biomedical': ['pubmed', 'clinicaltrials', 'perplexity'],
-    'physics': ['arxiv', 'openalex', 'perplexity'],
-    'mathematics': ['arxiv', 'openalex', 'perplexity'],
-    'computer_science': ['arxiv', 'openalex', 'perplexity'],
-    'clinical': ['clinicaltrials', 'pubmed', 'perplexity'],
-    'economic': ['worldbank', 'perplexity'],
-    'environmental': ['nasa_eonet', 'perplexity'],
-    'biodiversity': ['gbif', 'perplexity'],
-    'legal': ['federalregister', 'perplexity'],
-    'news': ['gdelt', 'google_factcheck', 'perplexity'],
-    'general': ['perplexity', 'google_factcheck']
-  }
-
-  return apiMappings[domain] || ['perplexity', 'google_factcheck']
+  return evidenceProviders.getProvidersForDomain(domain).map(provider => provider.name)
 }
 
 /**
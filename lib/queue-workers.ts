@@ -0,0 +1,74 @@
+// Per-worker in-flight lists for Redis-backed queues: each worker claims work into its own
+// processing list and keeps a heartbeat, so only the work of a dead worker is ever requeued
+import crypto from 'crypto'
+import { redis } from './db'
+
+export interface WorkQueueKeys {
+  ready: string // IDs due now
+  processing: string // Prefix for each worker's in-flight list
+}
+
+const HEARTBEAT_TTL_SECONDS = 30
+export const HEARTBEAT_INTERVAL_MS = (HEARTBEAT_TTL_SECONDS * 1000) / 3
+
+export function createWorkerId(): string {
+  return `${process.pid}_${crypto.randomBytes(4).toString('hex')}`
+}
+
+export function processingListKey(queues: WorkQueueKeys, workerId: string): string {
+  return `${queues.processing}:${workerId}`
+}
+
+function workersKey(queues: WorkQueueKeys): string {
+  return `${queues.processing}:workers`
+}
+
+function heartbeatKey(queues: WorkQueueKeys, workerId: string): string {
+  return `${queues.processing}:heartbeat:${workerId}`
+}
+
+/**
+ * Register the worker and refresh its heartbeat; call every HEARTBEAT_INTERVAL_MS
+ */
+export async function sendHeartbeat(queues: WorkQueueKeys, workerId: string): Promise<void> {
+  await redis.pipeline()
+    .sadd(workersKey(queues), workerId)
+    .setex(heartbeatKey(queues, workerId), HEARTBEAT_TTL_SECONDS, Date.now().toString())
+    .exec()
+}
+
+// Called on a clean shutdown, once the worker's processing list has drained
+export async function unregisterWorker(queues: WorkQueueKeys, workerId: string): Promise<void> {
+  await redis.pipeline()
+    .srem(workersKey(queues), workerId)
+    .del(heartbeatKey(queues, workerId))
+    .exec()
+}
+
+/**
+ * Requeue the in-flight work of registered workers whose heartbeat has expired.
+ * Live workers are left alone, so any number of workers can run side by side.
+ */
+export async function recoverDeadWorkers(queues: WorkQueueKeys): Promise<number> {
+  const workerIds = await redis.smembers(workersKey(queues))
+  let recovered = 0
+
+  for (const workerId of workerIds) {
+    if (await redis.exists(heartbeatKey(queues, workerId))) continue
+
+    // rpoplpush is atomic, so two workers recovering the same list never duplicate an ID
+    while (await redis.rpoplpush(processingListKey(queues, workerId), queues.ready)) {
+      recovered++
+    }
+    await redis.srem(workersKey(queues), workerId)
+  }
+
+  return recovered
+}
+
+// Work currently claimed across all registered workers
+export async function countInFlight(queues: WorkQueueKeys): Promise<number> {
+  const workerIds = await redis.smembers(workersKey(queues))
+  const lengths = await Promise.all(workerIds.map(workerId => redis.llen(processingListKey(queues, workerId))))
+  return lengths.reduce((sum, length) => sum + length, 0)
+}
@@ -0,0 +1,9 @@
+// Shared by middleware.ts and /api/rate-limit; kept free of imports so the edge runtime can load it.
+// Deliberately no fallback to JWT_SECRET: the secret travels in a request header, so it must not double as a signing key.
+export const RATE_LIMIT_SECRET: string | undefined = process.env.RATE_LIMIT_SECRET
+
+const DEVELOPMENT_ORIGIN = 'http://localhost:3000'
+
+// Where the middleware reaches /api/rate-limit. Never derived from the request's Host header, which the caller controls.
+export const RATE_LIMIT_ORIGIN: string | null = (process.env.INTERNAL_URL || process.env.APP_URL ||
+  (process.env.NODE_ENV === 'production' ? '' : DEVELOPMENT_ORIGIN)).replace(/\/$/, '') || null
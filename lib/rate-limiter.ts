@@ -1,6 +1,9 @@
 // Advanced rate limiting system with Redis backend
+import { NextRequest } from 'next/server'
 import { redis } from './db'
 import { cache } from './cache'
+import { authManager, AuthSession } from './auth'
+import { webhookManager } from './webhook-manager'
 
 export interface RateLimitConfig {
   windowSizeMs: number  // Time window in milliseconds
@@ -17,6 +20,15 @@ export interface RateLimitResult {
   resetTime: number
   retryAfter?: number
   rateLimitType: string
+  windowSizeMs?: number
+}
+
+export interface GlobalRateLimitResult {
+  allowed: boolean
+  headers: { [key: string]: string }
+  result: RateLimitResult
+  identifier: string
+  tier: string
 }
 
 export interface UsageStats {
@@ -63,6 +75,13 @@ export const RATE_LIMIT_TIERS = {
     maxRequests: 50, // 50 requests per 15 minutes
     keyPrefix: 'rate_limit:ip',
     burstAllowance: 5
+  },
+  // Per-API-key buckets; maxRequests is replaced by the key's own limit, capped at the owner's tier
+  API_KEY: {
+    windowSizeMs: 60 * 60 * 1000, // 1 hour
+    maxRequests: 100,
+    keyPrefix: 'rate_limit:api_key',
+    burstAllowance: 10
   }
 } as const
 
@@ -90,10 +109,15 @@ export class RateLimiter {
       
       // Count current requests in window
       pipeline.zcard(requestsKey)
+
+      // Oldest request in the window decides when a slot frees up
+      pipeline.zrange(requestsKey, 0, 0, 'WITHSCORES')
       
       // Execute pipeline
       const results = await pipeline.exec()
       const currentRequests = results?.[1]?.[1] as number || 0
+      const oldest = results?.[2]?.[1] as string[] | undefined
+      const oldestTimestamp = oldest && oldest.length === 2 ? parseInt(oldest[1], 10) : now
       
       // Check if request should be counted
       const shouldCount = !config.skipSuccessfulHits || !metadata?.cached
@@ -124,15 +148,16 @@ export class RateLimiter {
       }
 
       const remaining = Math.max(0, effectiveLimit - currentRequests - (allowed && shouldCount ? 1 : 0))
-      const resetTime = now + config.windowSizeMs
+      const resetTime = oldestTimestamp + config.windowSizeMs
 
       return {
         allowed,
         limit: effectiveLimit,
         remaining,
         resetTime,
-        retryAfter: allowed ? undefined : Math.ceil(config.windowSizeMs / 1000),
-        rateLimitType: config.keyPrefix.split(':')[1] || 'unknown'
+        retryAfter: allowed ? undefined : Math.max(1, Math.ceil((resetTime - now) / 1000)),
+        rateLimitType: config.keyPrefix.split(':')[1] || 'unknown',
+        windowSizeMs: config.windowSizeMs
       }
       
     } catch (error) {
@@ -143,11 +168,33 @@ export class RateLimiter {
         limit: config.maxRequests,
         remaining: config.maxRequests,
         resetTime: now + config.windowSizeMs,
-        rateLimitType: 'fallback'
+        rateLimitType: 'fallback',
+        windowSizeMs: config.windowSizeMs
       }
     }
   }
 
+  /**
+   * Record request metadata for analytics without counting it against the limit
+   */
+  async recordRequestMetadata(
+    identifier: string,
+    config: RateLimitConfig,
+    metadata: { query?: string, cached?: boolean, processingTime?: number, error?: boolean }
+  ): Promise<void> {
+    const metadataKey = `${config.keyPrefix}:${identifier}:metadata`
+
+    try {
+      await redis.pipeline()
+        .lpush(metadataKey, JSON.stringify({ timestamp: Date.now(), ...metadata }))
+        .ltrim(metadataKey, 0, 999)
+        .expire(metadataKey, 24 * 60 * 60)
+        .exec()
+    } catch (error) {
+      console.error('Rate limiter metadata error:', error)
+    }
+  }
+
   /**
    * Get usage statistics for analytics
    */
@@ -268,15 +315,27 @@ export class RateLimiter {
   }
 
   /**
-   * Get rate limit status for display in headers
+   * Get rate limit status for display in headers: the standard RateLimit-* fields
+   * (IETF draft, reset in seconds) plus the legacy X-RateLimit-* ones.
+   * Pass the result of a check you already made; otherwise one is made without counting.
    */
   async getRateLimitHeaders(
     identifier: string,
-    config: RateLimitConfig
+    config: RateLimitConfig,
+    result?: RateLimitResult
   ): Promise<{ [key: string]: string }> {
-    const result = await this.checkRateLimit(identifier, config, { cached: true })
-    
+    if (!result) {
+      result = await this.checkRateLimit(identifier, { ...config, skipSuccessfulHits: true }, { cached: true })
+    }
+
+    const resetSeconds = Math.max(0, Math.ceil((result.resetTime - Date.now()) / 1000))
+    const windowSeconds = Math.ceil((result.windowSizeMs || config.windowSizeMs) / 1000)
+
     return {
+      'RateLimit-Limit': result.limit.toString(),
+      'RateLimit-Remaining': result.remaining.toString(),
+      'RateLimit-Reset': resetSeconds.toString(),
+      'RateLimit-Policy': `${result.limit};w=${windowSeconds}`,
       'X-RateLimit-Limit': result.limit.toString(),
       'X-RateLimit-Remaining': result.remaining.toString(),
       'X-RateLimit-Reset': result.resetTime.toString(),
@@ -338,7 +397,115 @@ export async function applyRateLimit(
   }
 
   const result = await rateLimiter.checkRateLimit(identifier, config)
-  const headers = await rateLimiter.getRateLimitHeaders(identifier, config)
+  const headers = await rateLimiter.getRateLimitHeaders(identifier, config, result)
 
   return { allowed: result.allowed, headers, result }
+}
+
+// Current status of a bucket without counting a request against it
+function peekRateLimit(identifier: string, config: RateLimitConfig): Promise<RateLimitResult> {
+  return rateLimiter.checkRateLimit(identifier, { ...config, skipSuccessfulHits: true }, { cached: true })
+}
+
+export function getClientIp(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for')
+  const realIP = request.headers.get('x-real-ip')
+  const cfIP = request.headers.get('cf-connecting-ip')
+  return forwarded?.split(',')[0].trim() || realIP || cfIP || 'unknown'
+}
+
+/**
+ * Tier limits for a signed-in user's plan
+ */
+export function getTierRateLimit(tier: 'free' | 'premium' | 'enterprise'): RateLimitConfig {
+  return tier === 'premium' ? RATE_LIMIT_TIERS.PREMIUM :
+    tier === 'enterprise' ? RATE_LIMIT_TIERS.ENTERPRISE :
+    RATE_LIMIT_TIERS.FREE
+}
+
+/**
+ * Own bucket for an API key: the key's rateLimitPerHour, capped at the owner's plan.
+ * enforceGlobalRateLimit also counts key traffic against the owner's plan bucket.
+ */
+export function getApiKeyRateLimit(session: AuthSession): RateLimitConfig {
+  const tierLimit = getTierRateLimit(session.tier)
+  return {
+    ...RATE_LIMIT_TIERS.API_KEY,
+    maxRequests: Math.min(session.rateLimitPerHour || tierLimit.maxRequests, tierLimit.maxRequests),
+    burstAllowance: tierLimit.burstAllowance
+  }
+}
+
+/**
+ * Global per-tier/IP limit applied to every API route by middleware.ts (via /api/rate-limit,
+ * since Redis isn't reachable from the edge runtime). Signed-in users are limited by their
+ * plan, API keys by their own bucket and their owner's plan, anonymous callers by IP;
+ * exceeding the limit fires a rate_limit.exceeded webhook.
+ */
+export async function enforceGlobalRateLimit(request: NextRequest, path: string, session?: AuthSession | null): Promise<GlobalRateLimitResult> {
+  if (session === undefined) {
+    session = await authManager.getSessionFromRequest(request)
+  }
+  const config = session?.apiKeyId ? getApiKeyRateLimit(session) :
+    session ? getTierRateLimit(session.tier) :
+    RATE_LIMIT_TIERS.IP_LIMIT
+  let identifier = session?.apiKeyId ? session.apiKeyId :
+    session ? `user:${session.userId}` :
+    getClientIp(request)
+
+  let allowed: boolean
+  let headers: { [key: string]: string }
+  let result: RateLimitResult
+
+  if (session?.apiKeyId) {
+    // Keys share the owner's plan bucket, so minting more keys doesn't multiply the quota.
+    // Both buckets are checked before either is counted, so a rejected request uses up neither.
+    const ownerIdentifier = `user:${session.userId}`
+    const ownerConfig = getTierRateLimit(session.tier)
+    const [keyStatus, ownerStatus] = await Promise.all([
+      peekRateLimit(identifier, config),
+      peekRateLimit(ownerIdentifier, ownerConfig)
+    ])
+
+    if (!keyStatus.allowed || !ownerStatus.allowed) {
+      const rejectedByOwner = keyStatus.allowed
+      if (rejectedByOwner) identifier = ownerIdentifier
+      result = rejectedByOwner ? ownerStatus : keyStatus
+      headers = await rateLimiter.getRateLimitHeaders(identifier, rejectedByOwner ? ownerConfig : config, result)
+      allowed = false
+    } else {
+      ({ allowed, headers, result } = await applyRateLimit(request, config, identifier))
+      await applyRateLimit(request, ownerConfig, ownerIdentifier)
+    }
+  } else {
+    ({ allowed, headers, result } = await applyRateLimit(request, config, identifier))
+  }
+
+  if (!allowed) {
+    console.log(`[RateLimit] ${identifier} exceeded ${result.rateLimitType} limit on ${path}`)
+    await notifyRateLimitExceeded(identifier, path, result, session?.userId)
+  }
+
+  return { allowed, headers, result, identifier, tier: result.rateLimitType }
+}
+
+// One webhook per identifier per window, not one per rejected request
+async function notifyRateLimitExceeded(identifier: string, path: string, result: RateLimitResult, userId?: string): Promise<void> {
+  try {
+    const notified = await redis.set(`rate_limit_notified:${identifier}`, '1', 'EX', result.retryAfter || 60, 'NX')
+    if (!notified) return
+
+    const user = userId ? await authManager.getUserById(userId) : null
+    await webhookManager.triggerEvent('rate_limit.exceeded', {
+      identifier,
+      path,
+      tier: result.rateLimitType,
+      limit: result.limit,
+      resetTime: new Date(result.resetTime).toISOString(),
+      retryAfter: result.retryAfter,
+      timestamp: Date.now()
+    }, user || undefined)
+  } catch (error) {
+    console.error('[RateLimit] Failed to trigger rate_limit.exceeded webhook:', error)
+  }
 }
\ No newline at end of file
@@ -1,13 +1,16 @@
-// Server-side module for source credibility assessment
+// Source credibility service, shared by server code and client components
 
-import { getMediaRank, type MediaRankEntry } from './mediarank'
-import { detectSourceType, type SourceType } from './source-credibility-server'
+import { getMediaRank, isFlaggedUnreliable, type MediaRankEntry } from './mediarank'
+import defaultRules from './credibility-rules.json'
 
 /**
- * Comprehensive source credibility scoring system
- * Integrates with MediaRank and extends to cover all source types
+ * Rule-driven source credibility scoring
+ * Domain patterns, base scores, penalties and MediaRank tiers live in credibility-rules.json;
+ * every assessment records the rule set version that produced it
  */
 
+export type SourceType = 'government' | 'academic' | 'news' | 'factcheck' | 'encyclopedia' | 'social' | 'other'
+
 export interface CredibilityAssessment {
   score: number // 0-100 credibility score
   sourceType: SourceType
@@ -16,6 +19,20 @@ export interface CredibilityAssessment {
   badge: string // Human-readable credibility level
   reasoning: string // Explanation of the score
   mediaRank?: MediaRankEntry // If it's a ranked news source
+  matchedRule?: string // Name of the source type rule that matched, if any
+  override?: { domain: string, reason: string, provenance?: string | null }
+  rulesVersion: string
+}
+
+// Editor-maintained adjustment for one domain (and its subdomains)
+export interface CredibilityOverride {
+  domain: string
+  score?: number | null
+  maxScore?: number | null
+  sourceType?: SourceType | null
+  notes?: string | null
+  reason: string
+  provenance?: string | null
 }
 
 export interface CredibilityFactor {
@@ -24,176 +41,147 @@ export interface CredibilityFactor {
   description: string
 }
 
-/**
- * Domain patterns for high-credibility sources
- */
-const CREDIBILITY_PATTERNS = {
-  government: {
-    domains: [
-      '.gov', '.mil', 'who.int', 'europa.eu', 'nih.gov', 'cdc.gov', 'epa.gov',
-      'fda.gov', 'nasa.gov', 'noaa.gov', 'census.gov', 'treasury.gov',
-      'justice.gov', 'state.gov', 'defense.gov', 'energy.gov', 'commerce.gov',
-      'ed.gov', 'hhs.gov', 'dhs.gov', 'va.gov', 'usda.gov', 'dot.gov',
-      'doi.gov', 'dol.gov', 'hud.gov', 'sba.gov', 'ssa.gov'
-    ],
-    baseScore: 90,
-    maxScore: 95
-  },
-  academic: {
-    domains: [
-      '.edu', 'scholar.google', 'pubmed.ncbi.nlm', 'arxiv.org', 'jstor.org',
-      'researchgate.net', 'academia.edu', 'sciencedirect.com', 'springer.com',
-      'nature.com', 'science.org', 'cell.com', 'nejm.org', 'bmj.com',
-      'thelancet.com', 'plos.org', 'frontiersin.org', 'mdpi.com'
-    ],
-    baseScore: 85,
-    maxScore: 92
-  },
-  factcheck: {
-    domains: [
-      'snopes.com', 'factcheck.org', 'politifact.com', 'fullfact.org',
-      'checkur.org', 'africacheck.org', 'chequeado.com', 'faktisk.no',
-      'afp.com', 'apnews.com/apfactcheck', 'reuters.com/fact-check',
-      'washingtonpost.com/news/fact-checker', 'cnn.com/factsfirst',
-      'factcheckni.org', 'dubawa.org', 'verafiles.org'
-    ],
-    baseScore: 80,
-    maxScore: 87
-  },
-  international: {
-    domains: [
-      'un.org', 'worldbank.org', 'imf.org', 'oecd.org', 'unicef.org',
-      'who.int', 'wto.org', 'unesco.org', 'unhcr.org', 'icrc.org'
-    ],
-    baseScore: 88,
-    maxScore: 94
+export interface SourceTypeRule {
+  name: string
+  sourceType: SourceType
+  baseScore: number
+  maxScore?: number
+  confidenceBoost?: number
+  badge?: { minScore: number, label: string }
+  description?: string
+  domains?: string[] // Hostname or any subdomain of it
+  suffixes?: string[] // Hostname ends with (or contains, for ".gov.uk"-style registries)
+  paths?: string[] // Prefix of host + path, for sections like a fact-check desk
+  keywords?: string[] // Substring of the hostname
+}
+
+export interface CredibilityRules {
+  version: string
+  defaultScore: number
+  defaultConfidence: number
+  sourceTypes: SourceTypeRule[]
+  otherDescription: string
+  otherConfidenceBoost: number
+  mediaRank: {
+    sourceType: SourceType
+    confidenceBoost: number
+    tiers: Array<{ maxRank: number, score: number }>
+    defaultScore: number
   }
+  penalties: {
+    suspiciousPatterns: { patterns: string[], perMatch: number, max: number }
+    unreliableDomains: { domains: string[], maxScore: number }
+  }
+  adjustments: {
+    recentDays: number
+    recentBonus: number
+    outdatedDays: number
+    outdatedPenalty: number
+    cleanDomainBonus: number
+    factorConfidence: number
+    maxFactorConfidence: number
+  }
+  badges: Array<{ minScore: number, label: string }>
 }
 
-/**
- * Suspicious domain patterns that reduce credibility
- */
-const SUSPICIOUS_PATTERNS = [
-  'fake', 'conspiracy', 'truth', 'exposed', 'secret', 'hidden',
-  'leaked', 'shocking', 'banned', 'censored', 'suppressed'
-]
+let activeRules: CredibilityRules = defaultRules as CredibilityRules
+let overridesByDomain = new Map<string, CredibilityOverride>()
 
 /**
- * Known unreliable domains
+ * Swap in a different rule set (e.g. a tuned or experimental version)
  */
-const UNRELIABLE_DOMAINS = [
-  'infowars.com', 'breitbart.com', 'naturalnews.com', 'beforeitsnews.com',
-  'worldnewsdailyreport.com', 'nationalreport.net', 'empirenews.net',
-  'newswatch33.com', 'dailybuzzlive.com', 'relaynews.com'
-]
+export function configureCredibilityRules(rules: CredibilityRules): void {
+  if (!rules.version || !Array.isArray(rules.sourceTypes)) {
+    throw new Error('Invalid credibility rules: version and sourceTypes are required')
+  }
+  activeRules = rules
+  console.log(`[Credibility] Using rule set v${rules.version}`)
+}
+
+export function getCredibilityRules(): CredibilityRules {
+  return activeRules
+}
 
 /**
- * Calculate domain-based credibility score
+ * Replace the active editorial overrides (loaded from the database on the server)
  */
-function calculateDomainScore(url: string, domain: string): { score: number, factors: CredibilityFactor[] } {
-  const factors: CredibilityFactor[] = []
-  let score = 50 // Base score for unknown domains
-
-  // Check for high-credibility patterns
-  for (const [type, config] of Object.entries(CREDIBILITY_PATTERNS)) {
-    const matches = config.domains.some(pattern => 
-      domain.includes(pattern) || url.includes(pattern)
-    )
-    if (matches) {
-      score = config.baseScore
-      factors.push({
-        factor: `${type.charAt(0).toUpperCase() + type.slice(1)} Source`,
-        impact: config.baseScore - 50,
-        description: `Recognized as a ${type} source with high credibility standards`
-      })
-      break
-    }
-  }
+export function setCredibilityOverrides(overrides: CredibilityOverride[]): void {
+  overridesByDomain = new Map(overrides.map(override => [override.domain, override]))
+}
 
-  // Check MediaRank for news sources
-  const mediaRank = getMediaRank(url)
-  if (mediaRank) {
-    const mediaScore = calculateMediaRankScore(mediaRank.rank)
-    if (mediaScore > score) {
-      score = mediaScore
-      factors.push({
-        factor: 'MediaRank Rating',
-        impact: mediaScore - 50,
-        description: `Ranked #${mediaRank.rank} in MediaRank credibility assessment`
-      })
-    }
+// Most specific override wins: news.example.com before example.com
+function findOverride(host: string): CredibilityOverride | undefined {
+  const labels = host.split('.')
+  for (let i = 0; i < labels.length - 1; i++) {
+    const override = overridesByDomain.get(labels.slice(i).join('.'))
+    if (override) return override
   }
+  return undefined
+}
 
-  // Check for suspicious patterns
-  const suspiciousCount = SUSPICIOUS_PATTERNS.filter(pattern => 
-    domain.toLowerCase().includes(pattern) || url.toLowerCase().includes(pattern)
-  ).length
+interface ParsedUrl {
+  host: string
+  hostAndPath: string
+}
 
-  if (suspiciousCount > 0) {
-    const penalty = Math.min(suspiciousCount * 15, 30)
-    score -= penalty
-    factors.push({
-      factor: 'Suspicious Domain Patterns',
-      impact: -penalty,
-      description: `Domain contains ${suspiciousCount} potentially misleading pattern(s)`
-    })
+function parseUrl(url: string): ParsedUrl {
+  try {
+    const parsed = new URL(url)
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '')
+    return { host, hostAndPath: `${host}${parsed.pathname.toLowerCase()}` }
+  } catch {
+    const bare = url.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '')
+    return { host: bare.split('/')[0], hostAndPath: bare }
   }
+}
 
-  // Check for known unreliable domains
-  if (UNRELIABLE_DOMAINS.some(unreliable => domain.includes(unreliable))) {
-    score = Math.min(score, 25)
-    factors.push({
-      factor: 'Known Unreliable Source',
-      impact: -25,
-      description: 'Domain is flagged as historically unreliable'
-    })
-  }
+function matchesDomain(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`)
+}
 
-  // Domain age and structure bonuses (simplified heuristics)
-  if (domain.length < 40 && !domain.includes('-') && domain.split('.').length <= 3) {
-    factors.push({
-      factor: 'Clean Domain Structure',
-      impact: 5,
-      description: 'Domain has clean, professional structure'
-    })
-    score += 5
-  }
+function matchesRule(rule: SourceTypeRule, { host, hostAndPath }: ParsedUrl): boolean {
+  return (rule.paths || []).some(path => hostAndPath.startsWith(path)) ||
+    (rule.domains || []).some(domain => matchesDomain(host, domain)) ||
+    (rule.suffixes || []).some(suffix => host.endsWith(suffix) || host.includes(`${suffix}.`)) ||
+    (rule.keywords || []).some(keyword => host.includes(keyword))
+}
 
-  return { score: Math.max(0, Math.min(100, score)), factors }
+function findRule(parsed: ParsedUrl): SourceTypeRule | undefined {
+  return activeRules.sourceTypes.find(rule => matchesRule(rule, parsed))
+}
+
+/**
+ * Classify a source by the first matching rule
+ */
+export function detectSourceType(url: string, _title?: string): SourceType {
+  const parsed = parseUrl(url)
+  return findOverride(parsed.host)?.sourceType || findRule(parsed)?.sourceType || 'other'
 }
 
 /**
  * Convert MediaRank ranking to credibility score
  */
 function calculateMediaRankScore(rank: number): number {
-  if (rank <= 10) return 85
-  if (rank <= 25) return 80
-  if (rank <= 50) return 75
-  if (rank <= 100) return 70
-  if (rank <= 200) return 65
-  return 60
+  const tier = activeRules.mediaRank.tiers.find(tier => rank <= tier.maxRank)
+  return tier ? tier.score : activeRules.mediaRank.defaultScore
+}
+
+function describeRule(rule?: SourceTypeRule): string {
+  return rule?.description || activeRules.otherDescription
 }
 
 /**
  * Generate human-readable credibility badge
  */
-function generateCredibilityBadge(score: number, sourceType: SourceType): string {
-  if (sourceType === 'government' && score >= 90) return 'Authoritative'
-  if (sourceType === 'academic' && score >= 85) return 'Peer Reviewed'
-  if (sourceType === 'factcheck' && score >= 80) return 'Professional Verification'
-  
-  if (score >= 90) return 'Highly Credible'
-  if (score >= 80) return 'Very Credible'
-  if (score >= 70) return 'Credible'
-  if (score >= 60) return 'Moderately Credible'
-  if (score >= 50) return 'Limited Credibility'
-  return 'Low Credibility'
+function generateCredibilityBadge(score: number, rule?: SourceTypeRule): string {
+  if (rule?.badge && score >= rule.badge.minScore) return rule.badge.label
+  return activeRules.badges.find(badge => score >= badge.minScore)?.label || 'Low Credibility'
 }
 
 /**
  * Generate reasoning explanation for the credibility score
  */
-function generateReasoning(score: number, sourceType: SourceType, factors: CredibilityFactor[], mediaRank?: MediaRankEntry | null): string {
+function generateReasoning(score: number, factors: CredibilityFactor[], rule?: SourceTypeRule, mediaRank?: MediaRankEntry | null): string {
   let reasoning = `This source received a ${score}/100 credibility score based on multiple factors. `
 
   if (mediaRank) {
@@ -211,53 +199,25 @@ function generateReasoning(score: number, sourceType: SourceType, factors: Credi
     reasoning += `Negative factors include: ${negativeFactors.map(f => f.factor.toLowerCase()).join(', ')}. `
   }
 
-  // Add source type context
-  switch (sourceType) {
-    case 'government':
-      reasoning += 'Government sources are typically considered highly authoritative for official data and policy information.'
-      break
-    case 'academic':
-      reasoning += 'Academic sources undergo peer review and scholarly scrutiny, providing high-quality research-based information.'
-      break
-    case 'factcheck':
-      reasoning += 'Fact-checking organizations specialize in verification and maintain professional standards for accuracy.'
-      break
-    case 'news':
-      reasoning += 'News sources vary in credibility based on editorial standards, fact-checking practices, and historical accuracy.'
-      break
-    case 'other':
-      reasoning += 'General web sources require careful evaluation as they may not follow professional editorial standards.'
-      break
-  }
-
-  return reasoning
+  return reasoning + describeRule(rule)
 }
 
 /**
  * Calculate confidence in the credibility assessment
  */
-function calculateConfidence(sourceType: SourceType, factors: CredibilityFactor[], mediaRank?: MediaRankEntry | null): number {
-  let confidence = 60 // Base confidence
+function calculateConfidence(factors: CredibilityFactor[], rule?: SourceTypeRule, mediaRank?: MediaRankEntry | null): number {
+  const { adjustments } = activeRules
+  let confidence = activeRules.defaultConfidence
 
   // Higher confidence for well-known source types
-  switch (sourceType) {
-    case 'government':
-    case 'academic':
-      confidence += 25
-      break
-    case 'factcheck':
-      confidence += 20
-      break
-    case 'news':
-      confidence += mediaRank ? 20 : 10
-      break
-    case 'other':
-      confidence += 5
-      break
+  if (mediaRank) {
+    confidence += activeRules.mediaRank.confidenceBoost
+  } else {
+    confidence += rule ? (rule.confidenceBoost || 0) : activeRules.otherConfidenceBoost
   }
 
   // Higher confidence with more assessment factors
-  confidence += Math.min(factors.length * 3, 15)
+  confidence += Math.min(factors.length * adjustments.factorConfidence, adjustments.maxFactorConfidence)
 
   return Math.min(100, confidence)
 }
@@ -266,68 +226,125 @@ function calculateConfidence(sourceType: SourceType, factors: CredibilityFactor[
  * Main function to assess source credibility
  */
 export function assessSourceCredibility(url: string, title?: string, publishedDate?: string): CredibilityAssessment {
-  // Extract domain and detect source type
-  let domain: string
-  try {
-    domain = new URL(url).hostname.toLowerCase().replace(/^www\./, '')
-  } catch {
-    domain = url.toLowerCase()
+  const { penalties, adjustments } = activeRules
+  const parsed = parseUrl(url)
+  const rule = findRule(parsed)
+  const factors: CredibilityFactor[] = []
+
+  let sourceType: SourceType = rule?.sourceType || 'other'
+  let score = activeRules.defaultScore
+  let maxScore = 100
+
+  if (rule) {
+    score = rule.baseScore
+    maxScore = rule.maxScore ?? 100
+    factors.push({
+      factor: `${rule.name.charAt(0).toUpperCase() + rule.name.slice(1)} Source`,
+      impact: rule.baseScore - activeRules.defaultScore,
+      description: `Recognized as a ${rule.name} source`
+    })
+  }
+
+  // MediaRank outranks generic pattern matches for news outlets
+  const mediaRank = getMediaRank(url)
+  if (mediaRank) {
+    const mediaScore = calculateMediaRankScore(mediaRank.rank)
+    if (mediaScore > score) {
+      factors.push({
+        factor: 'MediaRank Rating',
+        impact: mediaScore - score,
+        description: `Ranked #${mediaRank.rank} in MediaRank credibility assessment`
+      })
+      score = mediaScore
+      maxScore = Math.max(maxScore, mediaScore)
+      if (sourceType === 'other') sourceType = activeRules.mediaRank.sourceType
+    }
+  }
+
+  // Sensational words in the hostname
+  const suspiciousCount = penalties.suspiciousPatterns.patterns.filter(pattern => parsed.host.includes(pattern)).length
+  if (suspiciousCount > 0) {
+    const penalty = Math.min(suspiciousCount * penalties.suspiciousPatterns.perMatch, penalties.suspiciousPatterns.max)
+    score -= penalty
+    factors.push({
+      factor: 'Suspicious Domain Patterns',
+      impact: -penalty,
+      description: `Domain contains ${suspiciousCount} potentially misleading pattern(s)`
+    })
+  }
+
+  // Domain age and structure bonuses (simplified heuristics)
+  if (parsed.host.length < 40 && !parsed.host.includes('-') && parsed.host.split('.').length <= 3) {
+    score += adjustments.cleanDomainBonus
+    factors.push({
+      factor: 'Clean Domain Structure',
+      impact: adjustments.cleanDomainBonus,
+      description: 'Domain has clean, professional structure'
+    })
   }
 
-  const sourceType = detectSourceType(url, title)
-  
-  // Calculate domain-based score
-  const { score: domainScore, factors } = calculateDomainScore(url, domain)
-  
   // Apply time-based adjustments
   if (publishedDate) {
-    try {
-      const pubDate = new Date(publishedDate)
-      const ageInDays = (Date.now() - pubDate.getTime()) / (1000 * 60 * 60 * 24)
-      
-      if (ageInDays < 7) {
-        factors.push({
-          factor: 'Recent Publication',
-          impact: 3,
-          description: 'Recently published content (within 7 days)'
-        })
-      } else if (ageInDays > 1825) { // 5+ years old
-        factors.push({
-          factor: 'Older Content',
-          impact: -5,
-          description: 'Content is over 5 years old, may be outdated'
-        })
-      }
-    } catch {
-      // Invalid date, ignore
+    const ageInDays = (Date.now() - new Date(publishedDate).getTime()) / (1000 * 60 * 60 * 24)
+
+    if (ageInDays >= 0 && ageInDays < adjustments.recentDays) {
+      score += adjustments.recentBonus
+      factors.push({
+        factor: 'Recent Publication',
+        impact: adjustments.recentBonus,
+        description: `Recently published content (within ${adjustments.recentDays} days)`
+      })
+    } else if (ageInDays > adjustments.outdatedDays) {
+      score -= adjustments.outdatedPenalty
+      factors.push({
+        factor: 'Older Content',
+        impact: -adjustments.outdatedPenalty,
+        description: `Content is over ${Math.round(adjustments.outdatedDays / 365)} years old, may be outdated`
+      })
     }
   }
 
-  // Final score calculation
-  const adjustments = factors.reduce((sum, factor) => sum + factor.impact, 0)
-  let finalScore = 50 + adjustments
-  
-  // Ensure score is within bounds
-  finalScore = Math.max(0, Math.min(100, finalScore))
-  
-  // Get MediaRank info if available
-  const mediaRank = getMediaRank(url)
-  
-  // Calculate confidence
-  const confidence = calculateConfidence(sourceType, factors, mediaRank)
-  
-  // Generate badge and reasoning
-  const badge = generateCredibilityBadge(finalScore, sourceType)
-  const reasoning = generateReasoning(finalScore, sourceType, factors, mediaRank)
+  // Bonuses can't lift a source past its category ceiling
+  score = Math.min(score, maxScore)
+
+  if (penalties.unreliableDomains.domains.some(domain => matchesDomain(parsed.host, domain)) || isFlaggedUnreliable(url)) {
+    const capped = Math.min(score, penalties.unreliableDomains.maxScore)
+    factors.push({
+      factor: 'Known Unreliable Source',
+      impact: capped - score,
+      description: 'Domain is flagged as historically unreliable'
+    })
+    score = capped
+  }
+
+  // Editorial overrides take precedence over every rule
+  const override = findOverride(parsed.host)
+  if (override) {
+    const overridden = Math.min(override.score ?? score, override.maxScore ?? 100)
+    if (overridden !== score) {
+      factors.push({
+        factor: 'Editorial Override',
+        impact: overridden - score,
+        description: override.reason
+      })
+    }
+    score = overridden
+    if (override.sourceType) sourceType = override.sourceType
+  }
+
+  const finalScore = Math.round(Math.max(0, Math.min(100, score)))
 
   return {
-    score: Math.round(finalScore),
+    score: finalScore,
     sourceType,
-    confidence: Math.round(confidence),
+    confidence: Math.round(calculateConfidence(factors, rule, mediaRank)),
     factors,
-    badge,
-    reasoning,
-    mediaRank: mediaRank || undefined
+    badge: generateCredibilityBadge(finalScore, rule),
+    reasoning: generateReasoning(finalScore, factors, rule, mediaRank) + (override?.notes ? ` Editor note: ${override.notes}` : ''),
+    mediaRank: mediaRank || undefined,
+    matchedRule: rule?.name,
+    override: override ? { domain: override.domain, reason: override.reason, provenance: override.provenance } : undefined,
+    rulesVersion: activeRules.version
   }
 }
 
@@ -358,8 +375,3 @@ export function filterByCredibility(sources: Array<{ url: string, title?: string
     .filter(source => source.credibilityScore >= minScore)
     .sort((a, b) => b.credibilityScore - a.credibilityScore)
 }
-
-/**
- * Export types and constants for external use
- */
-export { CREDIBILITY_PATTERNS, SUSPICIOUS_PATTERNS, UNRELIABLE_DOMAINS }
\ No newline at end of file
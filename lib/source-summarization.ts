@@ -1,6 +1,7 @@
 // Server-side module for AI source summarization
 
 import { assessSourceCredibility, type CredibilityAssessment } from './source-credibility'
+import { meteredFetch } from './usage-meter'
 
 /**
  * AI Source Summarization System
@@ -198,7 +199,7 @@ async function enhanceExistingContent(
   const timeoutId = setTimeout(() => controller.abort(), 6000)
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    const response = await meteredFetch('openai', 'https://api.openai.com/v1/chat/completions', {
       signal: controller.signal,
       method: 'POST',
       headers: {
@@ -404,7 +405,7 @@ async function generateAISourceSummary(
   const timeoutId = setTimeout(() => controller.abort(), 8000)
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    const response = await meteredFetch('openai', 'https://api.openai.com/v1/chat/completions', {
       signal: controller.signal,
       method: 'POST',
       headers: {
@@ -0,0 +1,325 @@
+/**
+ * Evidence stance classification
+ * Labels each source as supporting, refuting or neutral toward a claim, with a short rationale
+ */
+
+import { meteredFetch } from './usage-meter'
+
+export type StanceLabel = 'supports' | 'refutes' | 'neutral'
+
+export interface SourceStance {
+  claimId?: number | string
+  claim: string
+  label: StanceLabel
+  confidence: number
+  rationale: string
+  method: 'llm' | 'heuristic'
+}
+
+export interface StanceSummary {
+  supporting: number
+  refuting: number
+  neutral: number
+  weightedSupport: number
+  weightedRefute: number
+  weightedNeutral: number
+}
+
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY
+
+// Only the top-ranked sources go to the LLM; the long tail is labelled heuristically
+const MAX_LLM_SOURCES = 20
+const STANCE_TIMEOUT_MS = 15000
+const MAX_CONTENT_CHARS = 500
+
+// Cue phrases, checked against sentences that mention the claim's key terms
+const SUPPORT_CUES = ['confirms', 'confirmed', 'supports', 'proves', 'proven', 'demonstrates', 'shows that', 'evidence for', 'consistent with', 'is true', 'is correct', 'accurate', 'verified']
+const REFUTE_CUES = ['disproves', 'contradicts', 'false', 'incorrect', 'myth', 'debunked', 'no evidence', 'refutes', 'misleading', 'inaccurate', 'fabricated', 'unfounded', 'not true', 'baseless', 'untrue', 'unproven', 'unconfirmed', 'unverified', 'unsupported', 'unsubstantiated']
+// Cues that carry their own negation, so a preceding "not" doesn't flip them back
+const SELF_NEGATED_CUES = new Set(['no evidence', 'not true'])
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'neither', 'nor', 'without', 'cannot',
+  "isn't", "aren't", "wasn't", "weren't", "doesn't", "don't", "didn't", "hasn't", "haven't", "can't", "won't",
+  // Apostrophes are often dropped in headlines and comments
+  'isnt', 'arent', 'wasnt', 'werent', 'doesnt', 'dont', 'didnt', 'hasnt', 'havent', 'cant', 'wont'
+])
+
+// Whole-word matching, so "accurate" doesn't fire inside "inaccurate" or "proven" inside "unproven"
+function cuePatterns(cues: string[]): Array<{ cue: string, pattern: RegExp }> {
+  return cues.map(cue => ({ cue, pattern: new RegExp(`\\b${cue}\\b`) }))
+}
+
+const SUPPORT_PATTERNS = cuePatterns(SUPPORT_CUES)
+const REFUTE_PATTERNS = cuePatterns(REFUTE_CUES)
+
+const STOP_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'is', 'are', 'was', 'were', 'be', 'that', 'this', 'it', 'with', 'as', 'by', 'at', 'from', 'does', 'did', 'has', 'have'])
+
+/**
+ * Pull the most descriptive text available for a source
+ */
+export function getSourceContent(source: any): string {
+  const candidates = [
+    source.metadata?.snippet,
+    source.metadata?.fullAbstract,
+    source.abstract,
+    source.excerpt,
+    source.description,
+    source.summary,
+    source.metadata?.description
+  ]
+
+  for (const content of candidates) {
+    if (content && typeof content === 'string' && content.length > 20) {
+      return content.trim()
+    }
+  }
+
+  return ''
+}
+
+function claimTerms(claim: string): string[] {
+  return claim
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+}
+
+function isNegated(sentence: string, cueIndex: number): boolean {
+  // Look up to three words back from the cue for a negation
+  const preceding = sentence.substring(0, cueIndex).split(/\s+/).slice(-4)
+  return preceding.some(word => NEGATIONS.has(word.replace(/[^\w']/g, '')))
+}
+
+/**
+ * Lexical stance fallback used when no LLM is available or a call fails.
+ * Negated cues flip polarity ("not false" supports, "not confirmed" refutes).
+ */
+export function detectStanceHeuristic(source: any, claim: string, claimId?: number | string): SourceStance {
+  const content = `${source.title || ''}. ${getSourceContent(source)}`
+    .toLowerCase()
+    .replace(/[\u2018\u2019]/g, "'")
+  const terms = claimTerms(claim)
+
+  let support = 0
+  let refute = 0
+  const matchedCues: string[] = []
+
+  for (const sentence of content.split(/(?<=[.!?])\s+/)) {
+    // Ignore sentences that have nothing to do with the claim
+    if (terms.length > 0 && !terms.some(term => sentence.includes(term))) continue
+
+    for (const { cue, pattern } of SUPPORT_PATTERNS) {
+      const index = sentence.search(pattern)
+      if (index === -1) continue
+      if (isNegated(sentence, index)) refute++
+      else support++
+      matchedCues.push(cue)
+    }
+
+    for (const { cue, pattern } of REFUTE_PATTERNS) {
+      const index = sentence.search(pattern)
+      if (index === -1) continue
+      if (!SELF_NEGATED_CUES.has(cue) && isNegated(sentence, index)) support++
+      else refute++
+      matchedCues.push(cue)
+    }
+  }
+
+  const total = support + refute
+  if (total === 0 || support === refute) {
+    return {
+      claimId,
+      claim,
+      label: 'neutral',
+      confidence: total === 0 ? 0.3 : 0.4,
+      rationale: total === 0 ? 'No stance-bearing language about the claim' : 'Balanced supporting and refuting language',
+      method: 'heuristic'
+    }
+  }
+
+  const label: StanceLabel = support > refute ? 'supports' : 'refutes'
+  const margin = Math.abs(support - refute) / total
+
+  return {
+    claimId,
+    claim,
+    label,
+    // Heuristic labels are capped well below LLM confidence
+    confidence: Math.min(0.6, 0.35 + margin * 0.25),
+    rationale: `Matched ${label === 'supports' ? 'supporting' : 'refuting'} language: ${[...new Set(matchedCues)].slice(0, 3).map(cue => `"${cue}"`).join(', ')}`,
+    method: 'heuristic'
+  }
+}
+
+/**
+ * Classify the stance of every source toward a claim.
+ * Returns one stance per source, in input order.
+ */
+export async function classifySourceStances(sources: any[], claim: string, claimId?: number | string): Promise<SourceStance[]> {
+  if (sources.length === 0) return []
+
+  const stances = sources.map(source => detectStanceHeuristic(source, claim, claimId))
+
+  if (!OPENAI_API_KEY) {
+    return stances
+  }
+
+  const llmCandidates = sources.slice(0, MAX_LLM_SOURCES)
+
+  try {
+    const llmStances = await classifyWithLLM(llmCandidates, claim)
+    llmStances.forEach((llmStance, index) => {
+      if (llmStance) {
+        stances[index] = { ...llmStance, claimId, claim }
+      }
+    })
+    console.log(`[Stance] Classified ${llmStances.filter(Boolean).length}/${sources.length} sources with LLM for claim ${claimId ?? ''}`.trim())
+  } catch (error) {
+    console.error('[Stance] LLM classification failed, using heuristics:', error instanceof Error ? error.message : error)
+  }
+
+  return stances
+}
+
+async function classifyWithLLM(sources: any[], claim: string): Promise<Array<Omit<SourceStance, 'claimId' | 'claim'> | null>> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), STANCE_TIMEOUT_MS)
+
+  const sourceList = sources.map((source, index) => {
+    const content = getSourceContent(source).substring(0, MAX_CONTENT_CHARS)
+    return `[${index + 1}] ${source.title || 'Untitled'} (${source.publisher || source.metadata?.domain || 'unknown'})\n${content || 'No content available'}`
+  }).join('\n\n')
+
+  try {
+    const response = await meteredFetch('openai', 'https://api.openai.com/v1/chat/completions', {
+      signal: controller.signal,
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${OPENAI_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'gpt-4-turbo-2024-04-09',
+        messages: [
+          {
+            role: 'system',
+            content: `You classify the stance of evidence toward a claim. For each numbered source decide whether its content supports the claim, refutes it, or is neutral (off-topic, background, or inconclusive). Judge only what the source says, not your own knowledge.
+
+Respond in valid JSON format:
+{
+  "stances": [
+    { "index": 1, "stance": "supports|refutes|neutral", "confidence": 0.8, "rationale": "one sentence citing what the source says" }
+  ]
+}`
+          },
+          {
+            role: 'user',
+            content: `Claim: "${claim}"\n\nSources:\n${sourceList}`
+          }
+        ],
+        temperature: 0,
+        max_tokens: 2000
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API error: ${response.status}`)
+    }
+
+    const data = await response.json()
+    const content = data.choices?.[0]?.message?.content
+
+    if (!content) {
+      throw new Error('No content received from OpenAI')
+    }
+
+    const jsonMatch = content.match(/```json\n([\s\S]*?)\n```/) || content.match(/\{[\s\S]*\}/)
+    const parsed = JSON.parse(jsonMatch ? jsonMatch[1] || jsonMatch[0] : content)
+
+    const results: Array<Omit<SourceStance, 'claimId' | 'claim'> | null> = sources.map(() => null)
+    for (const entry of parsed.stances || []) {
+      const index = Number(entry.index) - 1
+      if (index < 0 || index >= sources.length) continue
+      if (!['supports', 'refutes', 'neutral'].includes(entry.stance)) continue
+
+      results[index] = {
+        label: entry.stance,
+        confidence: typeof entry.confidence === 'number' ? Math.min(1, Math.max(0, entry.confidence)) : 0.7,
+        rationale: typeof entry.rationale === 'string' ? entry.rationale : '',
+        method: 'llm'
+      }
+    }
+
+    return results
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Attach stances to their sources. A source keeps every claim's stance in `stances`;
+ * `stance` is the one for the claim it was retrieved for.
+ */
+export function attachStances<T extends object>(sources: T[], stances: SourceStance[]): Array<T & { stance?: SourceStance, stances?: SourceStance[] }> {
+  return sources.map((source, index) => {
+    const stance = stances[index]
+    if (!stance) return source
+    const existing: SourceStance[] = (source as any).stances || []
+    return { ...source, stance, stances: [...existing, stance] }
+  })
+}
+
+/**
+ * Find a source's stance toward a specific claim
+ */
+export function getStanceForClaim(source: any, claimId?: number | string): SourceStance | undefined {
+  const stances: SourceStance[] = source.stances || (source.stance ? [source.stance] : [])
+  if (claimId === undefined) return stances[0]
+  return stances.find(stance => stance.claimId === claimId)
+}
+
+/**
+ * Count and weight stances. Each stance is weighted by its confidence times the
+ * optional per-source weight (e.g. credibility), so callers can plug in their own factors.
+ */
+export function summarizeStances(
+  sources: any[],
+  claimId?: number | string,
+  sourceWeight: (source: any) => number = () => 1
+): StanceSummary {
+  const summary: StanceSummary = {
+    supporting: 0,
+    refuting: 0,
+    neutral: 0,
+    weightedSupport: 0,
+    weightedRefute: 0,
+    weightedNeutral: 0
+  }
+
+  for (const source of sources) {
+    const stance = getStanceForClaim(source, claimId)
+    if (!stance) continue
+
+    const weight = stance.confidence * sourceWeight(source)
+    if (stance.label === 'supports') {
+      summary.supporting++
+      summary.weightedSupport += weight
+    } else if (stance.label === 'refutes') {
+      summary.refuting++
+      summary.weightedRefute += weight
+    } else {
+      summary.neutral++
+      summary.weightedNeutral += weight
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Map a stance label onto the perspective vocabulary used by source summaries
+ */
+export function stanceToPerspective(label: StanceLabel): 'supports' | 'contradicts' | 'neutral' {
+  return label === 'refutes' ? 'contradicts' : label
+}
@@ -0,0 +1,327 @@
+// Cost metering for LLM and API spend with monthly per-tier budgets
+import { AsyncLocalStorage } from 'async_hooks'
+import { NextRequest } from 'next/server'
+import { redis } from './db'
+import { authManager } from './auth'
+import { getClientIp } from './rate-limiter'
+
+export type UsageProvider = 'perplexity' | 'openai' | 'anthropic' | 'gemini' | 'google_factcheck'
+export type UsageTier = 'anonymous' | 'free' | 'premium' | 'enterprise'
+
+export interface ProviderPricing {
+  perCall: number // Cost units per request (search fees, flat-priced APIs)
+  perThousandPromptTokens: number
+  perThousandCompletionTokens: number
+}
+
+export interface TokenUsage {
+  promptTokens?: number
+  completionTokens?: number
+  model?: string
+  estimated?: boolean // Provider didn't report usage; tokens were approximated
+}
+
+export interface UsageIdentity {
+  identifier: string // user:<id> or client IP, same keys as the rate limiter
+  tier: UsageTier
+  userId?: string
+}
+
+export interface ProviderUsage {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  cost: number
+}
+
+export interface MonthlyUsage {
+  identifier: string
+  month: string
+  cost: number
+  providers: { [provider: string]: ProviderUsage }
+}
+
+export interface BudgetStatus {
+  allowed: boolean
+  tier: UsageTier
+  used: number
+  budget: number
+  remaining: number
+  resetAt: string
+}
+
+interface UsageContext extends UsageIdentity {
+  requestId: string
+  path?: string
+}
+
+/**
+ * One cost unit is roughly $0.001 of provider spend; prices are approximate list prices
+ */
+export const PROVIDER_PRICING: { [provider in UsageProvider]: ProviderPricing } = {
+  perplexity: { perCall: 5, perThousandPromptTokens: 3, perThousandCompletionTokens: 15 },
+  openai: { perCall: 0, perThousandPromptTokens: 10, perThousandCompletionTokens: 30 },
+  anthropic: { perCall: 0, perThousandPromptTokens: 3, perThousandCompletionTokens: 15 },
+  gemini: { perCall: 0, perThousandPromptTokens: 0.075, perThousandCompletionTokens: 0.3 },
+  google_factcheck: { perCall: 0.5, perThousandPromptTokens: 0, perThousandCompletionTokens: 0 }
+}
+
+// Monthly budgets in cost units
+export const TIER_MONTHLY_BUDGETS: { [tier in UsageTier]: number } = {
+  anonymous: 1000,
+  free: 5000,
+  premium: 100000,
+  enterprise: 1000000
+}
+
+// Routes that spend provider money; middleware.ts blocks them once the monthly budget is gone
+export const METERED_PATHS = [
+  '/api/fact-check',
+  '/api/fact-check-hybrid',
+  '/api/intelligent-fact-check',
+  '/api/enhance-source',
+  '/api/analysis/render',
+  '/api/analyze-claims',
+  '/api/synthesize-verification'
+]
+
+const CALL_LOG_LENGTH = 500
+const USAGE_RETENTION_SECONDS = 400 * 24 * 60 * 60 // Keep a year of monthly totals
+
+export function isMeteredPath(path: string): boolean {
+  return METERED_PATHS.some(metered => path === metered || path.startsWith(`${metered}/`))
+}
+
+function currentMonth(date = new Date()): string {
+  return date.toISOString().slice(0, 7)
+}
+
+function monthlyKey(identifier: string, month = currentMonth()): string {
+  return `usage:${identifier}:${month}`
+}
+
+// Rough token estimate (~4 characters per token) when a provider omits usage
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+export function calculateCost(provider: UsageProvider, usage: TokenUsage): number {
+  const pricing = PROVIDER_PRICING[provider]
+  const cost = pricing.perCall +
+    ((usage.promptTokens || 0) / 1000) * pricing.perThousandPromptTokens +
+    ((usage.completionTokens || 0) / 1000) * pricing.perThousandCompletionTokens
+  return Math.round(cost * 1000) / 1000
+}
+
+/**
+ * Read token counts from an OpenAI/Perplexity (usage.prompt_tokens), Anthropic
+ * (usage.input_tokens) or Gemini (usageMetadata) response body
+ */
+export function extractTokenUsage(body: any): TokenUsage | null {
+  const usage = body?.usage
+  if (usage) {
+    return {
+      promptTokens: usage.prompt_tokens ?? usage.input_tokens ?? 0,
+      completionTokens: usage.completion_tokens ?? usage.output_tokens ?? 0,
+      model: body.model
+    }
+  }
+  if (body?.usageMetadata) {
+    return {
+      promptTokens: body.usageMetadata.promptTokenCount || 0,
+      completionTokens: body.usageMetadata.candidatesTokenCount || 0
+    }
+  }
+  return null
+}
+
+export class UsageMeter {
+  private context = new AsyncLocalStorage<UsageContext>()
+
+  /**
+   * Attribute provider calls made during the rest of this request (including work it
+   * starts in the background) to the caller
+   */
+  begin(identity: UsageIdentity, path?: string): void {
+    this.context.enterWith({
+      ...identity,
+      path,
+      requestId: `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    })
+  }
+
+  getIdentity(): UsageIdentity | undefined {
+    return this.context.getStore()
+  }
+
+  /**
+   * Record one provider call and its cost against the current caller (or "system")
+   */
+  async record(provider: UsageProvider, usage: TokenUsage = {}): Promise<number> {
+    const ctx = this.context.getStore()
+    const identifier = ctx?.identifier || 'system'
+    const cost = calculateCost(provider, usage)
+    const promptTokens = usage.promptTokens || 0
+    const completionTokens = usage.completionTokens || 0
+    const key = monthlyKey(identifier)
+
+    try {
+      await redis.pipeline()
+        .hincrbyfloat(key, 'cost', cost)
+        .hincrbyfloat(key, `cost:${provider}`, cost)
+        .hincrby(key, `calls:${provider}`, 1)
+        .hincrby(key, `prompt_tokens:${provider}`, promptTokens)
+        .hincrby(key, `completion_tokens:${provider}`, completionTokens)
+        .expire(key, USAGE_RETENTION_SECONDS)
+        .lpush(`usage:${identifier}:calls`, JSON.stringify({
+          requestId: ctx?.requestId,
+          path: ctx?.path,
+          provider,
+          model: usage.model,
+          promptTokens,
+          completionTokens,
+          estimated: usage.estimated || undefined,
+          cost,
+          timestamp: Date.now()
+        }))
+        .ltrim(`usage:${identifier}:calls`, 0, CALL_LOG_LENGTH - 1)
+        .expire(`usage:${identifier}:calls`, 31 * 24 * 60 * 60)
+        .exec()
+    } catch (error) {
+      console.error('[Usage] Failed to record provider usage:', error)
+    }
+
+    return cost
+  }
+
+  async getMonthlyUsage(identifier: string, month = currentMonth()): Promise<MonthlyUsage> {
+    const fields = await redis.hgetall(monthlyKey(identifier, month))
+    const providers: { [provider: string]: ProviderUsage } = {}
+
+    for (const [field, value] of Object.entries(fields)) {
+      const [metric, provider] = field.split(':')
+      if (!provider) continue
+      providers[provider] = providers[provider] || { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 }
+      const entry = providers[provider]
+      if (metric === 'calls') entry.calls = parseInt(value, 10)
+      else if (metric === 'prompt_tokens') entry.promptTokens = parseInt(value, 10)
+      else if (metric === 'completion_tokens') entry.completionTokens = parseInt(value, 10)
+      else if (metric === 'cost') entry.cost = Math.round(parseFloat(value) * 1000) / 1000
+    }
+
+    return {
+      identifier,
+      month,
+      cost: Math.round(parseFloat(fields.cost || '0') * 1000) / 1000,
+      providers
+    }
+  }
+
+  /**
+   * Spend per request, newest first, from the recent call log
+   */
+  async getRecentRequests(identifier: string, limit: number = 50): Promise<Array<{ requestId: string, path?: string, cost: number, calls: number, tokens: number, timestamp: number }>> {
+    const raw = await redis.lrange(`usage:${identifier}:calls`, 0, -1)
+    const requests = new Map<string, { requestId: string, path?: string, cost: number, calls: number, tokens: number, timestamp: number }>()
+
+    for (const line of raw) {
+      try {
+        const call = JSON.parse(line)
+        const requestId = call.requestId || 'unattributed'
+        const entry = requests.get(requestId) || { requestId, path: call.path, cost: 0, calls: 0, tokens: 0, timestamp: call.timestamp }
+        entry.cost = Math.round((entry.cost + call.cost) * 1000) / 1000
+        entry.calls++
+        entry.tokens += (call.promptTokens || 0) + (call.completionTokens || 0)
+        entry.timestamp = Math.max(entry.timestamp, call.timestamp)
+        requests.set(requestId, entry)
+      } catch {
+        // Skip malformed entries
+      }
+    }
+
+    return Array.from(requests.values())
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, limit)
+  }
+
+  async checkBudget(identifier: string, tier: UsageTier): Promise<BudgetStatus> {
+    const budget = TIER_MONTHLY_BUDGETS[tier]
+    const now = new Date()
+    const resetAt = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString()
+
+    try {
+      const used = parseFloat(await redis.hget(monthlyKey(identifier), 'cost') || '0')
+      return {
+        allowed: used < budget,
+        tier,
+        used: Math.round(used * 1000) / 1000,
+        budget,
+        remaining: Math.max(0, Math.round((budget - used) * 1000) / 1000),
+        resetAt
+      }
+    } catch (error) {
+      console.error('[Usage] Budget check failed:', error)
+      // Fail open, like the rate limiter
+      return { allowed: true, tier, used: 0, budget, remaining: budget, resetAt }
+    }
+  }
+}
+
+export const usageMeter = new UsageMeter()
+
+/**
+ * Who a request's spend belongs to: the signed-in user, or the client IP
+ */
+export async function resolveUsageIdentity(request: NextRequest): Promise<UsageIdentity> {
+  try {
+    const session = await authManager.getSessionFromRequest(request)
+    if (session) {
+      return { identifier: `user:${session.userId}`, tier: session.tier, userId: session.userId }
+    }
+  } catch (error) {
+    console.error('[Usage] Session lookup failed, metering by IP:', error)
+  }
+  return { identifier: getClientIp(request), tier: 'anonymous' }
+}
+
+/**
+ * Start metering a route handler's provider calls
+ */
+export async function meterRequest(request: NextRequest): Promise<UsageIdentity> {
+  const identity = await resolveUsageIdentity(request)
+  usageMeter.begin(identity, new URL(request.url).pathname)
+  return identity
+}
+
+/**
+ * fetch() for paid provider APIs: records the call and the tokens reported in the
+ * JSON response. Streamed responses carry usage in their last chunk, so streaming
+ * callers record it themselves once the stream is read.
+ */
+export async function meteredFetch(provider: UsageProvider, input: string | URL, init?: RequestInit): Promise<Response> {
+  const response = await fetch(input, init)
+
+  if ((response.headers.get('content-type') || '').includes('text/event-stream')) {
+    return response
+  }
+
+  let usage: TokenUsage | null = null
+  if (response.ok && provider !== 'google_factcheck') {
+    try {
+      usage = extractTokenUsage(await response.clone().json())
+    } catch {
+      // Non-JSON body; fall back to an estimate
+    }
+  }
+
+  if (!usage && provider !== 'google_factcheck') {
+    usage = {
+      promptTokens: typeof init?.body === 'string' ? estimateTokens(init.body) : 0,
+      completionTokens: 0,
+      estimated: true
+    }
+  }
+
+  await usageMeter.record(provider, usage || {})
+  return response
+}
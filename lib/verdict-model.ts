@@ -0,0 +1,320 @@
+/**
+ * Credibility-weighted verdict model
+ * Combines source stance, credibility, recency, fact-checker ratings and the model's own
+ * assessment into a truth score in [-1, 1] with a calibrated confidence and per-factor breakdown
+ */
+
+import { assessMultipleSources, type CredibilityAssessment } from './source-credibility'
+import { getStanceForClaim, summarizeStances, type StanceSummary } from './stance-detection'
+import { ratingToScore, RATING_SCALE, type NormalizedRating } from './fact-check-ratings'
+
+export type VerdictLabel = 'True' | 'False' | 'Mixed' | 'Unclear'
+
+export interface Verdict {
+  label: string
+  confidence: number
+  summary: string
+}
+
+export interface VerdictFactor {
+  factor: 'stance' | 'credibility' | 'recency' | 'factCheckRatings' | 'modelAssessment'
+  score: number | null // -1 (refutes) to +1 (supports); null when the factor had no input
+  weight: number // Evidence mass the factor contributed to the combined score
+  description: string
+}
+
+export interface ClaimVerdictScore {
+  claimId?: number | string
+  label: VerdictLabel
+  confidence: number
+  score: number
+  evidenceMass: number
+  summary: string
+  factors: VerdictFactor[]
+  stanceSummary: StanceSummary
+}
+
+export interface OverallVerdictScore {
+  label: VerdictLabel
+  confidence: number
+  score: number
+  evidenceMass: number
+  summary: string
+  claims: ClaimVerdictScore[]
+  modelVersion: string
+}
+
+export interface FactCheckRating {
+  publisher?: string
+  rating?: string
+  url?: string
+}
+
+/**
+ * Tunable model parameters; adjust against labelled checks rather than in code paths
+ */
+export const VERDICT_MODEL_CONFIG = {
+  version: '1.0',
+  // Evidence mass per fully confident fact-check rating from a fully credible publisher
+  factCheckWeight: 2.0,
+  // Evidence mass of the LLM's own verdict at confidence 1
+  modelAssessmentWeight: 1.5,
+  // Score thresholds for True/False; anything in between is Mixed
+  decisiveScore: 0.5,
+  // Below this much evidence mass the verdict is Unclear
+  minEvidenceMass: 0.75,
+  // Evidence mass at which confidence is ~63% saturated
+  confidenceScale: 3,
+  // Recency half-life in years per source type
+  recencyHalfLifeYears: { news: 2, factcheck: 3, social: 1, academic: 10, government: 5, encyclopedia: 5, default: 5 } as { [type: string]: number },
+  // Weight used when a source has no usable date
+  undatedRecency: 0.85,
+  priorityWeights: { high: 1.5, medium: 1, low: 0.6 } as { [priority: string]: number }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value))
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// Model labels sit on the fact-check rating scale, so "Misleading" scores like a fact-checker's misleading rating
+function labelToScore(label?: string): number | null {
+  const rating = (label || '').toLowerCase().replace(/\s+/g, '_')
+  return Object.keys(RATING_SCALE).includes(rating) ? RATING_SCALE[rating as NormalizedRating].score : null
+}
+
+export function sourceDate(source: any): string | undefined {
+  return source.publishedAt || source.metadata?.date || source.metadata?.reviewDate || source.reviewedAt
+}
+
+/**
+ * Exponential recency decay with a half-life that depends on the source type
+ */
+export function recencyWeight(source: any, sourceType?: string): number {
+  const date = sourceDate(source)
+  if (!date) return VERDICT_MODEL_CONFIG.undatedRecency
+
+  const timestamp = new Date(date).getTime()
+  if (isNaN(timestamp)) return VERDICT_MODEL_CONFIG.undatedRecency
+
+  const ageYears = Math.max(0, (Date.now() - timestamp) / (365 * 24 * 60 * 60 * 1000))
+  const halfLife = VERDICT_MODEL_CONFIG.recencyHalfLifeYears[sourceType || source.type] || VERDICT_MODEL_CONFIG.recencyHalfLifeYears.default
+
+  // Never let age alone discount a source by more than half
+  return 0.5 + 0.5 * Math.pow(0.5, ageYears / halfLife)
+}
+
+function isRatedFactCheck(source: any): boolean {
+  return source.type === 'factcheck' && ratingToScore(source.metadata?.rating, source.publisher) !== null
+}
+
+function evidenceStrength(mass: number): number {
+  return 1 - Math.exp(-mass / VERDICT_MODEL_CONFIG.confidenceScale)
+}
+
+/**
+ * Turn a combined score and evidence mass into a label and calibrated confidence.
+ * Confidence grows with evidence mass (saturating) and with how one-sided the score is.
+ */
+function labelFromScore(score: number, mass: number): { label: VerdictLabel, confidence: number } {
+  const strength = evidenceStrength(mass)
+
+  if (mass < VERDICT_MODEL_CONFIG.minEvidenceMass) {
+    return { label: 'Unclear', confidence: round(0.3 + 0.1 * strength) }
+  }
+
+  if (Math.abs(score) >= VERDICT_MODEL_CONFIG.decisiveScore) {
+    return {
+      label: score > 0 ? 'True' : 'False',
+      confidence: round(clamp(0.5 + 0.45 * strength * Math.abs(score), 0.5, 0.95))
+    }
+  }
+
+  return { label: 'Mixed', confidence: round(clamp(0.4 + 0.3 * strength * (1 - Math.abs(score)), 0.4, 0.7)) }
+}
+
+/**
+ * Score a single claim from its sources, fact-check ratings and the model's verdict
+ */
+export function scoreClaimVerdict(
+  claim: { id?: number | string, text?: string },
+  sources: any[],
+  factCheckRatings: FactCheckRating[] = [],
+  modelVerdict?: Verdict | null
+): ClaimVerdictScore {
+  const assessments = assessMultipleSources(sources.map(source => ({
+    url: source.url,
+    title: source.title,
+    publishedDate: sourceDate(source)
+  })))
+  const assessmentByUrl = new Map<string, CredibilityAssessment>()
+  sources.forEach((source, index) => assessmentByUrl.set(source.url, assessments[index]))
+
+  const credibilityOf = (source: any) => (assessmentByUrl.get(source.url)?.score ?? 50) / 100
+  const recencyOf = (source: any) => recencyWeight(source, assessmentByUrl.get(source.url)?.sourceType)
+
+  // Rated fact-checks count through their rating, not a second time through stance
+  const stanceSources = sources.filter(source => !isRatedFactCheck(source))
+  const decisiveSources = stanceSources.filter(source => {
+    const stance = getStanceForClaim(source, claim.id)
+    return stance && stance.label !== 'neutral'
+  })
+
+  const rawStance = summarizeStances(stanceSources, claim.id)
+  const credibilityStance = summarizeStances(stanceSources, claim.id, credibilityOf)
+  const weightedStance = summarizeStances(stanceSources, claim.id, source => credibilityOf(source) * recencyOf(source))
+
+  const balance = (summary: StanceSummary) => {
+    const total = summary.weightedSupport + summary.weightedRefute
+    return total > 0 ? (summary.weightedSupport - summary.weightedRefute) / total : null
+  }
+  const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null
+
+  const stanceMass = weightedStance.weightedSupport + weightedStance.weightedRefute
+  const stanceScore = balance(weightedStance)
+
+  // Fact-check ratings, from review records and from fact-check sources in the results
+  const ratings: Array<FactCheckRating & { score: number, credibility: number }> = []
+  for (const review of factCheckRatings) {
+    const score = ratingToScore(review.rating, review.publisher)
+    if (score === null) continue
+    const credibility = review.url ? assessMultipleSources([{ url: review.url }])[0].score / 100 : 0.8
+    ratings.push({ ...review, score, credibility })
+  }
+  for (const source of sources.filter(isRatedFactCheck)) {
+    if (ratings.some(rating => rating.url && rating.url === source.url)) continue
+    ratings.push({
+      publisher: source.publisher,
+      rating: source.metadata.rating,
+      url: source.url,
+      score: ratingToScore(source.metadata.rating, source.publisher)!,
+      credibility: credibilityOf(source)
+    })
+  }
+  const ratingMass = ratings.reduce((sum, rating) => sum + VERDICT_MODEL_CONFIG.factCheckWeight * rating.credibility, 0)
+  const ratingScore = ratingMass > 0
+    ? ratings.reduce((sum, rating) => sum + rating.score * VERDICT_MODEL_CONFIG.factCheckWeight * rating.credibility, 0) / ratingMass
+    : null
+
+  const modelScore = labelToScore(modelVerdict?.label)
+  const modelMass = modelScore !== null ? VERDICT_MODEL_CONFIG.modelAssessmentWeight * clamp(modelVerdict!.confidence, 0, 1) : 0
+
+  const evidenceMass = stanceMass + ratingMass + modelMass
+  const score = evidenceMass > 0
+    ? ((stanceScore ?? 0) * stanceMass + (ratingScore ?? 0) * ratingMass + (modelScore ?? 0) * modelMass) / evidenceMass
+    : 0
+
+  const { label, confidence } = labelFromScore(score, evidenceMass)
+
+  const meanCredibility = mean(decisiveSources.map(credibilityOf))
+  const meanRecency = mean(decisiveSources.map(recencyOf))
+
+  const factors: VerdictFactor[] = [
+    {
+      factor: 'stance',
+      score: balance(rawStance) === null ? null : round(balance(rawStance)!),
+      weight: round(rawStance.weightedSupport + rawStance.weightedRefute),
+      description: `${rawStance.supporting} supporting, ${rawStance.refuting} refuting, ${rawStance.neutral} neutral sources`
+    },
+    {
+      factor: 'credibility',
+      score: balance(credibilityStance) === null ? null : round(balance(credibilityStance)!),
+      weight: round(credibilityStance.weightedSupport + credibilityStance.weightedRefute),
+      description: meanCredibility === null
+        ? 'No stance-bearing sources to weight'
+        : `Stance weighted by source credibility (mean ${Math.round(meanCredibility * 100)}/100)`
+    },
+    {
+      factor: 'recency',
+      score: stanceScore === null ? null : round(stanceScore),
+      weight: round(stanceMass),
+      description: meanRecency === null
+        ? 'No stance-bearing sources to weight'
+        : `Credibility-weighted stance discounted for age (mean recency weight ${meanRecency.toFixed(2)})`
+    },
+    {
+      factor: 'factCheckRatings',
+      score: ratingScore === null ? null : round(ratingScore),
+      weight: round(ratingMass),
+      description: ratings.length === 0
+        ? 'No interpretable fact-checker ratings'
+        : `${ratings.length} fact-checker rating${ratings.length === 1 ? '' : 's'}: ${ratings.slice(0, 3).map(r => `${r.publisher || 'Unknown'} "${r.rating}"`).join(', ')}`
+    },
+    {
+      factor: 'modelAssessment',
+      score: modelScore,
+      weight: round(modelMass),
+      description: modelVerdict
+        ? `Model verdict ${modelVerdict.label} at ${Math.round(modelVerdict.confidence * 100)}% confidence`
+        : 'No model verdict'
+    }
+  ]
+
+  return {
+    claimId: claim.id,
+    label,
+    confidence,
+    score: round(score),
+    evidenceMass: round(evidenceMass),
+    summary: summarizeClaim(label, weightedStance, ratings.length),
+    factors,
+    stanceSummary: rawStance
+  }
+}
+
+function summarizeClaim(label: VerdictLabel, stance: StanceSummary, ratingCount: number): string {
+  const evidence = `${stance.supporting} supporting and ${stance.refuting} refuting sources` +
+    (ratingCount > 0 ? `, ${ratingCount} fact-checker rating${ratingCount === 1 ? '' : 's'}` : '')
+
+  switch (label) {
+    case 'True': return `Credible evidence supports this claim (${evidence})`
+    case 'False': return `Credible evidence contradicts this claim (${evidence})`
+    case 'Mixed': return `Evidence on this claim is divided (${evidence})`
+    default: return `Insufficient evidence for verification (${evidence})`
+  }
+}
+
+/**
+ * Combine per-claim scores into an overall verdict. Claims are weighted by priority
+ * and evidence mass; confidently true and confidently false claims together make it Mixed.
+ */
+export function aggregateClaimVerdicts(claimScores: ClaimVerdictScore[], priorities: Array<string | undefined> = []): OverallVerdictScore {
+  const base = { claims: claimScores, modelVersion: VERDICT_MODEL_CONFIG.version }
+
+  if (claimScores.length === 0) {
+    return { ...base, label: 'Unclear', confidence: 0.3, score: 0, evidenceMass: 0, summary: 'No claims could be verified' }
+  }
+
+  let weightedScore = 0
+  let totalWeight = 0
+  let evidenceMass = 0
+  claimScores.forEach((claimScore, index) => {
+    const weight = (VERDICT_MODEL_CONFIG.priorityWeights[priorities[index] || 'medium'] ?? 1) * claimScore.evidenceMass
+    weightedScore += claimScore.score * weight
+    totalWeight += weight
+    evidenceMass += claimScore.evidenceMass
+  })
+
+  const score = totalWeight > 0 ? weightedScore / totalWeight : 0
+  const trueClaims = claimScores.filter(c => c.label === 'True').length
+  const falseClaims = claimScores.filter(c => c.label === 'False').length
+
+  let { label, confidence } = labelFromScore(score, evidenceMass)
+  if (trueClaims > 0 && falseClaims > 0) {
+    label = 'Mixed'
+    confidence = round(clamp(0.5 + 0.2 * evidenceStrength(evidenceMass), 0.5, 0.7))
+  }
+
+  const summary = claimScores.length === 1
+    ? claimScores[0].summary
+    : label === 'Mixed'
+      ? `Claims have mixed verification results (${trueClaims} true, ${falseClaims} false of ${claimScores.length})`
+      : label === 'Unclear'
+        ? 'Insufficient evidence for verification'
+        : `Credibility-weighted evidence indicates the claims are ${label.toLowerCase()} (${label === 'True' ? trueClaims : falseClaims} of ${claimScores.length} claims)`
+
+  return { ...base, label, confidence, score: round(score), evidenceMass: round(evidenceMass), summary }
+}
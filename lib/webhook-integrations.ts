@@ -1,5 +1,5 @@
 // Pre-built webhook integrations for popular services
-import { type WebhookPayload } from './webhook-manager'
+import { type WebhookPayload, type WebhookEvent, type WebhookFormat } from './webhook-manager'
 
 export interface SlackMessage {
   text?: string
@@ -56,7 +56,87 @@ export interface DiscordMessage {
   avatar_url?: string
 }
 
+// Microsoft Teams incoming webhook message carrying one Adaptive Card
+export interface TeamsMessage {
+  type: 'message'
+  attachments: {
+    contentType: 'application/vnd.microsoft.card.adaptive'
+    contentUrl: null
+    content: AdaptiveCard
+  }[]
+}
+
+export interface AdaptiveCard {
+  $schema: string
+  type: 'AdaptiveCard'
+  version: string
+  body: any[]
+  msteams?: {
+    width: 'Full'
+  }
+}
+
+export interface TeamsFact {
+  title: string
+  value: string
+}
+
+// CloudEvents 1.0, structured content mode
+export interface CloudEvent {
+  specversion: '1.0'
+  id: string
+  source: string
+  type: string
+  time: string
+  datacontenttype: 'application/json'
+  subject?: string
+  data: any
+}
+
+export interface RenderedWebhookPayload {
+  contentType: string
+  body: any
+}
+
 export class WebhookIntegrations {
+  // Body and Content-Type sent to a webhook with the given format
+  static renderPayload(format: WebhookFormat, payload: WebhookPayload, deliveryId: string): RenderedWebhookPayload {
+    try {
+      switch (format) {
+        case 'slack':
+          return { contentType: 'application/json', body: this.formatSlackMessage(payload) }
+
+        case 'discord':
+          return { contentType: 'application/json', body: this.formatDiscordMessage(payload) }
+
+        case 'teams':
+          return { contentType: 'application/json', body: this.formatTeamsMessage(payload) }
+
+        case 'cloudevents':
+          return { contentType: 'application/cloudevents+json; charset=utf-8', body: this.formatCloudEvent(payload, deliveryId) }
+
+        default:
+          return { contentType: 'application/json', body: payload }
+      }
+    } catch (error) {
+      // Event-specific formatters expect the usual data shape; anything else gets the generic message
+      console.warn(`[Webhook] Falling back to generic ${format} message for ${payload.event}:`, error instanceof Error ? error.message : error)
+      switch (format) {
+        case 'slack':
+          return { contentType: 'application/json', body: this.formatSlackGeneric(payload) }
+
+        case 'discord':
+          return { contentType: 'application/json', body: this.formatDiscordGeneric(payload) }
+
+        case 'teams':
+          return { contentType: 'application/json', body: this.formatTeamsGeneric(payload) }
+
+        default:
+          throw error
+      }
+    }
+  }
+
   // Convert SourceHound webhook payload to Slack message
   static formatSlackMessage(payload: WebhookPayload): SlackMessage {
     switch (payload.event) {
@@ -103,6 +183,48 @@ export class WebhookIntegrations {
     }
   }
 
+  // Convert SourceHound webhook payload to a Microsoft Teams Adaptive Card message
+  static formatTeamsMessage(payload: WebhookPayload): TeamsMessage {
+    switch (payload.event) {
+      case 'fact_check.completed':
+        return this.formatTeamsFactCheckCompleted(payload)
+
+      case 'fact_check.failed':
+        return this.formatTeamsFactCheckFailed(payload)
+
+      case 'user.registered':
+        return this.formatTeamsUserRegistered(payload)
+
+      case 'collaboration.started':
+        return this.formatTeamsCollaborationStarted(payload)
+
+      case 'rate_limit.exceeded':
+        return this.formatTeamsRateLimitExceeded(payload)
+
+      default:
+        return this.formatTeamsGeneric(payload)
+    }
+  }
+
+  // Wrap SourceHound webhook payload in a CloudEvents 1.0 envelope
+  static formatCloudEvent(payload: WebhookPayload, deliveryId: string): CloudEvent {
+    const appUrl = (process.env.APP_URL || 'https://sourcehound.dev').replace(/\/$/, '')
+
+    return {
+      specversion: '1.0',
+      id: deliveryId,
+      source: `${appUrl}/api/webhooks/${payload.webhookId}`,
+      type: `dev.sourcehound.${payload.event}`,
+      time: new Date(payload.timestamp).toISOString(),
+      datacontenttype: 'application/json',
+      subject: payload.user?.id,
+      data: {
+        ...payload.data,
+        user: payload.user
+      }
+    }
+  }
+
   // Slack formatters
   private static formatSlackFactCheckCompleted(payload: WebhookPayload): SlackMessage {
     const data = payload.data
@@ -139,12 +261,12 @@ export class WebhookIntegrations {
           },
           {
             title: 'Processing Time',
-            value: `${(data.processingTime / 1000).toFixed(1)}s`,
+            value: `${((data.processingTime ?? data.processingTimeMs ?? 0) / 1000).toFixed(1)}s`,
             short: true
           },
           {
             title: 'Sources Found',
-            value: data.sources?.length || 0,
+            value: data.sources?.length ?? data.sourceCount ?? 0,
             short: true
           }
         ],
@@ -316,12 +438,12 @@ export class WebhookIntegrations {
           },
           {
             name: 'Processing Time',
-            value: `${(data.processingTime / 1000).toFixed(1)}s`,
+            value: `${((data.processingTime ?? data.processingTimeMs ?? 0) / 1000).toFixed(1)}s`,
             inline: true
           },
           {
             name: 'Sources',
-            value: `${data.sources?.length || 0} sources analyzed`,
+            value: `${data.sources?.length ?? data.sourceCount ?? 0} sources analyzed`,
             inline: true
           }
         ],
@@ -474,10 +596,226 @@ export class WebhookIntegrations {
     }
   }
 
+  // Microsoft Teams formatters
+  private static buildTeamsCard(title: string, text: string, color: string, facts: TeamsFact[], timestamp: number): TeamsMessage {
+    return {
+      type: 'message',
+      attachments: [{
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        contentUrl: null,
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          body: [
+            {
+              type: 'TextBlock',
+              text: title,
+              size: 'Large',
+              weight: 'Bolder',
+              color,
+              wrap: true
+            },
+            {
+              type: 'TextBlock',
+              text,
+              isSubtle: true,
+              spacing: 'None',
+              wrap: true
+            },
+            {
+              type: 'FactSet',
+              facts
+            },
+            {
+              type: 'TextBlock',
+              text: `SourceHound · ${new Date(timestamp).toUTCString()}`,
+              size: 'Small',
+              isSubtle: true,
+              wrap: true
+            }
+          ],
+          msteams: {
+            width: 'Full'
+          }
+        }
+      }]
+    }
+  }
+
+  private static formatTeamsFactCheckCompleted(payload: WebhookPayload): TeamsMessage {
+    const data = payload.data
+    const verdict = data.verdict
+    const user = payload.user
+
+    const color = verdict.label === 'True' ? 'Good' :
+                 verdict.label === 'False' ? 'Attention' : 'Warning'
+
+    return this.buildTeamsCard(
+      '🔍 Fact-Check Completed',
+      `Results for query by ${user?.username || 'Anonymous'}`,
+      color,
+      [
+        { title: 'Query', value: data.query },
+        { title: 'Verdict', value: verdict.label },
+        { title: 'Confidence', value: `${Math.round(verdict.confidence * 100)}%` },
+        { title: 'Processing Time', value: `${((data.processingTime ?? data.processingTimeMs ?? 0) / 1000).toFixed(1)}s` },
+        { title: 'Sources', value: `${data.sources?.length ?? data.sourceCount ?? 0} sources analyzed` }
+      ],
+      payload.timestamp
+    )
+  }
+
+  private static formatTeamsFactCheckFailed(payload: WebhookPayload): TeamsMessage {
+    const data = payload.data
+    const user = payload.user
+
+    return this.buildTeamsCard(
+      '🚨 Fact-Check Failed',
+      `Error occurred during fact-check for ${user?.username || 'Anonymous'}`,
+      'Attention',
+      [
+        { title: 'Query', value: data.query },
+        { title: 'Error', value: data.error }
+      ],
+      payload.timestamp
+    )
+  }
+
+  private static formatTeamsUserRegistered(payload: WebhookPayload): TeamsMessage {
+    const user = payload.user
+
+    return this.buildTeamsCard(
+      '🎉 New User Registered',
+      'Welcome to SourceHound!',
+      'Good',
+      [
+        { title: 'Username', value: user?.username || 'Unknown' },
+        { title: 'Tier', value: (user?.tier || 'free').toUpperCase() }
+      ],
+      payload.timestamp
+    )
+  }
+
+  private static formatTeamsCollaborationStarted(payload: WebhookPayload): TeamsMessage {
+    const data = payload.data
+    const user = payload.user
+
+    return this.buildTeamsCard(
+      '👥 Collaboration Started',
+      'New collaboration session initiated',
+      'Accent',
+      [
+        { title: 'Conversation ID', value: data.conversationId },
+        { title: 'Started by', value: user?.username || 'Unknown' }
+      ],
+      payload.timestamp
+    )
+  }
+
+  private static formatTeamsRateLimitExceeded(payload: WebhookPayload): TeamsMessage {
+    const data = payload.data
+    const user = payload.user
+
+    return this.buildTeamsCard(
+      '🚫 Rate Limit Exceeded',
+      'Rate limit reached for user',
+      'Warning',
+      [
+        { title: 'User', value: user?.username || 'Anonymous' },
+        { title: 'Limit Type', value: data.limitType || data.tier || 'Unknown' },
+        { title: 'Path', value: data.path || 'Unknown' }
+      ],
+      payload.timestamp
+    )
+  }
+
+  private static formatTeamsGeneric(payload: WebhookPayload): TeamsMessage {
+    return this.buildTeamsCard(
+      `🔔 ${payload.event.replace('_', ' ')}`,
+      'Event triggered in SourceHound',
+      'Accent',
+      Object.entries(payload.data || {})
+        .filter(([, value]) => value !== undefined && value !== null)
+        .slice(0, 10)
+        .map(([title, value]) => ({
+          title,
+          value: typeof value === 'object' ? JSON.stringify(value).substring(0, 200) : String(value)
+        })),
+      payload.timestamp
+    )
+  }
+
+  // Example payload for each event, in the shape the app sends it; used by the preview endpoint
+  static getSamplePayload(event: WebhookEvent, webhookId: string, user?: { id: string, username: string, tier: string }): WebhookPayload {
+    const now = Date.now()
+    const sampleUser = user || { id: 'user_sample', username: 'sample_user', tier: 'premium' }
+    const sampleData: { [event in WebhookEvent]: any } = {
+      'fact_check.completed': {
+        query: 'The Great Wall of China is visible from space with the naked eye',
+        verdict: {
+          label: 'False',
+          confidence: 0.92,
+          summary: 'Astronauts report the wall is not visible to the naked eye from low Earth orbit.'
+        },
+        keyFindings: ['The wall is narrow and similar in color to its surroundings'],
+        sources: [
+          { title: 'Is the Great Wall visible from space? - NASA', url: 'https://www.nasa.gov/', credibilityScore: 96 }
+        ],
+        processingTime: 8400,
+        slug: 'great-wall-visible-from-space'
+      },
+      'fact_check.failed': {
+        query: 'The Great Wall of China is visible from space with the naked eye',
+        error: 'All fact-check engines timed out',
+        timestamp: now
+      },
+      'user.registered': {
+        userId: sampleUser.id,
+        registeredAt: new Date(now).toISOString()
+      },
+      'user.login': {
+        userId: sampleUser.id,
+        loginAt: new Date(now).toISOString()
+      },
+      'collaboration.started': {
+        conversationId: 'conv_sample',
+        participants: [sampleUser.id]
+      },
+      'collaboration.ended': {
+        conversationId: 'conv_sample',
+        durationMs: 25 * 60 * 1000
+      },
+      'rate_limit.exceeded': {
+        identifier: `user:${sampleUser.id}`,
+        path: '/api/fact-check-hybrid',
+        tier: sampleUser.tier,
+        limit: 100,
+        resetTime: new Date(now + 60 * 60 * 1000).toISOString(),
+        retryAfter: 3600,
+        timestamp: now
+      },
+      'system.health': {
+        status: 'degraded',
+        services: { database: 'ok', redis: 'ok', perplexity: 'timeout' },
+        timestamp: now
+      }
+    }
+
+    return {
+      event,
+      timestamp: now,
+      webhookId,
+      data: sampleData[event],
+      user: sampleUser
+    }
+  }
+
   // Get integration-specific webhook templates
   static getSlackTemplate(eventType: string): Partial<any> {
     return {
       name: `Slack - ${eventType}`,
+      format: 'slack',
       url: 'https://hooks.slack.com/services/YOUR/SLACK/WEBHOOK',
       events: [eventType],
       headers: {
@@ -494,6 +832,7 @@ export class WebhookIntegrations {
   static getDiscordTemplate(eventType: string): Partial<any> {
     return {
       name: `Discord - ${eventType}`,
+      format: 'discord',
       url: 'https://discord.com/api/webhooks/YOUR/DISCORD/WEBHOOK',
       events: [eventType],
       headers: {
@@ -510,6 +849,7 @@ export class WebhookIntegrations {
   static getMicrosoftTeamsTemplate(eventType: string): Partial<any> {
     return {
       name: `Teams - ${eventType}`,
+      format: 'teams',
       url: 'https://outlook.office.com/webhook/YOUR/TEAMS/WEBHOOK',
       events: [eventType],
       headers: {
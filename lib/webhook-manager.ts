@@ -1,7 +1,11 @@
 // Webhook management system for third-party integrations
-import { redis } from './db'
+import { redis, db } from './db'
 import { authManager } from './auth'
+import { WebhookIntegrations } from './webhook-integrations'
+import { extractDomain, normalizeMediaDomain } from './mediarank'
+import { countInFlight } from './queue-workers'
 import crypto from 'crypto'
+import vm from 'vm'
 
 export interface Webhook {
   id: string
@@ -9,6 +13,7 @@ export interface Webhook {
   name: string
   url: string
   events: WebhookEvent[]
+  format?: WebhookFormat // Body shape sent to the URL; defaults to 'raw'
   secret?: string
   active: boolean
   headers?: { [key: string]: string }
@@ -25,12 +30,36 @@ export interface Webhook {
     successfulDeliveries: number
     failedDeliveries: number
   }
-  filters?: {
-    userIds?: string[]
-    queryPatterns?: string[]
-    verdictLabels?: string[]
-    confidenceThreshold?: number
-  }
+  filters?: WebhookFilters
+}
+
+// Every configured filter must pass; list filters pass when any entry matches
+export interface WebhookFilters {
+  userIds?: string[]
+  queryPatterns?: string[] // Case-insensitive substrings
+  queryRegexes?: string[] // Case-insensitive regular expressions
+  verdictLabels?: string[]
+  confidenceThreshold?: number
+  domains?: string[] // Query classifier domain (QueryContext.domain), e.g. 'biomedical'
+  sourceDomains?: string[] // Cited source hosts; subdomains match too
+  sourceTypes?: string[] // Cited source types, e.g. 'academic', 'news'
+  hasFactCheckReviews?: boolean // Whether professional fact-check reviews were found
+}
+
+export interface FilterDryRunResult {
+  evaluated: number
+  matched: number
+  ignored: (keyof WebhookFilters)[] // Filters that can't be evaluated against cached results
+  results: {
+    query: string
+    domain: string | null
+    variant: string
+    verdict?: string
+    confidence?: number
+    createdAt: Date
+    matched: boolean
+    failedFilter: keyof WebhookFilters | null
+  }[]
 }
 
 export type WebhookEvent = 
@@ -43,6 +72,17 @@ export type WebhookEvent =
   | 'rate_limit.exceeded'
   | 'system.health'
 
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'fact_check.completed', 'fact_check.failed', 'user.registered',
+  'user.login', 'collaboration.started', 'collaboration.ended',
+  'rate_limit.exceeded', 'system.health'
+]
+
+// raw: the WebhookPayload as-is; teams: an Adaptive Card message; cloudevents: CloudEvents 1.0 structured JSON
+export type WebhookFormat = 'raw' | 'slack' | 'discord' | 'teams' | 'cloudevents'
+
+export const WEBHOOK_FORMATS: WebhookFormat[] = ['raw', 'slack', 'discord', 'teams', 'cloudevents']
+
 export interface WebhookPayload {
   event: WebhookEvent
   timestamp: number
@@ -66,6 +106,18 @@ export interface WebhookDelivery {
   status: 'pending' | 'success' | 'failed' | 'retry'
   createdAt: Date
   completedAt?: Date
+  // Backoff state, persisted so retries survive worker restarts
+  failedAttempts?: number // Failures since the delivery was (re)queued
+  nextAttemptAt?: Date
+  deadLetteredAt?: Date
+  redeliveredAt?: Date
+}
+
+// An event waiting for the worker to match it against webhooks
+interface QueuedWebhookEvent {
+  event: WebhookEvent
+  data: any
+  user?: { id: string, username: string, tier: string }
 }
 
 export interface WebhookAttempt {
@@ -77,6 +129,153 @@ export interface WebhookAttempt {
   duration: number
 }
 
+// Redis structures consumed by the delivery worker (lib/webhook-worker.ts)
+export const WEBHOOK_QUEUES = {
+  ready: 'webhook_delivery_queue', // Queued event and delivery IDs due now
+  processing: 'webhook_delivery_processing', // Prefix for each worker's in-flight list
+  retry: 'webhook_delivery_retry', // Sorted set of delivery IDs by next attempt time
+  deadLetter: 'webhook_delivery_dead_letter' // Deliveries that exhausted their retries
+}
+
+const MAX_QUERY_REGEXES = 20
+const MAX_QUERY_REGEX_LENGTH = 200
+// Total time one event's query regexes may take before the filter counts as failed
+const QUERY_REGEX_TIME_BUDGET_MS = 50
+
+/**
+ * Filterable facts about a fact-check result's evidence, sent with fact_check.completed
+ * so source filters work without shipping every source in the payload
+ */
+export function summarizeFactCheckSources(result: { sources?: any[], factCheckReviews?: any[] }): {
+  sourceDomains: string[]
+  sourceTypes: string[]
+  factCheckReviewCount: number
+} {
+  const sources = result.sources || []
+  const sourceDomains = new Set<string>()
+  const sourceTypes = new Set<string>()
+
+  for (const source of sources) {
+    const domain = source?.url ? extractDomain(source.url) : null
+    if (domain) sourceDomains.add(domain)
+    sourceTypes.add(source?.type || source?.sourceType || 'general')
+  }
+
+  return {
+    sourceDomains: Array.from(sourceDomains),
+    sourceTypes: Array.from(sourceTypes),
+    factCheckReviewCount: result.factCheckReviews?.length || 0
+  }
+}
+
+// Error message for filters that can't be saved, or null
+export function validateWebhookFilters(filters: WebhookFilters): string | null {
+  const listFilters: (keyof WebhookFilters)[] = ['userIds', 'queryPatterns', 'queryRegexes', 'verdictLabels', 'domains', 'sourceDomains', 'sourceTypes']
+  for (const name of listFilters) {
+    const value = filters[name]
+    if (value !== undefined && (!Array.isArray(value) || value.some(entry => typeof entry !== 'string'))) {
+      return `filters.${name} must be an array of strings`
+    }
+  }
+
+  if (filters.confidenceThreshold !== undefined && typeof filters.confidenceThreshold !== 'number') {
+    return 'filters.confidenceThreshold must be a number'
+  }
+
+  if (filters.hasFactCheckReviews !== undefined && typeof filters.hasFactCheckReviews !== 'boolean') {
+    return 'filters.hasFactCheckReviews must be a boolean'
+  }
+
+  const regexes = filters.queryRegexes || []
+  if (regexes.length > MAX_QUERY_REGEXES) {
+    return `At most ${MAX_QUERY_REGEXES} query regexes are allowed`
+  }
+  for (const pattern of regexes) {
+    if (pattern.length > MAX_QUERY_REGEX_LENGTH) {
+      return `Query regexes must be at most ${MAX_QUERY_REGEX_LENGTH} characters`
+    }
+    try {
+      new RegExp(pattern, 'i')
+    } catch {
+      return `Invalid query regex: ${pattern}`
+    }
+    const unsafe = findBacktrackingHazard(pattern)
+    if (unsafe) {
+      return `Query regex ${pattern} is not allowed: ${unsafe}`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Constructs that make JavaScript's backtracking engine exponential on crafted input:
+ * backreferences, lookarounds, and repeated groups that themselves contain a quantifier
+ * or alternation, like (a+)+ or (a|aa)*. Returns why the pattern is rejected, or null.
+ */
+export function findBacktrackingHazard(pattern: string): string | null {
+  if (/\\[1-9]|\\k</.test(pattern)) return 'backreferences are not supported'
+  if (/\(\?<?[=!]/.test(pattern)) return 'lookarounds are not supported'
+
+  // One entry per open group: whether it contains a quantifier or alternation
+  const groups: boolean[] = []
+  let inClass = false
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '\\') {
+      i++
+      continue
+    }
+    if (inClass) {
+      if (char === ']') inClass = false
+      continue
+    }
+
+    if (char === '[') {
+      inClass = true
+    } else if (char === '(') {
+      groups.push(false)
+      // Skip the "?:" or "?<name>" of non-capturing and named groups
+      if (pattern[i + 1] === '?') {
+        i = pattern[i + 2] === '<' ? pattern.indexOf('>', i) : i + 2
+      }
+    } else if (char === ')') {
+      const ambiguous = groups.pop() || false
+      const repeated = /^(\*|\+|\{\d*,\d*\}|\{\d{2,}\}|\{[2-9]\})/.test(pattern.substring(i + 1))
+      if (ambiguous && repeated) return 'repeated groups cannot contain quantifiers or alternation'
+      // A group's own quantifier makes its parent ambiguous too
+      if (groups.length > 0 && (ambiguous || repeated)) groups[groups.length - 1] = true
+    } else if ((char === '*' || char === '+' || char === '?' || char === '{' || char === '|') && groups.length > 0) {
+      groups[groups.length - 1] = true
+    }
+  }
+
+  return null
+}
+
+/**
+ * Run query regexes in a throwaway VM context with a time budget, so a slow pattern
+ * that got past findBacktrackingHazard can't stall the worker; a timeout is no match
+ */
+function matchesQueryRegexes(patterns: string[], query: string): boolean {
+  try {
+    return vm.runInNewContext(
+      'patterns.some(pattern => { try { return new RegExp(pattern, "i").test(query) } catch (e) { return false } })',
+      { patterns, query },
+      { timeout: QUERY_REGEX_TIME_BUDGET_MS }
+    ) === true
+  } catch (error) {
+    console.error(`[Webhook] Query regex filter gave up after ${QUERY_REGEX_TIME_BUDGET_MS}ms:`, error instanceof Error ? error.message : error)
+    return false
+  }
+}
+
+const DELIVERY_TTL = 7 * 24 * 60 * 60 // 7 days
+const QUEUED_EVENT_PREFIX = 'event_'
+const DEAD_LETTER_TTL = 30 * 24 * 60 * 60 // Dead letters are kept longer so they can be redelivered
+const DEAD_LETTER_LIMIT = 10000
+
 class WebhookManager {
   // Create new webhook
   async createWebhook(userId: string, webhookData: Partial<Webhook>): Promise<{ webhook: Webhook | null, error: string | null }> {
@@ -94,17 +293,20 @@ class WebhookManager {
       }
 
       // Validate events
-      const validEvents: WebhookEvent[] = [
-        'fact_check.completed', 'fact_check.failed', 'user.registered', 
-        'user.login', 'collaboration.started', 'collaboration.ended',
-        'rate_limit.exceeded', 'system.health'
-      ]
-      
-      const invalidEvents = webhookData.events!.filter(event => !validEvents.includes(event))
+      const invalidEvents = webhookData.events!.filter(event => !WEBHOOK_EVENTS.includes(event))
       if (invalidEvents.length > 0) {
         return { webhook: null, error: `Invalid events: ${invalidEvents.join(', ')}` }
       }
 
+      if (webhookData.format && !WEBHOOK_FORMATS.includes(webhookData.format)) {
+        return { webhook: null, error: `Invalid format: ${webhookData.format}. Use one of: ${WEBHOOK_FORMATS.join(', ')}` }
+      }
+
+      const filterError = webhookData.filters ? validateWebhookFilters(webhookData.filters) : null
+      if (filterError) {
+        return { webhook: null, error: filterError }
+      }
+
       // Check user's webhook limit
       const userWebhooks = await this.getUserWebhooks(userId)
       const user = await authManager.getUserById(userId)
@@ -125,6 +327,7 @@ class WebhookManager {
         name: webhookData.name,
         url: webhookData.url,
         events: webhookData.events,
+        format: webhookData.format || 'raw',
         secret,
         active: webhookData.active ?? true,
         headers: webhookData.headers || {},
@@ -219,6 +422,14 @@ class WebhookManager {
         }
       }
 
+      if (updates.format && !WEBHOOK_FORMATS.includes(updates.format)) {
+        return false
+      }
+
+      if (updates.filters && validateWebhookFilters(updates.filters)) {
+        return false
+      }
+
       // Update webhook
       const updatedWebhook = {
         ...webhook,
@@ -292,18 +503,47 @@ class WebhookManager {
   }
 
   // Trigger webhook event
+  // Queue the event for the delivery worker, which applies each webhook's filters off the request path
   async triggerEvent(event: WebhookEvent, data: any, user?: any): Promise<void> {
     try {
-      // Get webhooks subscribed to this event
-      const webhookIds = await redis.smembers(`webhooks_by_event:${event}`)
-      
-      if (webhookIds.length === 0) {
+      if (await redis.scard(`webhooks_by_event:${event}`) === 0) {
         return
       }
 
+      const eventId = `${QUEUED_EVENT_PREFIX}${Date.now()}_${crypto.randomBytes(6).toString('hex')}`
+      const queued: QueuedWebhookEvent = {
+        event,
+        data,
+        user: user ? { id: user.id, username: user.username, tier: user.tier } : undefined
+      }
+
+      await redis.setex(`webhook_event:${eventId}`, DELIVERY_TTL, JSON.stringify(queued))
+      await redis.lpush(WEBHOOK_QUEUES.ready, eventId)
+    } catch (error) {
+      console.error('Error triggering webhook event:', error)
+    }
+  }
+
+  // The worker's ready queue holds both queued events and deliveries
+  async processQueueEntry(entryId: string): Promise<void> {
+    if (entryId.startsWith(QUEUED_EVENT_PREFIX)) {
+      await this.fanOutEvent(entryId)
+    } else {
+      await this.processDelivery(entryId)
+    }
+  }
+
+  // Create a delivery for every active, subscribed webhook whose filters the event passes
+  private async fanOutEvent(eventId: string): Promise<void> {
+    try {
+      const stored = await redis.get(`webhook_event:${eventId}`)
+      if (!stored) return
+
+      const { event, data, user }: QueuedWebhookEvent = JSON.parse(stored)
+      const webhookIds = await redis.smembers(`webhooks_by_event:${event}`)
+
       console.log(`[Webhook] Triggering ${event} event for ${webhookIds.length} webhooks`)
 
-      // Process each webhook
       for (const webhookId of webhookIds) {
         const webhook = await this.getWebhook(webhookId)
         if (!webhook || !webhook.active) {
@@ -315,11 +555,12 @@ class WebhookManager {
           continue
         }
 
-        // Create and queue delivery
         await this.queueDelivery(webhook, event, data, user)
       }
+
+      await redis.del(`webhook_event:${eventId}`)
     } catch (error) {
-      console.error('Error triggering webhook event:', error)
+      console.error('Error fanning out webhook event:', error)
     }
   }
 
@@ -327,41 +568,129 @@ class WebhookManager {
   private passesFilters(webhook: Webhook, event: WebhookEvent, data: any, user?: any): boolean {
     if (!webhook.filters) return true
 
-    const filters = webhook.filters
+    return this.findFailedFilter(webhook.filters, data, user) === null
+  }
 
+  // First filter the event data fails, or null when it passes them all
+  findFailedFilter(filters: WebhookFilters, data: any, user?: any): keyof WebhookFilters | null {
     // User ID filter
     if (filters.userIds && filters.userIds.length > 0) {
       if (!user || !filters.userIds.includes(user.id)) {
-        return false
+        return 'userIds'
       }
     }
 
     // Query pattern filter
     if (filters.queryPatterns && filters.queryPatterns.length > 0) {
-      if (!data.query) return false
+      if (!data.query) return 'queryPatterns'
       
       const queryLower = data.query.toLowerCase()
       const hasMatch = filters.queryPatterns.some(pattern => 
         queryLower.includes(pattern.toLowerCase())
       )
-      if (!hasMatch) return false
+      if (!hasMatch) return 'queryPatterns'
+    }
+
+    // Query regex filter
+    if (filters.queryRegexes && filters.queryRegexes.length > 0) {
+      if (!data.query) return 'queryRegexes'
+
+      if (!matchesQueryRegexes(filters.queryRegexes, data.query)) return 'queryRegexes'
     }
 
     // Verdict label filter
     if (filters.verdictLabels && filters.verdictLabels.length > 0) {
       if (!data.verdict || !filters.verdictLabels.includes(data.verdict.label)) {
-        return false
+        return 'verdictLabels'
       }
     }
 
     // Confidence threshold filter
     if (filters.confidenceThreshold !== undefined) {
       if (!data.verdict || data.verdict.confidence < filters.confidenceThreshold) {
-        return false
+        return 'confidenceThreshold'
+      }
+    }
+
+    // Classified domain filter
+    if (filters.domains && filters.domains.length > 0) {
+      if (!data.domain || !filters.domains.includes(data.domain)) {
+        return 'domains'
       }
     }
 
-    return true
+    // Cited source domain filter
+    if (filters.sourceDomains && filters.sourceDomains.length > 0) {
+      const cited: string[] = data.sourceDomains || []
+      const wanted = filters.sourceDomains.map(normalizeMediaDomain)
+      const hasMatch = cited.some(domain =>
+        wanted.some(target => domain === target || domain.endsWith(`.${target}`))
+      )
+      if (!hasMatch) return 'sourceDomains'
+    }
+
+    // Source type filter
+    const wantedTypes = filters.sourceTypes || []
+    if (wantedTypes.length > 0) {
+      const types: string[] = data.sourceTypes || []
+      if (!types.some(type => wantedTypes.includes(type))) {
+        return 'sourceTypes'
+      }
+    }
+
+    // Professional fact-check review filter
+    if (filters.hasFactCheckReviews !== undefined) {
+      if (data.factCheckReviewCount === undefined || (data.factCheckReviewCount > 0) !== filters.hasFactCheckReviews) {
+        return 'hasFactCheckReviews'
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Run filters against recently cached fact-check results, in the shape a
+   * fact_check.completed payload would have, without delivering anything
+   */
+  async dryRunFilters(filters: WebhookFilters, limit: number = 50): Promise<FilterDryRunResult> {
+    const rows = await db.factCheckCache.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: { query: true, domain: true, variant: true, result: true, createdAt: true }
+    })
+
+    // Cached results aren't tied to the user who ran them
+    const ignored: (keyof WebhookFilters)[] = filters.userIds?.length ? ['userIds'] : []
+    const applied: WebhookFilters = { ...filters, userIds: undefined }
+
+    const results = rows.map(row => {
+      const result = (row.result || {}) as any
+      const data = {
+        query: row.query,
+        domain: row.domain,
+        verdict: result.verdict,
+        ...summarizeFactCheckSources(result)
+      }
+      const failedFilter = this.findFailedFilter(applied, data)
+
+      return {
+        query: row.query,
+        domain: row.domain,
+        variant: row.variant,
+        verdict: result.verdict?.label,
+        confidence: result.verdict?.confidence,
+        createdAt: row.createdAt,
+        matched: failedFilter === null,
+        failedFilter
+      }
+    })
+
+    return {
+      evaluated: results.length,
+      matched: results.filter(result => result.matched).length,
+      ignored,
+      results
+    }
   }
 
   // Queue webhook delivery
@@ -400,90 +729,194 @@ class WebhookManager {
       }
 
       // Store delivery
-      await redis.setex(
-        `webhook_delivery:${webhook.id}:${deliveryId}`,
-        7 * 24 * 60 * 60, // 7 days
-        JSON.stringify(delivery)
-      )
-
-      // Queue for processing
-      await redis.lpush('webhook_delivery_queue', deliveryId)
+      await this.saveDelivery(delivery, DELIVERY_TTL)
 
-      // Process delivery immediately (in background)
-      setImmediate(() => this.processDelivery(deliveryId))
+      // Queue for the delivery worker
+      await redis.lpush(WEBHOOK_QUEUES.ready, deliveryId)
 
     } catch (error) {
       console.error('Error queuing webhook delivery:', error)
     }
   }
 
-  // Process webhook delivery
-  private async processDelivery(deliveryId: string): Promise<void> {
+  private async saveDelivery(delivery: WebhookDelivery, ttlSeconds: number): Promise<void> {
+    const key = `webhook_delivery:${delivery.webhookId}:${delivery.id}`
+    await redis.pipeline()
+      .setex(key, ttlSeconds, JSON.stringify(delivery))
+      // Lets the worker find a delivery from the bare ID on the queue
+      .setex(`webhook_delivery_ref:${delivery.id}`, ttlSeconds, key)
+      .exec()
+  }
+
+  async getDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
     try {
-      // Find delivery record
-      const deliveryKeys = await redis.keys(`webhook_delivery:*:${deliveryId}`)
-      if (deliveryKeys.length === 0) {
-        return
+      let key = await redis.get(`webhook_delivery_ref:${deliveryId}`)
+      if (!key) {
+        // Deliveries queued before the reference key existed
+        const deliveryKeys = await redis.keys(`webhook_delivery:*:${deliveryId}`)
+        key = deliveryKeys[0] || null
       }
+      if (!key) return null
 
-      const deliveryData = await redis.get(deliveryKeys[0])
-      if (!deliveryData) {
+      const deliveryData = await redis.get(key)
+      return deliveryData ? JSON.parse(deliveryData) : null
+    } catch (error) {
+      console.error('Error getting webhook delivery:', error)
+      return null
+    }
+  }
+
+  /**
+   * Make one attempt at a queued delivery (called by the delivery worker). Failures are
+   * rescheduled with exponential backoff; exhausted deliveries go to the dead-letter list.
+   */
+  async processDelivery(deliveryId: string): Promise<void> {
+    try {
+      const delivery = await this.getDelivery(deliveryId)
+      if (!delivery || delivery.status === 'success' || delivery.status === 'failed') {
         return
       }
 
-      const delivery: WebhookDelivery = JSON.parse(deliveryData)
       const webhook = await this.getWebhook(delivery.webhookId)
-      
-      if (!webhook) {
+      if (!webhook || !webhook.active) {
+        // Nothing left to deliver to; not worth a dead letter
+        delivery.status = 'failed'
+        delivery.completedAt = new Date()
+        delivery.nextAttemptAt = undefined
+        await this.saveDelivery(delivery, DELIVERY_TTL)
         return
       }
 
-      // Attempt delivery
-      let success = false
-      let attempt = 1
-      
-      while (attempt <= webhook.retryConfig.maxRetries && !success) {
-        const attemptResult = await this.attemptDelivery(webhook, delivery, attempt)
-        delivery.attempts.push(attemptResult)
-
-        if (attemptResult.httpStatus && attemptResult.httpStatus >= 200 && attemptResult.httpStatus < 300) {
-          success = true
-          delivery.status = 'success'
-          delivery.completedAt = new Date()
-          
-          // Update webhook stats
-          await this.updateWebhookStats(webhook.id, true)
-          
-          console.log(`[Webhook] Delivery ${deliveryId} succeeded on attempt ${attempt}`)
-        } else {
-          attempt++
-          if (attempt <= webhook.retryConfig.maxRetries) {
-            // Wait before retry with exponential backoff
-            const delay = webhook.retryConfig.retryDelayMs * Math.pow(webhook.retryConfig.backoffMultiplier, attempt - 2)
-            await new Promise(resolve => setTimeout(resolve, delay))
-          }
-        }
-      }
+      const attemptResult = await this.attemptDelivery(webhook, delivery, delivery.attempts.length + 1)
+      delivery.attempts.push(attemptResult)
 
-      if (!success) {
-        delivery.status = 'failed'
+      if (attemptResult.httpStatus && attemptResult.httpStatus >= 200 && attemptResult.httpStatus < 300) {
+        delivery.status = 'success'
         delivery.completedAt = new Date()
-        await this.updateWebhookStats(webhook.id, false)
-        console.log(`[Webhook] Delivery ${deliveryId} failed after ${webhook.retryConfig.maxRetries} attempts`)
+        delivery.nextAttemptAt = undefined
+        await this.saveDelivery(delivery, DELIVERY_TTL)
+
+        // Update webhook stats
+        await this.updateWebhookStats(webhook.id, true)
+
+        console.log(`[Webhook] Delivery ${deliveryId} succeeded on attempt ${delivery.attempts.length}`)
+        return
       }
 
-      // Update delivery record
-      await redis.setex(
-        deliveryKeys[0],
-        7 * 24 * 60 * 60,
-        JSON.stringify(delivery)
-      )
+      delivery.failedAttempts = (delivery.failedAttempts || 0) + 1
+
+      if (delivery.failedAttempts < webhook.retryConfig.maxRetries) {
+        // Exponential backoff: retryDelayMs, then x backoffMultiplier per failure
+        const delay = webhook.retryConfig.retryDelayMs * Math.pow(webhook.retryConfig.backoffMultiplier, delivery.failedAttempts - 1)
+        const nextAttemptAt = Date.now() + delay
+        delivery.status = 'retry'
+        delivery.nextAttemptAt = new Date(nextAttemptAt)
+        await this.saveDelivery(delivery, DELIVERY_TTL)
+        await redis.zadd(WEBHOOK_QUEUES.retry, nextAttemptAt, deliveryId)
+
+        console.log(`[Webhook] Delivery ${deliveryId} failed (attempt ${delivery.attempts.length}), retrying in ${delay}ms`)
+        return
+      }
 
+      delivery.status = 'failed'
+      delivery.completedAt = new Date()
+      delivery.nextAttemptAt = undefined
+      delivery.deadLetteredAt = new Date()
+      await this.saveDelivery(delivery, DEAD_LETTER_TTL)
+      await redis.pipeline()
+        .lrem(WEBHOOK_QUEUES.deadLetter, 0, deliveryId)
+        .lpush(WEBHOOK_QUEUES.deadLetter, deliveryId)
+        .ltrim(WEBHOOK_QUEUES.deadLetter, 0, DEAD_LETTER_LIMIT - 1)
+        .exec()
+      await this.updateWebhookStats(webhook.id, false)
+
+      console.log(`[Webhook] Delivery ${deliveryId} dead-lettered after ${delivery.failedAttempts} failed attempts`)
     } catch (error) {
       console.error('Error processing webhook delivery:', error)
     }
   }
 
+  /**
+   * Move retries whose backoff has elapsed back onto the ready queue
+   */
+  async promoteDueRetries(limit: number = 100): Promise<number> {
+    const dueIds = await redis.zrangebyscore(WEBHOOK_QUEUES.retry, '-inf', Date.now(), 'LIMIT', 0, limit)
+    let promoted = 0
+
+    for (const deliveryId of dueIds) {
+      // Only the worker that removes the entry requeues it
+      if (await redis.zrem(WEBHOOK_QUEUES.retry, deliveryId) === 1) {
+        await redis.lpush(WEBHOOK_QUEUES.ready, deliveryId)
+        promoted++
+      }
+    }
+
+    return promoted
+  }
+
+  // Dead-lettered deliveries for a user's webhooks (optionally one webhook), newest first
+  async getDeadLetters(userId: string, webhookId?: string, limit: number = 50): Promise<WebhookDelivery[]> {
+    try {
+      const ownedIds = new Set(await redis.smembers(`user_webhooks:${userId}`))
+      const deliveryIds = await redis.lrange(WEBHOOK_QUEUES.deadLetter, 0, -1)
+      const deliveries: WebhookDelivery[] = []
+
+      for (const deliveryId of deliveryIds) {
+        if (deliveries.length >= limit) break
+
+        const delivery = await this.getDelivery(deliveryId)
+        if (!delivery || !ownedIds.has(delivery.webhookId)) continue
+        if (webhookId && delivery.webhookId !== webhookId) continue
+
+        deliveries.push(delivery)
+      }
+
+      return deliveries
+    } catch (error) {
+      console.error('Error getting dead-lettered deliveries:', error)
+      return []
+    }
+  }
+
+  // Requeue a finished delivery (usually a dead letter) with a fresh retry budget
+  async redeliver(deliveryId: string, userId: string): Promise<{ delivery: WebhookDelivery | null, error: string | null }> {
+    try {
+      const delivery = await this.getDelivery(deliveryId)
+      const webhook = delivery ? await this.getWebhook(delivery.webhookId) : null
+      if (!delivery || !webhook || webhook.userId !== userId) {
+        return { delivery: null, error: 'Delivery not found' }
+      }
+
+      if (delivery.status === 'pending' || delivery.status === 'retry') {
+        return { delivery: null, error: 'Delivery is still in progress' }
+      }
+
+      if (!webhook.active) {
+        return { delivery: null, error: 'Webhook is inactive' }
+      }
+
+      delivery.status = 'pending'
+      delivery.failedAttempts = 0
+      delivery.completedAt = undefined
+      delivery.deadLetteredAt = undefined
+      delivery.redeliveredAt = new Date()
+      // Point at the webhook's current URL in case it was fixed since
+      delivery.url = webhook.url
+
+      await this.saveDelivery(delivery, DELIVERY_TTL)
+      await redis.pipeline()
+        .lrem(WEBHOOK_QUEUES.deadLetter, 0, deliveryId)
+        .lpush(WEBHOOK_QUEUES.ready, deliveryId)
+        .exec()
+
+      console.log(`[Webhook] Delivery ${deliveryId} requeued for redelivery`)
+      return { delivery, error: null }
+    } catch (error) {
+      console.error('Error redelivering webhook:', error)
+      return { delivery: null, error: 'Failed to requeue delivery' }
+    }
+  }
+
   // Attempt single webhook delivery
   private async attemptDelivery(webhook: Webhook, delivery: WebhookDelivery, attemptNumber: number): Promise<WebhookAttempt> {
     const startTime = Date.now()
@@ -494,25 +927,34 @@ class WebhookManager {
     }
 
     try {
+      // Rendered at send time, so a format change also applies to pending retries
+      const format = webhook.format || 'raw'
+      const rendered = WebhookIntegrations.renderPayload(format, delivery.payload, delivery.id)
+      const body = JSON.stringify(rendered.body)
+
       // Prepare headers
       const headers: { [key: string]: string } = {
-        'Content-Type': 'application/json',
+        'Content-Type': rendered.contentType,
         'User-Agent': 'SourceHound-Webhook/1.0',
         'X-Webhook-Event': delivery.event,
         'X-Webhook-ID': webhook.id,
         'X-Delivery-ID': delivery.id,
+        'X-Webhook-Format': format,
         ...webhook.headers
       }
 
-      if (delivery.payload.signature) {
+      if (format === 'raw' && delivery.payload.signature) {
         headers['X-Hub-Signature-256'] = `sha256=${delivery.payload.signature}`
+      } else if (format !== 'raw' && webhook.secret) {
+        // Formatted bodies don't carry the payload signature, so sign the bytes actually sent
+        headers['X-Hub-Signature-256'] = `sha256=${this.generateSignature(body, webhook.secret)}`
       }
 
       // Make HTTP request
       const response = await fetch(webhook.url, {
         method: 'POST',
         headers,
-        body: JSON.stringify(delivery.payload),
+        body,
         signal: AbortSignal.timeout(30000) // 30 second timeout
       })
 
@@ -592,6 +1034,17 @@ class WebhookManager {
     }
   }
 
+  // Queue depths for the delivery worker
+  async getDeliveryQueueStats(): Promise<{ ready: number, processing: number, retry: number, deadLetter: number }> {
+    const [ready, processing, retry, deadLetter] = await Promise.all([
+      redis.llen(WEBHOOK_QUEUES.ready),
+      countInFlight(WEBHOOK_QUEUES),
+      redis.zcard(WEBHOOK_QUEUES.retry),
+      redis.llen(WEBHOOK_QUEUES.deadLetter)
+    ])
+    return { ready, processing, retry, deadLetter }
+  }
+
   // Get system webhook statistics
   async getWebhookStats(): Promise<any> {
     try {
@@ -634,7 +1087,8 @@ class WebhookManager {
         totalDeliveries,
         successfulDeliveries,
         failedDeliveries,
-        successRate: totalDeliveries > 0 ? (successfulDeliveries / totalDeliveries) * 100 : 0
+        successRate: totalDeliveries > 0 ? (successfulDeliveries / totalDeliveries) * 100 : 0,
+        queues: await this.getDeliveryQueueStats()
       }
     } catch (error) {
       console.error('Error getting webhook stats:', error)
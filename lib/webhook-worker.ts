@@ -0,0 +1,105 @@
+// Webhook delivery worker: filters queued events and sends deliveries outside the request that triggered them
+import { Redis } from 'ioredis'
+import { redis } from './db'
+import { webhookManager, WEBHOOK_QUEUES } from './webhook-manager'
+import {
+  createWorkerId,
+  processingListKey,
+  sendHeartbeat,
+  unregisterWorker,
+  recoverDeadWorkers,
+  HEARTBEAT_INTERVAL_MS
+} from './queue-workers'
+
+export interface WebhookWorkerOptions {
+  concurrency?: number // Deliveries in flight at once
+  pollTimeoutSeconds?: number // How long each loop blocks waiting for work
+}
+
+export class WebhookDeliveryWorker {
+  private running = false
+  private workerId = createWorkerId()
+  private connections: Redis[] = []
+  private loops: Promise<void>[] = []
+  private heartbeatTimer: NodeJS.Timeout | null = null
+
+  constructor(private options: WebhookWorkerOptions = {}) {}
+
+  async start(): Promise<void> {
+    if (this.running) return
+    this.running = true
+
+    await sendHeartbeat(WEBHOOK_QUEUES, this.workerId)
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), HEARTBEAT_INTERVAL_MS)
+    await this.recoverInFlight()
+
+    const concurrency = this.options.concurrency || 4
+    for (let i = 0; i < concurrency; i++) {
+      // Blocking pops hold their connection, so each loop gets its own
+      const connection = redis.duplicate({ commandTimeout: undefined })
+      this.connections.push(connection)
+      this.loops.push(this.run(connection))
+    }
+
+    console.log(`[WebhookWorker] Started ${this.workerId} with concurrency ${concurrency}`)
+  }
+
+  // Finish in-flight deliveries, then close the blocking connections
+  async stop(): Promise<void> {
+    if (!this.running) return
+    this.running = false
+
+    await Promise.all(this.loops)
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer)
+    await unregisterWorker(WEBHOOK_QUEUES, this.workerId)
+    this.connections.forEach(connection => connection.disconnect())
+    this.connections = []
+    this.loops = []
+
+    console.log('[WebhookWorker] Stopped')
+  }
+
+  private async heartbeat(): Promise<void> {
+    try {
+      await sendHeartbeat(WEBHOOK_QUEUES, this.workerId)
+      await this.recoverInFlight()
+    } catch (error) {
+      console.error('[WebhookWorker] Heartbeat failed:', error)
+    }
+  }
+
+  /**
+   * Each worker moves deliveries to its own processing list while working on them, so a
+   * crash leaves them there rather than losing them. Only lists of workers whose heartbeat
+   * has expired are requeued; a delivery in flight when its worker died may be sent twice
+   * (receivers can dedupe on X-Delivery-ID).
+   */
+  private async recoverInFlight(): Promise<void> {
+    const recovered = await recoverDeadWorkers(WEBHOOK_QUEUES)
+    if (recovered > 0) {
+      console.log(`[WebhookWorker] Requeued ${recovered} deliveries left in flight by a stopped worker`)
+    }
+  }
+
+  private async run(connection: Redis): Promise<void> {
+    const timeout = this.options.pollTimeoutSeconds || 5
+    const processing = processingListKey(WEBHOOK_QUEUES, this.workerId)
+
+    while (this.running) {
+      try {
+        await webhookManager.promoteDueRetries()
+
+        // Events to match against webhooks, or deliveries to send
+        const entryId = await connection.brpoplpush(WEBHOOK_QUEUES.ready, processing, timeout)
+        if (!entryId) continue
+
+        await webhookManager.processQueueEntry(entryId)
+        await redis.lrem(processing, 1, entryId)
+      } catch (error) {
+        console.error('[WebhookWorker] Delivery loop error:', error)
+        // Back off so a Redis outage doesn't become a hot loop
+        await new Promise(resolve => setTimeout(resolve, 1000))
+      }
+    }
+  }
+}
@@ -1,8 +1,13 @@
 // WebSocket server for real-time collaboration
+// Runs in the standalone collaboration service (workers/collaboration-server.ts); instances share
+// presence and message history in Redis and fan broadcasts out to each other over pub/sub
 import { WebSocketServer, WebSocket } from 'ws'
-import { IncomingMessage } from 'http'
+import { IncomingMessage, Server } from 'http'
+import { Redis } from 'ioredis'
+import crypto from 'crypto'
 import { redis } from './db'
-import { rateLimiter, RATE_LIMIT_TIERS } from './rate-limiter'
+import { authManager, type User } from './auth'
+import { rateLimiter } from './rate-limiter'
 
 export interface CollaborationMessage {
   type: 'join' | 'leave' | 'message' | 'typing' | 'presence' | 'sync'
@@ -24,45 +29,192 @@ export interface UserPresence {
 export interface CollaborationSession {
   conversationId: string
   participants: Map<string, UserPresence>
+  connections: Map<WebSocket, string> // Socket -> userId, for sockets on this instance
   lastActivity: number
   messages: CollaborationMessage[]
 }
 
+// Stored by POST /api/collaboration; only the creator and invited users may join
+export interface CollaborationSessionRecord {
+  conversationId: string
+  createdBy: string
+  invitedUserIds: string[]
+  createdAt: number
+  settings: {
+    maxParticipants: number
+    readOnly: boolean
+  }
+}
+
+// Envelope published between instances
+interface CollaborationBroadcast {
+  origin: string
+  conversationId: string
+  message: CollaborationMessage
+  excludeUserId?: string
+}
+
+export const COLLABORATION_WS_PATH = '/api/collaboration/ws'
+
+const BROADCAST_CHANNEL = 'collaboration:broadcast'
+const ACTIVE_CONVERSATIONS_KEY = 'collaboration:active_conversations'
+const PRESENCE_TTL = 24 * 60 * 60 // 24 hours
+
+export async function getCollaborationSession(conversationId: string): Promise<CollaborationSessionRecord | null> {
+  const data = await redis.get(`collaboration:session:${conversationId}`)
+  return data ? JSON.parse(data) : null
+}
+
+export function canJoinCollaborationSession(session: CollaborationSessionRecord, userId: string): boolean {
+  return session.createdBy === userId || (session.invitedUserIds || []).includes(userId)
+}
+
+/**
+ * Clients on another origin pass the short-lived ?token= issued by POST /api/collaboration;
+ * same-site browsers send the auth-token cookie and other clients an Authorization: Bearer header
+ */
+async function authenticateConnection(request: IncomingMessage, url: URL, conversationId: string) {
+  const collaborationToken = url.searchParams.get('token')
+  if (collaborationToken) {
+    return authManager.verifyCollaborationToken(collaborationToken, conversationId)
+  }
+
+  const authHeader = request.headers.authorization
+  if (authHeader?.startsWith('Bearer ')) {
+    return authManager.verifyToken(authHeader.slice(7))
+  }
+
+  const cookie = (request.headers.cookie || '')
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith('auth-token='))
+  return cookie ? authManager.verifyToken(decodeURIComponent(cookie.slice('auth-token='.length))) : null
+}
+
 class CollaborationManager {
   private sessions = new Map<string, CollaborationSession>()
-  private userConnections = new Map<string, Set<WebSocket>>()
   private wss: WebSocketServer | null = null
+  private subscriber: Redis | null = null
+  private cleanupTimer: NodeJS.Timeout | null = null
+  private instanceId = crypto.randomBytes(8).toString('hex')
 
-  initialize(server: any) {
-    this.wss = new WebSocketServer({ 
+  initialize(server: Server) {
+    this.wss = new WebSocketServer({
       server,
-      path: '/api/collaboration/ws'
+      path: COLLABORATION_WS_PATH
     })
 
     this.wss.on('connection', (ws: WebSocket, request: IncomingMessage) => {
-      this.handleConnection(ws, request)
+      this.handleConnection(ws, request).catch(error => {
+        console.error('[Collaboration] Connection setup failed:', error)
+        ws.close(1011, 'Internal error')
+      })
+    })
+
+    // Subscribing takes the connection over, so pub/sub gets its own
+    this.subscriber = redis.duplicate()
+    this.subscriber.on('message', (channel: string, raw: string) => {
+      if (channel === BROADCAST_CHANNEL) this.handleBroadcast(raw)
+    })
+    // Subscribe on every (re)connect so an instance started while Redis was down still joins in
+    this.subscriber.on('ready', () => {
+      this.subscriber?.subscribe(BROADCAST_CHANNEL).catch(error => {
+        console.error('[Collaboration] Failed to subscribe to broadcasts:', error)
+      })
     })
 
     // Cleanup inactive sessions every 5 minutes
-    setInterval(() => this.cleanupInactiveSessions(), 5 * 60 * 1000)
+    this.cleanupTimer = setInterval(() => this.cleanupInactiveSessions(), 5 * 60 * 1000)
 
-    console.log('WebSocket collaboration server initialized')
+    console.log(`[Collaboration] WebSocket server initialized (instance ${this.instanceId})`)
+  }
+
+  // Close every socket on this instance (their presence is removed as they close) and stop listening
+  async shutdown(): Promise<void> {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer)
+      this.cleanupTimer = null
+    }
+
+    const closing: Promise<void>[] = []
+    for (const session of this.sessions.values()) {
+      for (const ws of session.connections.keys()) {
+        closing.push(new Promise(resolve => {
+          ws.once('close', () => resolve())
+          ws.close(1001, 'Server shutting down')
+        }))
+      }
+    }
+    // Leave handlers run on close; don't wait forever on sockets that never answer
+    await Promise.race([Promise.all(closing), new Promise(resolve => setTimeout(resolve, 5000))])
+
+    await new Promise<void>(resolve => this.wss ? this.wss.close(() => resolve()) : resolve())
+    this.wss = null
+    this.subscriber?.disconnect()
+    this.subscriber = null
   }
 
   private async handleConnection(ws: WebSocket, request: IncomingMessage) {
-    console.log('New WebSocket connection established')
-    
     // Extract connection info
-    const url = new URL(request.url!, `http://${request.headers.host}`)
+    const url = new URL(request.url || '/', `http://${request.headers.host}`)
     const conversationId = url.searchParams.get('conversationId')
-    const userId = url.searchParams.get('userId') || `anonymous_${Date.now()}`
-    const username = url.searchParams.get('username') || 'Anonymous User'
 
     if (!conversationId) {
       ws.close(1008, 'Conversation ID required')
       return
     }
 
+    // Handlers go on before any await, or frames sent right after 'open' would be dropped.
+    // They wait behind `ready`, which settles with the joined identity, or null if refused.
+    let settle: (identity: { userId: string } | null) => void = () => undefined
+    const ready = new Promise<{ userId: string } | null>(resolve => { settle = resolve })
+
+    // Set up message handlers
+    ws.on('message', async (data) => {
+      const identity = await ready
+      if (!identity) return
+      try {
+        const message: CollaborationMessage = JSON.parse(data.toString())
+        await this.handleMessage(conversationId, identity.userId, message, ws)
+      } catch (error) {
+        console.error('Error handling WebSocket message:', error)
+        ws.send(JSON.stringify({
+          type: 'error',
+          data: { message: 'Invalid message format' }
+        }))
+      }
+    })
+
+    // Handle disconnection
+    ws.on('close', async () => {
+      const identity = await ready
+      if (identity) await this.removeUserFromConversation(conversationId, identity.userId, ws)
+    })
+
+    let user: User | null
+    try {
+      user = await this.admitConnection(ws, request, url, conversationId)
+    } catch (error) {
+      console.error('[Collaboration] Error admitting connection:', error)
+      ws.close(1011, 'Internal error')
+      user = null
+    }
+
+    if (!user) {
+      settle(null)
+      return
+    }
+
+    // Add user to conversation
+    await this.addUserToConversation(conversationId, user.id, user.fullName || user.username, ws)
+    settle({ userId: user.id })
+
+    // Send initial sync
+    await this.sendInitialSync(conversationId, user.id, ws)
+  }
+
+  // Rate limit, authenticate and authorize a new connection; closes it and returns null if refused
+  private async admitConnection(ws: WebSocket, request: IncomingMessage, url: URL, conversationId: string): Promise<User | null> {
     // Rate limiting for WebSocket connections
     const clientIP = this.getClientIP(request)
     try {
@@ -77,51 +229,47 @@ class CollaborationManager {
 
       if (!rateLimitResult.allowed) {
         ws.close(1008, 'Rate limit exceeded')
-        return
+        return null
       }
     } catch (error) {
       console.error('Rate limit error for WebSocket:', error)
       // Continue without rate limiting if Redis fails
     }
 
-    // Add user to conversation
-    await this.addUserToConversation(conversationId, userId, username, ws)
+    // Identity comes from the auth session, never from the client
+    const authSession = await authenticateConnection(request, url, conversationId)
+    const user = authSession ? await authManager.getUserById(authSession.userId) : null
 
-    // Set up message handlers
-    ws.on('message', async (data) => {
-      try {
-        const message: CollaborationMessage = JSON.parse(data.toString())
-        await this.handleMessage(conversationId, userId, message, ws)
-      } catch (error) {
-        console.error('Error handling WebSocket message:', error)
-        ws.send(JSON.stringify({
-          type: 'error',
-          message: 'Invalid message format'
-        }))
-      }
-    })
+    if (!user) {
+      ws.close(1008, 'Authentication required')
+      return null
+    }
 
-    // Handle disconnection
-    ws.on('close', async () => {
-      await this.removeUserFromConversation(conversationId, userId, ws)
-    })
+    const collaborationSession = await getCollaborationSession(conversationId)
+    if (!collaborationSession) {
+      ws.close(1008, 'Collaboration session not found')
+      return null
+    }
+    if (!canJoinCollaborationSession(collaborationSession, user.id)) {
+      ws.close(1008, 'Not invited to this conversation')
+      return null
+    }
 
-    // Send initial sync
-    await this.sendInitialSync(conversationId, userId, ws)
+    return user
   }
 
   private getClientIP(request: IncomingMessage): string {
     const forwarded = request.headers['x-forwarded-for'] as string
     const realIP = request.headers['x-real-ip'] as string
     const cfIP = request.headers['cf-connecting-ip'] as string
-    
-    return forwarded?.split(',')[0].trim() || realIP || cfIP || '127.0.0.1'
+
+    return forwarded?.split(',')[0].trim() || realIP || cfIP || request.socket.remoteAddress || '127.0.0.1'
   }
 
   private async addUserToConversation(
-    conversationId: string, 
-    userId: string, 
-    username: string, 
+    conversationId: string,
+    userId: string,
+    username: string,
     ws: WebSocket
   ) {
     // Get or create session
@@ -130,6 +278,7 @@ class CollaborationManager {
       session = {
         conversationId,
         participants: new Map(),
+        connections: new Map(),
         lastActivity: Date.now(),
         messages: []
       }
@@ -143,23 +292,23 @@ class CollaborationManager {
       lastSeen: Date.now(),
       isTyping: false
     })
+    session.connections.set(ws, userId)
 
-    // Track user connection
-    if (!this.userConnections.has(userId)) {
-      this.userConnections.set(userId, new Set())
-    }
-    this.userConnections.get(userId)!.add(ws)
-
-    // Store in Redis for persistence
+    // Presence lives in Redis so every instance sees the same participants; the connection
+    // count keeps a user present while any of their tabs is open on any instance
     try {
-      await redis.hset(`collaboration:${conversationId}`, userId, JSON.stringify({
-        userId,
-        username,
-        joinedAt: Date.now(),
-        lastSeen: Date.now()
-      }))
-      
-      await redis.expire(`collaboration:${conversationId}`, 24 * 60 * 60) // 24 hours
+      await redis.pipeline()
+        .hset(`collaboration:${conversationId}`, userId, JSON.stringify({
+          userId,
+          username,
+          joinedAt: Date.now(),
+          lastSeen: Date.now()
+        }))
+        .expire(`collaboration:${conversationId}`, PRESENCE_TTL)
+        .hincrby(`collaboration:connections:${conversationId}`, userId, 1)
+        .expire(`collaboration:connections:${conversationId}`, PRESENCE_TTL)
+        .sadd(ACTIVE_CONVERSATIONS_KEY, conversationId)
+        .exec()
     } catch (error) {
       console.error('Error storing collaboration data in Redis:', error)
     }
@@ -172,66 +321,68 @@ class CollaborationManager {
       username,
       data: {
         action: 'joined',
-        participants: Array.from(session.participants.values())
+        participants: await this.getConversationParticipants(conversationId)
       },
       timestamp: Date.now()
     }, userId) // Exclude the user who just joined
 
-    console.log(`User ${username} (${userId}) joined conversation ${conversationId}`)
+    console.log(`[Collaboration] User ${username} (${userId}) joined conversation ${conversationId}`)
   }
 
   private async removeUserFromConversation(
-    conversationId: string, 
-    userId: string, 
+    conversationId: string,
+    userId: string,
     ws: WebSocket
   ) {
     const session = this.sessions.get(conversationId)
     if (!session) return
 
+    session.connections.delete(ws)
+
+    // Another tab on this instance is still connected
+    if (Array.from(session.connections.values()).includes(userId)) return
+
     // Remove user presence
     const user = session.participants.get(userId)
     session.participants.delete(userId)
 
-    // Remove connection
-    const userConnections = this.userConnections.get(userId)
-    if (userConnections) {
-      userConnections.delete(ws)
-      if (userConnections.size === 0) {
-        this.userConnections.delete(userId)
-      }
-    }
-
-    // Update Redis
+    // Update Redis, unless the user is still connected through another instance
+    let stillConnected = false
     try {
-      await redis.hdel(`collaboration:${conversationId}`, userId)
+      const remaining = await redis.hincrby(`collaboration:connections:${conversationId}`, userId, -1)
+      stillConnected = remaining > 0
+      if (!stillConnected) {
+        await redis.pipeline()
+          .hdel(`collaboration:connections:${conversationId}`, userId)
+          .hdel(`collaboration:${conversationId}`, userId)
+          .exec()
+        if (await redis.hlen(`collaboration:${conversationId}`) === 0) {
+          await redis.srem(ACTIVE_CONVERSATIONS_KEY, conversationId)
+        }
+      }
     } catch (error) {
       console.error('Error removing collaboration data from Redis:', error)
     }
 
     // Notify other participants
-    if (user) {
+    if (user && !stillConnected) {
       await this.broadcastToConversation(conversationId, {
         type: 'presence',
         conversationId,
         userId,
         data: {
           action: 'left',
-          participants: Array.from(session.participants.values())
+          participants: await this.getConversationParticipants(conversationId)
         },
         timestamp: Date.now()
       })
 
-      console.log(`User ${user.username} (${userId}) left conversation ${conversationId}`)
+      console.log(`[Collaboration] User ${user.username} (${userId}) left conversation ${conversationId}`)
     }
 
     // Clean up empty sessions
-    if (session.participants.size === 0) {
+    if (session.connections.size === 0) {
       this.sessions.delete(conversationId)
-      try {
-        await redis.del(`collaboration:${conversationId}`)
-      } catch (error) {
-        console.error('Error cleaning up collaboration session:', error)
-      }
     }
   }
 
@@ -245,7 +396,7 @@ class CollaborationManager {
     if (!session) {
       ws.send(JSON.stringify({
         type: 'error',
-        message: 'Conversation not found'
+        data: { message: 'Conversation not found' }
       }))
       return
     }
@@ -254,7 +405,7 @@ class CollaborationManager {
     if (!user) {
       ws.send(JSON.stringify({
         type: 'error',
-        message: 'User not in conversation'
+        data: { message: 'User not in conversation' }
       }))
       return
     }
@@ -267,11 +418,11 @@ class CollaborationManager {
       case 'typing':
         await this.handleTypingIndicator(conversationId, userId, message.data?.isTyping || false)
         break
-      
+
       case 'message':
-        await this.handleChatMessage(conversationId, userId, message)
+        await this.handleChatMessage(conversationId, user, message)
         break
-      
+
       case 'sync':
         await this.handleSyncRequest(conversationId, userId, ws)
         break
@@ -306,12 +457,22 @@ class CollaborationManager {
 
   private async handleChatMessage(
     conversationId: string,
-    userId: string,
-    message: CollaborationMessage
+    user: UserPresence,
+    incoming: CollaborationMessage
   ) {
     const session = this.sessions.get(conversationId)
     if (!session) return
 
+    // Sender fields come from the connection so clients can't post as someone else
+    const message: CollaborationMessage = {
+      type: 'message',
+      conversationId,
+      userId: user.userId,
+      username: user.username,
+      data: incoming.data,
+      timestamp: Date.now()
+    }
+
     // Store message in session
     session.messages.push(message)
 
@@ -352,41 +513,85 @@ class CollaborationManager {
     const session = this.sessions.get(conversationId)
     if (!session) return
 
+    // Messages posted through other instances are only in Redis
+    let recentMessages = session.messages.slice(-20)
+    try {
+      const stored = await redis.lrange(`collaboration:messages:${conversationId}`, 0, 19)
+      if (stored.length > 0) {
+        recentMessages = stored.map(message => JSON.parse(message)).reverse()
+      }
+    } catch (error) {
+      console.error('Error fetching collaboration messages:', error)
+    }
+
     // Send current participants
     ws.send(JSON.stringify({
       type: 'sync',
       conversationId,
+      userId,
       data: {
-        participants: Array.from(session.participants.values()),
-        recentMessages: session.messages.slice(-20) // Last 20 messages
+        self: session.participants.get(userId),
+        participants: await this.getConversationParticipants(conversationId),
+        recentMessages // Last 20 messages
       },
       timestamp: Date.now()
     }))
   }
 
+  // Deliver locally right away, then publish for the other instances
   private async broadcastToConversation(
     conversationId: string,
     message: CollaborationMessage,
     excludeUserId?: string
+  ) {
+    this.deliverToConversation(conversationId, message, excludeUserId)
+
+    const broadcast: CollaborationBroadcast = { origin: this.instanceId, conversationId, message, excludeUserId }
+    try {
+      await redis.publish(BROADCAST_CHANNEL, JSON.stringify(broadcast))
+    } catch (error) {
+      console.error('Error publishing collaboration broadcast:', error)
+    }
+  }
+
+  private handleBroadcast(raw: string) {
+    try {
+      const broadcast: CollaborationBroadcast = JSON.parse(raw)
+      // Already delivered locally by broadcastToConversation
+      if (broadcast.origin === this.instanceId) return
+
+      const session = this.sessions.get(broadcast.conversationId)
+      if (session && broadcast.message.type === 'message') {
+        session.messages.push(broadcast.message)
+        if (session.messages.length > 100) {
+          session.messages = session.messages.slice(-100)
+        }
+      }
+
+      this.deliverToConversation(broadcast.conversationId, broadcast.message, broadcast.excludeUserId)
+    } catch (error) {
+      console.error('Error handling collaboration broadcast:', error)
+    }
+  }
+
+  private deliverToConversation(
+    conversationId: string,
+    message: CollaborationMessage,
+    excludeUserId?: string
   ) {
     const session = this.sessions.get(conversationId)
     if (!session) return
 
     const messageStr = JSON.stringify(message)
 
-    for (const [participantId, participant] of session.participants) {
+    for (const [ws, participantId] of session.connections) {
       if (excludeUserId && participantId === excludeUserId) continue
 
-      const connections = this.userConnections.get(participantId)
-      if (!connections) continue
-
-      for (const ws of connections) {
-        if (ws.readyState === WebSocket.OPEN) {
-          try {
-            ws.send(messageStr)
-          } catch (error) {
-            console.error(`Error sending message to user ${participantId}:`, error)
-          }
+      if (ws.readyState === WebSocket.OPEN) {
+        try {
+          ws.send(messageStr)
+        } catch (error) {
+          console.error(`Error sending message to user ${participantId}:`, error)
         }
       }
     }
@@ -398,39 +603,70 @@ class CollaborationManager {
 
     for (const [conversationId, session] of this.sessions) {
       if (now - session.lastActivity > maxInactivity) {
-        console.log(`Cleaning up inactive collaboration session: ${conversationId}`)
-        this.sessions.delete(conversationId)
-        
-        // Clean up Redis data
-        redis.del(`collaboration:${conversationId}`)
-          .catch(error => console.error('Error cleaning up Redis collaboration data:', error))
+        console.log(`[Collaboration] Closing inactive session: ${conversationId}`)
+        // Presence is cleaned up by the close handlers
+        for (const ws of session.connections.keys()) {
+          ws.close(1000, 'Session inactive')
+        }
       }
     }
   }
 
-  // Public methods for external use
-  getActiveConversations(): string[] {
-    return Array.from(this.sessions.keys())
+  // Public methods for external use; these read Redis so they work from any process
+
+  async getActiveConversations(): Promise<string[]> {
+    try {
+      return await redis.smembers(ACTIVE_CONVERSATIONS_KEY)
+    } catch (error) {
+      console.error('Error getting active collaboration sessions:', error)
+      return Array.from(this.sessions.keys())
+    }
   }
 
-  getConversationParticipants(conversationId: string): UserPresence[] {
+  async getConversationParticipants(conversationId: string): Promise<UserPresence[]> {
     const session = this.sessions.get(conversationId)
-    return session ? Array.from(session.participants.values()) : []
+
+    try {
+      const stored = await redis.hgetall(`collaboration:${conversationId}`)
+      return Object.values(stored).map(value => {
+        const presence = JSON.parse(value)
+        const local = session?.participants.get(presence.userId)
+        return local || {
+          userId: presence.userId,
+          username: presence.username,
+          lastSeen: presence.lastSeen,
+          isTyping: false
+        }
+      })
+    } catch (error) {
+      console.error('Error getting collaboration participants:', error)
+      return session ? Array.from(session.participants.values()) : []
+    }
   }
 
   async getConversationStats() {
+    const conversationIds = await this.getActiveConversations()
+    const sessionsPerConversation = await Promise.all(conversationIds.map(async id => ({
+      conversationId: id,
+      participants: (await this.getConversationParticipants(id)).length,
+      lastActivity: this.sessions.get(id)?.lastActivity
+    })))
+
     return {
-      activeSessions: this.sessions.size,
-      totalConnections: Array.from(this.userConnections.values())
-        .reduce((sum, connections) => sum + connections.size, 0),
-      sessionsPerConversation: Array.from(this.sessions.entries())
-        .map(([id, session]) => ({
-          conversationId: id,
-          participants: session.participants.size,
-          lastActivity: session.lastActivity
-        }))
+      activeSessions: conversationIds.length,
+      // Sockets on this process; zero outside the collaboration service
+      localConnections: Array.from(this.sessions.values())
+        .reduce((sum, session) => sum + session.connections.size, 0),
+      sessionsPerConversation
     }
   }
 }
 
-export const collaborationManager = new CollaborationManager()
\ No newline at end of file
+export const collaborationManager = new CollaborationManager()
+
+// Where clients connect: NEXT_PUBLIC_COLLABORATION_URL when the service runs on its own
+// host or port, otherwise the app's own origin behind a proxy that forwards the path
+export function getCollaborationWebSocketUrl(conversationId: string): string {
+  const base = (process.env.NEXT_PUBLIC_COLLABORATION_URL || '').replace(/\/$/, '')
+  return `${base}${COLLABORATION_WS_PATH}?conversationId=${encodeURIComponent(conversationId)}`
+}
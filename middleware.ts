@@ -0,0 +1,114 @@
+// Global rate limiting for every API route, plus monthly spend budgets for paid routes
+// Runs on the edge runtime, so the Redis-backed checks themselves happen in /api/rate-limit
+import { NextRequest, NextResponse } from 'next/server'
+import { RATE_LIMIT_SECRET, RATE_LIMIT_ORIGIN } from './lib/rate-limit-secret'
+
+// Polling and infrastructure endpoints that would otherwise burn through a caller's quota
+const EXEMPT_PATHS = [
+  '/api/rate-limit',
+  '/api/health',
+  '/api/fact-check-progress',
+  '/api/fact-check/jobs'
+]
+
+// Forwarded so the limiter can identify the caller by session, API key or IP
+const FORWARDED_HEADERS = ['authorization', 'x-api-key', 'cookie', 'x-forwarded-for', 'x-real-ip', 'cf-connecting-ip', 'user-agent']
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+
+  if (request.method === 'OPTIONS' || EXEMPT_PATHS.some(path => pathname === path || pathname.startsWith(`${path}/`))) {
+    return NextResponse.next()
+  }
+
+  if (!RATE_LIMIT_SECRET || !RATE_LIMIT_ORIGIN) {
+    if (process.env.NODE_ENV === 'production') {
+      console.error('[RateLimit] RATE_LIMIT_SECRET and INTERNAL_URL (or APP_URL) must be set; refusing API requests')
+      return NextResponse.json({ error: 'Service unavailable', message: 'Rate limiting is not configured' }, { status: 503 })
+    }
+    // Local development without any secrets configured
+    return NextResponse.next()
+  }
+
+  const headers = new Headers({
+    'x-rate-limit-secret': RATE_LIMIT_SECRET,
+    'x-rate-limit-path': pathname
+  })
+  FORWARDED_HEADERS.forEach(name => {
+    const value = request.headers.get(name)
+    if (value) headers.set(name, value)
+  })
+
+  let limiterResponse: Response
+  try {
+    limiterResponse = await fetch(`${RATE_LIMIT_ORIGIN}/api/rate-limit`, { method: 'POST', headers })
+  } catch (error) {
+    // Fail open: an unreachable limiter must not take the API down with it
+    console.error('[RateLimit] Middleware check failed:', error instanceof Error ? error.message : error)
+    return NextResponse.next()
+  }
+
+  // A limiter that answers with an error (e.g. a secret mismatch) is misconfigured, not down
+  if (!limiterResponse.ok) {
+    console.error(`[RateLimit] Limiter responded with ${limiterResponse.status}`)
+    return NextResponse.json({ error: 'Service unavailable', message: 'Rate limit check failed' }, { status: 503 })
+  }
+
+  let check: { allowed: boolean, headers: { [key: string]: string }, result?: any, budget?: any, forbidden?: any }
+  try {
+    check = await limiterResponse.json()
+  } catch (error) {
+    console.error('[RateLimit] Limiter returned an unreadable response:', error instanceof Error ? error.message : error)
+    return NextResponse.json({ error: 'Service unavailable', message: 'Rate limit check failed' }, { status: 503 })
+  }
+
+  if (!check.allowed && check.forbidden) {
+    return NextResponse.json({
+      error: 'Insufficient scope',
+      message: check.forbidden.message,
+      requiredScope: check.forbidden.scope
+    }, { status: 403 })
+  }
+
+  if (!check.allowed && check.budget) {
+    const { budget } = check
+    return NextResponse.json({
+      error: 'Monthly budget exceeded',
+      message: `This account has used its ${budget.budget} cost units for the month. Usage resets ${budget.resetAt}.`,
+      budgetInfo: budget
+    }, {
+      status: 429,
+      headers: check.headers
+    })
+  }
+
+  if (!check.allowed && check.result) {
+    const { result } = check
+    return NextResponse.json({
+      error: 'Rate limit exceeded',
+      message: `Too many requests. Limit: ${result.limit} requests per ${Math.round((result.windowSizeMs || 0) / 60000)} minutes. Try again in ${Math.ceil((result.retryAfter || 0) / 60)} minutes.`,
+      rateLimitInfo: {
+        limit: result.limit,
+        remaining: result.remaining,
+        resetTime: new Date(result.resetTime).toISOString(),
+        retryAfter: result.retryAfter,
+        tier: result.rateLimitType
+      }
+    }, {
+      status: 429,
+      headers: check.headers
+    })
+  }
+
+  // Routes can read the caller's limit status from the request headers too
+  const requestHeaders = new Headers(request.headers)
+  Object.entries(check.headers).forEach(([key, value]) => requestHeaders.set(key, value))
+
+  const response = NextResponse.next({ request: { headers: requestHeaders } })
+  Object.entries(check.headers).forEach(([key, value]) => response.headers.set(key, value))
+  return response
+}
+
+export const config = {
+  matcher: '/api/:path*'
+}
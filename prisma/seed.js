@@ -69,6 +69,8 @@ async function main() {
   const credibilityData = [
     {
       domain: 'ipcc.ch',
+      reason: 'Sample editorial annotation',
+      provenance: 'prisma/seed.js',
       credibilityData: {
         score: 95,
         type: 'government',
@@ -78,6 +80,8 @@ async function main() {
     },
     {
       domain: 'snopes.com',
+      reason: 'Sample editorial annotation',
+      provenance: 'prisma/seed.js',
       credibilityData: {
         score: 85,
         type: 'factcheck', 
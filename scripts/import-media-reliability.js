@@ -0,0 +1,308 @@
+#!/usr/bin/env node
+
+/**
+ * Import a media-reliability dataset (MediaRank dump, Iffy-style list, in-house list)
+ * from a local CSV or JSON file, then rebuild the merged MediaRank table.
+ *
+ * Usage:
+ *   node scripts/import-media-reliability.js <file> --name <dataset> --attribution "<text>"
+ *     [--license <text>] [--url <url>] [--version <v>] [--priority <n>]
+ *     [--format csv|json] [--score-scale <max>] [--default-reliable true|false]
+ *   node scripts/import-media-reliability.js --remove <dataset>
+ *
+ * Columns are detected by header name: domain/url/site, name/outlet, rank, score/credibility,
+ * reliable, rating/factual. Scores are rescaled to 0-100 from --score-scale (default 100).
+ * Iffy-style lists that only list domains should pass --default-reliable false.
+ */
+
+const { PrismaClient } = require('@prisma/client')
+const fs = require('fs')
+const path = require('path')
+
+const prisma = new PrismaClient()
+
+const COLUMN_ALIASES = {
+  domain: ['domain', 'url', 'site', 'website', 'hostname', 'host', 'source_url'],
+  name: ['name', 'outlet', 'title', 'source', 'publication'],
+  rank: ['rank', 'ranking', 'position'],
+  score: ['score', 'credibility', 'credibility_score', 'reliability', 'reliability_score'],
+  reliable: ['reliable', 'is_reliable', 'trusted'],
+  rating: ['rating', 'factual', 'factual_reporting', 'label', 'category', 'mbfc_fact']
+}
+
+const UNRELIABLE_RATINGS = ['low', 'very low', 'unreliable', 'questionable', 'iffy', 'fake', 'satire', 'conspiracy', 'pseudoscience']
+const RELIABLE_RATINGS = ['high', 'very high', 'mostly factual', 'reliable', 'trusted']
+
+// Must stay in sync with normalizeMediaDomain in lib/mediarank.ts
+function normalizeDomain(value) {
+  return String(value)
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .split(/[/?#]/)[0]
+    .replace(/:\d+$/, '')
+    .replace(/\.$/, '')
+    .replace(/^(www\d*|m|mobile|amp)\.(?=[^.]+\.[^.]+)/, '')
+}
+
+function parseArgs(argv) {
+  const args = { file: null }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg.startsWith('--')) {
+      args[arg.slice(2)] = argv[i + 1]
+      i++
+    } else if (!args.file) {
+      args.file = arg
+    }
+  }
+  return args
+}
+
+// RFC 4180-style CSV: quoted fields may contain commas, newlines and doubled quotes
+function parseCsv(text) {
+  const rows = []
+  let row = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  const nonEmpty = rows.filter(r => r.some(value => value.trim()))
+  if (nonEmpty.length === 0) return []
+
+  const headers = nonEmpty[0].map(header => header.trim().toLowerCase().replace(/\s+/g, '_'))
+  return nonEmpty.slice(1).map(values => {
+    const record = {}
+    headers.forEach((header, index) => { record[header] = (values[index] || '').trim() })
+    return record
+  })
+}
+
+function parseJson(text) {
+  const data = JSON.parse(text)
+  if (Array.isArray(data)) {
+    // Plain domain lists are allowed: ["example.com", ...]
+    return data.map(item => typeof item === 'string' ? { domain: item } : item)
+  }
+  if (Array.isArray(data.sources)) return data.sources
+  if (Array.isArray(data.entries)) return data.entries
+  // Keyed by domain: { "example.com": { ... } }
+  return Object.entries(data).map(([domain, value]) => ({ domain, ...(typeof value === 'object' ? value : { rating: value }) }))
+}
+
+function pick(record, column) {
+  const key = Object.keys(record).find(k => COLUMN_ALIASES[column].includes(k.toLowerCase()))
+  const value = key ? record[key] : undefined
+  return value === '' || value === null ? undefined : value
+}
+
+function parseScore(value, scale) {
+  if (value === undefined) return null
+  const number = parseFloat(value)
+  if (isNaN(number)) return null
+  return Math.max(0, Math.min(100, Math.round(number / scale * 100)))
+}
+
+function parseReliable(reliable, rating, defaultReliable) {
+  if (reliable !== undefined) {
+    const value = String(reliable).toLowerCase()
+    if (['true', 'yes', '1'].includes(value)) return true
+    if (['false', 'no', '0'].includes(value)) return false
+  }
+  if (rating !== undefined) {
+    const value = String(rating).toLowerCase().trim()
+    if (UNRELIABLE_RATINGS.includes(value)) return false
+    if (RELIABLE_RATINGS.includes(value)) return true
+  }
+  return defaultReliable
+}
+
+function toEntries(records, { defaultReliable, scoreScale }) {
+  const entries = new Map()
+  let skipped = 0
+
+  for (const record of records) {
+    const rawDomain = pick(record, 'domain')
+    const domain = rawDomain ? normalizeDomain(rawDomain) : ''
+    if (!domain || !domain.includes('.')) {
+      skipped++
+      continue
+    }
+
+    const rank = parseInt(pick(record, 'rank'), 10)
+    const rating = pick(record, 'rating')
+    const entry = {
+      domain,
+      name: pick(record, 'name') || null,
+      rank: Number.isInteger(rank) && rank > 0 ? rank : null,
+      score: parseScore(pick(record, 'score'), scoreScale),
+      reliable: parseReliable(pick(record, 'reliable'), rating, defaultReliable),
+      rating: rating !== undefined ? String(rating) : null,
+      raw: record
+    }
+
+    // Duplicate rows (e.g. www and bare domain) keep the better rank
+    const existing = entries.get(domain)
+    if (!existing || (entry.rank !== null && (existing.rank === null || entry.rank < existing.rank))) {
+      entries.set(domain, entry)
+    }
+  }
+
+  return { entries: Array.from(entries.values()), skipped }
+}
+
+/**
+ * Rebuild merged MediaRankSource rows for the given domains from every dataset's entries.
+ * Higher-priority datasets win on name and rank; scores are averaged; any "unreliable" flag wins.
+ */
+async function rebuildMerged(domains) {
+  const list = Array.from(domains)
+  const chunkSize = 500
+
+  for (let i = 0; i < list.length; i += chunkSize) {
+    const chunk = list.slice(i, i + chunkSize)
+    const entries = await prisma.mediaReliabilityEntry.findMany({
+      where: { domain: { in: chunk } },
+      include: { dataset: { select: { name: true, priority: true } } }
+    })
+
+    const byDomain = new Map()
+    for (const entry of entries) {
+      if (!byDomain.has(entry.domain)) byDomain.set(entry.domain, [])
+      byDomain.get(entry.domain).push(entry)
+    }
+
+    for (const domain of chunk) {
+      const domainEntries = (byDomain.get(domain) || [])
+        .sort((a, b) => b.dataset.priority - a.dataset.priority || (a.rank ?? Number.MAX_SAFE_INTEGER) - (b.rank ?? Number.MAX_SAFE_INTEGER))
+
+      if (domainEntries.length === 0) {
+        await prisma.mediaRankSource.deleteMany({ where: { domain } })
+        continue
+      }
+
+      const scores = domainEntries.map(e => e.score).filter(score => score !== null)
+      const flags = domainEntries.map(e => e.reliable).filter(flag => flag !== null)
+      const merged = {
+        name: (domainEntries.find(e => e.name) || {}).name || domain,
+        rank: (domainEntries.find(e => e.rank !== null) || {}).rank ?? null,
+        credibilityScore: scores.length > 0 ? Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length) : null,
+        reliable: flags.includes(false) ? false : flags.includes(true) ? true : null,
+        datasets: domainEntries.map(e => e.dataset.name)
+      }
+
+      await prisma.mediaRankSource.upsert({
+        where: { domain },
+        update: merged,
+        create: { domain, ...merged }
+      })
+    }
+  }
+}
+
+async function importDataset(args) {
+  if (!args.name || !args.attribution) {
+    throw new Error('--name and --attribution are required so every entry can be attributed')
+  }
+
+  const filePath = path.resolve(args.file)
+  const format = args.format || (path.extname(filePath).toLowerCase() === '.json' ? 'json' : 'csv')
+  const text = fs.readFileSync(filePath, 'utf-8')
+  const records = format === 'json' ? parseJson(text) : parseCsv(text)
+  const defaultReliable = args['default-reliable'] === undefined ? null : args['default-reliable'] === 'true'
+  const scoreScale = args['score-scale'] ? parseFloat(args['score-scale']) : 100
+  const { entries, skipped } = toEntries(records, { defaultReliable, scoreScale })
+
+  console.log(`📄 Parsed ${records.length} rows from ${path.basename(filePath)} (${entries.length} domains, ${skipped} skipped)`)
+
+  const datasetFields = {
+    attribution: args.attribution,
+    license: args.license || null,
+    url: args.url || null,
+    version: args.version || null,
+    priority: args.priority ? parseInt(args.priority, 10) : 0,
+    entryCount: entries.length,
+    importedAt: new Date()
+  }
+  const dataset = await prisma.mediaReliabilityDataset.upsert({
+    where: { name: args.name },
+    update: datasetFields,
+    create: { name: args.name, ...datasetFields }
+  })
+
+  // Re-importing a dataset replaces its previous entries
+  const previous = await prisma.mediaReliabilityEntry.findMany({ where: { datasetId: dataset.id }, select: { domain: true } })
+  await prisma.mediaReliabilityEntry.deleteMany({ where: { datasetId: dataset.id } })
+  await prisma.mediaReliabilityEntry.createMany({
+    data: entries.map(entry => ({ ...entry, datasetId: dataset.id }))
+  })
+
+  const affected = new Set([...previous.map(e => e.domain), ...entries.map(e => e.domain)])
+  await rebuildMerged(affected)
+
+  console.log(`✅ Imported "${args.name}" and merged ${affected.size} domains`)
+}
+
+async function removeDataset(name) {
+  const dataset = await prisma.mediaReliabilityDataset.findUnique({ where: { name } })
+  if (!dataset) throw new Error(`Dataset "${name}" not found`)
+
+  const entries = await prisma.mediaReliabilityEntry.findMany({ where: { datasetId: dataset.id }, select: { domain: true } })
+  await prisma.mediaReliabilityDataset.delete({ where: { id: dataset.id } })
+  await rebuildMerged(new Set(entries.map(e => e.domain)))
+
+  console.log(`🗑️  Removed "${name}" and re-merged ${entries.length} domains`)
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+
+  if (args.remove) {
+    await removeDataset(args.remove)
+  } else if (args.file) {
+    await importDataset(args)
+  } else {
+    console.log('Usage: node scripts/import-media-reliability.js <file.csv|file.json> --name <dataset> --attribution "<text>" [options]')
+    console.log('       node scripts/import-media-reliability.js --remove <dataset>')
+    process.exit(1)
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Import failed:', e.message || e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
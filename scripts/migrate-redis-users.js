@@ -0,0 +1,224 @@
+#!/usr/bin/env node
+
+/**
+ * Copy auth accounts, live sessions and API keys from the old Redis-only store into Postgres.
+ * Safe to re-run: rows that already exist are left alone. Users who sign in before this runs
+ * are migrated one at a time by AuthManager.
+ *
+ * Usage:
+ *   node scripts/migrate-redis-users.js [--dry-run] [--cleanup]
+ *
+ * --cleanup deletes the migrated Redis user, password and index keys afterwards.
+ */
+
+const { PrismaClient } = require('@prisma/client')
+const { Redis } = require('ioredis')
+
+const prisma = new PrismaClient()
+const redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', { maxRetriesPerRequest: 3 })
+
+const args = process.argv.slice(2)
+const dryRun = args.includes('--dry-run')
+const cleanup = args.includes('--cleanup')
+
+// Must stay in sync with DEFAULT_SETTINGS in lib/auth.ts
+const DEFAULT_SETTINGS = {
+  theme: 'auto',
+  notifications: true,
+  collaborationDefault: false,
+  preferredEngines: ['perplexity', 'gemini']
+}
+
+async function scanKeys(pattern) {
+  const keys = []
+  let cursor = '0'
+  do {
+    const [next, batch] = await redis.scan(cursor, 'MATCH', pattern, 'COUNT', 500)
+    cursor = next
+    keys.push(...batch)
+  } while (cursor !== '0')
+  return keys
+}
+
+async function migrateUsers() {
+  const stats = { migrated: 0, existing: 0, conflicts: 0 }
+  const migratedIds = []
+
+  for (const key of await scanKeys('auth:user:*')) {
+    const data = await redis.get(key)
+    if (!data) continue
+
+    const user = JSON.parse(data)
+    const existing = await prisma.user.findUnique({ where: { id: user.id } })
+    if (existing) {
+      stats.existing++
+      migratedIds.push(user.id)
+      continue
+    }
+
+    // Someone re-registered the same email or username after the Redis record was written
+    const email = user.email.toLowerCase()
+    const conflict = await prisma.user.findFirst({
+      where: { OR: [{ email }, { username: { equals: user.username, mode: 'insensitive' } }] },
+      select: { id: true }
+    })
+    if (conflict) {
+      console.warn(`⚠️  Skipping ${email}: email or username already belongs to user ${conflict.id}`)
+      stats.conflicts++
+      continue
+    }
+
+    if (!dryRun) {
+      await prisma.user.create({
+        data: {
+          id: user.id,
+          email,
+          username: user.username,
+          name: user.fullName,
+          avatar: user.avatar,
+          role: user.role || 'user',
+          tier: user.tier || 'free',
+          emailVerified: !!user.emailVerified,
+          // Redis accounts never had a TOTP secret, so there is no second factor to carry over
+          twoFactorEnabled: false,
+          settings: { ...DEFAULT_SETTINGS, ...user.settings },
+          passwordHash: await redis.get(`auth:password:${user.id}`),
+          createdAt: new Date(user.createdAt),
+          lastLoginAt: user.lastLoginAt ? new Date(user.lastLoginAt) : null
+        }
+      })
+    }
+    stats.migrated++
+    migratedIds.push(user.id)
+  }
+
+  return { stats, migratedIds }
+}
+
+async function migrateSessions() {
+  let migrated = 0
+
+  for (const key of await scanKeys('auth:session:*')) {
+    const data = await redis.get(key)
+    if (!data) continue
+
+    const session = JSON.parse(data)
+    if (session.apiKeyId || Date.now() > session.expiresAt) continue
+
+    if (!dryRun) {
+      const user = await prisma.user.findUnique({ where: { id: session.userId }, select: { id: true } })
+      if (!user) continue
+
+      await prisma.authSession.upsert({
+        where: { id: session.sessionId },
+        update: {},
+        create: {
+          id: session.sessionId,
+          userId: session.userId,
+          expiresAt: new Date(session.expiresAt),
+          createdAt: new Date(session.issuedAt)
+        }
+      })
+    }
+    migrated++
+  }
+
+  return migrated
+}
+
+async function migrateApiKeys() {
+  let migrated = 0
+
+  for (const key of await scanKeys('auth:api_key:*')) {
+    const data = await redis.get(key)
+    if (!data) continue
+
+    const apiKey = JSON.parse(data)
+    if (!apiKey.keyHash) continue
+
+    if (!dryRun) {
+      const user = await prisma.user.findUnique({ where: { id: apiKey.userId }, select: { id: true } })
+      if (!user) continue
+
+      await prisma.apiKey.upsert({
+        where: { id: apiKey.id },
+        update: {},
+        create: {
+          id: apiKey.id,
+          userId: apiKey.userId,
+          name: apiKey.name,
+          prefix: apiKey.prefix,
+          keyHash: apiKey.keyHash,
+          scopes: apiKey.scopes,
+          rateLimitPerHour: apiKey.rateLimitPerHour || null,
+          createdAt: new Date(apiKey.createdAt),
+          lastUsedAt: apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt) : null,
+          expiresAt: apiKey.expiresAt ? new Date(apiKey.expiresAt) : null,
+          revokedAt: apiKey.revokedAt ? new Date(apiKey.revokedAt) : null
+        }
+      })
+    }
+    migrated++
+  }
+
+  return migrated
+}
+
+async function removeLegacyKeys(userIds) {
+  for (const userId of userIds) {
+    const data = await redis.get(`auth:user:${userId}`)
+    if (!data) continue
+
+    const user = JSON.parse(data)
+    await redis.del(
+      `auth:user:${userId}`,
+      `auth:password:${userId}`,
+      `auth:email:${user.email.toLowerCase()}`,
+      `auth:username:${user.username.toLowerCase()}`,
+      `auth:user_api_keys:${userId}`
+    )
+  }
+
+  // Keys of users that weren't migrated (conflicts, missing records) must keep working
+  const migrated = new Set(userIds)
+  for (const key of await scanKeys('auth:api_key:*')) {
+    const data = await redis.get(key)
+    if (!data) continue
+
+    const apiKey = JSON.parse(data)
+    if (!migrated.has(apiKey.userId)) continue
+
+    await redis.del(key, ...(apiKey.keyHash ? [`auth:api_key_hash:${apiKey.keyHash}`] : []))
+  }
+}
+
+async function main() {
+  console.log(`🔄 Migrating Redis auth data to Postgres${dryRun ? ' (dry run)' : ''}...`)
+
+  const { stats, migratedIds } = await migrateUsers()
+  console.log(`👤 Users: ${stats.migrated} migrated, ${stats.existing} already in Postgres, ${stats.conflicts} conflicts`)
+
+  const sessions = await migrateSessions()
+  console.log(`🔑 Sessions: ${sessions} live sessions migrated`)
+
+  const apiKeys = await migrateApiKeys()
+  console.log(`🗝️  API keys: ${apiKeys} migrated`)
+
+  // Session keys stay: Redis is still the session cache
+  if (cleanup && !dryRun) {
+    await removeLegacyKeys(migratedIds)
+    console.log(`🧹 Removed legacy Redis records for ${migratedIds.length} users`)
+  }
+
+  console.log('✅ Migration complete')
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Migration failed:', e.message || e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+    redis.disconnect()
+  })
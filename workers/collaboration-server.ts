@@ -0,0 +1,37 @@
+// Standalone collaboration WebSocket service: npm run collaboration
+// Run as many instances as needed behind a load balancer; they coordinate through Redis
+import http from 'http'
+import { redis } from '../lib/db'
+import { collaborationManager, COLLABORATION_WS_PATH } from '../lib/websocket-server'
+
+const port = parseInt(process.env.COLLABORATION_PORT || '3001', 10)
+
+// Plain HTTP only answers health checks; everything else is the WebSocket upgrade
+const server = http.createServer(async (request, response) => {
+  if (request.url === '/health') {
+    // Without Redis, instances can't see each other's participants or broadcasts
+    const redisOk = await redis.ping().then(() => true, () => false)
+    const stats = await collaborationManager.getConversationStats()
+    response.writeHead(redisOk ? 200 : 503, { 'Content-Type': 'application/json' })
+    response.end(JSON.stringify({ status: redisOk ? 'ok' : 'degraded', ...stats }))
+    return
+  }
+
+  response.writeHead(404, { 'Content-Type': 'application/json' })
+  response.end(JSON.stringify({ error: `Connect with a WebSocket to ${COLLABORATION_WS_PATH}` }))
+})
+
+collaborationManager.initialize(server)
+
+async function shutdown(signal: string) {
+  console.log(`[Collaboration] ${signal} received, closing connections`)
+  await collaborationManager.shutdown()
+  server.close(() => process.exit(0))
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'))
+process.on('SIGINT', () => shutdown('SIGINT'))
+
+server.listen(port, () => {
+  console.log(`[Collaboration] Listening on port ${port} (${COLLABORATION_WS_PATH})`)
+})
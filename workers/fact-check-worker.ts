@@ -0,0 +1,20 @@
+// Standalone fact-check job worker: npm run worker:fact-checks
+import { FactCheckJobWorker } from '../app/api/fact-check/job-worker'
+
+const worker = new FactCheckJobWorker({
+  concurrency: parseInt(process.env.FACT_CHECK_WORKER_CONCURRENCY || '2', 10)
+})
+
+async function shutdown(signal: string) {
+  console.log(`[JobWorker] ${signal} received, finishing in-flight jobs`)
+  await worker.stop()
+  process.exit(0)
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'))
+process.on('SIGINT', () => shutdown('SIGINT'))
+
+worker.start().catch(error => {
+  console.error('[JobWorker] Failed to start:', error)
+  process.exit(1)
+})
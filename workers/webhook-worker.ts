@@ -0,0 +1,20 @@
+// Standalone webhook delivery worker: npm run worker:webhooks
+import { WebhookDeliveryWorker } from '../lib/webhook-worker'
+
+const worker = new WebhookDeliveryWorker({
+  concurrency: parseInt(process.env.WEBHOOK_WORKER_CONCURRENCY || '4', 10)
+})
+
+async function shutdown(signal: string) {
+  console.log(`[WebhookWorker] ${signal} received, finishing in-flight deliveries`)
+  await worker.stop()
+  process.exit(0)
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'))
+process.on('SIGINT', () => shutdown('SIGINT'))
+
+worker.start().catch(error => {
+  console.error('[WebhookWorker] Failed to start:', error)
+  process.exit(1)
+})